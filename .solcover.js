@@ -1,3 +1,5 @@
 module.exports = {
   skipFiles: ["test"],
+  // Lootery is compiled via IR
+  configureYulOptimizer: true,
 };
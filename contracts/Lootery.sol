@@ -41,6 +41,10 @@ import {ILooteryFactory} from "./interfaces/ILooteryFactory.sol";
 ///
 ///     While the jackpot builds up over time, it is possible (and desirable)
 ///     to seed the jackpot at any time using the `seedJackpot` function.
+///
+///     The owner may also set up prize tiers for tickets that match some, but
+///     not all, of the winning numbers. Each tier with winners reserves a
+///     share of the game's pot, which its winners split like the jackpot.
 contract Lootery is
     Initializable,
     ILootery,
@@ -54,6 +58,15 @@ contract Lootery is
 
     /// @notice The protocol fee, taken from purchase fee, if switched on
     uint256 public constant PROTOCOL_FEE_BPS = 500;
+    /// @notice Maximum number of subsets counted per ticket for prize tiers.
+    ///     This bounds the gas of purchases, and of counting the winning
+    ///     pick's subsets in the draw callback (see `callbackGasLimit`).
+    uint256 public constant MAX_PRIZE_TIER_SUBSETS = 64;
+    /// @notice Callback gas limit without prize tiers, enough to draw 32 balls
+    uint256 internal constant BASE_CALLBACK_GAS_LIMIT = 500_000;
+    /// @notice Callback gas limit that fits counting the winners of any prize
+    ///     tiers that `MAX_PRIZE_TIER_SUBSETS` allows
+    uint256 internal constant MAX_CALLBACK_GAS_LIMIT = 1_000_000;
 
     /// @notice The factory that gave birth to this lootery contract
     address public factory;
@@ -114,13 +127,36 @@ contract Lootery is
     EnumerableSet.AddressSet private _beneficiaries;
     /// @notice Beneficiary display names for human readability
     mapping(address beneficiary => string name) public beneficiaryDisplayNames;
+    /// @notice Prize tiers for partial matches, ascending by number of matches
+    PrizeTier[] internal _prizeTiers;
+    /// @notice Game id => subset identity => # tickets whose pick contains
+    ///     the subset. Only subsets that could match a prize tier are counted.
+    mapping(uint256 gameId => mapping(uint256 subsetId => uint256))
+        internal _numTicketsContaining;
+    /// @notice Game id => # matches => # tickets that matched exactly that
+    ///     many winning balls; only counted for prize tiers
+    mapping(uint256 gameId => mapping(uint256 matches => uint256))
+        public numPrizeTierWinners;
+    /// @notice Game id => # matches => # claimed prize tier tickets
+    mapping(uint256 gameId => mapping(uint256 matches => uint256))
+        public numClaimedPrizeTierTickets;
+    /// @notice # matches => payouts reserved for the prize tier in the last
+    ///     game; will be rolled over if not claimed in current game
+    mapping(uint256 matches => uint256) public unclaimedPrizeTierPayouts;
+    /// @notice Bitmap of the # matches of the last game's prize tiers that
+    ///     have unclaimed payouts
+    uint256 internal _unclaimedPrizeTiers;
+    /// @notice Maximum number of free tickets the owner may pick per game
+    uint256 public maxOwnerPicksPerGame;
+    /// @notice Game id => # free tickets picked by the owner
+    mapping(uint256 gameId => uint256) public numOwnerPicks;
 
     constructor() {
         _disableInitializers();
     }
 
     function typeAndVersion() external pure returns (string memory) {
-        return "Lootery 1.9.0";
+        return "Lootery 1.12.0";
     }
 
     /// @dev The contract should be able to receive Ether to pay for VRF.
@@ -131,10 +167,16 @@ contract Lootery is
     /// @notice Only allow calls in the specified game state
     /// @param state Required game state
     modifier onlyInState(GameState state) {
+        _checkState(state);
+        _;
+    }
+
+    /// @notice Revert unless the game is in the specified state
+    /// @param state Required game state
+    function _checkState(GameState state) internal view {
         if (currentGame.state != state) {
             revert UnexpectedState(currentGame.state);
         }
-        _;
     }
 
     /// @notice Initialisoooooooor
@@ -197,7 +239,7 @@ contract Lootery is
 
         _setTicketSVGRenderer(initConfig.ticketSVGRenderer);
 
-        callbackGasLimit = 500_000;
+        callbackGasLimit = BASE_CALLBACK_GAS_LIMIT;
 
         currentGame.state = GameState.Purchase;
         gameData[0] = Game({
@@ -254,6 +296,80 @@ contract Lootery is
         }
     }
 
+    /// @notice Get the prize tiers for partial matches
+    function prizeTiers() external view returns (PrizeTier[] memory) {
+        return _prizeTiers;
+    }
+
+    /// @notice Set the prize tiers for partial matches, replacing any
+    ///     existing tiers. Tiers are locked once the current game has sold
+    ///     tickets, since matches are counted as tickets are picked.
+    /// @param tiers Prize tiers, strictly ascending by number of matches;
+    ///     empty to only pay out the jackpot
+    function setPrizeTiers(
+        PrizeTier[] calldata tiers
+    ) external onlyOwner onlyInState(GameState.Purchase) {
+        uint256 gameId = currentGame.id;
+        if (gameData[gameId].ticketsSold != 0) {
+            revert PrizeTiersLocked(gameId);
+        }
+
+        delete _prizeTiers;
+        uint256 pickLength_ = pickLength;
+        uint256 lastMatches;
+        uint256 totalShareBps;
+        for (uint256 i; i < tiers.length; ++i) {
+            PrizeTier memory tier = tiers[i];
+            // Matching every ball wins the jackpot, not a tier
+            if (
+                tier.matches <= lastMatches ||
+                tier.matches >= pickLength_ ||
+                tier.shareBps == 0
+            ) {
+                revert InvalidPrizeTiers();
+            }
+            lastMatches = tier.matches;
+            totalShareBps += tier.shareBps;
+            _prizeTiers.push(tier);
+        }
+        uint256 numSubsets = tiers.length > 0
+            ? _numPrizeTierSubsets(pickLength_, tiers[0].matches)
+            : 0;
+        if (
+            // Leave a share of the pot for the jackpot
+            totalShareBps >= 1e4 ||
+            // Bound the gas cost of picking a ticket
+            numSubsets > MAX_PRIZE_TIER_SUBSETS
+        ) {
+            revert InvalidPrizeTiers();
+        }
+        emit PrizeTiersSet(gameId, tiers);
+
+        // Counting the winners adds to the gas of the draw callback: each tier
+        // stores its winners and payouts, and each subset of the winning pick
+        // is computed and looked up
+        uint256 gasLimit = BASE_CALLBACK_GAS_LIMIT +
+            tiers.length *
+            40_000 +
+            numSubsets *
+            (4_000 + 250 * pickLength_);
+        callbackGasLimit = gasLimit < MAX_CALLBACK_GAS_LIMIT
+            ? gasLimit
+            : MAX_CALLBACK_GAS_LIMIT;
+        emit CallbackGasLimitSet(callbackGasLimit);
+    }
+
+    /// @notice Number of subsets of a pick that are counted for prize tiers,
+    ///     i.e. subsets of at least `minMatches` balls, except the pick itself
+    function _numPrizeTierSubsets(
+        uint256 pickLength_,
+        uint256 minMatches
+    ) internal pure returns (uint256 numSubsets) {
+        for (uint256 size = minMatches; size < pickLength_; ++size) {
+            numSubsets += Pick.binomial(pickLength_, size);
+        }
+    }
+
     /// @notice Seed the jackpot.
     /// @dev We allow seeding jackpot during purchase phase only, so we don't
     ///     have to fuck around with accounting
@@ -283,9 +399,10 @@ contract Lootery is
 
     /// @notice Pick tickets and increase jackpot
     /// @param tickets Tickets!
-    function _pickTickets(
-        Ticket[] calldata tickets
-    ) internal onlyInState(GameState.Purchase) {
+    function _pickTickets(Ticket[] calldata tickets) internal {
+        // NB: Not a modifier, which would inline this function into each of
+        // its callers and blow the contract size limit
+        _checkState(GameState.Purchase);
         CurrentGame memory currentGame_ = currentGame;
         uint256 currentGameId = currentGame_.id;
 
@@ -297,6 +414,9 @@ contract Lootery is
 
         uint256 pickLength_ = pickLength;
         uint256 maxBallValue_ = maxBallValue;
+        uint256 minPrizeTierMatches = _prizeTiers.length == 0
+            ? 0
+            : _prizeTiers[0].matches;
         uint256 startingTokenId = totalSupply + 1;
         for (uint256 t; t < ticketsCount; ++t) {
             address whomst = tickets[t].whomst;
@@ -317,6 +437,13 @@ contract Lootery is
                     if (ball > maxBallValue_) revert InvalidBallValue(ball);
                     lastBall = ball;
                 }
+                if (minPrizeTierMatches != 0) {
+                    _countPrizeTierSubsets(
+                        currentGameId,
+                        pick,
+                        minPrizeTierMatches
+                    );
+                }
             }
 
             // Record picked numbers
@@ -338,6 +465,24 @@ contract Lootery is
         }
     }
 
+    /// @notice Count the subsets of a pick that could match a prize tier, so
+    ///     that the tier's winners can be counted once the game is drawn.
+    /// @param gameId Game id
+    /// @param pick Picked numbers
+    /// @param minMatches Number of matches of the lowest prize tier
+    function _countPrizeTierSubsets(
+        uint256 gameId,
+        uint8[] memory pick,
+        uint256 minMatches
+    ) internal {
+        for (uint256 size = minMatches; size < pick.length; ++size) {
+            uint256[] memory subsetIds = Pick.subsetIds(pick, size);
+            for (uint256 i; i < subsetIds.length; ++i) {
+                _numTicketsContaining[gameId][subsetIds[i]] += 1;
+            }
+        }
+    }
+
     /// @notice Purchase a ticket
     /// @param tickets Tickets! Tickets!
     /// @param beneficiary Beneficiary address to receive community fee share
@@ -398,6 +543,43 @@ contract Lootery is
         _pickTickets(tickets);
     }
 
+    /// @notice Give out free tickets in the current game, up to
+    ///     `maxOwnerPicksPerGame` per game. Free tickets don't add to the
+    ///     jackpot, but are otherwise the same as purchased tickets.
+    /// @param tickets Tickets to give out
+    function ownerPick(Ticket[] calldata tickets) external onlyOwner {
+        if (tickets.length == 0) {
+            revert NoTicketsSpecified();
+        }
+
+        uint256 currentGameId = currentGame.id;
+        uint256 numPicks = numOwnerPicks[currentGameId] + tickets.length;
+        if (numPicks > maxOwnerPicksPerGame) {
+            revert OwnerPickLimitExceeded(maxOwnerPicksPerGame);
+        }
+        numOwnerPicks[currentGameId] = numPicks;
+
+        emit OwnerPicked(currentGameId, totalSupply + 1, tickets.length);
+        _pickTickets(tickets);
+    }
+
+    /// @notice Set the maximum number of free tickets the owner may pick per
+    ///     game. The limit may only be raised before the current game has
+    ///     sold tickets, so that players know how much they may be diluted.
+    /// @param maxPicks Maximum number of free tickets per game
+    function setMaxOwnerPicksPerGame(
+        uint256 maxPicks
+    ) external onlyOwner onlyInState(GameState.Purchase) {
+        uint256 gameId = currentGame.id;
+        if (
+            maxPicks > maxOwnerPicksPerGame && gameData[gameId].ticketsSold != 0
+        ) {
+            revert OwnerPickLimitLocked(gameId);
+        }
+        maxOwnerPicksPerGame = maxPicks;
+        emit MaxOwnerPicksPerGameSet(maxPicks);
+    }
+
     /// @notice Helper to get the request price for VRF call
     function getRequestPrice() public view returns (uint256) {
         (uint256 requestPrice, ) = IAnyrand(randomiser).getRequestPrice(
@@ -516,10 +698,54 @@ contract Lootery is
         // Record winning pick bitset
         uint256 winningPickId = Pick.id(balls);
         gameData[gameId].winningPickId = winningPickId;
+        _countPrizeTierWinners(gameId, balls);
 
         _setupNextGame();
     }
 
+    /// @notice Count the tickets that matched exactly as many winning balls
+    ///     as each prize tier requires.
+    /// @dev For every number of balls j, summing the counts of tickets that
+    ///     contain each j-ball subset of the winning pick counts every ticket
+    ///     with m matches C(m, j) times. Inclusion-exclusion over j then
+    ///     yields the number of tickets with exactly k matches.
+    /// @param gameId Game id
+    /// @param balls Winning pick
+    function _countPrizeTierWinners(
+        uint256 gameId,
+        uint8[] memory balls
+    ) internal {
+        uint256 numTiers = _prizeTiers.length;
+        if (numTiers == 0) return;
+
+        uint256 pickLength_ = balls.length;
+        // totals[j] = sum of C(m, j) over tickets with m matches
+        uint256[] memory totals = new uint256[](pickLength_ + 1);
+        totals[pickLength_] = tokenByPickIdentity[gameId][Pick.id(balls)]
+            .length;
+        for (uint256 j = _prizeTiers[0].matches; j < pickLength_; ++j) {
+            uint256[] memory subsetIds = Pick.subsetIds(balls, j);
+            for (uint256 i; i < subsetIds.length; ++i) {
+                totals[j] += _numTicketsContaining[gameId][subsetIds[i]];
+            }
+        }
+
+        for (uint256 t; t < numTiers; ++t) {
+            uint8 matches = _prizeTiers[t].matches;
+            uint256 added;
+            uint256 subtracted;
+            for (uint256 j = matches; j <= pickLength_; ++j) {
+                uint256 term = Pick.binomial(j, matches) * totals[j];
+                if ((j - matches) % 2 == 0) {
+                    added += term;
+                } else {
+                    subtracted += term;
+                }
+            }
+            numPrizeTierWinners[gameId][matches] = added - subtracted;
+        }
+    }
+
     /// @dev Transition to next game, locking and/or rolling over any jackpots
     ///     as necessary.
     function _setupNextGame() internal {
@@ -545,13 +771,23 @@ contract Lootery is
         // Jackpot accounting: rollover jackpot if no winner
         uint256 winningPickId = gameData[gameId].winningPickId;
         uint256 numWinners = tokenByPickIdentity[gameId][winningPickId].length;
-        uint256 currentUnclaimedPayouts = unclaimedPayouts;
+        // Unclaimed prize tier payouts are rolled over like unclaimed jackpot
+        // payouts
+        uint256 currentUnclaimedPayouts = unclaimedPayouts +
+            _clearUnclaimedPrizeTierPayouts();
         uint256 currentJackpot = jackpot;
+        // Prize tiers with winners take their share of the pot first
+        uint256 prizeTierPayouts = _reservePrizeTierPayouts(
+            gameId,
+            currentUnclaimedPayouts + currentJackpot
+        );
 
         if (numWinners == 0 && nextState != GameState.Dead) {
             // No winners, normal game transition, current jackpot and
             // unclaimed payouts are rolled over to the next game
-            uint256 nextJackpot = currentUnclaimedPayouts + currentJackpot;
+            uint256 nextJackpot = currentUnclaimedPayouts +
+                currentJackpot -
+                prizeTierPayouts;
             uint256 nextUnclaimedPayouts = 0;
             jackpot = nextJackpot;
             unclaimedPayouts = 0;
@@ -567,7 +803,8 @@ contract Lootery is
             // => jackpot+unclaimed goes into next game's unclaimed
             uint256 nextJackpot = 0;
             uint256 nextUnclaimedPayouts = currentUnclaimedPayouts +
-                currentJackpot;
+                currentJackpot -
+                prizeTierPayouts;
             jackpot = 0;
             unclaimedPayouts = nextUnclaimedPayouts;
             emit JackpotRollover(
@@ -580,6 +817,70 @@ contract Lootery is
         }
     }
 
+    /// @notice Clear the payouts of the last game's prize tiers, once its
+    ///     claim window has closed.
+    /// @return total Sum of the unclaimed payouts
+    function _clearUnclaimedPrizeTierPayouts()
+        internal
+        returns (uint256 total)
+    {
+        uint256 tiers = _unclaimedPrizeTiers;
+        for (uint256 matches; tiers >> matches != 0; ++matches) {
+            if ((tiers >> matches) & 1 == 1) {
+                total += unclaimedPrizeTierPayouts[matches];
+                delete unclaimedPrizeTierPayouts[matches];
+            }
+        }
+        _unclaimedPrizeTiers = 0;
+    }
+
+    /// @notice Reserve a share of the pot for each prize tier with winners.
+    ///     Shares of tiers without winners stay in the pot.
+    /// @param gameId Game id
+    /// @param pot Jackpot plus unclaimed payouts of the last game
+    /// @return total Sum of the reserved payouts
+    function _reservePrizeTierPayouts(
+        uint256 gameId,
+        uint256 pot
+    ) internal returns (uint256 total) {
+        uint256 numTiers = _prizeTiers.length;
+        uint256 tiersWithPayouts;
+        for (uint256 t; t < numTiers; ++t) {
+            PrizeTier memory tier = _prizeTiers[t];
+            uint256 numTierWinners = numPrizeTierWinners[gameId][tier.matches];
+            uint256 payouts;
+            if (numTierWinners > 0) {
+                payouts = (pot * tier.shareBps) / 1e4;
+                unclaimedPrizeTierPayouts[tier.matches] = payouts;
+                tiersWithPayouts |= uint256(1) << tier.matches;
+                total += payouts;
+            }
+            emit PrizeTierRollover(
+                gameId,
+                tier.matches,
+                numTierWinners,
+                payouts
+            );
+        }
+        _unclaimedPrizeTiers = tiersWithPayouts;
+    }
+
+    /// @notice Take a prize tier winner's share of the tier's payouts
+    /// @param gameId Game id
+    /// @param matches Number of matches of the prize tier
+    /// @return prizeShare Share of the payouts
+    function _takePrizeTierShare(
+        uint256 gameId,
+        uint8 matches
+    ) internal returns (uint256 prizeShare) {
+        prizeShare =
+            unclaimedPrizeTierPayouts[matches] /
+            (numPrizeTierWinners[gameId][matches] -
+                numClaimedPrizeTierTickets[gameId][matches]);
+        unclaimedPrizeTierPayouts[matches] -= prizeShare;
+        numClaimedPrizeTierTickets[gameId][matches] += 1;
+    }
+
     /// @notice Get the number of winners in a game
     /// @param gameId Game id
     /// @param pickId Pick id
@@ -596,6 +897,60 @@ contract Lootery is
     function claimWinnings(
         uint256 tokenId
     ) external returns (uint256 prizeShare) {
+        address whomst;
+        (whomst, prizeShare) = _claimWinnings(tokenId, false);
+        // Transfer share of jackpot to ticket holder
+        IERC20(prizeToken).safeTransfer(whomst, prizeShare);
+    }
+
+    /// @notice Claim winnings with many tickets at once. Prizes are summed
+    ///     per ticket holder, who each receive a single transfer.
+    /// @param tokenIds Token ids of the tickets
+    /// @param lenient Skip tickets that didn't win, have already claimed or
+    ///     are past their claim window, instead of reverting
+    /// @return totalPrize Sum of the prizes claimed
+    function claimWinningsBatch(
+        uint256[] calldata tokenIds,
+        bool lenient
+    ) external returns (uint256 totalPrize) {
+        uint256 numTickets = tokenIds.length;
+        if (numTickets == 0) {
+            revert NoTicketsSpecified();
+        }
+
+        address[] memory recipients = new address[](numTickets);
+        uint256[] memory prizes = new uint256[](numTickets);
+        uint256 numRecipients;
+        for (uint256 i; i < numTickets; ++i) {
+            (address whomst, uint256 prizeShare) = _claimWinnings(
+                tokenIds[i],
+                lenient
+            );
+            if (whomst == address(0)) continue; // Skipped
+            // Tickets of a batch usually belong to few holders
+            uint256 r;
+            while (r < numRecipients && recipients[r] != whomst) ++r;
+            if (r == numRecipients) {
+                recipients[numRecipients++] = whomst;
+            }
+            prizes[r] += prizeShare;
+            totalPrize += prizeShare;
+        }
+        for (uint256 r; r < numRecipients; ++r) {
+            IERC20(prizeToken).safeTransfer(recipients[r], prizes[r]);
+        }
+    }
+
+    /// @notice Claim winnings with a ticket, without transferring them.
+    /// @param tokenId Token id of the ticket
+    /// @param lenient Skip the ticket if it didn't win, has already claimed
+    ///     or is past its claim window, instead of reverting
+    /// @return whomst Ticket holder to transfer the prize to; zero if skipped
+    /// @return prizeShare Prize claimed
+    function _claimWinnings(
+        uint256 tokenId,
+        bool lenient
+    ) internal returns (address whomst, uint256 prizeShare) {
         // Only allow claims during Purchase state so we don't have to deal
         // with intermediate states between gameIds.
         // Dead state is also ok since the entire game has ended forever.
@@ -606,8 +961,10 @@ contract Lootery is
             revert UnexpectedState(currentGame.state);
         }
 
-        address whomst = _ownerOf(tokenId);
+        whomst = _ownerOf(tokenId);
         if (whomst == address(0)) {
+            // Tickets that claimed a consolation share have been burnt
+            if (lenient) return (address(0), 0);
             revert ERC721NonexistentToken(tokenId);
         }
 
@@ -615,6 +972,7 @@ contract Lootery is
         uint256 currentGameId = currentGame.id;
         // Can only claim winnings from the last game
         if (ticket.gameId != currentGameId - 1) {
+            if (lenient) return (address(0), 0);
             revert ClaimWindowMissed(tokenId);
         }
 
@@ -622,6 +980,10 @@ contract Lootery is
         Game memory game = gameData[ticket.gameId];
         uint256 winningPickId = game.winningPickId;
         uint256 numWinners = numWinnersInGame(ticket.gameId, winningPickId);
+        // Otherwise, determine if a prize tier was won
+        uint8 matches = Pick.countMatches(ticket.pickId, winningPickId);
+        bool isPrizeTierWinner = numPrizeTierWinners[ticket.gameId][matches] >
+            0;
 
         if (numWinners == 0 && currentGame.state == GameState.Dead) {
             // No jackpot winners, and game is no longer active!
@@ -630,16 +992,20 @@ contract Lootery is
             prizeShare = unclaimedPayouts / totalSupply;
             // Decrease unclaimed payouts by the amount just claimed
             unclaimedPayouts -= prizeShare;
+            // The ticket can't claim again once burnt, so pay out its prize
+            // tier share along with the consolation share
+            if (isPrizeTierWinner) {
+                prizeShare += _takePrizeTierShare(ticket.gameId, matches);
+            }
             // Burning the token is our "consolation prize claim nullifier"
             _burn(tokenId); // NB: decreases totalSupply
-            // Transfer share of jackpot to ticket holder
-            IERC20(prizeToken).safeTransfer(whomst, prizeShare);
             emit ConsolationClaimed(tokenId, ticket.gameId, whomst, prizeShare);
         } else if (winningPickId == ticket.pickId) {
             assert(numWinners > 0);
             // This ticket did have the winning numbers; just check it hasn't
             // been used to claim a prize already
             if (isWinningsClaimed[tokenId]) {
+                if (lenient) return (address(0), 0);
                 revert AlreadyClaimed(tokenId);
             }
             // OK - compute the prize share to transfer
@@ -654,11 +1020,26 @@ contract Lootery is
             // Record that this ticket has claimed its winnings, but don't burn
             isWinningsClaimed[tokenId] = true;
             numClaimedWinningTickets[ticket.gameId] += 1;
-            // Transfer share of jackpot to ticket holder
-            IERC20(prizeToken).safeTransfer(whomst, prizeShare);
 
             emit WinningsClaimed(tokenId, ticket.gameId, whomst, prizeShare);
+        } else if (isPrizeTierWinner) {
+            if (isWinningsClaimed[tokenId]) {
+                if (lenient) return (address(0), 0);
+                revert AlreadyClaimed(tokenId);
+            }
+            prizeShare = _takePrizeTierShare(ticket.gameId, matches);
+            // Record that this ticket has claimed its winnings, but don't burn
+            isWinningsClaimed[tokenId] = true;
+
+            emit PrizeTierWinningsClaimed(
+                tokenId,
+                ticket.gameId,
+                matches,
+                whomst,
+                prizeShare
+            );
         } else {
+            if (lenient) return (address(0), 0);
             revert NoWin(ticket.pickId, winningPickId);
         }
     }
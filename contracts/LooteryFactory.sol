@@ -32,13 +32,16 @@ contract LooteryFactory is
     // keccak256("troops.lootery_factory.fee_recipient");
     bytes32 private constant FEE_RECIPIENT_SLOT =
         0x42ca05c9d33288b41ba8de79367abafbc42de97cbc0b0b65f9ad198e935fb6b7;
+    // keccak256("troops.lootery_factory.launched_looteries");
+    bytes32 private constant LAUNCHED_LOOTERIES_SLOT =
+        0x833576ef877901917b709e0f369e7787ec57eb928bcd3a04d3673e47c750e169;
 
     constructor() {
         _disableInitializers();
     }
 
     function typeAndVersion() external pure returns (string memory) {
-        return "LooteryFactory 1.6.0";
+        return "LooteryFactory 1.7.0";
     }
 
     /// @notice Initialisoooooor!!! NB: Caller becomes admin.
@@ -114,6 +117,44 @@ contract LooteryFactory is
         return FEE_RECIPIENT_SLOT.getAddressSlot().value;
     }
 
+    /// @notice Whether a lotto was launched by this factory. Lottos launched
+    ///     before v1.7.0 are only known once recorded, see
+    ///     {recordLaunchedLooteries}.
+    /// @param lootery Address of the lotto
+    function isLooteryLaunched(address lootery) external view returns (bool) {
+        return _launchedLooterySlot(lootery).getBooleanSlot().value;
+    }
+
+    /// @notice Record lottos that were launched before v1.7.0, which didn't
+    ///     record them at launch. Each lotto's address is derived from the
+    ///     master copy and nonce it was launched with, like in {create}, so
+    ///     only lottos deployed by this factory can be recorded.
+    /// @param looteryMasterCopy Master copy that the lottos were launched with
+    /// @param nonces Nonces that the lottos were launched with
+    function recordLaunchedLooteries(
+        address looteryMasterCopy,
+        uint256[] calldata nonces
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        for (uint256 i; i < nonces.length; ++i) {
+            address lootery = Clones.predictDeterministicAddress(
+                looteryMasterCopy,
+                computeSalt(nonces[i])
+            );
+            if (lootery.code.length == 0) {
+                revert LooteryNotLaunched(looteryMasterCopy, nonces[i]);
+            }
+            _launchedLooterySlot(lootery).getBooleanSlot().value = true;
+            emit LaunchedLooteryRecorded(lootery);
+        }
+    }
+
+    /// @notice Compute the slot recording whether a lotto was launched
+    function _launchedLooterySlot(
+        address lootery
+    ) internal pure returns (bytes32) {
+        return keccak256(abi.encode(lootery, LAUNCHED_LOOTERIES_SLOT));
+    }
+
     /// @notice Compute salt used in computing deployment addresses
     function computeSalt(uint256 nonce) internal pure returns (bytes32) {
         return keccak256(abi.encode(nonce, "lootery"));
@@ -185,6 +226,7 @@ contract LooteryFactory is
             Clones.cloneDeterministic(looteryMasterCopy, salt)
         );
         ILootery(looteryProxy).init(config);
+        _launchedLooterySlot(looteryProxy).getBooleanSlot().value = true;
         emit LooteryLaunched(
             looteryProxy,
             looteryMasterCopy,
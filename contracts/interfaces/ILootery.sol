@@ -6,7 +6,7 @@ import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import {IRandomiserCallbackV3} from "./IRandomiserCallbackV3.sol";
 
 /// @title ILootery
-/// @custom:version 1.3.0
+/// @custom:version 1.5.0
 /// @notice Lootery contract interface
 interface ILootery is ITypeAndVersion, IRandomiserCallbackV3, IERC721 {
     /// @notice Initial configuration of Lootery
@@ -72,6 +72,15 @@ interface ILootery is ITypeAndVersion, IRandomiserCallbackV3, IERC721 {
         uint256 pickId;
     }
 
+    /// @notice Prize for tickets that match some, but not all, of the
+    ///     winning balls
+    struct PrizeTier {
+        /// @notice Number of winning balls a ticket must match, exactly
+        uint8 matches;
+        /// @notice Share of the game's pot reserved for the tier's winners
+        uint16 shareBps;
+    }
+
     /// @notice Describes an inflight randomness request
     /// TODO: Don't rely on requestId not being 0, add a flag or something
     struct RandomnessRequest {
@@ -124,6 +133,26 @@ interface ILootery is ITypeAndVersion, IRandomiserCallbackV3, IERC721 {
     event CallbackGasLimitSet(uint256 newCallbackGasLimit);
     event TicketSVGRendererSet(address indexed renderer);
     event ApocalypseModeActivated(uint256 indexed gameId);
+    event PrizeTiersSet(uint256 indexed gameId, PrizeTier[] prizeTiers);
+    event PrizeTierRollover(
+        uint256 indexed gameId,
+        uint8 indexed matches,
+        uint256 numWinners,
+        uint256 payouts
+    );
+    event PrizeTierWinningsClaimed(
+        uint256 indexed tokenId,
+        uint256 indexed gameId,
+        uint8 matches,
+        address whomst,
+        uint256 value
+    );
+    event OwnerPicked(
+        uint256 indexed gameId,
+        uint256 firstTokenId,
+        uint256 numTickets
+    );
+    event MaxOwnerPicksPerGameSet(uint256 maxPicks);
 
     error TransferFailure(address to, uint256 value, bytes reason);
     error InvalidPickLength(uint256 pickLength);
@@ -157,6 +186,10 @@ interface ILootery is ITypeAndVersion, IRandomiserCallbackV3, IERC721 {
     error AlreadyClaimed(uint256 tokenId);
     error NoWin(uint256 pickId, uint256 winningPickId);
     error NoTicketsSold();
+    error InvalidPrizeTiers();
+    error PrizeTiersLocked(uint256 gameId);
+    error OwnerPickLimitExceeded(uint256 maxPicks);
+    error OwnerPickLimitLocked(uint256 gameId);
 
     /// @notice Initialises the contract instance
     function init(InitConfig memory initConfig) external;
@@ -4,7 +4,7 @@ pragma solidity 0.8.27;
 import {ITypeAndVersion} from "./ITypeAndVersion.sol";
 
 /// @title ILooteryFactory
-/// @custom:version 1.2.0
+/// @custom:version 1.3.0
 /// @notice Launch a lotto to support your charity or public good.
 interface ILooteryFactory is ITypeAndVersion {
     event LooteryLaunched(
@@ -22,6 +22,9 @@ interface ILooteryFactory is ITypeAndVersion {
         address oldTicketSVGRenderer,
         address newTicketSVGRenderer
     );
+    event LaunchedLooteryRecorded(address indexed looteryProxy);
+
+    error LooteryNotLaunched(address looteryMasterCopy, uint256 nonce);
 
     function init(
         address looteryMasterCopy,
@@ -45,6 +48,13 @@ interface ILooteryFactory is ITypeAndVersion {
 
     function getFeeRecipient() external view returns (address);
 
+    function isLooteryLaunched(address lootery) external view returns (bool);
+
+    function recordLaunchedLooteries(
+        address looteryMasterCopy,
+        uint256[] calldata nonces
+    ) external;
+
     function computeNextAddress() external view returns (address);
 
     function create(
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+library Escape {
+    bytes16 private constant HEX_DIGITS = "0123456789abcdef";
+
+    /// @notice Escape a string for use in XML text or (quoted) attributes
+    /// @param value Unescaped string
+    function xml(string memory value) internal pure returns (string memory) {
+        bytes memory input = bytes(value);
+        bytes memory output;
+        for (uint256 i; i < input.length; ++i) {
+            bytes1 c = input[i];
+            if (c == "&") {
+                output = abi.encodePacked(output, "&amp;");
+            } else if (c == "<") {
+                output = abi.encodePacked(output, "&lt;");
+            } else if (c == ">") {
+                output = abi.encodePacked(output, "&gt;");
+            } else if (c == "'") {
+                output = abi.encodePacked(output, "&apos;");
+            } else if (c == '"') {
+                output = abi.encodePacked(output, "&quot;");
+            } else {
+                output = abi.encodePacked(output, c);
+            }
+        }
+        return string(output);
+    }
+
+    /// @notice Escape a string for use in a JSON string literal
+    /// @param value Unescaped string
+    function json(string memory value) internal pure returns (string memory) {
+        bytes memory input = bytes(value);
+        bytes memory output;
+        for (uint256 i; i < input.length; ++i) {
+            bytes1 c = input[i];
+            if (c == '"' || c == "\\") {
+                output = abi.encodePacked(output, "\\", c);
+            } else if (uint8(c) < 0x20) {
+                // Control characters as \u00XX
+                output = abi.encodePacked(
+                    output,
+                    "\\u00",
+                    HEX_DIGITS[uint8(c) >> 4],
+                    HEX_DIGITS[uint8(c) & 0x0f]
+                );
+            } else {
+                output = abi.encodePacked(output, c);
+            }
+        }
+        return string(output);
+    }
+}
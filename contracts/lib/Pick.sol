@@ -39,6 +39,65 @@ library Pick {
         }
     }
 
+    /// @notice Count the balls that two picks have in common, i.e. the
+    ///     popcount of the intersection of their identities.
+    /// @param pickId Pick identity
+    /// @param otherPickId Pick identity to compare against
+    /// @return matches Number of balls in common
+    function countMatches(
+        uint256 pickId,
+        uint256 otherPickId
+    ) internal pure returns (uint8 matches) {
+        uint256 common = pickId & otherPickId;
+        while (common != 0) {
+            // Clear the lowest set bit
+            common &= common - 1;
+            ++matches;
+        }
+    }
+
+    /// @notice Number of ways to choose `k` out of `n` elements
+    function binomial(
+        uint256 n,
+        uint256 k
+    ) internal pure returns (uint256 result) {
+        if (k > n) return 0;
+        result = 1;
+        for (uint256 i; i < k; ++i) {
+            // Exact, since the product of i+1 consecutive integers is
+            // divisible by (i+1)!
+            result = (result * (n - i)) / (i + 1);
+        }
+    }
+
+    /// @notice Compute the identities of every subset of `size` balls of a
+    ///     pick, in lexicographic order of the balls' positions.
+    /// @param pick *Set* of numbers, of at most 32 balls
+    /// @param size Number of balls per subset, nonzero
+    /// @return ids Subset identities
+    function subsetIds(
+        uint8[] memory pick,
+        uint256 size
+    ) internal pure returns (uint256[] memory ids) {
+        uint256 n = pick.length;
+        ids = new uint256[](binomial(n, size));
+        // Masks of `size` out of `n` bits select the balls of each subset
+        uint256 mask = (uint256(1) << size) - 1;
+        for (uint256 s; s < ids.length; ++s) {
+            uint256 id_;
+            for (uint256 i; i < n; ++i) {
+                if ((mask >> i) & 1 == 1) {
+                    id_ |= uint256(1) << pick[i];
+                }
+            }
+            ids[s] = id_;
+            // Gosper's hack: next larger mask with the same number of bits set
+            uint256 lowestBit = mask & (~mask + 1);
+            uint256 ripple = mask + lowestBit;
+            mask = (((ripple ^ mask) >> 2) / lowestBit) | ripple;
+        }
+    }
+
     /// @notice Compute the winning numbers/balls given a random seed.
     /// @param randomSeed Seed that determines the permutation of BALLS
     /// @return balls Ordered set of winning numbers
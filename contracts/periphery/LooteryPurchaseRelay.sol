@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {Lootery} from "../Lootery.sol";
+import {ILootery} from "../interfaces/ILootery.sol";
+
+/// @title LooteryPurchaseRelay
+/// @custom:version 1.0.0
+/// @notice Gasless ticket purchases. A player signs an EIP-712 purchase order,
+///     and any relayer may submit it along with an EIP-2612 permit of the
+///     prize token, so that the player needs neither native gas tokens nor a
+///     prior allowance. Tickets are purchased through `Lootery.purchase`.
+contract LooteryPurchaseRelay is EIP712, Nonces {
+    using SafeERC20 for IERC20;
+
+    /// @notice Purchase of tickets, signed by the player that pays for them
+    struct PurchaseOrder {
+        /// @notice Player that pays for the tickets and signs the order
+        address player;
+        /// @notice Lottery to purchase tickets from
+        address lootery;
+        /// @notice Tickets to purchase
+        ILootery.Ticket[] tickets;
+        /// @notice Beneficiary to receive the community fee share, if any
+        address beneficiary;
+        /// @notice Maximum total price the player is willing to pay
+        uint256 maxPrice;
+        /// @notice Timestamp after which the order can no longer be filled
+        uint256 deadline;
+        /// @notice Player's current nonce, see {Nonces-nonces}
+        uint256 nonce;
+    }
+
+    /// @notice EIP-2612 permit of the prize token, from the player to this
+    ///     contract. A zero `deadline` means that no permit is given, i.e.
+    ///     the player has already approved this contract.
+    struct Permit {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    bytes32 public constant TICKET_TYPEHASH =
+        keccak256("Ticket(address whomst,uint8[] pick)");
+    bytes32 public constant PURCHASE_ORDER_TYPEHASH =
+        keccak256(
+            "PurchaseOrder(address player,address lootery,Ticket[] tickets,address beneficiary,uint256 maxPrice,uint256 deadline,uint256 nonce)Ticket(address whomst,uint8[] pick)"
+        );
+
+    event PurchaseOrderFilled(
+        address indexed player,
+        uint256 indexed nonce,
+        address indexed lootery,
+        address relayer,
+        uint256 totalPrice
+    );
+
+    error PurchaseOrderExpired(uint256 deadline);
+    error InvalidSignature();
+    error MaxPriceExceeded(uint256 totalPrice, uint256 maxPrice);
+
+    constructor() EIP712("LooteryPurchaseRelay", "1") {}
+
+    /// @notice Compute the EIP-712 digest of a purchase order, which is what
+    ///     the player signs
+    /// @param order Purchase order
+    function hashPurchaseOrder(
+        PurchaseOrder calldata order
+    ) public view returns (bytes32) {
+        bytes32[] memory ticketHashes = new bytes32[](order.tickets.length);
+        for (uint256 i; i < ticketHashes.length; ++i) {
+            ticketHashes[i] = keccak256(
+                abi.encode(
+                    TICKET_TYPEHASH,
+                    order.tickets[i].whomst,
+                    keccak256(abi.encodePacked(order.tickets[i].pick))
+                )
+            );
+        }
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        PURCHASE_ORDER_TYPEHASH,
+                        order.player,
+                        order.lootery,
+                        keccak256(abi.encodePacked(ticketHashes)),
+                        order.beneficiary,
+                        order.maxPrice,
+                        order.deadline,
+                        order.nonce
+                    )
+                )
+            );
+    }
+
+    /// @notice Fill a signed purchase order on behalf of its player. Anyone
+    ///     may call this; the caller only pays for gas.
+    /// @param order Purchase order
+    /// @param signature Player's signature of the order, see
+    ///     {hashPurchaseOrder}; contract wallets are supported via EIP-1271
+    /// @param permit Player's permit of the prize token to this contract
+    function purchase(
+        PurchaseOrder calldata order,
+        bytes calldata signature,
+        Permit calldata permit
+    ) external {
+        if (block.timestamp > order.deadline) {
+            revert PurchaseOrderExpired(order.deadline);
+        }
+        if (
+            !SignatureChecker.isValidSignatureNow(
+                order.player,
+                hashPurchaseOrder(order),
+                signature
+            )
+        ) {
+            revert InvalidSignature();
+        }
+        _useCheckedNonce(order.player, order.nonce);
+
+        Lootery lootery = Lootery(payable(order.lootery));
+        uint256 totalPrice = lootery.ticketPrice() * order.tickets.length;
+        if (totalPrice > order.maxPrice) {
+            revert MaxPriceExceeded(totalPrice, order.maxPrice);
+        }
+
+        IERC20 prizeToken = IERC20(lootery.prizeToken());
+        if (permit.deadline != 0) {
+            // Anyone may front-run the permit from the mempool, in which case
+            // the allowance is already in place and the transfer still works
+            try
+                IERC20Permit(address(prizeToken)).permit(
+                    order.player,
+                    address(this),
+                    permit.value,
+                    permit.deadline,
+                    permit.v,
+                    permit.r,
+                    permit.s
+                )
+            {} catch {}
+        }
+        prizeToken.safeTransferFrom(order.player, address(this), totalPrice);
+        prizeToken.forceApprove(address(lootery), totalPrice);
+        lootery.purchase(order.tickets, order.beneficiary);
+
+        emit PurchaseOrderFilled(
+            order.player,
+            order.nonce,
+            order.lootery,
+            msg.sender,
+            totalPrice
+        );
+    }
+}
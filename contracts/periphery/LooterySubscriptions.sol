@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Lootery} from "../Lootery.sol";
+import {ILootery} from "../interfaces/ILootery.sol";
+import {ILooteryFactory} from "../interfaces/ILooteryFactory.sol";
+import {Pick} from "../lib/Pick.sol";
+
+/// @title LooterySubscriptions
+/// @custom:version 1.0.0
+/// @notice Multi-game ticket subscriptions. A player prepays `numGames` games
+///     of a lottery's `ticketPrice` with a single pick, and a ticket with that
+///     pick is purchased into each game as it starts. Entries are permissionless
+///     (e.g. by a keeper, once `_setupNextGame` has started the next game), and
+///     go through `Lootery.purchase`, so each game's entries are visible to
+///     indexers as regular `TicketPurchased` events. Cancelling a subscription
+///     refunds the games it hasn't entered yet. Only lotteries launched by
+///     `factory` may be subscribed to, since their entries are paid from the
+///     escrow of every subscription.
+contract LooterySubscriptions {
+    using SafeERC20 for IERC20;
+
+    struct Subscription {
+        /// @notice Lottery to enter
+        address lootery;
+        /// @notice Id of the next game that the subscription may enter
+        uint64 nextGameId;
+        /// @notice Number of prepaid games that haven't been entered yet
+        uint32 gamesLeft;
+        /// @notice Ticket holder, who may cancel the subscription
+        address whomst;
+        /// @notice Beneficiary to receive the community fee share of each game
+        address beneficiary;
+        /// @notice Token that the games were paid in, and are refunded in
+        address prizeToken;
+        /// @notice Ticket price paid for each game
+        uint256 ticketPrice;
+        /// @notice Pick identity
+        uint256 pickId;
+    }
+
+    /// @notice Factory whose lotteries may be subscribed to
+    ILooteryFactory public immutable factory;
+    /// @notice Subscription id => subscription
+    mapping(uint256 subscriptionId => Subscription) public subscriptions;
+    /// @notice Number of subscriptions ever created
+    uint256 public numSubscriptions;
+
+    event Subscribed(
+        uint256 indexed subscriptionId,
+        address indexed lootery,
+        address indexed whomst,
+        uint256 numGames,
+        uint8[] pick
+    );
+    event SubscriptionEntered(
+        uint256 indexed subscriptionId,
+        uint256 indexed gameId,
+        uint256 gamesLeft
+    );
+    event SubscriptionEntryFailed(
+        uint256 indexed subscriptionId,
+        uint256 indexed gameId,
+        bytes reason
+    );
+    event SubscriptionCancelled(
+        uint256 indexed subscriptionId,
+        address indexed whomst,
+        uint256 refund
+    );
+
+    error InvalidNumGames(uint256 numGames);
+    error InvalidPick(uint8[] pick);
+    error InvalidSubscription(uint256 subscriptionId);
+    error UnknownLootery(address lootery);
+
+    constructor(address _factoryAddress) {
+        factory = ILooteryFactory(_factoryAddress);
+    }
+
+    /// @notice Subscribe to play the same pick in `numGames` consecutive
+    ///     games of a lottery, paying for every game up front. The current
+    ///     game is entered straight away, if it's still open for purchases.
+    /// @param looteryAddress Lottery to enter, launched by `factory`
+    /// @param ticket Ticket to enter into each game
+    /// @param numGames Number of games to play
+    /// @param beneficiary Beneficiary to receive the community fee share of
+    ///     each game, if any
+    /// @return subscriptionId Id of the subscription
+    function subscribe(
+        address payable looteryAddress,
+        ILootery.Ticket calldata ticket,
+        uint32 numGames,
+        address beneficiary
+    ) external returns (uint256 subscriptionId) {
+        if (numGames == 0) {
+            revert InvalidNumGames(numGames);
+        }
+        if (!factory.isLooteryLaunched(looteryAddress)) {
+            revert UnknownLootery(looteryAddress);
+        }
+        Lootery lootery = Lootery(looteryAddress);
+        // Validate the pick now rather than have every future entry revert.
+        // Valid picks are exactly those that survive a round trip through
+        // their identity, i.e. ascending with no duplicates.
+        uint256 pickId = Pick.id(ticket.pick);
+        uint8[] memory parsedPick = Pick.parse(lootery.pickLength(), pickId);
+        if (
+            ticket.pick.length != parsedPick.length ||
+            keccak256(abi.encode(ticket.pick)) !=
+            keccak256(abi.encode(parsedPick)) ||
+            ticket.pick[0] == 0 ||
+            ticket.pick[ticket.pick.length - 1] > lootery.maxBallValue()
+        ) {
+            revert InvalidPick(ticket.pick);
+        }
+
+        address prizeToken = lootery.prizeToken();
+        uint256 ticketPrice = lootery.ticketPrice();
+        IERC20(prizeToken).safeTransferFrom(
+            msg.sender,
+            address(this),
+            ticketPrice * numGames
+        );
+
+        (, uint248 gameId) = lootery.currentGame();
+        subscriptionId = numSubscriptions++;
+        subscriptions[subscriptionId] = Subscription({
+            lootery: looteryAddress,
+            nextGameId: uint64(gameId),
+            gamesLeft: numGames,
+            whomst: ticket.whomst,
+            beneficiary: beneficiary,
+            prizeToken: prizeToken,
+            ticketPrice: ticketPrice,
+            pickId: pickId
+        });
+        emit Subscribed(
+            subscriptionId,
+            looteryAddress,
+            ticket.whomst,
+            numGames,
+            ticket.pick
+        );
+
+        _enter(subscriptionId);
+    }
+
+    /// @notice Enter subscriptions into the current games of their lotteries.
+    ///     Anyone may call this, e.g. a keeper as each game starts.
+    ///     Subscriptions without games left, that have already entered the
+    ///     current game, or whose lottery isn't open for purchases, are
+    ///     skipped. A subscription that misses a game keeps its prepaid games.
+    ///     Subscriptions whose purchase fails (e.g. because the ticket holder
+    ///     can't receive tickets) miss the current game, without holding up
+    ///     the others.
+    /// @param subscriptionIds Subscription ids
+    /// @return numEntered Number of subscriptions that were entered
+    function enterSubscriptions(
+        uint256[] calldata subscriptionIds
+    ) external returns (uint256 numEntered) {
+        for (uint256 i; i < subscriptionIds.length; ++i) {
+            if (_enter(subscriptionIds[i])) {
+                ++numEntered;
+            }
+        }
+    }
+
+    /// @notice Cancel a subscription, refunding the games it hasn't entered
+    ///     yet to the ticket holder. Tickets already purchased are unaffected.
+    /// @param subscriptionId Subscription id
+    /// @return refund Amount refunded, in the lottery's prize token
+    function cancelSubscription(
+        uint256 subscriptionId
+    ) external returns (uint256 refund) {
+        Subscription storage subscription = subscriptions[subscriptionId];
+        if (subscription.whomst != msg.sender || subscription.gamesLeft == 0) {
+            revert InvalidSubscription(subscriptionId);
+        }
+        refund = subscription.ticketPrice * subscription.gamesLeft;
+        subscription.gamesLeft = 0;
+        IERC20(subscription.prizeToken).safeTransfer(msg.sender, refund);
+        emit SubscriptionCancelled(subscriptionId, msg.sender, refund);
+    }
+
+    /// @notice Whether a subscription may enter its lottery's current game
+    /// @param subscriptionId Subscription id
+    function isDue(uint256 subscriptionId) public view returns (bool) {
+        Subscription memory subscription = subscriptions[subscriptionId];
+        if (subscription.gamesLeft == 0) {
+            return false;
+        }
+        (ILootery.GameState state, uint248 gameId) = Lootery(
+            payable(subscription.lootery)
+        ).currentGame();
+        return
+            state == ILootery.GameState.Purchase &&
+            subscription.nextGameId <= gameId;
+    }
+
+    /// @notice Purchase a subscription's ticket for the current game, if due
+    /// @param subscriptionId Subscription id
+    /// @return entered Whether the subscription was entered
+    function _enter(uint256 subscriptionId) internal returns (bool entered) {
+        if (!isDue(subscriptionId)) {
+            return false;
+        }
+        Subscription storage subscription = subscriptions[subscriptionId];
+        Lootery lootery = Lootery(payable(subscription.lootery));
+        (, uint248 gameId) = lootery.currentGame();
+        uint32 gamesLeft = subscription.gamesLeft;
+        subscription.gamesLeft = gamesLeft - 1;
+        subscription.nextGameId = uint64(gameId + 1);
+
+        // The beneficiary may have been removed since subscribing, in which
+        // case the community fee share accrues to the lottery instead
+        address beneficiary = subscription.beneficiary;
+        if (bytes(lootery.beneficiaryDisplayNames(beneficiary)).length == 0) {
+            beneficiary = address(0);
+        }
+        ILootery.Ticket[] memory tickets = new ILootery.Ticket[](1);
+        tickets[0] = ILootery.Ticket({
+            whomst: subscription.whomst,
+            pick: lootery.computePick(subscription.pickId)
+        });
+        IERC20 prizeToken = IERC20(subscription.prizeToken);
+        prizeToken.forceApprove(address(lootery), subscription.ticketPrice);
+        try lootery.purchase(tickets, beneficiary) {
+            emit SubscriptionEntered(subscriptionId, gameId, gamesLeft - 1);
+            return true;
+        } catch (bytes memory reason) {
+            // Miss the current game, but keep it prepaid
+            subscription.gamesLeft = gamesLeft;
+            prizeToken.forceApprove(address(lootery), 0);
+            emit SubscriptionEntryFailed(subscriptionId, gameId, reason);
+            return false;
+        }
+    }
+}
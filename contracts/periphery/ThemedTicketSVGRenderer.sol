@@ -0,0 +1,330 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+import {ITicketSVGRenderer} from "../interfaces/ITicketSVGRenderer.sol";
+import {IERC165, ERC165} from "@openzeppelin/contracts/utils/introspection/ERC165.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Escape} from "../lib/Escape.sol";
+
+/// @title ThemedTicketSVGRenderer
+/// @notice Ticket renderer with a configurable colour theme, logo,
+///     description & row width. Unlike {TicketSVGRenderer}, names are escaped
+///     and the metadata has OpenSea attributes: the pick and, when called by a
+///     lottery (i.e. from {Lootery-tokenURI}), the game id & whether the
+///     ticket won.
+contract ThemedTicketSVGRenderer is ITicketSVGRenderer, ERC165 {
+    using Strings for uint256;
+
+    struct Theme {
+        /// @notice Background colour, e.g. "#ffffff"
+        string background;
+        /// @notice Colour of text & border
+        string foreground;
+        /// @notice Colour of circles around picked numbers
+        string accent;
+        /// @notice e.g. "Arial"
+        string fontFamily;
+        /// @notice URI of a logo shown left of the title; empty for none
+        string logo;
+        /// @notice Description of tickets in their metadata
+        string description;
+        /// @notice Numbers per row of the grid, which determines the width
+        uint8 numbersPerRow;
+    }
+
+    /// @notice What the renderer knows about a ticket of the calling lottery
+    struct TicketInfo {
+        bool isKnown;
+        uint256 gameId;
+        bool isDrawn;
+        bool isWinner;
+    }
+
+    uint256 private constant ROW_HEIGHT = 38;
+    uint256 private constant COLUMN_WIDTH = 50;
+    uint256 private constant GRID_Y = 75;
+
+    Theme private _theme;
+
+    error InvalidNumbersPerRow(uint8 numbersPerRow);
+
+    constructor(Theme memory theme_) {
+        if (theme_.numbersPerRow == 0) {
+            revert InvalidNumbersPerRow(theme_.numbersPerRow);
+        }
+        _theme = theme_;
+    }
+
+    /// @notice Theme of this renderer
+    function theme() external view returns (Theme memory) {
+        return _theme;
+    }
+
+    /// @notice See {IERC165-supportsInterface}.
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override(IERC165, ERC165) returns (bool) {
+        return
+            interfaceId == type(ITicketSVGRenderer).interfaceId ||
+            super.supportsInterface(interfaceId);
+    }
+
+    /// @notice See {ITicketSVGRenderer-renderSVG}.
+    function renderSVG(
+        string memory name,
+        uint8 maxPick,
+        uint8[] memory pick
+    ) public view returns (string memory) {
+        return _renderSVG(name, "", maxPick, pick);
+    }
+
+    /// @notice See {ITicketSVGRenderer-renderTokenURI}.
+    function renderTokenURI(
+        string memory name,
+        uint256 tokenId,
+        uint8 maxPick,
+        uint8[] memory pick
+    ) external view returns (string memory) {
+        TicketInfo memory ticket = _getTicketInfo(tokenId);
+        string memory subtitle = ticket.isKnown
+            ? string.concat("Game #", ticket.gameId.toString())
+            : "";
+        return
+            string(
+                abi.encodePacked(
+                    "data:application/json;base64,",
+                    Base64.encode(
+                        bytes(
+                            abi.encodePacked(
+                                '{"name":"',
+                                Escape.json(name),
+                                " Ticket #",
+                                tokenId.toString(),
+                                '", "description":"',
+                                Escape.json(_theme.description),
+                                '", "image": "',
+                                "data:image/svg+xml;base64,",
+                                Base64.encode(
+                                    bytes(
+                                        _renderSVG(
+                                            name,
+                                            subtitle,
+                                            maxPick,
+                                            pick
+                                        )
+                                    )
+                                ),
+                                '", "attributes": ',
+                                _renderAttributes(ticket, pick),
+                                "}"
+                            )
+                        )
+                    )
+                )
+            );
+    }
+
+    /// @notice Look up a ticket of the calling lottery. Tickets are unknown if
+    ///     the caller isn't a lottery, e.g. when called directly.
+    /// @param tokenId Ticket token id
+    function _getTicketInfo(
+        uint256 tokenId
+    ) internal view returns (TicketInfo memory ticket) {
+        (bool success, bytes memory data) = msg.sender.staticcall(
+            abi.encodeWithSignature("purchasedTickets(uint256)", tokenId)
+        );
+        if (!success || data.length != 64) {
+            return ticket;
+        }
+        (uint256 gameId, uint256 pickId) = abi.decode(data, (uint256, uint256));
+        ticket.isKnown = true;
+        ticket.gameId = gameId;
+
+        (success, data) = msg.sender.staticcall(
+            abi.encodeWithSignature("currentGame()")
+        );
+        if (!success || data.length != 64) {
+            return ticket;
+        }
+        (, uint256 currentGameId) = abi.decode(data, (uint8, uint248));
+        ticket.isDrawn = gameId < currentGameId;
+        if (!ticket.isDrawn) {
+            return ticket;
+        }
+
+        (success, data) = msg.sender.staticcall(
+            abi.encodeWithSignature("gameData(uint256)", gameId)
+        );
+        if (success && data.length == 96) {
+            (, , uint256 winningPickId) = abi.decode(
+                data,
+                (uint64, uint64, uint256)
+            );
+            ticket.isWinner = winningPickId == pickId;
+        }
+    }
+
+    /// @notice Render OpenSea attributes as a JSON array
+    function _renderAttributes(
+        TicketInfo memory ticket,
+        uint8[] memory pick
+    ) internal pure returns (string memory) {
+        string memory pickValue;
+        for (uint256 i; i < pick.length; ++i) {
+            pickValue = string.concat(
+                pickValue,
+                i == 0 ? "" : ", ",
+                uint256(pick[i]).toString()
+            );
+        }
+        string memory pickTrait = string.concat(
+            '{"trait_type":"Pick","value":"',
+            bytes(pickValue).length == 0 ? "None" : pickValue,
+            '"}'
+        );
+        if (!ticket.isKnown) {
+            return string.concat("[", pickTrait, "]");
+        }
+        return
+            string.concat(
+                '[{"trait_type":"Game","display_type":"number","value":',
+                ticket.gameId.toString(),
+                "},",
+                pickTrait,
+                ',{"trait_type":"Winner","value":"',
+                ticket.isDrawn ? (ticket.isWinner ? "Yes" : "No") : "Not drawn",
+                '"}]'
+            );
+    }
+
+    /// @notice Render the SVG of a ticket
+    /// @param name Name of the ticket, unescaped
+    /// @param subtitle Line below the name; empty for none
+    /// @param maxPick Maximum pick number
+    /// @param pick Picks, sorted ascendingly
+    function _renderSVG(
+        string memory name,
+        string memory subtitle,
+        uint8 maxPick,
+        uint8[] memory pick
+    ) internal view returns (string memory) {
+        uint256 numbersPerRow = _theme.numbersPerRow;
+        uint256 rows = (maxPick + numbersPerRow - 1) / numbersPerRow;
+        uint256 width = (numbersPerRow + 1) * COLUMN_WIDTH;
+        string memory fill = string.concat(
+            "' font-family='",
+            Escape.xml(_theme.fontFamily),
+            "' fill='",
+            Escape.xml(_theme.foreground),
+            "'>"
+        );
+        return
+            string.concat(
+                _renderFrame(width, GRID_Y + rows * ROW_HEIGHT),
+                _renderHeader(name, subtitle, width, fill),
+                _renderGrid(maxPick, pick, fill),
+                "</svg>"
+            );
+    }
+
+    /// @notice Render the opening <svg> tag & the background
+    function _renderFrame(
+        uint256 width,
+        uint256 height
+    ) internal view returns (string memory) {
+        return
+            string.concat(
+                "<svg xmlns='http://www.w3.org/2000/svg' version='1.1' width='",
+                width.toString(),
+                "' height='",
+                height.toString(),
+                "'><rect width='",
+                width.toString(),
+                "' height='",
+                height.toString(),
+                "' fill='",
+                Escape.xml(_theme.background),
+                "' stroke='",
+                Escape.xml(_theme.foreground),
+                "' />"
+            );
+    }
+
+    /// @notice Render the logo, name & subtitle
+    function _renderHeader(
+        string memory name,
+        string memory subtitle,
+        uint256 width,
+        string memory fill
+    ) internal view returns (string memory header) {
+        if (bytes(_theme.logo).length > 0) {
+            header = string.concat(
+                "<image href='",
+                Escape.xml(_theme.logo),
+                "' x='10' y='10' width='32' height='32' />"
+            );
+        }
+        header = string.concat(
+            header,
+            "<text x='",
+            (width / 2).toString(),
+            "' y='30' text-anchor='middle' font-size='20' font-weight='bold",
+            fill,
+            Escape.xml(name),
+            "</text>"
+        );
+        if (bytes(subtitle).length > 0) {
+            header = string.concat(
+                header,
+                "<text x='",
+                (width / 2).toString(),
+                "' y='50' text-anchor='middle' font-size='12",
+                fill,
+                Escape.xml(subtitle),
+                "</text>"
+            );
+        }
+    }
+
+    /// @notice Render the grid of numbers, circling the picked ones
+    function _renderGrid(
+        uint8 maxPick,
+        uint8[] memory pick,
+        string memory fill
+    ) internal view returns (string memory grid) {
+        uint256 numbersPerRow = _theme.numbersPerRow;
+        string memory circle = string.concat(
+            "' r='15' stroke='",
+            Escape.xml(_theme.accent),
+            "' fill='none' />"
+        );
+        uint256 p; // pointer for picks
+        for (uint256 num = 1; num <= maxPick; ++num) {
+            uint256 x = 50 + ((num - 1) % numbersPerRow) * COLUMN_WIDTH;
+            uint256 y = GRID_Y + ((num - 1) / numbersPerRow) * ROW_HEIGHT;
+            if (p < pick.length && pick[p] == num) {
+                p += 1;
+                grid = string.concat(
+                    grid,
+                    "<circle cx='",
+                    x.toString(),
+                    "' cy='",
+                    (y - 6).toString(),
+                    circle
+                );
+            }
+            grid = string.concat(
+                grid,
+                "<text x='",
+                x.toString(),
+                "' y='",
+                y.toString(),
+                "' text-anchor='middle' font-size='16",
+                fill,
+                num.toString(),
+                "</text>"
+            );
+        }
+    }
+}
@@ -2,9 +2,12 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
-contract MockERC20 is ERC20 {
-    constructor(address initialOwner) ERC20("Test", "TEST") {}
+contract MockERC20 is ERC20, ERC20Permit {
+    constructor(
+        address initialOwner
+    ) ERC20("Test", "TEST") ERC20Permit("Test") {}
 
     function mint(address to, uint256 amount) public {
         _mint(to, amount);
@@ -7,19 +7,52 @@ import 'hardhat-abi-exporter'
 import 'hardhat-gas-reporter'
 import '@nomicfoundation/hardhat-ignition'
 import * as dotenv from 'dotenv'
+import './tasks'
+import { readManifest, toHardhatConfig } from './scripts/manifest'
 
 dotenv.config()
 
+// Networks & explorers are generated from the deployment manifest (deployments.yaml)
+const { networks, etherscan } = toHardhatConfig(readManifest())
+
 const config: HardhatUserConfig = {
     solidity: {
-        version: '0.8.27',
-        settings: {
-            viaIR: false,
-            optimizer: {
-                enabled: true,
-                runs: 1000,
+        compilers: [
+            {
+                version: '0.8.27',
+                settings: {
+                    viaIR: false,
+                    optimizer: {
+                        enabled: true,
+                        runs: 1000,
+                    },
+                },
             },
-        },
+        ],
+        // Lootery is compiled via IR and optimised for size to stay within the
+        // contract size limit; its harness must be compiled the same way.
+        // hardhat-storage-layout only requests storage layouts from the
+        // `compilers` above, so overrides have to request them too.
+        overrides: Object.fromEntries(
+            ['contracts/Lootery.sol', 'contracts/test/LooteryHarness.sol'].map((source) => [
+                source,
+                {
+                    version: '0.8.27',
+                    settings: {
+                        viaIR: true,
+                        optimizer: {
+                            enabled: true,
+                            runs: 200,
+                        },
+                        outputSelection: {
+                            '*': {
+                                '*': ['storageLayout'],
+                            },
+                        },
+                    },
+                },
+            ]),
+        ),
     },
     networks: {
         hardhat: {
@@ -28,7 +61,9 @@ const config: HardhatUserConfig = {
                 count: 10,
             },
         },
+        ...networks,
     },
+    etherscan,
     gasReporter: {
         enabled: true,
         currency: 'USD',
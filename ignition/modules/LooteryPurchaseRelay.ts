@@ -0,0 +1,5 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('LooteryPurchaseRelay', (m) => ({
+    looteryPurchaseRelay: m.contract('LooteryPurchaseRelay', []),
+}))
@@ -0,0 +1,5 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('LooterySubscriptions', (m) => ({
+    looterySubscriptions: m.contract('LooterySubscriptions', [m.getParameter('looteryFactory')]),
+}))
@@ -0,0 +1,191 @@
+import { BigNumberish, getAddress } from 'ethers'
+import type { Lootery } from '../typechain-types'
+import { chunkByGas } from '../sdk/LooteryClient'
+import { decodeLooteryEvents, filterLooteryEvents } from '../sdk/events'
+import { InvalidPickError, validatePick } from '../sdk/pick'
+import { QuickPickSource, generateQuickPicks } from '../sdk/quickPick'
+
+/** Default gas budget of each `ownerPick` transaction */
+export const DEFAULT_MAX_AIRDROP_GAS = 5_000_000n
+
+/** Thrown when an airdrop can't be planned or sent */
+export class AirdropError extends Error {
+    constructor(
+        public readonly reason:
+            | 'InvalidCsv'
+            | 'InvalidRecipient'
+            | 'InvalidPick'
+            | 'NoTicketsSpecified'
+            | 'OwnerPickLimitExceeded',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'AirdropError'
+    }
+}
+
+/** A row of an airdrop CSV, i.e. a free ticket for a recipient */
+export interface AirdropRow {
+    /** Line number in the CSV, for error messages */
+    line: number
+    recipient: string
+    /** Ascendingly sorted balls, or null for a quick pick */
+    pick: bigint[] | null
+}
+
+/** Free tickets, ready to be picked by the owner */
+export interface AirdropPlan {
+    tickets: { whomst: string; pick: bigint[] }[]
+    /** Root seed of the quick picks, if any; publish it to prove they weren't hand-picked */
+    quickPickSeed?: bigint
+}
+
+/** An `ownerPick` transaction of an airdrop */
+export interface AirdropBatch {
+    txHash: string
+    tokenIds: bigint[]
+}
+
+/**
+ * Parse an airdrop CSV with a `recipient,pick` header. Each row is one ticket;
+ * its pick is a space- or dash-separated list of balls in any order (e.g.
+ * `3 14 15 42 69`), or empty (or `quick`) for a quick pick.
+ * @param csv Contents of the CSV
+ */
+export function parseAirdropCsv(csv: string): AirdropRow[] {
+    const lines = csv.split(/\r?\n/)
+    const header = lines[0]
+        .split(',')
+        .map((column) => column.trim().toLowerCase())
+        .join(',')
+    if (header !== 'recipient,pick') {
+        throw new AirdropError(
+            'InvalidCsv',
+            `Expected a "recipient,pick" header, got "${lines[0]}"`,
+        )
+    }
+    const rows: AirdropRow[] = []
+    for (let i = 1; i < lines.length; i++) {
+        const line = i + 1
+        if (lines[i].trim() === '') continue
+        const columns = lines[i].split(',').map((column) => column.trim())
+        if (columns.length > 2) {
+            throw new AirdropError('InvalidCsv', `Line ${line}: expected 2 columns`)
+        }
+        const [recipient, pick = ''] = columns
+        let address: string
+        try {
+            address = getAddress(recipient)
+        } catch {
+            throw new AirdropError(
+                'InvalidRecipient',
+                `Line ${line}: invalid recipient "${recipient}"`,
+            )
+        }
+        if (pick === '' || pick.toLowerCase() === 'quick') {
+            rows.push({ line, recipient: address, pick: null })
+            continue
+        }
+        const balls = pick.split(/[\s-]+/)
+        if (!balls.every((ball) => /^\d+$/.test(ball))) {
+            throw new AirdropError('InvalidPick', `Line ${line}: invalid pick "${pick}"`)
+        }
+        rows.push({
+            line,
+            recipient: address,
+            pick: balls.map((ball) => BigInt(ball)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
+        })
+    }
+    return rows
+}
+
+/**
+ * Validate the picks of an airdrop and quick-pick the rest. Quick picks are
+ * distinct from each other (see {generateQuickPicks}).
+ * @param rows Parsed rows, see {parseAirdropCsv}
+ * @param options Lottery parameters & the source of the quick picks' seed
+ */
+export function planAirdrop(
+    rows: AirdropRow[],
+    options: { pickLength: BigNumberish; maxBallValue: BigNumberish; source?: QuickPickSource },
+): AirdropPlan {
+    if (rows.length === 0) {
+        throw new AirdropError('NoTicketsSpecified', 'No tickets specified')
+    }
+    for (const { line, pick } of rows) {
+        if (!pick) continue
+        try {
+            validatePick(pick, options.pickLength, options.maxBallValue)
+        } catch (err) {
+            if (!(err instanceof InvalidPickError)) throw err
+            throw new AirdropError('InvalidPick', `Line ${line}: ${err.message}`)
+        }
+    }
+    const numQuickPicks = rows.filter(({ pick }) => !pick).length
+    const quickPicks = numQuickPicks > 0 ? generateQuickPicks(numQuickPicks, options) : undefined
+    let q = 0
+    return {
+        tickets: rows.map(({ recipient, pick }) => ({
+            whomst: recipient,
+            pick: pick ?? quickPicks!.tickets[q++].pick.map(BigInt),
+        })),
+        quickPickSeed: quickPicks?.seed,
+    }
+}
+
+/**
+ * Split an airdrop into `ownerPick` transactions that each fit a gas budget
+ * @param lootery Lootery, connected with its owner
+ * @param tickets Tickets to give out, see {planAirdrop}
+ * @param maxGasPerTx Gas budget of each transaction
+ * @throws {AirdropError} If the tickets exceed the current game's limit
+ */
+export async function chunkAirdrop(
+    lootery: Lootery,
+    tickets: AirdropPlan['tickets'],
+    maxGasPerTx: bigint = DEFAULT_MAX_AIRDROP_GAS,
+) {
+    if (tickets.length === 0) {
+        throw new AirdropError('NoTicketsSpecified', 'No tickets specified')
+    }
+    const { id: gameId } = await lootery.currentGame()
+    const [maxPicks, numPicks] = await Promise.all([
+        lootery.maxOwnerPicksPerGame(),
+        lootery.numOwnerPicks(gameId),
+    ])
+    if (numPicks + BigInt(tickets.length) > maxPicks) {
+        throw new AirdropError(
+            'OwnerPickLimitExceeded',
+            `Game ${gameId} has ${maxPicks - numPicks} free ticket(s) left, but ${tickets.length} were specified`,
+        )
+    }
+    return chunkByGas(tickets, (chunk) => lootery.ownerPick.estimateGas(chunk), maxGasPerTx)
+}
+
+/**
+ * Give out free tickets with `ownerPick`, one chunk at a time
+ * @param lootery Lootery, connected with its owner
+ * @param chunks Tickets of each transaction, see {chunkAirdrop}
+ * @param onBatch Called after each transaction is confirmed, e.g. to log
+ *     progress so that a failed airdrop can be resumed
+ */
+export async function sendAirdrop(
+    lootery: Lootery,
+    chunks: AirdropPlan['tickets'][],
+    onBatch?: (batch: AirdropBatch, index: number) => void,
+) {
+    const address = await lootery.getAddress()
+    const batches: AirdropBatch[] = []
+    for (const [index, chunk] of chunks.entries()) {
+        const tx = await lootery.ownerPick(chunk)
+        const receipt = await tx.wait()
+        const tokenIds = filterLooteryEvents(
+            decodeLooteryEvents(receipt!.logs, address),
+            'TicketPurchased',
+        ).map((event) => event.args.tokenId)
+        const batch = { txHash: tx.hash, tokenIds }
+        batches.push(batch)
+        onBatch?.(batch, index)
+    }
+    return batches
+}
@@ -1,9 +1,11 @@
-import { ethers, ignition, run } from 'hardhat'
+import { artifacts, ethers, ignition, run } from 'hardhat'
 import { LooteryFactory__factory } from '../typechain-types'
-import { config } from './config'
-import LooteryImplModule from '../ignition/modules/LooteryImplV1_9_0'
+import { getNetworkManifest, requireManifestValues } from './manifest'
+import { buildReleaseModule, getBuildVersion } from './release'
 import LooteryFactoryModule from '../ignition/modules/LooteryFactory'
 import LooteryETHAdapterModule from '../ignition/modules/LooteryETHAdapter'
+import LooterySubscriptionsModule from '../ignition/modules/LooterySubscriptions'
+import LooteryPurchaseRelayModule from '../ignition/modules/LooteryPurchaseRelay'
 import TicketSVGRendererModule from '../ignition/modules/TicketSVGRenderer'
 import assert from 'node:assert'
 import { getAddress, ZeroAddress } from 'ethers'
@@ -11,13 +13,19 @@ import { getAddress, ZeroAddress } from 'ethers'
 async function main() {
     const [deployer] = await ethers.getSigners()
     const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
-    const { anyrand, weth, owner, feeRecipient } = config[chainId.toString() as keyof typeof config]
+    const { randomiser, weth, owner, feeRecipient } = requireManifestValues(
+        getNetworkManifest(chainId),
+        'randomiser',
+        'weth',
+    )
 
     const { ticketSVGRenderer } = await ignition.deploy(TicketSVGRendererModule)
-    const { looteryImpl } = await ignition.deploy(LooteryImplModule)
+    const { implementation: looteryImpl } = await ignition.deploy(
+        buildReleaseModule('Lootery', await getBuildVersion(artifacts, 'Lootery')),
+    )
     const factoryInitData = LooteryFactory__factory.createInterface().encodeFunctionData('init', [
         await looteryImpl.getAddress(),
-        anyrand,
+        randomiser,
         await ticketSVGRenderer.getAddress(),
     ])
     const { looteryFactoryProxy } = await ignition.deploy(LooteryFactoryModule, {
@@ -38,6 +46,16 @@ async function main() {
         },
     })
     console.log(`LooteryETHAdapter deployed at: ${await looteryEthAdapter.getAddress()}`)
+    const { looterySubscriptions } = await ignition.deploy(LooterySubscriptionsModule, {
+        parameters: {
+            LooterySubscriptions: {
+                looteryFactory: await looteryFactoryProxy.getAddress(),
+            },
+        },
+    })
+    console.log(`LooterySubscriptions deployed at: ${await looterySubscriptions.getAddress()}`)
+    const { looteryPurchaseRelay } = await ignition.deploy(LooteryPurchaseRelayModule)
+    console.log(`LooteryPurchaseRelay deployed at: ${await looteryPurchaseRelay.getAddress()}`)
 
     /// Post-deployment ops
 
@@ -1,10 +1,10 @@
 import { ethers, ignition, run } from 'hardhat'
-import { config } from './config'
+import { getNetworkManifest, requireManifestValues } from './manifest'
 import LooteryETHAdapterModule from '../ignition/modules/LooteryETHAdapterV1_5_0'
 
 async function main() {
     const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
-    const { weth } = config[chainId.toString() as keyof typeof config]
+    const { weth } = requireManifestValues(getNetworkManifest(chainId), 'weth')
 
     // Periphery
     const { looteryEthAdapter } = await ignition.deploy(LooteryETHAdapterModule, {
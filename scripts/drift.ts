@@ -0,0 +1,378 @@
+import { Interface, Provider, ZeroHash, getAddress, getBytes, hexlify, keccak256 } from 'ethers'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { connectLooteryFactory, looteryFactoryInterface } from '../sdk/contracts'
+
+/** ERC-1967 implementation slot, i.e. bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1) */
+export const ERC1967_IMPLEMENTATION_SLOT =
+    '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+
+const typeAndVersionInterface = new Interface(['function typeAndVersion() view returns (string)'])
+
+/** A contract deployment recorded in an ignition journal */
+export interface IgnitionFuture {
+    futureId: string
+    contractName: string
+    /** Deployer */
+    from: string
+    constructorArgs: unknown[]
+    /** Creation transaction data */
+    data?: string
+    nonce?: number
+    txHash?: string
+    blockNumber?: number
+    /** Deployed address; undefined if the deployment never completed */
+    address?: string
+}
+
+export interface IgnitionDeployment {
+    chainId: bigint
+    /** Futures, in the order they were executed */
+    futures: IgnitionFuture[]
+    /** Contents of `deployed_addresses.json` */
+    deployedAddresses: Record<string, string>
+    /** futureId => deployed bytecode of the artifact */
+    deployedBytecodes: Record<string, string>
+}
+
+export type DriftKind =
+    | 'AddressMismatch'
+    | 'MissingCode'
+    | 'BytecodeMismatch'
+    | 'ImplementationMismatch'
+    | 'MasterCopyMismatch'
+    | 'RendererMismatch'
+    | 'RandomiserMismatch'
+    | 'FeeRecipientMismatch'
+    | 'MissingAdmin'
+    | 'UnexpectedAdmin'
+
+export interface Drift {
+    kind: DriftKind
+    /** futureId or factory property that drifted */
+    subject: string
+    expected?: string
+    actual?: string
+}
+
+export interface ContractReport {
+    futureId: string
+    contractName: string
+    address: string
+    /** keccak256 of the deployed code; null if there is no code */
+    codeHash: string | null
+    /** keccak256 of the artifact's deployed bytecode */
+    artifactCodeHash: string | null
+    /** Whether the deployed code matches the artifact, ignoring immutables */
+    bytecodeMatches: boolean | null
+    typeAndVersion: string | null
+}
+
+export interface FactoryReport {
+    proxy: string
+    implementation: string
+    implementationTypeAndVersion: string | null
+    looteryMasterCopy: string
+    looteryMasterCopyTypeAndVersion: string | null
+    ticketSVGRenderer: string
+    randomiser: string
+    feeRecipient: string
+    /** Current holders of `DEFAULT_ADMIN_ROLE` */
+    admins: string[]
+}
+
+export interface DriftReport {
+    chainId: bigint
+    blockNumber: number
+    contracts: ContractReport[]
+    factory: FactoryReport | null
+    drift: Drift[]
+}
+
+/** Expected values that aren't recorded in ignition journals, e.g. from the manifest */
+export interface DriftExpectations {
+    owner?: string
+    feeRecipient?: string
+    randomiser?: string
+}
+
+/**
+ * Read an ignition deployment, i.e. `ignition/deployments/chain-${chainId}`
+ * @param dir Deployment directory
+ */
+export async function readIgnitionDeployment(dir: string): Promise<IgnitionDeployment> {
+    const journal = await fs.readFile(path.join(dir, 'journal.jsonl'), { encoding: 'utf-8' })
+    const deployedAddresses = JSON.parse(
+        await fs.readFile(path.join(dir, 'deployed_addresses.json'), { encoding: 'utf-8' }),
+    ) as Record<string, string>
+
+    let chainId: bigint | undefined
+    const futures = new Map<string, IgnitionFuture>()
+    for (const line of journal.split('\n')) {
+        if (!line.trim()) continue
+        const entry = JSON.parse(line)
+        const future = futures.get(entry.futureId)
+        switch (entry.type) {
+            case 'DEPLOYMENT_INITIALIZE':
+                chainId = BigInt(entry.chainId)
+                break
+            case 'DEPLOYMENT_EXECUTION_STATE_INITIALIZE':
+                futures.set(entry.futureId, {
+                    futureId: entry.futureId,
+                    contractName: entry.contractName,
+                    from: getAddress(entry.from),
+                    constructorArgs: entry.constructorArgs,
+                })
+                break
+            case 'NETWORK_INTERACTION_REQUEST':
+                if (future) future.data = entry.networkInteraction.data
+                break
+            case 'TRANSACTION_SEND':
+                if (future) future.nonce = entry.nonce
+                break
+            case 'TRANSACTION_CONFIRM':
+                if (future) {
+                    future.txHash = entry.hash
+                    future.blockNumber = entry.receipt.blockNumber
+                }
+                break
+            case 'DEPLOYMENT_EXECUTION_STATE_COMPLETE':
+                if (future && entry.result.type === 'SUCCESS') {
+                    future.address = getAddress(entry.result.address)
+                }
+                break
+        }
+    }
+    if (chainId === undefined) {
+        throw new Error(`No DEPLOYMENT_INITIALIZE entry in ${dir}/journal.jsonl`)
+    }
+
+    const deployedBytecodes: Record<string, string> = {}
+    for (const futureId of futures.keys()) {
+        const artifact = await fs
+            .readFile(path.join(dir, 'artifacts', `${futureId}.json`), { encoding: 'utf-8' })
+            .then((contents) => JSON.parse(contents))
+            .catch(() => null)
+        if (artifact) {
+            deployedBytecodes[futureId] = artifact.deployedBytecode
+        }
+    }
+    return { chainId, futures: [...futures.values()], deployedAddresses, deployedBytecodes }
+}
+
+/**
+ * Compare deployed code against an artifact's deployed bytecode. Immutables
+ * are zeroed out in artifacts, so bytes that are zero in the artifact may
+ * differ.
+ * @param code Deployed code
+ * @param artifactBytecode Deployed bytecode of the artifact
+ */
+export function matchesArtifactBytecode(code: string, artifactBytecode: string) {
+    const actual = getBytes(code)
+    const expected = getBytes(artifactBytecode)
+    if (actual.length !== expected.length) return false
+    return expected.every((byte, i) => byte === actual[i] || byte === 0)
+}
+
+/** `typeAndVersion()` of a contract, or null if it doesn't implement it */
+export async function getTypeAndVersion(provider: Provider, address: string) {
+    try {
+        const result = await provider.call({
+            to: address,
+            data: typeAndVersionInterface.encodeFunctionData('typeAndVersion'),
+        })
+        return typeAndVersionInterface.decodeFunctionResult('typeAndVersion', result)[0] as string
+    } catch {
+        return null
+    }
+}
+
+/** Last completed deployment of a contract */
+function findLatest(deployment: IgnitionDeployment, contractName: string) {
+    return deployment.futures.filter((f) => f.contractName === contractName && f.address).pop()
+}
+
+/**
+ * Audit a deployment recorded by ignition against the chain, reporting any
+ * drift between what was recorded and what is live.
+ * @param provider Provider for the deployment's chain
+ * @param deployment Ignition deployment
+ * @param options.expected Expected values not recorded by ignition
+ * @param options.fromBlock Block from which to scan for admin role grants
+ *  (defaults to the block the factory proxy was deployed in)
+ * @param options.maxBlockRange Maximum block range of a single `eth_getLogs`
+ */
+export async function auditDeployment(
+    provider: Provider,
+    deployment: IgnitionDeployment,
+    options: { expected?: DriftExpectations; fromBlock?: number; maxBlockRange?: number } = {},
+): Promise<DriftReport> {
+    const { expected = {}, maxBlockRange = 10_000 } = options
+    const { chainId } = await provider.getNetwork()
+    if (chainId !== deployment.chainId) {
+        throw new Error(`Deployment is for chain ${deployment.chainId}, not ${chainId}`)
+    }
+    const blockNumber = await provider.getBlockNumber()
+    const drift: Drift[] = []
+
+    for (const [futureId, address] of Object.entries(deployment.deployedAddresses)) {
+        const future = deployment.futures.find((f) => f.futureId === futureId)
+        if (future?.address !== getAddress(address)) {
+            drift.push({
+                kind: 'AddressMismatch',
+                subject: futureId,
+                expected: future?.address,
+                actual: address,
+            })
+        }
+    }
+
+    const contracts: ContractReport[] = []
+    for (const future of deployment.futures) {
+        if (!future.address) continue
+        const code = await provider.getCode(future.address, blockNumber)
+        const artifactBytecode = deployment.deployedBytecodes[future.futureId]
+        const hasCode = code !== '0x'
+        const report: ContractReport = {
+            futureId: future.futureId,
+            contractName: future.contractName,
+            address: future.address,
+            codeHash: hasCode ? keccak256(code) : null,
+            artifactCodeHash: artifactBytecode ? keccak256(artifactBytecode) : null,
+            bytecodeMatches:
+                hasCode && artifactBytecode
+                    ? matchesArtifactBytecode(code, artifactBytecode)
+                    : null,
+            typeAndVersion: hasCode ? await getTypeAndVersion(provider, future.address) : null,
+        }
+        contracts.push(report)
+        if (!hasCode) {
+            drift.push({ kind: 'MissingCode', subject: future.futureId, actual: future.address })
+        } else if (report.bytecodeMatches === false) {
+            drift.push({
+                kind: 'BytecodeMismatch',
+                subject: future.futureId,
+                expected: report.artifactCodeHash!,
+                actual: report.codeHash!,
+            })
+        }
+    }
+
+    const proxy = deployment.futures.find(
+        (f) => f.contractName === 'ERC1967Proxy' && f.futureId.startsWith('LooteryFactory#'),
+    )
+    let factory: FactoryReport | null = null
+    if (proxy?.address && (await provider.getCode(proxy.address, blockNumber)) !== '0x') {
+        const looteryFactory = connectLooteryFactory(proxy.address, provider)
+        const overrides = { blockTag: blockNumber }
+        const [implementationSlot, looteryMasterCopy, ticketSVGRenderer, randomiser, feeRecipient] =
+            await Promise.all([
+                provider.getStorage(proxy.address, ERC1967_IMPLEMENTATION_SLOT, blockNumber),
+                looteryFactory.getLooteryMasterCopy(overrides),
+                looteryFactory.getTicketSVGRenderer(overrides),
+                looteryFactory.getRandomiser(overrides),
+                looteryFactory.getFeeRecipient(overrides),
+            ])
+        const implementation = getAddress(hexlify(getBytes(implementationSlot).slice(-20)))
+        factory = {
+            proxy: proxy.address,
+            implementation,
+            implementationTypeAndVersion: await getTypeAndVersion(provider, implementation),
+            looteryMasterCopy,
+            looteryMasterCopyTypeAndVersion: await getTypeAndVersion(provider, looteryMasterCopy),
+            ticketSVGRenderer,
+            randomiser,
+            feeRecipient,
+            admins: await getAdmins(provider, proxy.address, {
+                fromBlock: options.fromBlock ?? proxy.blockNumber ?? 0,
+                toBlock: blockNumber,
+                maxBlockRange,
+            }),
+        }
+
+        const compare = (
+            kind: DriftKind,
+            subject: string,
+            expectedValue?: string,
+            actual?: string,
+        ) => {
+            if (expectedValue && expectedValue !== actual) {
+                drift.push({ kind, subject, expected: expectedValue, actual })
+            }
+        }
+        compare(
+            'ImplementationMismatch',
+            'implementation',
+            findLatest(deployment, 'LooteryFactory')?.address,
+            implementation,
+        )
+        compare(
+            'MasterCopyMismatch',
+            'looteryMasterCopy',
+            findLatest(deployment, 'Lootery')?.address,
+            looteryMasterCopy,
+        )
+        compare(
+            'RendererMismatch',
+            'ticketSVGRenderer',
+            findLatest(deployment, 'TicketSVGRenderer')?.address,
+            ticketSVGRenderer,
+        )
+        compare('RandomiserMismatch', 'randomiser', expected.randomiser, randomiser)
+        compare('FeeRecipientMismatch', 'feeRecipient', expected.feeRecipient, feeRecipient)
+
+        // Without an expected owner, the deployer should still be the admin
+        const expectedAdmin = expected.owner ? getAddress(expected.owner) : proxy.from
+        if (!factory.admins.includes(expectedAdmin)) {
+            drift.push({
+                kind: 'MissingAdmin',
+                subject: 'DEFAULT_ADMIN_ROLE',
+                expected: expectedAdmin,
+            })
+        }
+        for (const admin of factory.admins) {
+            if (admin !== expectedAdmin) {
+                drift.push({
+                    kind: 'UnexpectedAdmin',
+                    subject: 'DEFAULT_ADMIN_ROLE',
+                    actual: admin,
+                })
+            }
+        }
+    }
+
+    return { chainId, blockNumber, contracts, factory, drift }
+}
+
+/**
+ * Find the current holders of `DEFAULT_ADMIN_ROLE`. AccessControl isn't
+ * enumerable, so accounts are collected from `RoleGranted` events and then
+ * checked with `hasRole`.
+ */
+async function getAdmins(
+    provider: Provider,
+    factoryAddress: string,
+    range: { fromBlock: number; toBlock: number; maxBlockRange: number },
+) {
+    const roleGranted = looteryFactoryInterface.getEvent('RoleGranted')
+    const candidates = new Set<string>()
+    for (let from = range.fromBlock; from <= range.toBlock; from += range.maxBlockRange) {
+        const logs = await provider.getLogs({
+            address: factoryAddress,
+            topics: [roleGranted.topicHash, ZeroHash],
+            fromBlock: from,
+            toBlock: Math.min(from + range.maxBlockRange - 1, range.toBlock),
+        })
+        for (const log of logs) {
+            candidates.add(getAddress(hexlify(getBytes(log.topics[2]).slice(-20))))
+        }
+    }
+    const factory = connectLooteryFactory(factoryAddress, provider)
+    const admins: string[] = []
+    for (const account of candidates) {
+        if (await factory.hasRole(ZeroHash, account, { blockTag: range.toBlock })) {
+            admins.push(account)
+        }
+    }
+    return admins
+}
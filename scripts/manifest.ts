@@ -0,0 +1,134 @@
+import type { HardhatUserConfig } from 'hardhat/types'
+import { getAddress, isAddress } from 'ethers'
+import { load as loadYaml } from 'js-yaml'
+import fs from 'node:fs'
+import path from 'node:path'
+import z from 'zod'
+
+export const MANIFEST_PATH = path.resolve(__dirname, '../deployments.yaml')
+
+const AddressSchema = z.string().refine(isAddress, 'Invalid address').transform(getAddress)
+const EnvVarSchema = z.string().regex(/^[A-Z_][A-Z0-9_]*$/, 'Invalid env var name')
+
+const ExplorerSchema = z
+    .object({
+        apiKeyEnv: EnvVarSchema,
+        /** hardhat-verify network name, if different to the manifest's */
+        network: z.string().min(1).optional(),
+        apiUrl: z.string().url().optional(),
+        browserUrl: z.string().url().optional(),
+    })
+    .refine(
+        (explorer) => (explorer.apiUrl === undefined) === (explorer.browserUrl === undefined),
+        'apiUrl and browserUrl must be specified together',
+    )
+
+const NetworkManifestSchema = z.object({
+    chainId: z.number().int().positive(),
+    rpcUrlEnv: EnvVarSchema,
+    deployerKeyEnv: EnvVarSchema,
+    explorer: ExplorerSchema.optional(),
+    randomiser: AddressSchema.optional(),
+    weth: AddressSchema.optional(),
+    owner: AddressSchema.optional(),
+    feeRecipient: AddressSchema.optional(),
+})
+export type NetworkManifest = z.TypeOf<typeof NetworkManifestSchema>
+
+export const DeploymentManifestSchema = z
+    .object({
+        networks: z.record(z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/), NetworkManifestSchema),
+    })
+    .superRefine((manifest, ctx) => {
+        const names = new Map<number, string>()
+        for (const [name, network] of Object.entries(manifest.networks)) {
+            if (names.has(network.chainId)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ['networks', name, 'chainId'],
+                    message: `Duplicate chainId ${network.chainId} (also ${names.get(network.chainId)})`,
+                })
+            }
+            names.set(network.chainId, name)
+        }
+    })
+export type DeploymentManifest = z.TypeOf<typeof DeploymentManifestSchema>
+
+/**
+ * Read & validate the deployment manifest. NB: This is synchronous so that it
+ * can be used in the hardhat config.
+ * @param file Path to the manifest
+ */
+export function readManifest(file = MANIFEST_PATH): DeploymentManifest {
+    return DeploymentManifestSchema.parse(loadYaml(fs.readFileSync(file, { encoding: 'utf-8' })))
+}
+
+/**
+ * Get the manifest of the network with the given chain id
+ * @param chainId Chain id
+ * @param manifest Deployment manifest
+ */
+export function getNetworkManifest(chainId: bigint, manifest = readManifest()) {
+    const entry = Object.entries(manifest.networks).find(
+        ([, network]) => BigInt(network.chainId) === chainId,
+    )
+    if (!entry) {
+        throw new Error(`Chain ${chainId} is not in the deployment manifest`)
+    }
+    const [name, network] = entry
+    return { name, ...network }
+}
+
+/**
+ * Assert that the manifest specifies the given contract dependencies
+ * @param network Network manifest
+ * @param keys Required keys
+ */
+export function requireManifestValues<K extends 'randomiser' | 'weth'>(
+    network: NetworkManifest & { name: string },
+    ...keys: K[]
+) {
+    for (const key of keys) {
+        if (!network[key]) {
+            throw new Error(`Deployment manifest is missing ${key} for ${network.name}`)
+        }
+    }
+    return network as NetworkManifest & { name: string } & Required<Pick<NetworkManifest, K>>
+}
+
+/**
+ * Generate the hardhat `networks` & `etherscan` configs from the manifest.
+ * Networks whose env vars are unset are still configured, but can't be used
+ * to send transactions.
+ * @param manifest Deployment manifest
+ */
+export function toHardhatConfig(
+    manifest: DeploymentManifest,
+): Required<Pick<HardhatUserConfig, 'networks' | 'etherscan'>> {
+    const networks: HardhatUserConfig['networks'] = {}
+    const apiKey: Record<string, string> = {}
+    const customChains: NonNullable<HardhatUserConfig['etherscan']>['customChains'] = []
+    for (const [name, network] of Object.entries(manifest.networks)) {
+        const deployerKey = process.env[network.deployerKeyEnv]
+        networks[name] = {
+            chainId: network.chainId,
+            url: process.env[network.rpcUrlEnv] ?? '',
+            accounts: deployerKey ? [deployerKey] : [],
+        }
+        if (network.explorer) {
+            const explorerNetwork = network.explorer.network ?? name
+            apiKey[explorerNetwork] = process.env[network.explorer.apiKeyEnv] ?? ''
+            if (network.explorer.apiUrl && network.explorer.browserUrl) {
+                customChains.push({
+                    network: explorerNetwork,
+                    chainId: network.chainId,
+                    urls: {
+                        apiURL: network.explorer.apiUrl,
+                        browserURL: network.explorer.browserUrl,
+                    },
+                })
+            }
+        }
+    }
+    return { networks, etherscan: { apiKey, customChains } }
+}
@@ -0,0 +1,100 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+import type { Artifacts } from 'hardhat/types'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { getBuildStorageLayout } from './storageLayout'
+
+export const RELEASES_DIR = path.resolve(__dirname, '../releases')
+
+/**
+ * Implementations that are released through the factory, by contract name.
+ * Module ids follow the hand-written modules they replace, e.g.
+ * `LooteryImplV1_8_0`, so that existing ignition journals are reused.
+ */
+export const RELEASE_CONTRACTS = {
+    // Set as the master copy of new lotteries
+    Lootery: { modulePrefix: 'LooteryImpl', update: 'setLooteryMasterCopy' },
+    // Implementation of the factory's UUPS proxy
+    LooteryFactory: { modulePrefix: 'LooteryFactoryImpl', update: 'upgradeToAndCall' },
+} as const
+
+export type ReleaseContract = keyof typeof RELEASE_CONTRACTS
+
+export interface ReleaseEntry {
+    contract: ReleaseContract
+    version: string
+    implementation: string
+    /** Ignition future the implementation was deployed as */
+    futureId: string
+    factory: string
+    /** Release that was replaced; the version is null if it's unknown */
+    previous: { version: string | null; implementation: string }
+    /** How the factory was pointed at the release */
+    update:
+        { kind: 'Transaction'; hash: string } | { kind: 'SafeBatch'; safe: string; file: string }
+    releasedAt: string
+}
+
+export class ReleaseError extends Error {
+    constructor(
+        public readonly reason: 'UnknownContract' | 'VersionMismatch' | 'Downgrade' | 'NotAdmin',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'ReleaseError'
+    }
+}
+
+export function isReleaseContract(contractName: string): contractName is ReleaseContract {
+    return Object.prototype.hasOwnProperty.call(RELEASE_CONTRACTS, contractName)
+}
+
+/** Ignition module id of a release, e.g. `LooteryImplV1_9_0` */
+export function getReleaseModuleId(contractName: ReleaseContract, version: string) {
+    if (!/^\d+\.\d+\.\d+$/.test(version)) {
+        throw new ReleaseError('VersionMismatch', `Invalid version ${version}; expected x.y.z`)
+    }
+    return `${RELEASE_CONTRACTS[contractName].modulePrefix}V${version.replace(/\./g, '_')}`
+}
+
+/**
+ * Ignition module that deploys the implementation of a release
+ * @param contractName e.g. `Lootery`
+ * @param version Version returned by the implementation's `typeAndVersion()`
+ */
+export function buildReleaseModule(contractName: ReleaseContract, version: string) {
+    return buildModule(getReleaseModuleId(contractName, version), (m) => ({
+        implementation: m.contract(contractName, []),
+    }))
+}
+
+/**
+ * Version of a contract in the current build, i.e. the one its
+ * `typeAndVersion()` returns
+ * @param artifacts Hardhat artifacts, i.e. `hre.artifacts`
+ * @param contractName e.g. `Lootery`
+ */
+export async function getBuildVersion(artifacts: Artifacts, contractName: string) {
+    const { version } = await getBuildStorageLayout(artifacts, contractName)
+    return version
+}
+
+/** Release changelog of a chain, oldest first */
+export async function readReleases(chainId: bigint, dir = RELEASES_DIR): Promise<ReleaseEntry[]> {
+    const file = path.join(dir, `chain-${chainId}.json`)
+    const json = await fs.readFile(file, { encoding: 'utf-8' }).catch(() => null)
+    return json ? JSON.parse(json) : []
+}
+
+/**
+ * Append a release to the changelog of a chain, `${dir}/chain-${chainId}.json`
+ * @returns Path of the changelog
+ */
+export async function recordRelease(chainId: bigint, entry: ReleaseEntry, dir = RELEASES_DIR) {
+    const releases = await readReleases(chainId, dir)
+    releases.push(entry)
+    const file = path.join(dir, `chain-${chainId}.json`)
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(file, JSON.stringify(releases, null, 2) + '\n', { encoding: 'utf-8' })
+    return file
+}
@@ -0,0 +1,29 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { SafeBatch } from '../sdk/safe'
+
+export const SAFE_BATCHES_DIR = path.resolve(__dirname, '../safe-batches')
+
+/**
+ * Write a Safe Transaction Builder batch to be imported & signed by the Safe's
+ * owners
+ * @param batch Batch from `createSafeBatch`
+ * @param file Output path; defaults to `safe-batches/${chainId}-${name}-${createdAt}.json`
+ * @returns Path of the batch
+ */
+export async function writeSafeBatch(batch: SafeBatch, file?: string) {
+    const slug = batch.meta.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+    file ??= path.join(SAFE_BATCHES_DIR, `${batch.chainId}-${slug}-${batch.createdAt}.json`)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(batch, null, 4) + '\n', { encoding: 'utf-8' })
+    return file
+}
+
+/** Read a Safe Transaction Builder batch */
+export async function readSafeBatch(file: string): Promise<SafeBatch> {
+    const batch = JSON.parse(await fs.readFile(file, { encoding: 'utf-8' }))
+    if (batch?.version !== '1.0' || !Array.isArray(batch.transactions)) {
+        throw new Error(`${file} is not a Safe Transaction Builder batch`)
+    }
+    return batch
+}
@@ -0,0 +1,433 @@
+import type { Artifacts, BuildInfo } from 'hardhat/types'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+export const STORAGE_LAYOUTS_DIR = path.resolve(__dirname, '../.storage-layouts')
+
+/** Contracts whose storage layouts are snapshotted on release */
+export const STORAGE_LAYOUT_CONTRACTS: Record<string, { upgradeable: boolean }> = {
+    // UUPS proxy; an upgrade must not disturb existing storage
+    LooteryFactory: { upgradeable: true },
+    // Deployed as clones that never change implementation, so layout changes
+    // are only informational
+    Lootery: { upgradeable: false },
+}
+
+/** Storage variable, as output by solc */
+export interface StorageEntry {
+    astId: number
+    contract: string
+    label: string
+    offset: number
+    slot: string
+    type: string
+}
+
+/** Storage type, as output by solc */
+export interface StorageType {
+    encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes'
+    label: string
+    numberOfBytes: string
+    key?: string
+    value?: string
+    base?: string
+    members?: StorageEntry[]
+}
+
+export interface StorageLayoutSnapshot {
+    contractName: string
+    version: string
+    storage: StorageEntry[]
+    types: Record<string, StorageType> | null
+    /**
+     * Fixed storage slots, i.e. `bytes32` constants such as
+     * `LOOTERY_MASTER_COPY_SLOT` or ERC-7201 storage locations, keyed by
+     * `${contract}.${name}`
+     */
+    fixedSlots: Record<string, string>
+}
+
+export type StorageLayoutChangeKind =
+    | 'Added'
+    | 'Removed'
+    | 'Moved'
+    | 'Renamed'
+    | 'TypeChanged'
+    | 'FixedSlotAdded'
+    | 'FixedSlotRemoved'
+    | 'FixedSlotRenamed'
+    | 'FixedSlotChanged'
+
+export interface StorageLayoutChange {
+    kind: StorageLayoutChangeKind
+    label: string
+    /** Whether existing storage is still read correctly after the change */
+    compatible: boolean
+    message: string
+}
+
+export class StorageLayoutError extends Error {
+    constructor(
+        public readonly reason: 'MissingLayout' | 'MissingSnapshot' | 'IncompatibleLayout',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'StorageLayoutError'
+    }
+}
+
+/** Constants that locate storage, as opposed to e.g. role ids */
+const FIXED_SLOT_NAME = /(_SLOT|_STORAGE|StorageLocation)$/
+
+// Minimal subset of the solc AST that's needed here
+interface AstNode {
+    id: number
+    nodeType: string
+    name?: string
+    nodes?: AstNode[]
+    linearizedBaseContracts?: number[]
+    constant?: boolean
+    typeDescriptions?: { typeString: string }
+    value?: AstNode & { kind?: string; value?: string }
+    body?: { statements: AstNode[] }
+    expression?: AstNode & { kind?: string; value?: string }
+}
+
+function findContracts(buildInfo: BuildInfo) {
+    const contracts = new Map<number, AstNode>()
+    for (const { ast } of Object.values(buildInfo.output.sources)) {
+        for (const node of (ast as AstNode).nodes ?? []) {
+            if (node.nodeType === 'ContractDefinition') contracts.set(node.id, node)
+        }
+    }
+    return contracts
+}
+
+/**
+ * Extract the storage layout of a contract from its build info
+ * @param buildInfo Build info containing the contract
+ * @param sourceName e.g. `contracts/LooteryFactory.sol`
+ * @param contractName e.g. `LooteryFactory`
+ * @param version Version to record; defaults to the version returned by the
+ *  contract's `typeAndVersion()`
+ */
+export function extractStorageLayout(
+    buildInfo: BuildInfo,
+    sourceName: string,
+    contractName: string,
+    version?: string,
+): StorageLayoutSnapshot {
+    const output = buildInfo.output.contracts[sourceName]?.[contractName] as
+        { storageLayout?: Pick<StorageLayoutSnapshot, 'storage' | 'types'> } | undefined
+    if (!output?.storageLayout) {
+        throw new StorageLayoutError(
+            'MissingLayout',
+            `No storage layout for ${sourceName}:${contractName}; is storageLayout in the compiler outputSelection?`,
+        )
+    }
+
+    const contracts = findContracts(buildInfo)
+    const contract = (buildInfo.output.sources[sourceName].ast as AstNode).nodes!.find(
+        (node) => node.nodeType === 'ContractDefinition' && node.name === contractName,
+    )!
+    const fixedSlots: Record<string, string> = {}
+    for (const baseId of [...contract.linearizedBaseContracts!].reverse()) {
+        const base = contracts.get(baseId)!
+        for (const node of base.nodes ?? []) {
+            if (
+                node.nodeType === 'VariableDeclaration' &&
+                node.constant &&
+                node.typeDescriptions?.typeString === 'bytes32' &&
+                FIXED_SLOT_NAME.test(node.name!) &&
+                node.value?.nodeType === 'Literal'
+            ) {
+                fixedSlots[`${base.name}.${node.name}`] = node.value.value!
+            }
+        }
+    }
+    for (const baseId of contract.linearizedBaseContracts!) {
+        version ??= findTypeAndVersion(contracts.get(baseId)!)
+    }
+    if (!version) {
+        throw new StorageLayoutError(
+            'MissingLayout',
+            `Could not determine the version of ${contractName} from typeAndVersion()`,
+        )
+    }
+
+    return {
+        contractName,
+        version,
+        storage: output.storageLayout.storage,
+        types: output.storageLayout.types,
+        fixedSlots,
+    }
+}
+
+/** Version in the string literal returned by `typeAndVersion()`, if any */
+function findTypeAndVersion(contract: AstNode) {
+    const fn = contract.nodes?.find(
+        (node) => node.nodeType === 'FunctionDefinition' && node.name === 'typeAndVersion',
+    )
+    const expression = fn?.body?.statements.find((s) => s.nodeType === 'Return')?.expression
+    if (expression?.nodeType === 'Literal' && expression.kind === 'string') {
+        return expression.value!.split(' ').pop()
+    }
+}
+
+/**
+ * Storage layout of a contract in the current build
+ * @param artifacts Hardhat artifacts, i.e. `hre.artifacts`
+ * @param contractName e.g. `LooteryFactory`
+ * @param version Version to record; defaults to the contract's `typeAndVersion()`
+ */
+export async function getBuildStorageLayout(
+    artifacts: Artifacts,
+    contractName: string,
+    version?: string,
+) {
+    const { sourceName } = await artifacts.readArtifact(contractName)
+    const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+    if (!buildInfo) {
+        throw new StorageLayoutError('MissingLayout', `No build info for ${contractName}`)
+    }
+    return extractStorageLayout(buildInfo, sourceName, contractName, version)
+}
+
+/** Compare dotted numeric versions, e.g. `1.10.0` > `1.9.0` */
+export function compareVersions(a: string, b: string) {
+    const as = a.split('.').map(Number)
+    const bs = b.split('.').map(Number)
+    for (let i = 0; i < Math.max(as.length, bs.length); i++) {
+        const diff = (as[i] ?? 0) - (bs[i] ?? 0)
+        if (diff !== 0) return Math.sign(diff)
+    }
+    return 0
+}
+
+/** Versions of a contract that have been snapshotted, oldest first */
+export async function listSnapshotVersions(contractName: string, dir = STORAGE_LAYOUTS_DIR) {
+    const files = await fs.readdir(path.join(dir, contractName)).catch(() => [] as string[])
+    return files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.slice(0, -'.json'.length))
+        .sort(compareVersions)
+}
+
+export async function readSnapshot(
+    contractName: string,
+    version: string,
+    dir = STORAGE_LAYOUTS_DIR,
+): Promise<StorageLayoutSnapshot> {
+    const file = path.join(dir, contractName, `${version}.json`)
+    try {
+        return JSON.parse(await fs.readFile(file, { encoding: 'utf-8' }))
+    } catch {
+        throw new StorageLayoutError(
+            'MissingSnapshot',
+            `No storage layout snapshot for ${contractName} ${version} (${file})`,
+        )
+    }
+}
+
+/**
+ * Write a snapshot to `${dir}/${contractName}/${version}.json`
+ * @returns Path of the snapshot
+ */
+export async function writeSnapshot(snapshot: StorageLayoutSnapshot, dir = STORAGE_LAYOUTS_DIR) {
+    const file = path.join(dir, snapshot.contractName, `${snapshot.version}.json`)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(snapshot, null, 2) + '\n', { encoding: 'utf-8' })
+    return file
+}
+
+/**
+ * Canonical description of a storage type, independent of AST ids. Struct
+ * names are ignored as only their members determine the layout.
+ */
+function typeSignature(types: StorageLayoutSnapshot['types'], typeId: string): string {
+    const type = types?.[typeId]
+    if (!type) return typeId
+    switch (type.encoding) {
+        case 'mapping':
+            return `mapping(${typeSignature(types, type.key!)} => ${typeSignature(types, type.value!)})`
+        case 'dynamic_array':
+            return `${typeSignature(types, type.base!)}[]`
+    }
+    if (type.members) {
+        const members = type.members.map(
+            (member) =>
+                `${member.label}:${typeSignature(types, member.type)}@${member.slot}+${member.offset}`,
+        )
+        return `struct{${members.join(',')}}`
+    }
+    if (type.base) {
+        return `${typeSignature(types, type.base)}[${type.numberOfBytes} bytes]`
+    }
+    // Contract & address payable types are stored as plain addresses
+    return /^(contract |address payable$)/.test(type.label) ? 'address' : type.label
+}
+
+function typeLabel(snapshot: StorageLayoutSnapshot, entry: StorageEntry) {
+    return snapshot.types?.[entry.type]?.label ?? entry.type
+}
+
+/**
+ * Diff the storage layout of a new build against a previous release
+ * @param previous Snapshot of the released version
+ * @param next Snapshot of the new build
+ */
+export function compareStorageLayouts(
+    previous: StorageLayoutSnapshot,
+    next: StorageLayoutSnapshot,
+): StorageLayoutChange[] {
+    const changes: StorageLayoutChange[] = []
+    const matched = new Set<StorageEntry>()
+    for (const entry of previous.storage) {
+        const at = `slot ${entry.slot} offset ${entry.offset}`
+        const nextEntry = next.storage.find(
+            (e) => e.slot === entry.slot && e.offset === entry.offset,
+        )
+        if (!nextEntry) {
+            const moved = next.storage.find((e) => e.label === entry.label)
+            changes.push(
+                moved
+                    ? {
+                          kind: 'Moved',
+                          label: entry.label,
+                          compatible: false,
+                          message: `moved from ${at} to slot ${moved.slot} offset ${moved.offset}`,
+                      }
+                    : {
+                          kind: 'Removed',
+                          label: entry.label,
+                          compatible: false,
+                          message: `removed from ${at}`,
+                      },
+            )
+            continue
+        }
+        matched.add(nextEntry)
+        if (
+            typeSignature(previous.types, entry.type) !== typeSignature(next.types, nextEntry.type)
+        ) {
+            changes.push({
+                kind: 'TypeChanged',
+                label: entry.label,
+                compatible: false,
+                message: `type at ${at} changed from ${typeLabel(previous, entry)} to ${typeLabel(next, nextEntry)}`,
+            })
+        } else if (nextEntry.label !== entry.label) {
+            // A variable that existed elsewhere has been reordered into this slot
+            const reordered = previous.storage.some((e) => e.label === nextEntry.label)
+            changes.push(
+                reordered
+                    ? {
+                          kind: 'Moved',
+                          label: nextEntry.label,
+                          compatible: false,
+                          message: `moved to ${at}, which held "${entry.label}"`,
+                      }
+                    : {
+                          kind: 'Renamed',
+                          label: entry.label,
+                          compatible: true,
+                          message: `renamed to "${nextEntry.label}"`,
+                      },
+            )
+        }
+    }
+    for (const entry of next.storage) {
+        if (matched.has(entry)) continue
+        changes.push({
+            kind: 'Added',
+            label: entry.label,
+            compatible: true,
+            message: `added at slot ${entry.slot} offset ${entry.offset}`,
+        })
+    }
+
+    const nextSlotNames = new Map(Object.entries(next.fixedSlots).map(([k, v]) => [v, k]))
+    for (const [name, slot] of Object.entries(previous.fixedSlots)) {
+        const nextSlot = next.fixedSlots[name]
+        if (nextSlot === slot) continue
+        if (nextSlot !== undefined) {
+            changes.push({
+                kind: 'FixedSlotChanged',
+                label: name,
+                compatible: false,
+                message: `changed from ${slot} to ${nextSlot}`,
+            })
+        } else if (nextSlotNames.has(slot)) {
+            changes.push({
+                kind: 'FixedSlotRenamed',
+                label: name,
+                compatible: true,
+                message: `renamed to ${nextSlotNames.get(slot)}`,
+            })
+        } else {
+            changes.push({
+                kind: 'FixedSlotRemoved',
+                label: name,
+                compatible: false,
+                message: `removed; storage at ${slot} is orphaned`,
+            })
+        }
+    }
+    const previousSlots = new Set(Object.values(previous.fixedSlots))
+    for (const [name, slot] of Object.entries(next.fixedSlots)) {
+        if (name in previous.fixedSlots || previousSlots.has(slot)) continue
+        changes.push({
+            kind: 'FixedSlotAdded',
+            label: name,
+            compatible: true,
+            message: `added at ${slot}`,
+        })
+    }
+    return changes
+}
+
+/**
+ * Check that the current build of a contract can replace a released version
+ * without corrupting its storage. Changes are logged; for upgradeable
+ * contracts, incompatible changes or a missing snapshot throw.
+ * @param artifacts Hardhat artifacts, i.e. `hre.artifacts`
+ * @param contractName e.g. `LooteryFactory`
+ * @param fromVersion Released version being replaced, e.g. from the
+ *  deployed implementation's `typeAndVersion()`
+ */
+export async function assertStorageLayoutCompatible(
+    artifacts: Artifacts,
+    contractName: string,
+    fromVersion: string,
+    dir = STORAGE_LAYOUTS_DIR,
+) {
+    const { upgradeable } = STORAGE_LAYOUT_CONTRACTS[contractName] ?? { upgradeable: true }
+    const previous = await readSnapshot(contractName, fromVersion, dir).catch((err) => {
+        if (upgradeable) throw err
+        console.warn(`${(err as Error).message}; skipping storage layout comparison`)
+        return null
+    })
+    if (!previous) return []
+    const next = await getBuildStorageLayout(artifacts, contractName)
+    const changes = compareStorageLayouts(previous, next)
+    console.log(`Storage layout of ${contractName} ${fromVersion} -> ${next.version}:`)
+    if (changes.length === 0) {
+        console.log('\x1B[32;1m✓ No changes\x1B[0m')
+    }
+    for (const { label, compatible, message } of changes) {
+        console.log(
+            compatible || !upgradeable
+                ? `\x1B[33;1m  ${label}: ${message}\x1B[0m`
+                : `\x1B[31;1m✗ ${label}: ${message}\x1B[0m`,
+        )
+    }
+    const incompatible = changes.filter((change) => !change.compatible)
+    if (upgradeable && incompatible.length > 0) {
+        throw new StorageLayoutError(
+            'IncompatibleLayout',
+            `${incompatible.length} incompatible storage layout change(s) in ${contractName} since ${fromVersion}`,
+        )
+    }
+    return changes
+}
@@ -0,0 +1,104 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+import { id } from 'ethers'
+import { load as loadYaml } from 'js-yaml'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import z from 'zod'
+
+/** Theme of a `ThemedTicketSVGRenderer`; mirrors its `Theme` struct */
+export const TicketThemeSchema = z.object({
+    /** Background colour, e.g. "#ffffff" */
+    background: z.string().min(1),
+    /** Colour of text & border */
+    foreground: z.string().min(1),
+    /** Colour of circles around picked numbers */
+    accent: z.string().min(1),
+    fontFamily: z.string().min(1).default('Arial'),
+    /** URI of a logo shown left of the title, e.g. an ipfs:// or data: URI */
+    logo: z.string().default(''),
+    description: z.string(),
+    /** Numbers per row of the grid, which determines the width */
+    numbersPerRow: z.number().int().min(1).max(255).default(5),
+})
+export type TicketTheme = z.TypeOf<typeof TicketThemeSchema>
+
+/** Built-in themes, usable by name instead of a theme file */
+export const TICKET_THEMES = {
+    /** Same colours & layout as `TicketSVGRenderer` */
+    classic: {
+        background: 'white',
+        foreground: 'black',
+        accent: 'red',
+        fontFamily: 'Arial',
+        logo: '',
+        description: 'POWERBALD LOL',
+        numbersPerRow: 5,
+    },
+    midnight: {
+        background: '#14142b',
+        foreground: '#e8e8ff',
+        accent: '#ffcc00',
+        fontFamily: 'Courier New',
+        logo: '',
+        description: 'A LottoPGF ticket. Every ticket funds public goods.',
+        numbersPerRow: 7,
+    },
+    wide: {
+        background: '#f4f1e8',
+        foreground: '#2b2b2b',
+        accent: '#1d7a4e',
+        fontFamily: 'Helvetica',
+        logo: '',
+        description: 'A LottoPGF ticket. Every ticket funds public goods.',
+        numbersPerRow: 10,
+    },
+} satisfies Record<string, TicketTheme>
+
+/**
+ * Read a built-in theme by name, or a theme from a JSON/YAML file
+ * @param themeOrFile e.g. `midnight` or `themes/mine.yaml`
+ * @returns Name of the theme (the file's basename for files) & the theme
+ */
+export async function readTicketTheme(themeOrFile: string) {
+    if (themeOrFile in TICKET_THEMES) {
+        return {
+            name: themeOrFile,
+            theme: TICKET_THEMES[themeOrFile as keyof typeof TICKET_THEMES] as TicketTheme,
+        }
+    }
+    const contents = await fs.readFile(themeOrFile, { encoding: 'utf-8' }).catch((err) => {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        throw new Error(
+            `${themeOrFile} is neither a theme file nor one of ${Object.keys(TICKET_THEMES).join(', ')}`,
+        )
+    })
+    const extension = path.extname(themeOrFile)
+    const raw = ['.yaml', '.yml'].includes(extension.toLowerCase())
+        ? loadYaml(contents)
+        : JSON.parse(contents)
+    return { name: path.basename(themeOrFile, extension), theme: TicketThemeSchema.parse(raw) }
+}
+
+/**
+ * Ignition module id of a themed renderer, e.g.
+ * `ThemedTicketSVGRenderer_midnight_1a2b3c4d`. The id includes a hash of the
+ * theme, so that changing a theme deploys a new renderer rather than
+ * conflicting with the previous deployment.
+ * @param name Name of the theme
+ * @param theme Theme
+ */
+export function getThemedRendererModuleId(name: string, theme: TicketTheme) {
+    const hash = id(JSON.stringify(TicketThemeSchema.parse(theme))).slice(2, 10)
+    return `ThemedTicketSVGRenderer_${name.replace(/[^A-Za-z0-9_]/g, '_')}_${hash}`
+}
+
+/**
+ * Ignition module that deploys a themed renderer
+ * @param name Name of the theme
+ * @param theme Theme
+ */
+export function buildThemedRendererModule(name: string, theme: TicketTheme) {
+    return buildModule(getThemedRendererModuleId(name, theme), (m) => ({
+        renderer: m.contract('ThemedTicketSVGRenderer', [TicketThemeSchema.parse(theme)]),
+    }))
+}
@@ -0,0 +1,288 @@
+import { decodeBase64, toUtf8String } from 'ethers'
+import { Erc721Metadata, Erc721MetadataSchema } from './Erc721Metadata'
+
+export class TokenURIError extends Error {
+    constructor(
+        public readonly reason:
+            'InvalidDataURI' | 'InvalidMetadata' | 'MalformedSVG' | 'PickMismatch',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'TokenURIError'
+    }
+}
+
+/** Element of a parsed XML document */
+export interface XMLElement {
+    name: string
+    attributes: Record<string, string>
+    children: (XMLElement | string)[]
+}
+
+export interface DecodedTokenURI {
+    metadata: Erc721Metadata
+    /** SVG of the metadata's image */
+    svg: string
+    /** Root element of the SVG */
+    root: XMLElement
+}
+
+/**
+ * Decode an RFC 2397 data URI, e.g. `data:application/json;base64,...`
+ * @returns Media type & content, decoded as UTF-8
+ */
+export function decodeDataURI(uri: string) {
+    const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(uri)
+    if (!match) {
+        throw new TokenURIError('InvalidDataURI', `Not a data URI: ${uri.slice(0, 32)}...`)
+    }
+    const [, mediaType, params, data] = match
+    try {
+        const content = params.split(';').includes('base64')
+            ? toUtf8String(decodeBase64(data))
+            : decodeURIComponent(data)
+        return { mediaType, content }
+    } catch (err) {
+        throw new TokenURIError(
+            'InvalidDataURI',
+            `Could not decode ${mediaType} data URI: ${(err as Error).message}`,
+        )
+    }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+}
+
+/**
+ * Parse an XML document, rejecting any that isn't well-formed (unbalanced or
+ * mismatched tags, unquoted or duplicate attributes, unescaped `<` or `&`,
+ * content outside of the root element). DTDs are not supported.
+ * @param xml XML document, e.g. an SVG
+ * @returns Root element
+ */
+export function parseXML(xml: string): XMLElement {
+    let i = 0
+    const fail = (message: string): never => {
+        throw new TokenURIError('MalformedSVG', `${message} at offset ${i}`)
+    }
+    const NAME = /[A-Za-z_:][\w:.-]*/y
+    const readName = () => {
+        NAME.lastIndex = i
+        const match = NAME.exec(xml) ?? fail('Expected a name')
+        i = NAME.lastIndex
+        return match[0]
+    }
+    const skipSpace = () => {
+        const start = i
+        while (i < xml.length && /\s/.test(xml[i])) i++
+        return i > start
+    }
+    const skipPast = (terminator: string) => {
+        const end = xml.indexOf(terminator, i)
+        if (end === -1) fail(`Expected ${terminator}`)
+        const skipped = xml.slice(i, end)
+        i = end + terminator.length
+        return skipped
+    }
+    const decodeEntities = (text: string) =>
+        text.replace(/&([^;]*);?/g, (reference, entity: string) => {
+            if (!reference.endsWith(';')) fail(`Unescaped & in "${text}"`)
+            if (/^#\d+$/.test(entity)) return String.fromCodePoint(Number(entity.slice(1)))
+            if (/^#x[0-9a-f]+$/i.test(entity)) {
+                return String.fromCodePoint(parseInt(entity.slice(2), 16))
+            }
+            return XML_ENTITIES[entity] ?? fail(`Unknown entity &${entity}; in "${text}"`)
+        })
+    // Whitespace, comments & processing instructions around the root element
+    const skipMisc = () => {
+        for (;;) {
+            skipSpace()
+            if (xml.startsWith('<?', i)) skipPast('?>')
+            else if (xml.startsWith('<!--', i)) skipPast('-->')
+            else return
+        }
+    }
+
+    const parseElement = (): XMLElement => {
+        i++ // <
+        const element: XMLElement = { name: readName(), attributes: {}, children: [] }
+        for (;;) {
+            const hasSpace = skipSpace()
+            if (xml.startsWith('/>', i)) {
+                i += 2
+                return element
+            }
+            if (xml[i] === '>') {
+                i++
+                break
+            }
+            if (!hasSpace) fail(`Expected whitespace in <${element.name}>`)
+            const attribute = readName()
+            skipSpace()
+            if (xml[i++] !== '=') fail(`Expected = after ${attribute}`)
+            skipSpace()
+            const quote = xml[i++]
+            if (quote !== "'" && quote !== '"') fail(`Unquoted value of ${attribute}`)
+            const value = skipPast(quote)
+            if (value.includes('<')) fail(`Unescaped < in value of ${attribute}`)
+            if (attribute in element.attributes) fail(`Duplicate attribute ${attribute}`)
+            element.attributes[attribute] = decodeEntities(value)
+        }
+        for (;;) {
+            if (i >= xml.length) fail(`Unclosed <${element.name}>`)
+            if (xml.startsWith('</', i)) {
+                i += 2
+                const name = readName()
+                skipSpace()
+                if (xml[i++] !== '>') fail(`Expected > to close </${name}`)
+                if (name !== element.name) fail(`Expected </${element.name}>, got </${name}>`)
+                return element
+            }
+            if (xml.startsWith('<!--', i)) {
+                skipPast('-->')
+            } else if (xml.startsWith('<![CDATA[', i)) {
+                i += '<![CDATA['.length
+                element.children.push(skipPast(']]>'))
+            } else if (xml[i] === '<') {
+                element.children.push(parseElement())
+            } else {
+                const end = xml.indexOf('<', i)
+                const text = xml.slice(i, end === -1 ? xml.length : end)
+                i += text.length
+                element.children.push(decodeEntities(text))
+            }
+        }
+    }
+
+    skipMisc()
+    if (xml[i] !== '<') fail('Expected a root element')
+    const root = parseElement()
+    skipMisc()
+    if (i < xml.length) fail('Unexpected content after the root element')
+    return root
+}
+
+/** All elements of a document, depth-first */
+function flattenElements(element: XMLElement): XMLElement[] {
+    return [
+        element,
+        ...element.children.flatMap((child) =>
+            typeof child === 'string' ? [] : flattenElements(child),
+        ),
+    ]
+}
+
+/** Text content of an element */
+function getText(element: XMLElement): string {
+    return element.children
+        .map((child) => (typeof child === 'string' ? child : getText(child)))
+        .join('')
+}
+
+/**
+ * Numbers drawn on a ticket, in document order, with the number of circles
+ * around each. A number is circled if its text is positioned within a circle.
+ * @param root Root element of the ticket SVG
+ */
+export function getTicketNumbers(root: XMLElement) {
+    const elements = flattenElements(root)
+    const circles = elements
+        .filter((element) => element.name === 'circle')
+        .map(({ attributes }) => ({
+            cx: Number(attributes.cx),
+            cy: Number(attributes.cy),
+            r: Number(attributes.r),
+        }))
+    return elements
+        .filter((element) => element.name === 'text' && /^\d+$/.test(getText(element).trim()))
+        .map((element) => {
+            const x = Number(element.attributes.x)
+            const y = Number(element.attributes.y)
+            return {
+                number: BigInt(getText(element).trim()),
+                circles: circles.filter(({ cx, cy, r }) => Math.hypot(x - cx, y - cy) < r).length,
+            }
+        })
+}
+
+/**
+ * Decode a tokenURI data URI (base64 JSON embedding a base64 SVG image),
+ * validating the metadata against `Erc721MetadataSchema` and checking that
+ * the SVG is well-formed
+ * @param tokenURI As returned by `Lootery#tokenURI`
+ */
+export function decodeTokenURI(tokenURI: string): DecodedTokenURI {
+    const json = decodeDataURI(tokenURI)
+    if (json.mediaType !== 'application/json') {
+        throw new TokenURIError('InvalidDataURI', `Expected JSON metadata, got ${json.mediaType}`)
+    }
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(json.content)
+    } catch (err) {
+        throw new TokenURIError('InvalidMetadata', `Invalid JSON: ${(err as Error).message}`)
+    }
+    const result = Erc721MetadataSchema.safeParse(parsed)
+    if (!result.success) {
+        throw new TokenURIError(
+            'InvalidMetadata',
+            `Metadata doesn't match Erc721MetadataSchema: ${result.error.message}`,
+        )
+    }
+    const metadata = result.data
+    if (!metadata.image) {
+        throw new TokenURIError('InvalidMetadata', 'Metadata has no image')
+    }
+    const image = decodeDataURI(metadata.image)
+    if (image.mediaType !== 'image/svg+xml') {
+        throw new TokenURIError('InvalidDataURI', `Expected an SVG image, got ${image.mediaType}`)
+    }
+    const root = parseXML(image.content)
+    if (root.name !== 'svg') {
+        throw new TokenURIError(
+            'MalformedSVG',
+            `Expected an <svg> root element, got <${root.name}>`,
+        )
+    }
+    return { metadata, svg: image.content, root }
+}
+
+/**
+ * Validate the tokenURI of a ticket: besides `decodeTokenURI`'s checks, every
+ * number up to `maxBallValue` must be drawn exactly once, and exactly the
+ * numbers of the ticket's pick must be circled, once each
+ * @param tokenURI As returned by `Lootery#tokenURI`
+ * @param pick Pick of the ticket, e.g. `computePick(purchasedTickets(tokenId).pickId)`
+ * @param maxBallValue Maximum ball value of the lottery
+ */
+export function validateTicketTokenURI(
+    tokenURI: string,
+    pick: bigint[],
+    maxBallValue: bigint,
+): DecodedTokenURI {
+    const decoded = decodeTokenURI(tokenURI)
+    const numbers = getTicketNumbers(decoded.root)
+    const drawn = numbers.map(({ number }) => number).sort((a, b) => Number(a - b))
+    const expected = Array.from({ length: Number(maxBallValue) }, (_, i) => BigInt(i + 1))
+    if (drawn.join() !== expected.join()) {
+        throw new TokenURIError(
+            'PickMismatch',
+            `Expected numbers 1..${maxBallValue} to be drawn once each, got ${drawn.join(', ')}`,
+        )
+    }
+    for (const { number, circles } of numbers) {
+        const expectedCircles = pick.includes(number) ? 1 : 0
+        if (circles !== expectedCircles) {
+            throw new TokenURIError(
+                'PickMismatch',
+                `Expected ${number} to be circled ${expectedCircles} time(s), got ${circles}`,
+            )
+        }
+    }
+    return decoded
+}
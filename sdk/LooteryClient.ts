@@ -0,0 +1,389 @@
+import {
+    BigNumberish,
+    BlockTag,
+    ContractRunner,
+    ContractTransactionReceipt,
+    ZeroAddress,
+    toBigInt,
+} from 'ethers'
+import type { Lootery } from '../typechain-types'
+import { connectLootery } from './contracts'
+import { GameState } from './GameState'
+import { validatePick } from './pick'
+import { decodeLooteryEvents, filterLooteryEvents, type LooteryEvent } from './events'
+
+/** Lootery parameters that are fixed at initialisation */
+export interface LooteryConfig {
+    name: string
+    symbol: string
+    pickLength: bigint
+    maxBallValue: bigint
+    gamePeriod: bigint
+    ticketPrice: bigint
+    communityFeeBps: bigint
+    prizeToken: string
+    factory: string
+}
+
+/** Snapshot of the current game */
+export interface LooteryGameState {
+    state: GameState
+    gameId: bigint
+    ticketsSold: bigint
+    startedAt: bigint
+    /** Timestamp after which `draw` may be called */
+    deadline: bigint
+    jackpot: bigint
+    unclaimedPayouts: bigint
+    isApocalypseMode: boolean
+}
+
+export interface Beneficiary {
+    address: string
+    displayName: string
+}
+
+export interface TicketRequest {
+    /** For whomst shall this purchase be made out */
+    whomst: string
+    /** Lotto numbers, ascendingly ordered with no duplicates */
+    pick: BigNumberish[]
+}
+
+export interface PurchasedTicketInfo {
+    tokenId: bigint
+    gameId: bigint
+    whomst: string
+    pick: bigint[]
+}
+
+/** Winnings claimed with a ticket, decoded from the claim's event */
+export interface ClaimedWinnings {
+    tokenId: bigint
+    gameId: bigint
+    /** Ticket holder that received the winnings */
+    whomst: string
+    value: bigint
+    /** Whether the claim is a share of the jackpot of a dead lottery without winners */
+    isConsolation: boolean
+    /** Number of balls matched, if the claim is a prize tier's share */
+    prizeTierMatches?: bigint
+}
+
+/** A confirmed `claimWinningsBatch` transaction */
+export interface ClaimedWinningsBatch {
+    receipt: ContractTransactionReceipt
+    tokenIds: bigint[]
+    /** Claims of the tickets that weren't skipped */
+    claims: ClaimedWinnings[]
+}
+
+export interface ClaimWinningsBatchOptions {
+    /** Skip tickets that didn't win, have already claimed or have expired, instead of reverting */
+    lenient?: boolean
+    /** Maximum gas of each transaction; larger batches are split */
+    maxGasPerTx?: bigint
+    /** Called after each transaction is confirmed, e.g. to keep track of a failed claim's progress */
+    onBatch?: (batch: ClaimedWinningsBatch, index: number) => void
+}
+
+/** Default gas budget of each `claimWinningsBatch` transaction */
+export const DEFAULT_MAX_CLAIM_BATCH_GAS = 5_000_000n
+
+/**
+ * Split items into consecutive chunks whose estimated gas fits a budget, by
+ * halving any chunk that doesn't. A single item that doesn't fit is still
+ * returned as its own chunk.
+ *
+ * Chunks whose estimate fails (e.g. because they exceed the block gas limit,
+ * or contain an item that reverts) are halved too, until the failing item is
+ * isolated; its error is then rethrown.
+ * @param items Items to split, e.g. token ids
+ * @param estimateGas Estimates the gas of a transaction for a chunk
+ * @param maxGas Gas budget of each chunk
+ */
+export async function chunkByGas<T>(
+    items: T[],
+    estimateGas: (chunk: T[]) => Promise<bigint>,
+    maxGas: bigint,
+): Promise<T[][]> {
+    if (items.length === 0) return []
+    const gas = await estimateGas(items).catch((err) => {
+        if (items.length === 1) throw err
+        return null
+    })
+    if (items.length === 1 || (gas !== null && gas <= maxGas)) {
+        return [items]
+    }
+    const half = Math.ceil(items.length / 2)
+    return [
+        ...(await chunkByGas(items.slice(0, half), estimateGas, maxGas)),
+        ...(await chunkByGas(items.slice(half), estimateGas, maxGas)),
+    ]
+}
+
+/**
+ * High-level client for a single Lootery instance. Reads are cheap wrappers
+ * around the contract's views; writes validate their inputs client-side
+ * (mirroring the contract's checks) before sending a transaction.
+ */
+export class LooteryClient {
+    private configPromise?: Promise<LooteryConfig>
+
+    constructor(public readonly contract: Lootery) {}
+
+    /**
+     * Connect to a deployed Lootery
+     * @param address Address of the Lootery (proxy)
+     * @param runner Provider for reads, or signer for writes
+     */
+    static connect(address: string, runner?: ContractRunner | null) {
+        return new LooteryClient(connectLootery(address, runner))
+    }
+
+    /** Lootery configuration; cached since it can't change after init */
+    getConfig(): Promise<LooteryConfig> {
+        if (!this.configPromise) {
+            const lootery = this.contract
+            this.configPromise = Promise.all([
+                lootery.name(),
+                lootery.symbol(),
+                lootery.pickLength(),
+                lootery.maxBallValue(),
+                lootery.gamePeriod(),
+                lootery.ticketPrice(),
+                lootery.communityFeeBps(),
+                lootery.prizeToken(),
+                lootery.factory(),
+            ]).then(
+                ([
+                    name,
+                    symbol,
+                    pickLength,
+                    maxBallValue,
+                    gamePeriod,
+                    ticketPrice,
+                    communityFeeBps,
+                    prizeToken,
+                    factory,
+                ]) => ({
+                    name,
+                    symbol,
+                    pickLength,
+                    maxBallValue,
+                    gamePeriod,
+                    ticketPrice,
+                    communityFeeBps,
+                    prizeToken,
+                    factory,
+                }),
+            )
+            // Don't cache failures
+            this.configPromise.catch(() => {
+                this.configPromise = undefined
+            })
+        }
+        return this.configPromise
+    }
+
+    /** Snapshot of the current game */
+    async getGameState(): Promise<LooteryGameState> {
+        const lootery = this.contract
+        const [{ gamePeriod }, currentGame, jackpot, unclaimedPayouts, isApocalypseMode] =
+            await Promise.all([
+                this.getConfig(),
+                lootery.currentGame(),
+                lootery.jackpot(),
+                lootery.unclaimedPayouts(),
+                lootery.isApocalypseMode(),
+            ])
+        const game = await lootery.gameData(currentGame.id)
+        return {
+            state: Number(currentGame.state) as GameState,
+            gameId: currentGame.id,
+            ticketsSold: game.ticketsSold,
+            startedAt: game.startedAt,
+            deadline: game.startedAt + gamePeriod,
+            jackpot,
+            unclaimedPayouts,
+            isApocalypseMode,
+        }
+    }
+
+    /** Running jackpot of the current game */
+    async getJackpot() {
+        return this.contract.jackpot()
+    }
+
+    /** Timestamp after which the current game may be drawn */
+    async getDeadline() {
+        return this.getGameState().then((game) => game.deadline)
+    }
+
+    /** Beneficiaries that may be selected to receive the community fee share */
+    async getBeneficiaries(): Promise<Beneficiary[]> {
+        const [addresses, names] = await this.contract.beneficiaries()
+        return addresses.map((address, i) => ({
+            address,
+            displayName: names[i],
+        }))
+    }
+
+    /**
+     * Validate a pick against this lottery's `pickLength` and `maxBallValue`
+     * @throws {InvalidPickError} if the contract would reject the pick
+     */
+    async validatePick(pick: BigNumberish[]) {
+        const { pickLength, maxBallValue } = await this.getConfig()
+        return validatePick(pick, pickLength, maxBallValue)
+    }
+
+    /**
+     * Purchase tickets. The client must be connected with a signer that has
+     * approved `ticketPrice * tickets.length` of `prizeToken` to the lottery.
+     * @param tickets Tickets to purchase
+     * @param beneficiary Beneficiary to receive the community fee share, if any
+     */
+    async purchase(tickets: TicketRequest[], beneficiary: string = ZeroAddress) {
+        if (tickets.length === 0) {
+            throw new Error('No tickets specified')
+        }
+        const validatedTickets = await Promise.all(
+            tickets.map(async ({ whomst, pick }) => ({
+                whomst,
+                pick: await this.validatePick(pick),
+            })),
+        )
+        if (beneficiary !== ZeroAddress) {
+            const beneficiaries = await this.getBeneficiaries()
+            const isKnown = beneficiaries.some(
+                ({ address }) => address.toLowerCase() === beneficiary.toLowerCase(),
+            )
+            if (!isKnown) {
+                throw new Error(`Unknown beneficiary: ${beneficiary}`)
+            }
+        }
+
+        const receipt = await this.contract
+            .purchase(validatedTickets, beneficiary)
+            .then((tx) => tx.wait())
+        const events = await this.decodeReceipt(receipt)
+        const purchasedTickets: PurchasedTicketInfo[] = filterLooteryEvents(
+            events,
+            'TicketPurchased',
+        ).map(({ args }) => ({
+            tokenId: args.tokenId,
+            gameId: args.gameId,
+            whomst: args.whomst,
+            pick: args.pick,
+        }))
+        return {
+            receipt: receipt!,
+            tickets: purchasedTickets,
+        }
+    }
+
+    /**
+     * Claim winnings (or a consolation share, if the lottery is dead) for a
+     * ticket. Winnings are always sent to the current owner of the ticket.
+     * @param tokenId Ticket token id
+     */
+    async claimWinnings(tokenId: BigNumberish) {
+        const receipt = await this.contract.claimWinnings(tokenId).then((tx) => tx.wait())
+        const [claim] = LooteryClient.decodeClaims(await this.decodeReceipt(receipt))
+        if (!claim) {
+            throw new Error(`No claim event emitted for ticket ${tokenId}`)
+        }
+        return {
+            receipt: receipt!,
+            isConsolation: claim.isConsolation,
+            gameId: claim.gameId,
+            whomst: claim.whomst,
+            value: claim.value,
+        }
+    }
+
+    /**
+     * Claim winnings for many tickets with `claimWinningsBatch`, splitting
+     * them into as many transactions as needed to stay within a gas budget.
+     * Each ticket holder receives a single transfer per transaction.
+     * @param tokenIds Ticket token ids; duplicates are ignored
+     * @param options Whether to skip tickets that can't claim, the gas budget
+     *     of each transaction, and a callback per confirmed transaction
+     * @returns Claims of each transaction, in order. In lenient mode, skipped
+     *     tickets have no claim.
+     */
+    async claimWinningsBatch(tokenIds: BigNumberish[], options: ClaimWinningsBatchOptions = {}) {
+        const { lenient = false, maxGasPerTx = DEFAULT_MAX_CLAIM_BATCH_GAS, onBatch } = options
+        const ids = [...new Set(tokenIds.map((tokenId) => toBigInt(tokenId)))]
+        if (ids.length === 0) {
+            throw new Error('No tickets specified')
+        }
+        const chunks = await chunkByGas(
+            ids,
+            (chunk) => this.contract.claimWinningsBatch.estimateGas(chunk, lenient),
+            maxGasPerTx,
+        )
+        const batches: ClaimedWinningsBatch[] = []
+        for (const [index, chunk] of chunks.entries()) {
+            const receipt = await this.contract
+                .claimWinningsBatch(chunk, lenient)
+                .then((tx) => tx.wait())
+            const batch = {
+                receipt: receipt!,
+                tokenIds: chunk,
+                claims: LooteryClient.decodeClaims(await this.decodeReceipt(receipt)),
+            }
+            batches.push(batch)
+            onBatch?.(batch, index)
+        }
+        return batches
+    }
+
+    /** Extract the claims of tickets from decoded events, in order */
+    static decodeClaims(events: LooteryEvent[]): ClaimedWinnings[] {
+        const claims: ClaimedWinnings[] = []
+        for (const event of events) {
+            if (
+                event.name === 'WinningsClaimed' ||
+                event.name === 'ConsolationClaimed' ||
+                event.name === 'PrizeTierWinningsClaimed'
+            ) {
+                const { tokenId, gameId, whomst, value } = event.args
+                claims.push({
+                    tokenId,
+                    gameId,
+                    whomst,
+                    value,
+                    isConsolation: event.name === 'ConsolationClaimed',
+                    prizeTierMatches:
+                        event.name === 'PrizeTierWinningsClaimed' ? event.args.matches : undefined,
+                })
+            }
+        }
+        return claims
+    }
+
+    /**
+     * Fetch and decode all events emitted by this lottery in a block range
+     * @param fromBlock First block (inclusive)
+     * @param toBlock Last block (inclusive)
+     */
+    async getEvents(fromBlock: BlockTag = 0, toBlock: BlockTag = 'latest') {
+        const provider = this.contract.runner?.provider
+        if (!provider) {
+            throw new Error('LooteryClient must be connected to a provider to fetch events')
+        }
+        const address = await this.contract.getAddress()
+        const logs = await provider.getLogs({ address, fromBlock, toBlock })
+        return decodeLooteryEvents(logs, address)
+    }
+
+    /** Decode Lootery events emitted by this lottery in a transaction receipt */
+    async decodeReceipt(receipt: ContractTransactionReceipt | null): Promise<LooteryEvent[]> {
+        if (!receipt) {
+            throw new Error('Nonexistent tx/receipt')
+        }
+        return decodeLooteryEvents(receipt.logs, await this.contract.getAddress())
+    }
+}
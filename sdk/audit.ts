@@ -0,0 +1,168 @@
+import { BigNumberish, Interface, JsonRpcProvider, Provider, toBigInt } from 'ethers'
+import type { Lootery } from '../typechain-types'
+import { computePickId } from './pick'
+import { computeWinningPick } from './winningPick'
+
+/** Calls that carry the random word for a request as (requestId, randomWord) */
+const randomnessCallbackInterface = new Interface([
+    'function receiveRandomness(uint256 requestId, uint256 randomWord)',
+    // Randomisers that forward randomness directly, e.g. MockRandomiser
+    'function fulfillRandomness(uint256 requestId, uint256 randomWord)',
+])
+
+interface CallFrame {
+    to?: string
+    input?: string
+    calls?: CallFrame[]
+}
+
+export interface WinningPickAudit {
+    gameId: bigint
+    /** All randomness requests made for this game (> 1 if force redrawn) */
+    requestIds: bigint[]
+    /** Request that was fulfilled */
+    requestId: bigint
+    /** Transaction in which the game was finalised */
+    fulfilmentTxHash: string
+    randomWord: bigint
+    /** Winning pick re-derived off-chain from `randomWord` */
+    derivedPick: bigint[]
+    /** Winning pick emitted in `GameFinalised` */
+    emittedPick: bigint[]
+    /** Winning pick identity recorded in `gameData` */
+    winningPickId: bigint
+    /** Whether the derived pick matches both the emitted and recorded picks */
+    isMatch: boolean
+}
+
+/**
+ * Recover the random word delivered to a lottery in a fulfilment transaction.
+ * Direct calls are decoded from calldata; otherwise the internal
+ * `receiveRandomness` callback is located with a `callTracer` trace, which
+ * requires the RPC to support `debug_traceTransaction`.
+ * @param provider Provider
+ * @param txHash Hash of the fulfilment transaction
+ * @param looteryAddress Address of the lottery that received randomness
+ */
+export async function recoverRandomWord(
+    provider: Provider,
+    txHash: string,
+    looteryAddress: string,
+): Promise<{ requestId: bigint; randomWord: bigint }> {
+    const tx = await provider.getTransaction(txHash)
+    if (!tx) {
+        throw new Error(`Transaction ${txHash} not found`)
+    }
+    const directCall = randomnessCallbackInterface.parseTransaction({ data: tx.data })
+    if (directCall) {
+        return {
+            requestId: directCall.args.requestId,
+            randomWord: directCall.args.randomWord,
+        }
+    }
+
+    if (typeof (provider as Partial<JsonRpcProvider>).send !== 'function') {
+        throw new Error('Tracing the fulfilment transaction requires a JSON-RPC provider')
+    }
+    const trace: CallFrame = await (provider as JsonRpcProvider).send('debug_traceTransaction', [
+        txHash,
+        { tracer: 'callTracer' },
+    ])
+    const selector = randomnessCallbackInterface.getFunction('receiveRandomness')!.selector
+    const frames = [trace]
+    while (frames.length) {
+        const frame = frames.shift()!
+        if (
+            frame.to?.toLowerCase() === looteryAddress.toLowerCase() &&
+            frame.input?.startsWith(selector)
+        ) {
+            const callback = randomnessCallbackInterface.parseTransaction({ data: frame.input })!
+            return {
+                requestId: callback.args.requestId,
+                randomWord: callback.args.randomWord,
+            }
+        }
+        frames.push(...(frame.calls || []))
+    }
+    throw new Error(`No randomness callback to ${looteryAddress} found in ${txHash}`)
+}
+
+/**
+ * Independently re-derive the winning pick of a finalised game from the
+ * randomness that was delivered to the lottery, and compare it against what
+ * was recorded on-chain.
+ * @param lootery Lootery, connected to a provider
+ * @param gameId Game to audit
+ * @param options.fromBlock Block to start searching for events from
+ * @param options.randomWord Random word to use, instead of recovering it from
+ *  the fulfilment transaction
+ */
+export async function auditWinningPick(
+    lootery: Lootery,
+    gameId: BigNumberish,
+    options: { fromBlock?: number; randomWord?: BigNumberish } = {},
+): Promise<WinningPickAudit> {
+    const provider = lootery.runner?.provider
+    if (!provider) {
+        throw new Error('Lootery must be connected to a provider')
+    }
+    const gameId_ = toBigInt(gameId)
+    const fromBlock = options.fromBlock ?? 0
+    const looteryAddress = await lootery.getAddress()
+
+    const finalisedEvents = await lootery.queryFilter(
+        lootery.filters.GameFinalised,
+        fromBlock,
+        'latest',
+    )
+    const finalised = finalisedEvents.find((event) => event.args.gameId === gameId_)
+    if (!finalised) {
+        throw new Error(`Game ${gameId_} has not been finalised`)
+    }
+    // Requests for this game were made after the previous draw was finalised
+    const previousFinalisedBlock = finalisedEvents
+        .filter((event) => event.blockNumber < finalised.blockNumber)
+        .reduce((latest, event) => Math.max(latest, event.blockNumber), -1)
+    const requestedEvents = await lootery.queryFilter(
+        lootery.filters.RandomnessRequested,
+        previousFinalisedBlock + 1,
+        finalised.blockNumber,
+    )
+    const requestIds = requestedEvents.map((event) => event.args.requestId)
+
+    let requestId: bigint
+    let randomWord: bigint
+    if (typeof options.randomWord !== 'undefined') {
+        requestId = requestIds[requestIds.length - 1]
+        randomWord = toBigInt(options.randomWord)
+    } else {
+        ;({ requestId, randomWord } = await recoverRandomWord(
+            provider,
+            finalised.transactionHash,
+            looteryAddress,
+        ))
+    }
+
+    const [pickLength, maxBallValue, { winningPickId }] = await Promise.all([
+        lootery.pickLength(),
+        lootery.maxBallValue(),
+        lootery.gameData(gameId_),
+    ])
+    const derivedPick = computeWinningPick(pickLength, maxBallValue, randomWord)
+    const emittedPick = Array.from(finalised.args.winningPick)
+    const isMatch =
+        derivedPick.length === emittedPick.length &&
+        derivedPick.every((ball, i) => ball === emittedPick[i]) &&
+        computePickId(derivedPick) === winningPickId
+    return {
+        gameId: gameId_,
+        requestIds,
+        requestId,
+        fulfilmentTxHash: finalised.transactionHash,
+        randomWord,
+        derivedPick,
+        emittedPick,
+        winningPickId,
+        isMatch,
+    }
+}
@@ -0,0 +1,64 @@
+import { Contract, ContractRunner, Interface } from 'ethers'
+import type {
+    Lootery,
+    LooteryFactory,
+    LooteryPurchaseRelay,
+    LooterySubscriptions,
+} from '../typechain-types'
+import LooteryAbi from '../exported/abi/Lootery.json'
+import LooteryFactoryAbi from '../exported/abi/LooteryFactory.json'
+import LooteryPurchaseRelayAbi from '../exported/abi/LooteryPurchaseRelay.json'
+import LooterySubscriptionsAbi from '../exported/abi/LooterySubscriptions.json'
+
+// NB: The SDK binds to the exported ABIs rather than the typechain factories,
+// so that it can be loaded by hardhat tasks before anything has been compiled.
+
+export const looteryInterface = new Interface(LooteryAbi) as Lootery['interface']
+
+export const looteryFactoryInterface = new Interface(
+    LooteryFactoryAbi,
+) as LooteryFactory['interface']
+
+export const looteryPurchaseRelayInterface = new Interface(
+    LooteryPurchaseRelayAbi,
+) as LooteryPurchaseRelay['interface']
+
+export const looterySubscriptionsInterface = new Interface(
+    LooterySubscriptionsAbi,
+) as LooterySubscriptions['interface']
+
+/**
+ * Connect to a deployed Lootery
+ * @param address Address of the Lootery (proxy)
+ * @param runner Provider for reads, or signer for writes
+ */
+export function connectLootery(address: string, runner?: ContractRunner | null) {
+    return new Contract(address, LooteryAbi, runner) as unknown as Lootery
+}
+
+/**
+ * Connect to a deployed LooteryFactory
+ * @param address Address of the LooteryFactory (proxy)
+ * @param runner Provider for reads, or signer for writes
+ */
+export function connectLooteryFactory(address: string, runner?: ContractRunner | null) {
+    return new Contract(address, LooteryFactoryAbi, runner) as unknown as LooteryFactory
+}
+
+/**
+ * Connect to a deployed LooterySubscriptions
+ * @param address Address of the LooterySubscriptions
+ * @param runner Provider for reads, or signer for writes
+ */
+export function connectLooterySubscriptions(address: string, runner?: ContractRunner | null) {
+    return new Contract(address, LooterySubscriptionsAbi, runner) as unknown as LooterySubscriptions
+}
+
+/**
+ * Connect to a deployed LooteryPurchaseRelay
+ * @param address Address of the LooteryPurchaseRelay
+ * @param runner Provider for reads, or signer for writes
+ */
+export function connectLooteryPurchaseRelay(address: string, runner?: ContractRunner | null) {
+    return new Contract(address, LooteryPurchaseRelayAbi, runner) as unknown as LooteryPurchaseRelay
+}
@@ -0,0 +1,36 @@
+import { ErrorDescription, Interface } from 'ethers'
+import { looteryInterface } from './contracts'
+
+/** Property of an unknown value, if it's an object that has it */
+function getProperty(value: unknown, key: string): unknown {
+    return typeof value === 'object' && value !== null && key in value
+        ? (value as Record<string, unknown>)[key]
+        : undefined
+}
+
+/**
+ * Decode a Lootery custom error (e.g. `WaitLonger`) from a failed call or
+ * transaction.
+ * @param error Error thrown by ethers/the provider
+ * @param iface Interface of the reverting contract, e.g. a periphery contract
+ *  that calls the Lootery
+ * @returns Decoded custom error, or null if the error isn't a Lootery revert
+ */
+export function decodeLooteryError(
+    error: unknown,
+    iface: Interface = looteryInterface,
+): ErrorDescription | null {
+    const errorData =
+        getProperty(error, 'data') ??
+        getProperty(getProperty(error, 'error'), 'data') ??
+        getProperty(getProperty(getProperty(error, 'info'), 'error'), 'data')
+    const returnData = typeof errorData === 'string' ? errorData : getProperty(errorData, 'data')
+    if (typeof returnData !== 'string' || returnData.length < 10) {
+        return null
+    }
+    try {
+        return iface.parseError(returnData)
+    } catch {
+        return null
+    }
+}
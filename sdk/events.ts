@@ -0,0 +1,77 @@
+import { Log } from 'ethers'
+import type { Lootery } from '../typechain-types'
+import type { TypedContractEvent } from '../typechain-types/common'
+import { looteryInterface } from './contracts'
+
+type LooteryFilters = Lootery['filters']
+
+/** Names of all events that may be emitted by a Lootery */
+export type LooteryEventName = Exclude<keyof LooteryFilters, `${string}(${string}`>
+
+/** Decoded args of a Lootery event, keyed by parameter name */
+export type LooteryEventArgs<TName extends LooteryEventName> =
+    LooteryFilters[TName] extends TypedContractEvent<any, any, infer TOutputObject>
+        ? TOutputObject
+        : never
+
+/** A decoded Lootery event, discriminated by `name` */
+export type LooteryEvent = {
+    [TName in LooteryEventName]: {
+        name: TName
+        args: LooteryEventArgs<TName>
+        address: string
+        blockNumber: number
+        blockHash: string
+        transactionHash: string
+        logIndex: number
+    }
+}[LooteryEventName]
+
+/**
+ * Decode a log emitted by a Lootery into a typed event object.
+ * @param log Raw log
+ * @returns Decoded event, or null if the log is not a Lootery event
+ */
+export function decodeLooteryEvent(log: Log): LooteryEvent | null {
+    const parsed = looteryInterface.parseLog({
+        topics: log.topics as string[],
+        data: log.data,
+    })
+    if (!parsed) return null
+    return {
+        name: parsed.name,
+        args: parsed.args.toObject(true),
+        address: log.address,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+    } as LooteryEvent
+}
+
+/**
+ * Decode all Lootery events from a set of logs, skipping any logs that aren't
+ * Lootery events (e.g. prize token transfers).
+ * @param logs Raw logs, e.g. from a transaction receipt
+ * @param address If specified, only decode logs emitted by this address
+ */
+export function decodeLooteryEvents(logs: readonly Log[], address?: string): LooteryEvent[] {
+    return logs
+        .filter((log) => !address || log.address.toLowerCase() === address.toLowerCase())
+        .map((log) => decodeLooteryEvent(log))
+        .filter((event): event is LooteryEvent => !!event)
+}
+
+/**
+ * Narrow a list of decoded events to a single kind of event
+ * @param events Decoded events
+ * @param name Event name
+ */
+export function filterLooteryEvents<TName extends LooteryEventName>(
+    events: readonly LooteryEvent[],
+    name: TName,
+) {
+    return events.filter(
+        (event): event is Extract<LooteryEvent, { name: TName }> => event.name === name,
+    )
+}
@@ -0,0 +1,16 @@
+export * from './GameState'
+export * from './contracts'
+export * from './pick'
+export * from './events'
+export * from './errors'
+export * from './LooteryClient'
+export * from './winningPick'
+export * from './audit'
+export * from './initConfig'
+export * from './odds'
+export * from './simulation'
+export * from './safe'
+export * from './ticketSvg'
+export * from './quickPick'
+export * from './portfolio'
+export * from './purchaseOrder'
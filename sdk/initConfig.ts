@@ -0,0 +1,88 @@
+import { ZeroAddress } from 'ethers'
+
+/** Share of ticket sales taken by the protocol, if a fee recipient is set (`Lootery.PROTOCOL_FEE_BPS`) */
+export const PROTOCOL_FEE_BPS = 500n
+
+/** Minimum game period accepted by `Lootery#init`, in seconds */
+export const MIN_GAME_PERIOD = 10n * 60n
+
+/** Parameters of `LooteryFactory#create`, i.e. `ILootery.InitConfig` sans the ones set by the factory */
+export interface LooteryCreateParams {
+    name: string
+    symbol: string
+    pickLength: bigint
+    maxBallValue: bigint
+    /** seconds */
+    gamePeriod: bigint
+    ticketPrice: bigint
+    communityFeeBps: bigint
+    prizeToken: string
+    /** seconds */
+    seedJackpotDelay: bigint
+    seedJackpotMinValue: bigint
+}
+
+/**
+ * Thrown when a config would be rejected by `Lootery#init`. The `reason` is
+ * the name of the custom error that the contract would revert with.
+ */
+export class InvalidInitConfigError extends Error {
+    constructor(
+        public readonly reason:
+            | 'InvalidPickLength'
+            | 'InvalidMaxBallValue'
+            | 'InvalidGamePeriod'
+            | 'InvalidTicketPrice'
+            | 'InvalidFeeShares'
+            | 'InvalidPrizeToken'
+            | 'InvalidSeedJackpotConfig',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'InvalidInitConfigError'
+    }
+}
+
+/**
+ * Validate lottery parameters against the same rules as `Lootery#init`
+ * @throws {InvalidInitConfigError} if the contract would reject the config
+ */
+export function validateInitConfig(params: LooteryCreateParams) {
+    const { pickLength, maxBallValue, gamePeriod, ticketPrice, communityFeeBps } = params
+    if (pickLength < 1n || pickLength > 32n) {
+        throw new InvalidInitConfigError(
+            'InvalidPickLength',
+            `pickLength must be between 1 and 32, got ${pickLength}`,
+        )
+    }
+    if (maxBallValue > 255n || pickLength > maxBallValue) {
+        throw new InvalidInitConfigError(
+            'InvalidMaxBallValue',
+            `maxBallValue must be between pickLength (${pickLength}) and 255, got ${maxBallValue}`,
+        )
+    }
+    if (gamePeriod < MIN_GAME_PERIOD) {
+        throw new InvalidInitConfigError(
+            'InvalidGamePeriod',
+            `gamePeriod must be at least ${MIN_GAME_PERIOD}s, got ${gamePeriod}s`,
+        )
+    }
+    if (ticketPrice === 0n) {
+        throw new InvalidInitConfigError('InvalidTicketPrice', 'ticketPrice must be non-zero')
+    }
+    if (communityFeeBps + PROTOCOL_FEE_BPS > 10_000n) {
+        throw new InvalidInitConfigError(
+            'InvalidFeeShares',
+            `communityFeeBps must be at most ${10_000n - PROTOCOL_FEE_BPS}, got ${communityFeeBps}`,
+        )
+    }
+    if (params.prizeToken === ZeroAddress) {
+        throw new InvalidInitConfigError('InvalidPrizeToken', 'prizeToken must be non-zero')
+    }
+    if (params.seedJackpotDelay === 0n || params.seedJackpotMinValue === 0n) {
+        throw new InvalidInitConfigError(
+            'InvalidSeedJackpotConfig',
+            'seedJackpotDelay and seedJackpotMinValue must be non-zero',
+        )
+    }
+}
@@ -0,0 +1,233 @@
+import { BigNumberish, ZeroAddress, toBigInt } from 'ethers'
+import type { Lootery } from '../typechain-types'
+import { connectLooteryFactory } from './contracts'
+import { PROTOCOL_FEE_BPS } from './initConfig'
+
+/** Fixed-point scale used to apply float factors to token amounts */
+const WAD = 10n ** 18n
+
+/** Parameters that determine the odds & payouts of a lottery */
+export interface OddsParams {
+    pickLength: bigint
+    maxBallValue: bigint
+    ticketPrice: bigint
+    communityFeeBps: bigint
+    /** Whether the factory has a fee recipient, i.e. whether the protocol fee is taken */
+    hasProtocolFee: boolean
+    /** seconds */
+    gamePeriod: bigint
+}
+
+/** Live state of a lottery that affects payouts */
+export interface OddsState {
+    jackpot: bigint
+    unclaimedPayouts: bigint
+    /** Tickets sold in the current game */
+    ticketsSold: bigint
+    /** Outstanding (unburnt) tickets across all games */
+    totalSupply: bigint
+}
+
+/**
+ * Binomial coefficient, i.e. the number of ways to choose `k` of `n` items
+ * @param n Number of items
+ * @param k Number of items chosen
+ */
+export function choose(n: BigNumberish, k: BigNumberish): bigint {
+    const n_ = toBigInt(n)
+    let k_ = toBigInt(k)
+    if (k_ < 0n || k_ > n_) return 0n
+    if (k_ > n_ - k_) k_ = n_ - k_
+    let result = 1n
+    for (let i = 1n; i <= k_; i++) {
+        result = (result * (n_ - k_ + i)) / i
+    }
+    return result
+}
+
+/**
+ * Number of distinct picks, i.e. the odds of a single ticket winning the
+ * jackpot are 1 in this number.
+ * @param pickLength Number of balls in a pick
+ * @param maxBallValue Maximum value of a ball
+ */
+export function computeJackpotOdds(pickLength: BigNumberish, maxBallValue: BigNumberish) {
+    return choose(maxBallValue, pickLength)
+}
+
+/**
+ * Probability of a single ticket winning the jackpot
+ * @param pickLength Number of balls in a pick
+ * @param maxBallValue Maximum value of a ball
+ */
+export function computeWinProbability(pickLength: BigNumberish, maxBallValue: BigNumberish) {
+    return 1 / Number(computeJackpotOdds(pickLength, maxBallValue))
+}
+
+/**
+ * Split of a ticket's price between the community, the protocol and the
+ * jackpot, as computed by `Lootery#purchase`.
+ * @param ticketPrice Price of a ticket
+ * @param communityFeeBps Community fee share, in bps
+ * @param hasProtocolFee Whether the factory has a fee recipient
+ * @param ticketsCount Number of tickets purchased in a single transaction
+ */
+export function computeFeeSplit(
+    ticketPrice: bigint,
+    communityFeeBps: bigint,
+    hasProtocolFee: boolean,
+    ticketsCount = 1n,
+) {
+    const totalPrice = ticketPrice * ticketsCount
+    const communityFee = (totalPrice * communityFeeBps) / 10_000n
+    const protocolFee = hasProtocolFee ? (totalPrice * PROTOCOL_FEE_BPS) / 10_000n : 0n
+    return {
+        communityFee,
+        protocolFee,
+        jackpotShare: totalPrice - communityFee - protocolFee,
+    }
+}
+
+/**
+ * Expected value of buying a single (random) ticket. The jackpot is shared
+ * equally between all winning tickets, so the other tickets in the draw are
+ * assumed to be random picks that each win with the same probability.
+ * Prize tiers are not modelled.
+ *
+ * @param params Lottery parameters
+ * @param jackpot Jackpot at the time of the draw, excluding this ticket's share
+ * @param otherTickets Number of other tickets in the draw
+ * @returns Expected prize and net expected value (prize minus ticket price)
+ */
+export function computeExpectedValue(
+    params: Pick<
+        OddsParams,
+        'pickLength' | 'maxBallValue' | 'ticketPrice' | 'communityFeeBps' | 'hasProtocolFee'
+    >,
+    jackpot: bigint,
+    otherTickets = 0n,
+) {
+    const p = computeWinProbability(params.pickLength, params.maxBallValue)
+    const { jackpotShare } = computeFeeSplit(
+        params.ticketPrice,
+        params.communityFeeBps,
+        params.hasProtocolFee,
+    )
+    const pot = jackpot + jackpotShare
+    // E[pot / (1 + K)] * p where K ~ Binomial(otherTickets, p), which
+    // simplifies to pot * (1 - (1 - p)^(n + 1)) / (n + 1)
+    const n = Number(otherTickets) + 1
+    const factor = -Math.expm1(n * Math.log1p(-p)) / n
+    const expectedPrize = (pot * BigInt(Math.round(factor * Number(WAD)))) / WAD
+    return {
+        winProbability: p,
+        pot,
+        expectedPrize,
+        expectedValue: expectedPrize - params.ticketPrice,
+        /** Expected prize per unit of ticket price */
+        returnToPlayer: Number((expectedPrize * WAD) / params.ticketPrice) / Number(WAD),
+    }
+}
+
+/**
+ * How long a jackpot is expected to keep rolling over, assuming a constant
+ * number of random tickets sold per game.
+ * @param params Lottery parameters
+ * @param ticketsPerGame Tickets sold per game
+ */
+export function computeRolloverStats(
+    params: Pick<
+        OddsParams,
+        | 'pickLength'
+        | 'maxBallValue'
+        | 'ticketPrice'
+        | 'communityFeeBps'
+        | 'hasProtocolFee'
+        | 'gamePeriod'
+    >,
+    ticketsPerGame: bigint,
+) {
+    const p = computeWinProbability(params.pickLength, params.maxBallValue)
+    // P(at least one winning ticket in a game)
+    const jackpotWonProbability = -Math.expm1(Number(ticketsPerGame) * Math.log1p(-p))
+    // Geometric distribution: number of games until (and including) the jackpot is won
+    const expectedGames = 1 / jackpotWonProbability
+    const { jackpotShare } = computeFeeSplit(
+        params.ticketPrice,
+        params.communityFeeBps,
+        params.hasProtocolFee,
+        ticketsPerGame,
+    )
+    return {
+        jackpotWonProbability,
+        expectedGames,
+        /** seconds */
+        expectedDuration: expectedGames * Number(params.gamePeriod),
+        /** Jackpot growth per game */
+        jackpotGrowthPerGame: jackpotShare,
+    }
+}
+
+/**
+ * Share of the pot paid to each ticket if the lottery dies without a jackpot
+ * winner (see `Lootery#claimWinnings`). NB: the pot is divided by *all*
+ * outstanding tickets, including those of earlier games that cannot claim.
+ * @param pot Unclaimed payouts after the final draw
+ * @param totalSupply Outstanding tickets
+ */
+export function computeConsolationShare(pot: bigint, totalSupply: bigint) {
+    if (totalSupply === 0n) return 0n
+    return pot / totalSupply
+}
+
+/**
+ * Read the parameters & state of a live lottery
+ * @param lootery Lottery contract
+ */
+export async function readOddsParams(
+    lootery: Lootery,
+): Promise<{ params: OddsParams; state: OddsState }> {
+    const [
+        pickLength,
+        maxBallValue,
+        ticketPrice,
+        communityFeeBps,
+        gamePeriod,
+        factoryAddress,
+        jackpot,
+        unclaimedPayouts,
+        currentGame,
+        totalSupply,
+    ] = await Promise.all([
+        lootery.pickLength(),
+        lootery.maxBallValue(),
+        lootery.ticketPrice(),
+        lootery.communityFeeBps(),
+        lootery.gamePeriod(),
+        lootery.factory(),
+        lootery.jackpot(),
+        lootery.unclaimedPayouts(),
+        lootery.currentGame(),
+        lootery.totalSupply(),
+    ])
+    const [feeRecipient, game] = await Promise.all([
+        connectLooteryFactory(factoryAddress, lootery.runner).getFeeRecipient(),
+        lootery.gameData(currentGame.id),
+    ])
+    return {
+        params: {
+            pickLength,
+            maxBallValue,
+            ticketPrice,
+            communityFeeBps,
+            hasProtocolFee: feeRecipient !== ZeroAddress,
+            gamePeriod,
+        },
+        state: {
+            jackpot,
+            unclaimedPayouts,
+            ticketsSold: game.ticketsSold,
+            totalSupply,
+        },
+    }
+}
@@ -0,0 +1,94 @@
+import { BigNumberish, toBigInt } from 'ethers'
+
+/**
+ * Thrown when a pick would be rejected by `Lootery#purchase`. The `reason` is
+ * the name of the custom error that the contract would revert with.
+ */
+export class InvalidPickError extends Error {
+    constructor(
+        public readonly reason: 'InvalidPickLength' | 'UnsortedPick' | 'InvalidBallValue',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'InvalidPickError'
+    }
+}
+
+/**
+ * Pick identity => pick array (see {Pick-parse})
+ * @param pickId Bitvector representing the pick
+ */
+export function computePick(pickId: bigint): bigint[] {
+    if (pickId & 1n) throw new Error('0 is not a valid ball value')
+    const pick: bigint[] = []
+    for (let i = 1n; i < 256n; i++) {
+        if ((pickId >> i) & 1n) {
+            pick.push(i)
+        }
+    }
+    return pick
+}
+
+/**
+ * Pick array => pick identity (see {Pick-id})
+ * @param picks *Set* of numbers
+ */
+export function computePickId(picks: bigint[]) {
+    return picks.reduce((id, pick) => id | (1n << pick), 0n)
+}
+
+/**
+ * Reproduces the checks performed by `Lootery#_pickTickets`, so that an
+ * invalid pick can be rejected before a transaction is sent.
+ * NB: An empty pick is valid; it is a ticket without an entry to the draw.
+ * @param pick Lotto numbers, ascendingly ordered with no duplicates
+ * @param pickLength Number of balls that must be picked
+ * @param maxBallValue Maximum value that a ball can have
+ * @returns The validated pick
+ */
+export function validatePick(
+    pick: BigNumberish[],
+    pickLength: BigNumberish,
+    maxBallValue: BigNumberish,
+): bigint[] {
+    const balls = pick.map((ball) => toBigInt(ball))
+    if (balls.length !== Number(pickLength) && balls.length !== 0) {
+        throw new InvalidPickError(
+            'InvalidPickLength',
+            `Invalid pick length (expected ${pickLength}, got ${balls.length})`,
+        )
+    }
+    let lastBall = 0n
+    for (const ball of balls) {
+        if (ball <= lastBall) {
+            throw new InvalidPickError(
+                'UnsortedPick',
+                `Pick must be ascendingly sorted with no duplicates: [${balls.join(', ')}]`,
+            )
+        }
+        if (ball > toBigInt(maxBallValue)) {
+            throw new InvalidPickError(
+                'InvalidBallValue',
+                `Invalid ball value ${ball} (max ${maxBallValue})`,
+            )
+        }
+        lastBall = ball
+    }
+    return balls
+}
+
+/**
+ * Number of balls that two picks have in common (see {Pick-countMatches})
+ * @param pickId Pick identity
+ * @param otherPickId Pick identity to compare against
+ */
+export function countMatches(pickId: bigint, otherPickId: bigint): number {
+    let common = pickId & otherPickId
+    let matches = 0
+    while (common !== 0n) {
+        // Clear the lowest set bit
+        common &= common - 1n
+        matches++
+    }
+    return matches
+}
@@ -0,0 +1,355 @@
+import { BigNumberish, getAddress, toBigInt } from 'ethers'
+import type { Lootery } from '../typechain-types'
+import { GameState } from './GameState'
+import { DEFAULT_MAX_CLAIM_BATCH_GAS, LooteryClient } from './LooteryClient'
+import { decodeLooteryError } from './errors'
+import { computePick, countMatches } from './pick'
+
+/**
+ * Status of a ticket with respect to `Lootery#claimWinnings`:
+ * - `Pending`: its game hasn't been drawn yet
+ * - `Claimable`: it won the jackpot or a prize tier (or may claim a
+ *   consolation share) and can claim now
+ * - `Locked`: it could claim, but the current game is being drawn; once the
+ *   draw is finalised, its claim window closes
+ * - `Claimed`: it already claimed its winnings
+ * - `Lost`: it didn't win
+ * - `Expired`: it won, but its claim window (the game after its own) passed
+ */
+export type TicketStatus = 'Pending' | 'Claimable' | 'Locked' | 'Claimed' | 'Lost' | 'Expired'
+
+export interface PortfolioTicket {
+    tokenId: bigint
+    gameId: bigint
+    pickId: bigint
+    pick: bigint[]
+    status: TicketStatus
+    /** Whether the claim is a share of the jackpot of a dead lottery without winners */
+    isConsolation: boolean
+    /**
+     * Number of matches of the prize tier that the ticket won, if any; a
+     * consolation claim includes the tier's share
+     */
+    prizeTierMatches?: number
+    /**
+     * Prize tokens the ticket would receive if the portfolio's claims are sent
+     * in order; 0 unless `Claimable` or `Locked`
+     */
+    claimable: bigint
+}
+
+/** Tickets of a lottery owned by a wallet */
+export interface Portfolio {
+    lootery: string
+    owner: string
+    /** Current game */
+    gameId: bigint
+    state: GameState
+    /** Ascending by token id */
+    tickets: PortfolioTicket[]
+    /** Total prize tokens claimable by `Claimable` tickets */
+    totalClaimable: bigint
+}
+
+export interface ScanPortfolioOptions {
+    /** First block to scan for transfers of tickets; defaults to 0 */
+    fromBlock?: number
+    /** Last block to scan for transfers of tickets; defaults to the latest block */
+    toBlock?: number
+    /** Maximum block range per `eth_getLogs` query */
+    maxBlockRange?: number
+}
+
+export interface ClaimPortfolioOptions {
+    /**
+     * Claim with `claimWinningsBatch` in as few transactions as fit
+     * `maxGasPerTx`, rather than one transaction per ticket
+     */
+    batch?: boolean
+    /** Maximum gas of each batch transaction */
+    maxGasPerTx?: bigint
+}
+
+export interface ClaimResult {
+    tokenId: bigint
+    /** `skipped` if a batch claim skipped the ticket, since it couldn't claim */
+    status: 'claimed' | 'failed' | 'skipped'
+    /** Prize tokens received */
+    value?: bigint
+    txHash?: string
+    /** Name of the revert that caused the claim to fail, if any */
+    reason?: string
+}
+
+/**
+ * Find the tickets currently owned by a wallet, from `Transfer` logs to the
+ * wallet (which include mints on purchase). Tickets transferred away or burnt
+ * since are skipped.
+ * @param lootery Lottery, connected to a provider
+ * @param owner Wallet address
+ * @param options Block range to scan
+ * @returns Token ids, ascending
+ */
+export async function findOwnedTickets(
+    lootery: Lootery,
+    owner: string,
+    options: ScanPortfolioOptions = {},
+): Promise<bigint[]> {
+    const provider = lootery.runner?.provider
+    if (!provider) {
+        throw new Error('Lootery must be connected to a provider')
+    }
+    const owner_ = getAddress(owner)
+    const { fromBlock: firstBlock = 0, maxBlockRange = 10_000 } = options
+    const lastBlock = options.toBlock ?? (await provider.getBlockNumber())
+    const received = new Set<bigint>()
+    for (let fromBlock = firstBlock; fromBlock <= lastBlock; fromBlock += maxBlockRange) {
+        const toBlock = Math.min(fromBlock + maxBlockRange - 1, lastBlock)
+        const events = await lootery.queryFilter(
+            lootery.filters.Transfer(undefined, owner_),
+            fromBlock,
+            toBlock,
+        )
+        for (const event of events) {
+            received.add(event.args.tokenId)
+        }
+    }
+    const owned: bigint[] = []
+    for (const tokenId of [...received].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+        const currentOwner = await lootery.ownerOf(tokenId).catch((err) => {
+            // Burnt on a consolation claim
+            if (decodeLooteryError(err)?.name === 'ERC721NonexistentToken') return null
+            throw err
+        })
+        if (currentOwner === owner_) {
+            owned.push(tokenId)
+        }
+    }
+    return owned
+}
+
+/**
+ * Scan the tickets of a wallet and work out what each can claim, applying the
+ * same rules as `Lootery#claimWinnings`: only tickets of the previous game
+ * may claim, each jackpot or prize tier winner once, and if a dead lottery had
+ * no jackpot winners, every ticket of its last game may claim a consolation
+ * share (plus the share of any prize tier it won).
+ * @param lootery Lottery, connected to a provider
+ * @param owner Wallet address
+ * @param options Block range to scan
+ */
+export async function scanPortfolio(
+    lootery: Lootery,
+    owner: string,
+    options: ScanPortfolioOptions = {},
+): Promise<Portfolio> {
+    const tokenIds = await findOwnedTickets(lootery, owner, options)
+    const [currentGame, unclaimedPayouts, totalSupply] = await Promise.all([
+        lootery.currentGame(),
+        lootery.unclaimedPayouts(),
+        lootery.totalSupply(),
+    ])
+    const state = Number(currentGame.state) as GameState
+    const currentGameId = currentGame.id
+
+    const games = new Map<
+        bigint,
+        { winningPickId: bigint; numWinners: bigint; numClaimedWinningTickets: bigint }
+    >()
+    const getGame = async (gameId: bigint) => {
+        if (!games.has(gameId)) {
+            const { winningPickId } = await lootery.gameData(gameId)
+            const [numWinners, numClaimedWinningTickets] = await Promise.all([
+                lootery.numWinnersInGame(gameId, winningPickId),
+                lootery.numClaimedWinningTickets(gameId),
+            ])
+            games.set(gameId, { winningPickId, numWinners, numClaimedWinningTickets })
+        }
+        return games.get(gameId)!
+    }
+    // Prize tiers by game & number of matches; payouts are only reserved for
+    // the tiers of the previous game
+    const prizeTiers = new Map<
+        string,
+        { numWinners: bigint; numClaimedTickets: bigint; payouts: bigint }
+    >()
+    const getPrizeTier = async (gameId: bigint, matches: number) => {
+        const key = `${gameId}:${matches}`
+        if (!prizeTiers.has(key)) {
+            const [numWinners, numClaimedTickets, payouts] = await Promise.all([
+                lootery.numPrizeTierWinners(gameId, matches),
+                lootery.numClaimedPrizeTierTickets(gameId, matches),
+                gameId === currentGameId - 1n ? lootery.unclaimedPrizeTierPayouts(matches) : 0n,
+            ])
+            prizeTiers.set(key, { numWinners, numClaimedTickets, payouts })
+        }
+        return prizeTiers.get(key)!
+    }
+    // See {Lootery-_takePrizeTierShare}
+    const takePrizeTierShare = (tier: Awaited<ReturnType<typeof getPrizeTier>>) => {
+        const share = tier.payouts / (tier.numWinners - tier.numClaimedTickets)
+        tier.payouts -= share
+        tier.numClaimedTickets += 1n
+        return share
+    }
+
+    // Claims change the payouts & counters that later claims are computed
+    // from, so simulate them in order
+    let payouts = unclaimedPayouts
+    let supply = totalSupply
+    const tickets: PortfolioTicket[] = []
+    for (const tokenId of tokenIds) {
+        const [{ gameId, pickId }, isWinningsClaimed] = await Promise.all([
+            lootery.purchasedTickets(tokenId),
+            lootery.isWinningsClaimed(tokenId),
+        ])
+        const ticket: PortfolioTicket = {
+            tokenId,
+            gameId,
+            pickId,
+            pick: computePick(pickId),
+            status: 'Pending',
+            isConsolation: false,
+            claimable: 0n,
+        }
+        tickets.push(ticket)
+        if (gameId >= currentGameId) continue
+
+        const game = await getGame(gameId)
+        const isWinner = pickId === game.winningPickId && game.numWinners > 0n
+        const matches = countMatches(pickId, game.winningPickId)
+        // Tiers have at least 1 match and fewer matches than the pick's balls
+        const prizeTier =
+            pickId !== game.winningPickId && matches > 0
+                ? await getPrizeTier(gameId, matches)
+                : undefined
+        const isPrizeTierWinner = prizeTier !== undefined && prizeTier.numWinners > 0n
+        if (isPrizeTierWinner) {
+            ticket.prizeTierMatches = matches
+        }
+        if (gameId !== currentGameId - 1n) {
+            ticket.status =
+                isWinner || isPrizeTierWinner ? (isWinningsClaimed ? 'Claimed' : 'Expired') : 'Lost'
+            continue
+        }
+        const canClaimNow = state === GameState.Purchase || state === GameState.Dead
+        if (game.numWinners === 0n && state === GameState.Dead) {
+            ticket.isConsolation = true
+            ticket.claimable = payouts / supply
+            payouts -= ticket.claimable
+            supply -= 1n
+            if (isPrizeTierWinner) {
+                ticket.claimable += takePrizeTierShare(prizeTier)
+            }
+            ticket.status = 'Claimable'
+        } else if (isWinner) {
+            if (isWinningsClaimed) {
+                ticket.status = 'Claimed'
+                continue
+            }
+            ticket.claimable = payouts / (game.numWinners - game.numClaimedWinningTickets)
+            payouts -= ticket.claimable
+            game.numClaimedWinningTickets += 1n
+            ticket.status = canClaimNow ? 'Claimable' : 'Locked'
+        } else if (isPrizeTierWinner) {
+            if (isWinningsClaimed) {
+                ticket.status = 'Claimed'
+                continue
+            }
+            ticket.claimable = takePrizeTierShare(prizeTier)
+            ticket.status = canClaimNow ? 'Claimable' : 'Locked'
+        } else {
+            ticket.status = 'Lost'
+        }
+    }
+
+    return {
+        lootery: await lootery.getAddress(),
+        owner: getAddress(owner),
+        gameId: currentGameId,
+        state,
+        tickets,
+        totalClaimable: tickets
+            .filter(({ status }) => status === 'Claimable')
+            .reduce((sum, { claimable }) => sum + claimable, 0n),
+    }
+}
+
+/**
+ * Claim the winnings of every `Claimable` ticket of a portfolio, one
+ * transaction per ticket, or in batches. A failed claim doesn't stop the
+ * remaining claims.
+ * @param client Client connected to a signer
+ * @param portfolio Portfolio, see {scanPortfolio}
+ * @param tokenIds Only claim these tickets; defaults to all claimable tickets
+ * @param options Whether to claim in batches
+ */
+export async function claimPortfolio(
+    client: LooteryClient,
+    portfolio: Portfolio,
+    tokenIds?: BigNumberish[],
+    options: ClaimPortfolioOptions = {},
+): Promise<ClaimResult[]> {
+    const only = tokenIds && new Set(tokenIds.map((tokenId) => toBigInt(tokenId)))
+    const claimable = portfolio.tickets
+        .filter(({ status, tokenId }) => status === 'Claimable' && (!only || only.has(tokenId)))
+        .map(({ tokenId }) => tokenId)
+    if (options.batch) {
+        return claimPortfolioBatch(client, claimable, options.maxGasPerTx)
+    }
+    const results: ClaimResult[] = []
+    for (const tokenId of claimable) {
+        try {
+            const { receipt, value } = await client.claimWinnings(tokenId)
+            results.push({ tokenId, status: 'claimed', value, txHash: receipt.hash })
+        } catch (err) {
+            const decoded = decodeLooteryError(err)
+            if (!decoded) throw err
+            results.push({ tokenId, status: 'failed', reason: decoded.name })
+        }
+    }
+    return results
+}
+
+async function claimPortfolioBatch(
+    client: LooteryClient,
+    tokenIds: bigint[],
+    maxGasPerTx = DEFAULT_MAX_CLAIM_BATCH_GAS,
+): Promise<ClaimResult[]> {
+    const results: ClaimResult[] = []
+    try {
+        await client.claimWinningsBatch(tokenIds, {
+            lenient: true,
+            maxGasPerTx,
+            onBatch: ({ receipt, tokenIds, claims }) => {
+                for (const tokenId of tokenIds) {
+                    const claim = claims.find((claim) => claim.tokenId === tokenId)
+                    results.push(
+                        claim
+                            ? {
+                                  tokenId,
+                                  status: 'claimed',
+                                  value: claim.value,
+                                  txHash: receipt.hash,
+                              }
+                            : { tokenId, status: 'skipped' },
+                    )
+                }
+            },
+        })
+    } catch (err) {
+        // Even lenient claims revert if no ticket can claim at the moment, e.g.
+        // while the next game is being drawn; tickets of the batches that
+        // weren't sent fail
+        const decoded = decodeLooteryError(err)
+        if (!decoded) throw err
+        results.push(
+            ...tokenIds.slice(results.length).map((tokenId): ClaimResult => ({
+                tokenId,
+                status: 'failed',
+                reason: decoded.name,
+            })),
+        )
+    }
+    return results
+}
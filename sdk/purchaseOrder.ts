@@ -0,0 +1,207 @@
+import {
+    BigNumberish,
+    Contract,
+    ContractRunner,
+    Signature,
+    Signer,
+    TypedDataDomain,
+    TypedDataEncoder,
+    toBigInt,
+    verifyTypedData,
+} from 'ethers'
+import { connectLootery, connectLooteryPurchaseRelay } from './contracts'
+import type { TicketRequest } from './LooteryClient'
+
+/** Purchase of tickets, signed by its player (see {LooteryPurchaseRelay-PurchaseOrder}) */
+export interface PurchaseOrder {
+    /** Player that pays for the tickets and signs the order */
+    player: string
+    lootery: string
+    tickets: { whomst: string; pick: bigint[] }[]
+    /** Beneficiary to receive the community fee share, or the zero address */
+    beneficiary: string
+    /** Maximum total price the player is willing to pay */
+    maxPrice: bigint
+    /** Timestamp after which the order can no longer be filled */
+    deadline: bigint
+    /** Player's current nonce on the relay */
+    nonce: bigint
+}
+
+/** EIP-2612 permit of the prize token, from the player to the relay */
+export interface PurchasePermit {
+    value: bigint
+    deadline: bigint
+    v: number
+    r: string
+    s: string
+}
+
+/** A purchase order with the player's signatures, ready to be relayed */
+export interface SignedPurchaseOrder {
+    order: PurchaseOrder
+    signature: string
+    /** Omitted if the player has already approved the relay */
+    permit?: PurchasePermit
+}
+
+/** No permit, i.e. the player has already approved the relay */
+export const NO_PERMIT: PurchasePermit = {
+    value: 0n,
+    deadline: 0n,
+    v: 0,
+    r: `0x${'0'.repeat(64)}`,
+    s: `0x${'0'.repeat(64)}`,
+}
+
+export const PURCHASE_ORDER_TYPES = {
+    PurchaseOrder: [
+        { name: 'player', type: 'address' },
+        { name: 'lootery', type: 'address' },
+        { name: 'tickets', type: 'Ticket[]' },
+        { name: 'beneficiary', type: 'address' },
+        { name: 'maxPrice', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+    ],
+    Ticket: [
+        { name: 'whomst', type: 'address' },
+        { name: 'pick', type: 'uint8[]' },
+    ],
+}
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+}
+
+/**
+ * Read the EIP-712 domain of a contract that implements EIP-5267, such as the
+ * relay or an OpenZeppelin `ERC20Permit` token
+ * @param address Contract address
+ * @param runner Provider
+ */
+export async function getEip712Domain(
+    address: string,
+    runner: ContractRunner,
+): Promise<TypedDataDomain> {
+    const contract = new Contract(
+        address,
+        [
+            'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+        ],
+        runner,
+    )
+    const { name, version, chainId, verifyingContract } = await contract.eip712Domain()
+    return { name, version, chainId, verifyingContract }
+}
+
+/**
+ * Build an order for tickets at the lottery's current price, using the
+ * player's current nonce on the relay
+ * @param relay Address of the LooteryPurchaseRelay
+ * @param runner Provider
+ * @param params Order parameters
+ */
+export async function buildPurchaseOrder(
+    relay: string,
+    runner: ContractRunner,
+    params: {
+        player: string
+        lootery: string
+        tickets: TicketRequest[]
+        beneficiary: string
+        deadline: BigNumberish
+    },
+): Promise<PurchaseOrder> {
+    const [ticketPrice, nonce] = await Promise.all([
+        connectLootery(params.lootery, runner).ticketPrice(),
+        connectLooteryPurchaseRelay(relay, runner).nonces(params.player),
+    ])
+    return {
+        player: params.player,
+        lootery: params.lootery,
+        tickets: params.tickets.map(({ whomst, pick }) => ({
+            whomst,
+            pick: pick.map((ball) => toBigInt(ball)),
+        })),
+        beneficiary: params.beneficiary,
+        maxPrice: ticketPrice * BigInt(params.tickets.length),
+        deadline: toBigInt(params.deadline),
+        nonce,
+    }
+}
+
+/**
+ * EIP-712 digest of a purchase order (see {LooteryPurchaseRelay-hashPurchaseOrder})
+ * @param domain Domain of the relay
+ * @param order Purchase order
+ */
+export function hashPurchaseOrder(domain: TypedDataDomain, order: PurchaseOrder) {
+    return TypedDataEncoder.hash(domain, PURCHASE_ORDER_TYPES, order)
+}
+
+/**
+ * Recover the signer of a purchase order. NB: Signatures of contract wallets
+ * (EIP-1271) can't be recovered, and must be checked on-chain instead.
+ * @param domain Domain of the relay
+ * @param signedOrder Signed purchase order
+ */
+export function recoverPurchaseOrderSigner(
+    domain: TypedDataDomain,
+    { order, signature }: SignedPurchaseOrder,
+) {
+    return verifyTypedData(domain, PURCHASE_ORDER_TYPES, order, signature)
+}
+
+/**
+ * Sign a purchase order as its player
+ * @param signer Player
+ * @param domain Domain of the relay
+ * @param order Purchase order
+ */
+export function signPurchaseOrder(signer: Signer, domain: TypedDataDomain, order: PurchaseOrder) {
+    return signer.signTypedData(domain, PURCHASE_ORDER_TYPES, order)
+}
+
+/**
+ * Sign an EIP-2612 permit of a token to a spender, e.g. the relay
+ * @param signer Token owner
+ * @param token Address of the token
+ * @param spender Address allowed to spend the tokens
+ * @param value Amount allowed
+ * @param deadline Timestamp after which the permit can no longer be used
+ */
+export async function signPermit(
+    signer: Signer,
+    token: string,
+    spender: string,
+    value: bigint,
+    deadline: bigint,
+): Promise<PurchasePermit> {
+    const owner = await signer.getAddress()
+    const erc20 = new Contract(
+        token,
+        ['function nonces(address owner) view returns (uint256)'],
+        signer,
+    )
+    const [domain, nonce] = await Promise.all([
+        getEip712Domain(token, signer),
+        erc20.nonces(owner) as Promise<bigint>,
+    ])
+    const signature = Signature.from(
+        await signer.signTypedData(domain, PERMIT_TYPES, {
+            owner,
+            spender,
+            value,
+            nonce,
+            deadline,
+        }),
+    )
+    return { value, deadline, v: signature.v, r: signature.r, s: signature.s }
+}
@@ -0,0 +1,196 @@
+import {
+    BigNumberish,
+    keccak256,
+    randomBytes,
+    solidityPackedKeccak256,
+    toBigInt,
+    toUtf8Bytes,
+} from 'ethers'
+import { computePickId } from './pick'
+import { choose } from './odds'
+import { computeWinningPick } from './winningPick'
+
+/** Thrown when quick picks can't be generated or don't match their seed */
+export class QuickPickError extends Error {
+    constructor(
+        public readonly reason:
+            | 'InvalidPickLength'
+            | 'InvalidMaxBallValue'
+            | 'InvalidCount'
+            | 'InvalidSeed'
+            | 'SeedMismatch',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'QuickPickError'
+    }
+}
+
+/**
+ * Where the seed of quick picks comes from:
+ * - `seed`: a given uint256, e.g. to reproduce an earlier batch
+ * - `entropy`: hash of user-supplied entropy, e.g. dice rolls or a phrase
+ * - `csprng`: 32 bytes from the platform's CSPRNG
+ */
+export type QuickPickSource =
+    | { kind: 'seed'; seed: BigNumberish }
+    | { kind: 'entropy'; entropy: string | Uint8Array }
+    | { kind: 'csprng' }
+
+/** A quick-picked ticket */
+export interface QuickPick {
+    /** Ascendingly sorted, as expected by `Lootery#purchase` */
+    pick: number[]
+    /** Pick identity, see {computePickId} */
+    pickId: bigint
+}
+
+/** Quick picks that can be reproduced (& verified) from their seed */
+export interface QuickPickBatch {
+    pickLength: bigint
+    maxBallValue: bigint
+    /** Root seed; keep it to reproduce or verify the batch */
+    seed: bigint
+    /** Distinct tickets, i.e. no two share a pick identity */
+    tickets: QuickPick[]
+}
+
+export interface QuickPickOptions {
+    pickLength: BigNumberish
+    maxBallValue: BigNumberish
+    /** Defaults to `{ kind: 'csprng' }` */
+    source?: QuickPickSource
+}
+
+const MAX_UINT256 = 2n ** 256n - 1n
+
+/**
+ * Check pick parameters against the same bounds as `Lootery#init`
+ * @param pickLength Number of balls in a pick
+ * @param maxBallValue Maximum value of a ball
+ */
+export function validateQuickPickParams(pickLength: BigNumberish, maxBallValue: BigNumberish) {
+    const pickLength_ = toBigInt(pickLength)
+    const maxBallValue_ = toBigInt(maxBallValue)
+    if (pickLength_ < 1n || pickLength_ > 32n) {
+        throw new QuickPickError(
+            'InvalidPickLength',
+            `pickLength must be between 1 and 32, got ${pickLength_}`,
+        )
+    }
+    if (maxBallValue_ > 255n || pickLength_ > maxBallValue_) {
+        throw new QuickPickError(
+            'InvalidMaxBallValue',
+            `maxBallValue must be between pickLength (${pickLength_}) and 255, got ${maxBallValue_}`,
+        )
+    }
+    return { pickLength: pickLength_, maxBallValue: maxBallValue_ }
+}
+
+/**
+ * Derive the root seed of a batch of quick picks
+ * @param source Where the seed comes from
+ */
+export function deriveQuickPickSeed(source: QuickPickSource): bigint {
+    switch (source.kind) {
+        case 'seed': {
+            const seed = toBigInt(source.seed)
+            if (seed < 0n || seed > MAX_UINT256) {
+                throw new QuickPickError('InvalidSeed', `Seed must be a uint256, got ${seed}`)
+            }
+            return seed
+        }
+        case 'entropy': {
+            const entropy =
+                typeof source.entropy === 'string' ? toUtf8Bytes(source.entropy) : source.entropy
+            if (entropy.length === 0) {
+                throw new QuickPickError('InvalidSeed', 'Entropy must not be empty')
+            }
+            return toBigInt(keccak256(entropy))
+        }
+        case 'csprng':
+            return toBigInt(randomBytes(32))
+    }
+}
+
+/**
+ * Compute the `index`th candidate ticket of a seed. Each candidate is drawn
+ * exactly like a winning pick (see {computeWinningPick}), with
+ * `keccak256(abi.encodePacked(seed, index))` as the random word.
+ * @param pickLength Number of balls in a pick
+ * @param maxBallValue Maximum value of a ball
+ * @param seed Root seed of the batch
+ * @param index Index of the candidate
+ */
+export function computeQuickPick(
+    pickLength: BigNumberish,
+    maxBallValue: BigNumberish,
+    seed: BigNumberish,
+    index: BigNumberish,
+): QuickPick {
+    const randomWord = solidityPackedKeccak256(['uint256', 'uint256'], [seed, index])
+    const balls = computeWinningPick(pickLength, maxBallValue, randomWord)
+    return { pick: balls.map(Number), pickId: computePickId(balls) }
+}
+
+/**
+ * Generate `count` distinct quick picks. Candidates whose pick identity was
+ * already generated are skipped, so the batch is fully determined by its
+ * seed.
+ * @param count Number of tickets
+ * @param options Lottery parameters & the source of the seed
+ */
+export function generateQuickPicks(count: number, options: QuickPickOptions): QuickPickBatch {
+    const { pickLength, maxBallValue } = validateQuickPickParams(
+        options.pickLength,
+        options.maxBallValue,
+    )
+    const combinations = choose(maxBallValue, pickLength)
+    if (!Number.isSafeInteger(count) || count < 1 || BigInt(count) > combinations) {
+        throw new QuickPickError(
+            'InvalidCount',
+            `Can only generate between 1 and ${combinations} distinct tickets, got ${count}`,
+        )
+    }
+    const seed = deriveQuickPickSeed(options.source ?? { kind: 'csprng' })
+    const pickIds = new Set<bigint>()
+    const tickets: QuickPick[] = []
+    for (let index = 0n; tickets.length < count; index++) {
+        const ticket = computeQuickPick(pickLength, maxBallValue, seed, index)
+        if (pickIds.has(ticket.pickId)) continue
+        pickIds.add(ticket.pickId)
+        tickets.push(ticket)
+    }
+    return { pickLength, maxBallValue, seed, tickets }
+}
+
+/**
+ * Generate a single quick pick
+ * @param options Lottery parameters & the source of the seed
+ */
+export function quickPick(options: QuickPickOptions): QuickPick {
+    return generateQuickPicks(1, options).tickets[0]
+}
+
+/**
+ * Verify that a batch of quick picks was generated from its seed, e.g. to
+ * prove that tickets weren't hand-picked
+ * @param batch Batch to verify
+ * @throws {QuickPickError} if any ticket differs from its regeneration
+ */
+export function verifyQuickPicks(batch: QuickPickBatch) {
+    const expected = generateQuickPicks(batch.tickets.length, {
+        pickLength: batch.pickLength,
+        maxBallValue: batch.maxBallValue,
+        source: { kind: 'seed', seed: batch.seed },
+    })
+    for (const [i, ticket] of batch.tickets.entries()) {
+        const { pick, pickId } = expected.tickets[i]
+        if (ticket.pickId !== pickId || ticket.pick.join() !== pick.join()) {
+            throw new QuickPickError(
+                'SeedMismatch',
+                `Ticket #${i} [${ticket.pick.join(', ')}] wasn't generated by seed ${batch.seed}; expected [${pick.join(', ')}]`,
+            )
+        }
+    }
+}
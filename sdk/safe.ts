@@ -0,0 +1,278 @@
+import {
+    FunctionFragment,
+    Interface,
+    ParamType,
+    Result,
+    getAddress,
+    keccak256,
+    toUtf8Bytes,
+} from 'ethers'
+import { looteryFactoryInterface, looteryInterface } from './contracts'
+
+/** Transaction in a Safe Transaction Builder batch */
+export interface SafeTransaction {
+    to: string
+    /** Wei, as a decimal string */
+    value: string
+    data: string | null
+    contractMethod: {
+        inputs: { internalType?: string; name: string; type: string }[]
+        name: string
+        payable: boolean
+    } | null
+    contractInputsValues: Record<string, string> | null
+}
+
+/** Batch file that can be imported into the Safe Transaction Builder */
+export interface SafeBatch {
+    version: '1.0'
+    chainId: string
+    createdAt: number
+    meta: {
+        name: string
+        description?: string
+        txBuilderVersion?: string
+        createdFromSafeAddress?: string
+        createdFromOwnerAddress?: string
+        checksum?: string
+    }
+    transactions: SafeTransaction[]
+}
+
+/**
+ * Contract interfaces that batches are decoded against, by name. The Lootery &
+ * factory share some selectors (e.g. `setTicketSVGRenderer`), so a call may
+ * decode against more than one.
+ */
+export const SAFE_DECODE_INTERFACES: Record<string, Interface> = {
+    LooteryFactory: looteryFactoryInterface,
+    Lootery: looteryInterface,
+}
+
+/** Format a decoded argument the way the Transaction Builder's inputs expect */
+function formatInputValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(formatInputValue).join(',')}]`
+    }
+    return String(value)
+}
+
+/**
+ * Encode a contract call as a Safe Transaction Builder transaction
+ * @param to Address of the contract to call
+ * @param contractInterface Interface of the contract, e.g. `looteryInterface`
+ * @param method Function name or signature
+ * @param args Function arguments
+ * @param value Wei to send
+ */
+export function encodeSafeTransaction(
+    to: string,
+    contractInterface: Interface,
+    method: string,
+    args: unknown[] = [],
+    value = 0n,
+): SafeTransaction {
+    const fragment = contractInterface.getFunction(method, args)
+    if (!fragment) {
+        throw new Error(`No function ${method} in interface`)
+    }
+    const data = contractInterface.encodeFunctionData(fragment, args)
+    const decoded = contractInterface.decodeFunctionData(fragment, data)
+    return {
+        to: getAddress(to),
+        value: value.toString(),
+        data,
+        contractMethod: {
+            inputs: fragment.inputs.map((input) => ({
+                internalType: input.type,
+                name: input.name,
+                type: input.type,
+            })),
+            name: fragment.name,
+            payable: fragment.payable,
+        },
+        contractInputsValues: Object.fromEntries(
+            fragment.inputs.map((input, i) => [input.name, formatInputValue(decoded[i])]),
+        ),
+    }
+}
+
+/**
+ * Deterministic serialisation used by the Transaction Builder to checksum
+ * batches; object keys are sorted and undefined is serialised as null.
+ */
+function serialiseForChecksum(json: unknown): string {
+    const replacer = (_: string, value: unknown) => (value === undefined ? null : value)
+    if (Array.isArray(json)) {
+        return `[${json.map(serialiseForChecksum).join(',')}]`
+    }
+    if (typeof json === 'object' && json !== null) {
+        const keys = Object.keys(json).sort()
+        let serialised = `{${JSON.stringify(keys, replacer)}`
+        for (const key of keys) {
+            serialised += `${serialiseForChecksum((json as Record<string, unknown>)[key])},`
+        }
+        return `${serialised}}`
+    }
+    return JSON.stringify(json, replacer)
+}
+
+/** Checksum of a batch, as computed by the Transaction Builder (the name is excluded) */
+export function calculateSafeBatchChecksum(batch: SafeBatch) {
+    const { checksum: _, ...meta } = batch.meta
+    return keccak256(toUtf8Bytes(serialiseForChecksum({ ...batch, meta: { ...meta, name: null } })))
+}
+
+/**
+ * Create a Safe Transaction Builder batch
+ * @param options.chainId Chain the Safe is deployed on
+ * @param options.safe Address of the Safe that will execute the batch
+ * @param options.name Name of the batch, shown in the Transaction Builder
+ * @param options.description What the batch does, for signers
+ * @param options.transactions Transactions, e.g. from `encodeSafeTransaction`
+ * @param options.createdAt Creation time in ms (defaults to now)
+ */
+export function createSafeBatch(options: {
+    chainId: bigint
+    safe: string
+    name: string
+    description?: string
+    transactions: SafeTransaction[]
+    createdAt?: number
+}): SafeBatch {
+    if (options.transactions.length === 0) {
+        throw new Error('A Safe batch must contain at least one transaction')
+    }
+    const batch: SafeBatch = {
+        version: '1.0',
+        chainId: options.chainId.toString(),
+        createdAt: options.createdAt ?? Date.now(),
+        meta: {
+            name: options.name,
+            description: options.description ?? '',
+            txBuilderVersion: '1.16.5',
+            createdFromSafeAddress: getAddress(options.safe),
+            createdFromOwnerAddress: '',
+        },
+        transactions: options.transactions,
+    }
+    batch.meta.checksum = calculateSafeBatchChecksum(batch)
+    return batch
+}
+
+export interface DecodedSafeTransaction {
+    index: number
+    to: string
+    value: bigint
+    /** Names of the interfaces the call decodes against; empty if unknown */
+    contracts: string[]
+    /** Function, or null if the call couldn't be decoded */
+    fragment: FunctionFragment | null
+    args: Result | null
+    /** The tx's `data` doesn't match its `contractMethod`/`contractInputsValues` */
+    dataMismatch: boolean
+}
+
+/** Calldata of a Transaction Builder transaction, encoding its inputs if necessary */
+function getSafeTransactionData(tx: SafeTransaction) {
+    if (!tx.contractMethod) return tx.data ?? '0x'
+    const fragment = FunctionFragment.from({
+        type: 'function',
+        name: tx.contractMethod.name,
+        inputs: tx.contractMethod.inputs,
+        stateMutability: tx.contractMethod.payable ? 'payable' : 'nonpayable',
+    })
+    const values = fragment.inputs.map((input) =>
+        parseInputValue(input, tx.contractInputsValues?.[input.name] ?? ''),
+    )
+    return new Interface([fragment]).encodeFunctionData(fragment, values)
+}
+
+function parseInputValue(input: ParamType, value: string): unknown {
+    if (input.baseType === 'array' || input.baseType === 'tuple') return JSON.parse(value)
+    if (input.type === 'bool') return value === 'true'
+    return value
+}
+
+/**
+ * Decode the transactions of a Safe batch against known contract interfaces
+ * @param batch Transaction Builder batch
+ * @param interfaces Interfaces to decode against, by name
+ */
+export function decodeSafeBatch(
+    batch: SafeBatch,
+    interfaces = SAFE_DECODE_INTERFACES,
+): DecodedSafeTransaction[] {
+    return batch.transactions.map((tx, index) => {
+        let data = tx.data ?? '0x'
+        let dataMismatch = false
+        if (tx.contractMethod) {
+            const encoded = getSafeTransactionData(tx)
+            dataMismatch = tx.data !== null && tx.data.toLowerCase() !== encoded.toLowerCase()
+            // The Transaction Builder executes the encoded inputs over `data`
+            data = encoded
+        }
+        const decoded: DecodedSafeTransaction = {
+            index,
+            to: getAddress(tx.to),
+            value: BigInt(tx.value || 0),
+            contracts: [],
+            fragment: null,
+            args: null,
+            dataMismatch,
+        }
+        for (const [name, contractInterface] of Object.entries(interfaces)) {
+            const parsed = contractInterface.parseTransaction({ data })
+            if (!parsed) continue
+            decoded.contracts.push(name)
+            decoded.fragment ??= parsed.fragment
+            decoded.args ??= parsed.args
+        }
+        return decoded
+    })
+}
+
+/**
+ * Human-readable description of a Safe batch, for signers to review
+ * @param batch Transaction Builder batch
+ * @param labels Names of known addresses, e.g. the factory & lotteries
+ */
+export function formatSafeBatch(batch: SafeBatch, labels: Record<string, string> = {}) {
+    const label = (address: string) => {
+        const name = Object.entries(labels).find(([a]) => getAddress(a) === address)?.[1]
+        return name ? `${address} (${name})` : address
+    }
+    const lines = [
+        `Batch:    ${batch.meta.name}`,
+        `Chain:    ${batch.chainId}`,
+        `Safe:     ${batch.meta.createdFromSafeAddress || 'unknown'}`,
+        `Created:  ${new Date(batch.createdAt).toISOString()}`,
+    ]
+    if (batch.meta.description) {
+        lines.push(`About:    ${batch.meta.description}`)
+    }
+    if (batch.meta.checksum && batch.meta.checksum !== calculateSafeBatchChecksum(batch)) {
+        lines.push('WARNING:  checksum mismatch; the batch was modified after it was created')
+    }
+    for (const tx of decodeSafeBatch(batch)) {
+        lines.push('')
+        lines.push(`#${tx.index + 1} to ${label(tx.to)}${tx.value ? ` with ${tx.value} wei` : ''}`)
+        if (!tx.fragment) {
+            lines.push('    Unknown call; could not be decoded against the exported ABIs')
+            continue
+        }
+        lines.push(`    ${tx.contracts.join(' | ')}.${tx.fragment.format('sighash')}`)
+        tx.fragment.inputs.forEach((input, i) => {
+            const value = tx.args![i]
+            lines.push(
+                `    ${input.name || `arg${i}`}: ${input.type === 'address' ? label(value) : formatInputValue(value)}`,
+            )
+        })
+        if (tx.dataMismatch) {
+            lines.push(
+                '    WARNING: data does not match the displayed inputs; the inputs will be executed',
+            )
+        }
+    }
+    return lines.join('\n')
+}
@@ -0,0 +1,589 @@
+import { ZeroAddress, solidityPackedKeccak256, toBigInt } from 'ethers'
+import { GameState } from './GameState'
+import { OddsParams, computeFeeSplit } from './odds'
+import { computePickId } from './pick'
+import { computeWinningPick } from './winningPick'
+
+/** Parameters of a simulated lottery */
+export interface SimulationParams extends OddsParams {
+    /** seconds */
+    seedJackpotDelay: bigint
+    seedJackpotMinValue: bigint
+}
+
+/**
+ * Thrown when a simulated call would revert. The `reason` is the name of the
+ * custom error that `Lootery` would revert with.
+ */
+export class SimulationError extends Error {
+    constructor(
+        public readonly reason:
+            | 'NoTicketsSpecified'
+            | 'UnknownBeneficiary'
+            | 'UnexpectedState'
+            | 'InsufficientJackpotSeed'
+            | 'RateLimited'
+            | 'WaitLonger'
+            | 'NoTicketsSold'
+            | 'ERC721NonexistentToken'
+            | 'ClaimWindowMissed'
+            | 'AlreadyClaimed'
+            | 'NoWin'
+            | 'GameInactive',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'SimulationError'
+    }
+}
+
+/** State-changing call made against a simulated lottery, in order */
+export type SimulationAction =
+    | {
+          type: 'purchase'
+          timestamp: bigint
+          buyer: string
+          tickets: { whomst: string; pick: bigint[] }[]
+          beneficiary: string
+      }
+    | { type: 'seedJackpot'; timestamp: bigint; from: string; value: bigint }
+    | { type: 'draw'; timestamp: bigint }
+    | { type: 'fulfil'; timestamp: bigint; randomWord: bigint }
+    | { type: 'claimWinnings'; timestamp: bigint; tokenId: bigint }
+    | { type: 'kill'; timestamp: bigint }
+    | { type: 'withdrawAccruedFees'; timestamp: bigint; to: string }
+
+/** Accounting of a single (finished) game */
+export interface SimulationRound {
+    gameId: bigint
+    startedAt: bigint
+    ticketsSold: bigint
+    /** null if the draw was skipped */
+    winningPick: bigint[] | null
+    winners: bigint
+    /** Jackpot at the time of the draw */
+    jackpot: bigint
+    /** Unclaimed payouts of the previous game that were rolled back into the jackpot */
+    expiredPayouts: bigint
+    seeded: bigint
+    communityFees: bigint
+    protocolFees: bigint
+    /** Prizes claimed during this game (i.e. from the previous game) */
+    claimed: bigint
+    nextJackpot: bigint
+    nextUnclaimedPayouts: bigint
+}
+
+interface SimulatedGame {
+    startedAt: bigint
+    ticketsSold: bigint
+    winningPickId: bigint
+    numClaimedWinningTickets: bigint
+    /** pick identity => token ids */
+    tokensByPickId: Map<bigint, bigint[]>
+}
+
+interface SimulatedTicket {
+    gameId: bigint
+    pickId: bigint
+    owner: string
+    isWinningsClaimed: boolean
+}
+
+/**
+ * An off-chain model of a single `Lootery`'s accounting, mirroring the
+ * contract's fee splits, jackpot rollovers, claim windows, jackpot seeding
+ * rate limit and apocalypse consolation payouts. Randomness is delivered
+ * explicitly via {fulfil}, so the resulting history can be replayed against
+ * a real deployment. Prize tiers are not modelled, so it only mirrors
+ * lotteries without any.
+ *
+ * Only tickets of the current & previous game are retained, as older tickets
+ * can no longer claim anything.
+ */
+export class LooterySimulation {
+    /** Current block timestamp */
+    public timestamp: bigint
+    public state = GameState.Purchase
+    public gameId = 0n
+    public jackpot = 0n
+    public unclaimedPayouts = 0n
+    public accruedCommunityFees = 0n
+    public totalSupply = 0n
+    public isApocalypseMode = false
+    public jackpotLastSeededAt = 0n
+    /** Net prize token flow of each account */
+    public readonly balances = new Map<string, bigint>()
+    /** Prize tokens held by the lottery */
+    public balance = 0n
+    public readonly rounds: SimulationRound[] = []
+    public readonly history: SimulationAction[] = []
+
+    private readonly games = new Map<bigint, SimulatedGame>()
+    private readonly tickets = new Map<bigint, SimulatedTicket>()
+    private readonly beneficiaries: Set<string>
+    private nextTokenId = 1n
+    private round = { seeded: 0n, communityFees: 0n, protocolFees: 0n, claimed: 0n }
+
+    /**
+     * @param params Lottery parameters
+     * @param options.startedAt Start of the first game, i.e. when the lottery was created
+     * @param options.timestamp Current timestamp (defaults to `startedAt`)
+     * @param options.beneficiaries Known beneficiaries
+     * @param options.protocolFeeRecipient Recipient of the protocol fee (if `hasProtocolFee`)
+     * @param options.recordHistory Whether to record every action in `history`
+     */
+    constructor(
+        public readonly params: SimulationParams,
+        private readonly options: {
+            startedAt: bigint
+            timestamp?: bigint
+            beneficiaries?: string[]
+            protocolFeeRecipient?: string
+            recordHistory?: boolean
+        },
+    ) {
+        this.timestamp = options.timestamp ?? options.startedAt
+        this.beneficiaries = new Set(options.beneficiaries)
+        this.games.set(0n, this.newGame(options.startedAt))
+    }
+
+    get currentGame() {
+        return this.games.get(this.gameId)!
+    }
+
+    /**
+     * Advance the clock
+     * @param seconds Seconds to advance by
+     */
+    advanceTime(seconds: bigint) {
+        this.timestamp += seconds
+    }
+
+    /** Timestamp after which the current game can be drawn */
+    get gameDeadline() {
+        return this.currentGame.startedAt + this.params.gamePeriod
+    }
+
+    /** Whether the jackpot seeding rate limit has elapsed */
+    get canSeedJackpot() {
+        return (
+            this.state === GameState.Purchase &&
+            this.timestamp >= this.jackpotLastSeededAt + this.params.seedJackpotDelay
+        )
+    }
+
+    /** See `Lootery#purchase` */
+    purchase(buyer: string, tickets: { whomst: string; pick: bigint[] }[], beneficiary: string) {
+        if (tickets.length === 0) {
+            throw new SimulationError('NoTicketsSpecified', 'No tickets specified')
+        }
+        if (beneficiary !== ZeroAddress && !this.beneficiaries.has(beneficiary)) {
+            throw new SimulationError('UnknownBeneficiary', `Unknown beneficiary ${beneficiary}`)
+        }
+        this.assertState(GameState.Purchase)
+        const { params } = this
+        const { communityFee, protocolFee, jackpotShare } = computeFeeSplit(
+            params.ticketPrice,
+            params.communityFeeBps,
+            params.hasProtocolFee,
+            BigInt(tickets.length),
+        )
+        this.transfer(buyer, -(communityFee + protocolFee + jackpotShare))
+        if (beneficiary === ZeroAddress) {
+            this.accruedCommunityFees += communityFee
+        } else {
+            this.transfer(beneficiary, communityFee)
+        }
+        if (protocolFee > 0n) {
+            this.transfer(this.options.protocolFeeRecipient!, protocolFee)
+        }
+        this.jackpot += jackpotShare
+        this.round.communityFees += communityFee
+        this.round.protocolFees += protocolFee
+
+        const game = this.currentGame
+        game.ticketsSold += BigInt(tickets.length)
+        const tokenIds: bigint[] = []
+        for (const { whomst, pick } of tickets) {
+            const tokenId = this.nextTokenId++
+            const pickId = computePickId(pick)
+            this.tickets.set(tokenId, {
+                gameId: this.gameId,
+                pickId,
+                owner: whomst,
+                isWinningsClaimed: false,
+            })
+            const tokens = game.tokensByPickId.get(pickId)
+            if (tokens) {
+                tokens.push(tokenId)
+            } else {
+                game.tokensByPickId.set(pickId, [tokenId])
+            }
+            tokenIds.push(tokenId)
+        }
+        this.totalSupply += BigInt(tickets.length)
+        this.record({ type: 'purchase', timestamp: this.timestamp, buyer, tickets, beneficiary })
+        return tokenIds
+    }
+
+    /** See `Lootery#seedJackpot` */
+    seedJackpot(from: string, value: bigint) {
+        this.assertState(GameState.Purchase)
+        if (value < this.params.seedJackpotMinValue) {
+            throw new SimulationError('InsufficientJackpotSeed', `Insufficient seed: ${value}`)
+        }
+        const seedableAt = this.jackpotLastSeededAt + this.params.seedJackpotDelay
+        if (this.timestamp < seedableAt) {
+            throw new SimulationError(
+                'RateLimited',
+                `Jackpot seeding rate limited for ${seedableAt - this.timestamp}s`,
+            )
+        }
+        this.jackpotLastSeededAt = this.timestamp
+        this.jackpot += value
+        this.transfer(from, -value)
+        this.round.seeded += value
+        this.record({ type: 'seedJackpot', timestamp: this.timestamp, from, value })
+    }
+
+    /**
+     * See `Lootery#draw`. NB: VRF payments are not modelled.
+     * @returns Whether randomness was requested, i.e. whether {fulfil} must be called
+     */
+    draw() {
+        this.assertState(GameState.Purchase)
+        if (this.timestamp < this.gameDeadline) {
+            throw new SimulationError('WaitLonger', `Wait until ${this.gameDeadline}`)
+        }
+        if (this.currentGame.ticketsSold === 0n && this.isApocalypseMode) {
+            throw new SimulationError('NoTicketsSold', 'No tickets sold')
+        }
+        this.record({ type: 'draw', timestamp: this.timestamp })
+        if (this.currentGame.ticketsSold === 0n) {
+            // Skipped
+            this.setupNextGame(null)
+            return false
+        }
+        this.state = GameState.DrawPending
+        return true
+    }
+
+    /**
+     * See `Lootery#receiveRandomness`
+     * @param randomWord Random word delivered by the randomiser
+     * @returns Winning pick
+     */
+    fulfil(randomWord: bigint) {
+        this.assertState(GameState.DrawPending)
+        const balls = computeWinningPick(
+            this.params.pickLength,
+            this.params.maxBallValue,
+            randomWord,
+        )
+        this.currentGame.winningPickId = computePickId(balls)
+        this.record({ type: 'fulfil', timestamp: this.timestamp, randomWord })
+        this.setupNextGame(balls)
+        return balls
+    }
+
+    /** See `Lootery#kill` */
+    kill() {
+        this.assertState(GameState.Purchase)
+        if (this.isApocalypseMode) {
+            throw new SimulationError('GameInactive', 'Already killed')
+        }
+        this.isApocalypseMode = true
+        this.record({ type: 'kill', timestamp: this.timestamp })
+    }
+
+    /** See `Lootery#withdrawAccruedFees` */
+    withdrawAccruedFees(to: string) {
+        this.transfer(to, this.accruedCommunityFees)
+        this.accruedCommunityFees = 0n
+        this.record({ type: 'withdrawAccruedFees', timestamp: this.timestamp, to })
+    }
+
+    /** Tokens that can currently claim winnings or consolation prizes */
+    getClaimableTokenIds() {
+        const lastGame = this.games.get(this.gameId - 1n)
+        if (!lastGame || (this.state !== GameState.Purchase && this.state !== GameState.Dead)) {
+            return []
+        }
+        const winners = lastGame.tokensByPickId.get(lastGame.winningPickId) ?? []
+        if (winners.length === 0 && this.state === GameState.Dead) {
+            return [...lastGame.tokensByPickId.values()]
+                .flat()
+                .filter((tokenId) => this.tickets.has(tokenId))
+        }
+        return winners.filter((tokenId) => !this.tickets.get(tokenId)!.isWinningsClaimed)
+    }
+
+    /** Owner of a retained ticket */
+    ownerOf(tokenId: bigint) {
+        return this.tickets.get(tokenId)?.owner
+    }
+
+    /**
+     * See `Lootery#claimWinnings`
+     * @returns Prize share
+     */
+    claimWinnings(tokenId: bigint) {
+        if (this.state !== GameState.Purchase && this.state !== GameState.Dead) {
+            throw new SimulationError('UnexpectedState', `Unexpected state: ${this.state}`)
+        }
+        const ticket = this.tickets.get(tokenId)
+        if (!ticket) {
+            // Either burnt or too old to be retained
+            throw new SimulationError(
+                tokenId < this.nextTokenId ? 'ClaimWindowMissed' : 'ERC721NonexistentToken',
+                `Cannot claim token ${tokenId}`,
+            )
+        }
+        if (ticket.gameId !== this.gameId - 1n) {
+            throw new SimulationError('ClaimWindowMissed', `Claim window missed: ${tokenId}`)
+        }
+        const game = this.games.get(ticket.gameId)!
+        const numWinners = BigInt(game.tokensByPickId.get(game.winningPickId)?.length ?? 0)
+
+        let prizeShare: bigint
+        if (numWinners === 0n && this.state === GameState.Dead) {
+            prizeShare = this.unclaimedPayouts / this.totalSupply
+            this.unclaimedPayouts -= prizeShare
+            this.tickets.delete(tokenId)
+            this.totalSupply -= 1n
+        } else if (game.winningPickId === ticket.pickId) {
+            if (ticket.isWinningsClaimed) {
+                throw new SimulationError('AlreadyClaimed', `Already claimed: ${tokenId}`)
+            }
+            prizeShare = this.unclaimedPayouts / (numWinners - game.numClaimedWinningTickets)
+            this.unclaimedPayouts -= prizeShare
+            ticket.isWinningsClaimed = true
+            game.numClaimedWinningTickets += 1n
+        } else {
+            throw new SimulationError('NoWin', `Not a winning ticket: ${tokenId}`)
+        }
+        this.transfer(ticket.owner, prizeShare)
+        this.round.claimed += prizeShare
+        this.record({ type: 'claimWinnings', timestamp: this.timestamp, tokenId })
+        return prizeShare
+    }
+
+    /** See `Lootery#_setupNextGame` */
+    private setupNextGame(winningPick: bigint[] | null) {
+        const gameId = this.gameId
+        const game = this.currentGame
+        const nextState = this.isApocalypseMode ? GameState.Dead : GameState.Purchase
+        this.state = nextState
+        this.gameId = gameId + 1n
+        this.games.set(this.gameId, this.newGame(this.timestamp))
+
+        const numWinners = BigInt(game.tokensByPickId.get(game.winningPickId)?.length ?? 0)
+        const currentUnclaimedPayouts = this.unclaimedPayouts
+        const currentJackpot = this.jackpot
+        if (numWinners === 0n && nextState !== GameState.Dead) {
+            this.jackpot = currentUnclaimedPayouts + currentJackpot
+            this.unclaimedPayouts = 0n
+        } else {
+            this.jackpot = 0n
+            this.unclaimedPayouts = currentUnclaimedPayouts + currentJackpot
+        }
+        this.rounds.push({
+            gameId,
+            startedAt: game.startedAt,
+            ticketsSold: game.ticketsSold,
+            winningPick,
+            winners: numWinners,
+            jackpot: currentJackpot,
+            expiredPayouts:
+                numWinners === 0n && nextState !== GameState.Dead ? currentUnclaimedPayouts : 0n,
+            ...this.round,
+            nextJackpot: this.jackpot,
+            nextUnclaimedPayouts: this.unclaimedPayouts,
+        })
+        this.round = { seeded: 0n, communityFees: 0n, protocolFees: 0n, claimed: 0n }
+
+        // Tickets of older games can no longer claim anything
+        const expiredGame = this.games.get(gameId - 1n)
+        if (expiredGame) {
+            for (const tokenId of [...expiredGame.tokensByPickId.values()].flat()) {
+                this.tickets.delete(tokenId)
+            }
+            this.games.delete(gameId - 1n)
+        }
+    }
+
+    private newGame(startedAt: bigint): SimulatedGame {
+        return {
+            startedAt,
+            ticketsSold: 0n,
+            winningPickId: 0n,
+            numClaimedWinningTickets: 0n,
+            tokensByPickId: new Map(),
+        }
+    }
+
+    private assertState(state: GameState) {
+        if (this.state !== state) {
+            throw new SimulationError('UnexpectedState', `Unexpected state: ${this.state}`)
+        }
+    }
+
+    /** Move prize tokens between an account and the lottery */
+    private transfer(account: string, amount: bigint) {
+        this.balances.set(account, (this.balances.get(account) ?? 0n) + amount)
+        this.balance -= amount
+    }
+
+    private record(action: SimulationAction) {
+        if (this.options.recordHistory) {
+            this.history.push(action)
+        }
+    }
+}
+
+/** Configuration of a Monte Carlo simulation run */
+export interface SimulationConfig {
+    params: SimulationParams
+    /** Number of games to simulate */
+    rounds: number
+    /** Mean number of tickets sold per game (Poisson distributed) */
+    ticketsPerGame: number
+    /** Maximum number of tickets bought in a single purchase */
+    ticketsPerPurchase?: number
+    /** Probability that a winning ticket is claimed before its claim window expires */
+    claimProbability?: number
+    /** Amount to seed the jackpot with whenever the rate limit allows (0 to disable) */
+    seedAmount?: bigint
+    /** Whether to kill the lottery in the last game, triggering consolation payouts */
+    kill?: boolean
+    /** Seconds between a draw and its fulfilment */
+    fulfilmentDelay?: bigint
+    /** Accounts buying tickets */
+    players: string[]
+    /** Beneficiaries chosen at random by players (in addition to none) */
+    beneficiaries?: string[]
+    /** Lottery owner, who seeds the jackpot & withdraws accrued fees */
+    owner: string
+    protocolFeeRecipient?: string
+    /** Seed for the PRNG & random words */
+    seed: string
+    /** Start of the first game */
+    startedAt?: bigint
+    /** Timestamp at which the simulation starts (defaults to `startedAt`) */
+    timestamp?: bigint
+    recordHistory?: boolean
+}
+
+/** mulberry32; a small, fast & seedable PRNG returning floats in [0, 1) */
+function createPrng(seed: string) {
+    let state = Number(toBigInt(solidityPackedKeccak256(['string'], [seed])) & 0xffffffffn)
+    return () => {
+        state = (state + 0x6d2b79f5) | 0
+        let t = Math.imul(state ^ (state >>> 15), 1 | state)
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+function samplePoisson(random: () => number, mean: number) {
+    if (mean <= 0) return 0
+    if (mean > 30) {
+        // Normal approximation
+        const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+        return Math.max(0, Math.round(mean + Math.sqrt(mean) * z))
+    }
+    // Knuth
+    const limit = Math.exp(-mean)
+    let k = 0
+    for (let p = random(); p > limit; p *= random()) k++
+    return k
+}
+
+function randomPick(random: () => number, pickLength: bigint, maxBallValue: bigint) {
+    const balls = new Set<bigint>()
+    while (BigInt(balls.size) < pickLength) {
+        balls.add(1n + BigInt(Math.floor(random() * Number(maxBallValue))))
+    }
+    return [...balls].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+}
+
+/**
+ * Run a Monte Carlo simulation of a lottery over many games. Each game, the
+ * previous game's winners claim (or let their claim window expire), the owner
+ * seeds the jackpot if the rate limit allows, players buy random tickets and
+ * the game is drawn as soon as possible.
+ * @param config Simulation config
+ * @returns The simulated lottery, whose `rounds` hold per-game accounting
+ */
+export function simulate(config: SimulationConfig) {
+    const random = createPrng(config.seed)
+    const { params } = config
+    const beneficiaries = config.beneficiaries ?? []
+    const ticketsPerPurchase = config.ticketsPerPurchase ?? 10
+    const claimProbability = config.claimProbability ?? 1
+    const seedAmount = config.seedAmount ?? 0n
+    const fulfilmentDelay = config.fulfilmentDelay ?? 30n
+    const startedAt = config.startedAt ?? 0n
+    const sim = new LooterySimulation(params, {
+        startedAt,
+        timestamp: config.timestamp,
+        beneficiaries,
+        protocolFeeRecipient: config.protocolFeeRecipient,
+        recordHistory: config.recordHistory,
+    })
+    const pickOne = <T>(items: T[]) => items[Math.floor(random() * items.length)]
+    const claim = () => {
+        for (const tokenId of sim.getClaimableTokenIds()) {
+            if (random() < claimProbability) {
+                sim.advanceTime(1n)
+                sim.claimWinnings(tokenId)
+            }
+        }
+    }
+
+    for (let round = 0; round < config.rounds; round++) {
+        const isLastGame = config.kill && round === config.rounds - 1
+        claim()
+        if (seedAmount > 0n) {
+            sim.advanceTime(1n)
+            if (sim.canSeedJackpot) {
+                sim.seedJackpot(config.owner, seedAmount)
+            }
+        }
+        let ticketsCount = samplePoisson(random, config.ticketsPerGame)
+        if (isLastGame && ticketsCount === 0) {
+            // A dead lottery must have sold tickets in its last game
+            ticketsCount = 1
+        }
+        while (ticketsCount > 0) {
+            const count = Math.min(ticketsCount, ticketsPerPurchase)
+            ticketsCount -= count
+            const buyer = pickOne(config.players)
+            const tickets = Array.from({ length: count }, () => ({
+                whomst: buyer,
+                pick: randomPick(random, params.pickLength, params.maxBallValue),
+            }))
+            sim.advanceTime(1n)
+            sim.purchase(buyer, tickets, pickOne([ZeroAddress, ...beneficiaries]))
+        }
+        if (isLastGame) {
+            sim.advanceTime(1n)
+            sim.kill()
+        }
+
+        sim.advanceTime(sim.gameDeadline > sim.timestamp ? sim.gameDeadline - sim.timestamp : 1n)
+        if (sim.draw()) {
+            sim.advanceTime(fulfilmentDelay)
+            sim.fulfil(
+                toBigInt(solidityPackedKeccak256(['string', 'uint256'], [config.seed, sim.gameId])),
+            )
+        }
+    }
+    claim()
+    if (sim.accruedCommunityFees > 0n) {
+        sim.advanceTime(1n)
+        sim.withdrawAccruedFees(config.owner)
+    }
+    return sim
+}
@@ -0,0 +1,69 @@
+import { BigNumberish, encodeBase64, toBigInt, toUtf8Bytes } from 'ethers'
+
+const NUMBERS_PER_ROW = 5n
+const ROW_HEIGHT = 38n
+
+/**
+ * Render a ticket as SVG, byte-for-byte identical to `TicketSVGRenderer#renderSVG`.
+ * NB: Like the contract, the name is not escaped.
+ * @param name Name/title of the ticket
+ * @param maxPick Maximum pick number
+ * @param pick Picks, sorted ascendingly
+ */
+export function renderTicketSVG(name: string, maxPick: BigNumberish, pick: BigNumberish[]) {
+    const max = toBigInt(maxPick)
+    const balls = pick.map((ball) => toBigInt(ball))
+    const rows = max / NUMBERS_PER_ROW + (max % NUMBERS_PER_ROW === 0n ? 0n : 1n)
+    let positionY = 75n
+    let p = 0 // pointer for picks
+    let gridSVG = ''
+    for (let r = 0n; r < rows; r++) {
+        let positionX = 30n
+        // Mirrors the contract, which uses `maxPick % 5` for the last row
+        const cols = r * NUMBERS_PER_ROW + NUMBERS_PER_ROW > max ? max % 5n : NUMBERS_PER_ROW
+        for (let c = 0n; c < cols; c++) {
+            const num = r * NUMBERS_PER_ROW + c + 1n
+            if (p < balls.length && balls[p] === num) {
+                p += 1
+                gridSVG += `<circle cx='${positionX + 20n}' cy='${positionY - 6n}' r='15' stroke='red' fill='none' />`
+            }
+            gridSVG += `<text x='${positionX + 20n}' y='${positionY}' text-anchor='middle' font-family='Arial' font-size='16' fill='black'>${num}</text>`
+            positionX += 50n
+        }
+        positionY += ROW_HEIGHT
+    }
+
+    const height = 75n + rows * ROW_HEIGHT
+    return (
+        `<svg xmlns='http://www.w3.org/2000/svg' version='1.1' width='300' height='${height}'>` +
+        `<rect width='300' height='${height}' fill='white' stroke='black' />` +
+        `<text x='150' y='30' text-anchor='middle' font-family='Arial' font-size='20' font-weight='bold' fill='black'>${name}</text>` +
+        gridSVG +
+        '</svg>'
+    )
+}
+
+/** Base64 data URI of an SVG, as embedded in token metadata */
+export function toSVGDataURI(svg: string) {
+    return `data:image/svg+xml;base64,${encodeBase64(toUtf8Bytes(svg))}`
+}
+
+/**
+ * Render a ticket's token URI, byte-for-byte identical to
+ * `TicketSVGRenderer#renderTokenURI`
+ * @param name Name/title of the ticket
+ * @param tokenId Ticket token id
+ * @param maxPick Maximum pick number
+ * @param pick Picks, sorted ascendingly
+ */
+export function renderTicketTokenURI(
+    name: string,
+    tokenId: BigNumberish,
+    maxPick: BigNumberish,
+    pick: BigNumberish[],
+) {
+    const json =
+        `{"name":"${name} Ticket #${toBigInt(tokenId)}", "description":"POWERBALD LOL", ` +
+        `"image": "${toSVGDataURI(renderTicketSVG(name, maxPick, pick))}"}`
+    return `data:application/json;base64,${encodeBase64(toUtf8Bytes(json))}`
+}
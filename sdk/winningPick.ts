@@ -0,0 +1,86 @@
+import { BigNumberish, solidityPackedKeccak256, toBigInt } from 'ethers'
+
+/** Number of Feistel rounds used by {Pick-draw} */
+export const WINNING_PICK_ROUNDS = 12n
+
+function sqrt(n: bigint) {
+    if (n < 2n) return n
+    // Babylonian method
+    let x = n
+    let y = (x + 1n) / 2n
+    while (y < x) {
+        x = y
+        y = (x + n / x) / 2n
+    }
+    return x
+}
+
+function nextPerfectSquare(n: bigint) {
+    const sqrtN = sqrt(n)
+    if (sqrtN * sqrtN === n) return n
+    return (sqrtN + 1n) ** 2n
+}
+
+/** Feistel round function, i.e. keccak256(abi.encodePacked(R, i, seed, domain)) */
+function f(R: bigint, i: bigint, seed: bigint, domain: bigint) {
+    return toBigInt(
+        solidityPackedKeccak256(['uint256', 'uint256', 'uint256', 'uint256'], [R, i, seed, domain]),
+    )
+}
+
+/**
+ * Compute the Feistel shuffle mapping for index `x`; a port of solshuffle's
+ * `FeistelShuffleOptimised.shuffle`, i.e. a generalised Feistel cipher over
+ * [0, domain) using cycle-walking.
+ * @param x Index to permute, must be in [0, domain)
+ * @param domain Size of the set to permute
+ * @param seed Random seed that determines the permutation
+ * @param rounds Number of Feistel rounds
+ */
+export function feistelShuffle(
+    x: BigNumberish,
+    domain: BigNumberish,
+    seed: BigNumberish,
+    rounds: BigNumberish,
+) {
+    let x_ = toBigInt(x)
+    const domain_ = toBigInt(domain)
+    const seed_ = toBigInt(seed)
+    const rounds_ = toBigInt(rounds)
+    if (x_ >= domain_) {
+        throw new Error(`x (${x_}) must be less than domain (${domain_})`)
+    }
+
+    const h = sqrt(nextPerfectSquare(domain_))
+    do {
+        let L = x_ % h
+        let R = x_ / h
+        for (let i = 0n; i < rounds_; i++) {
+            const nextR = (L + f(R, i, seed_, domain_)) % h
+            L = R
+            R = nextR
+        }
+        x_ = h * R + L
+    } while (x_ >= domain_)
+    return x_
+}
+
+/**
+ * Compute the winning numbers/balls given a random word, exactly as
+ * `Lootery#computeWinningPick` (see {Pick-draw}) does on-chain.
+ * @param pickLength Number of balls in the winning pick
+ * @param maxBallValue Maximum value of a ball
+ * @param randomWord Random word delivered by the randomiser
+ * @returns Ordered set of winning numbers
+ */
+export function computeWinningPick(
+    pickLength: BigNumberish,
+    maxBallValue: BigNumberish,
+    randomWord: BigNumberish,
+): bigint[] {
+    const balls: bigint[] = []
+    for (let i = 0n; i < toBigInt(pickLength); i++) {
+        balls.push(1n + feistelShuffle(i, maxBallValue, randomWord, WINNING_PICK_ROUNDS))
+    }
+    return balls.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+}
@@ -0,0 +1,161 @@
+import { getAddress, isAddress } from 'ethers'
+import http from 'node:http'
+import { computePickId } from '../../sdk/pick'
+import { IndexedTicket, IndexerDatabase } from '../indexer/IndexerDatabase'
+
+export interface ApiServerOptions {
+    /** Indexed lottery data to serve */
+    db: IndexerDatabase
+    /** Value of the `Access-Control-Allow-Origin` header */
+    allowOrigin?: string
+}
+
+type RouteHandler = (params: string[], query: URLSearchParams) => unknown
+
+/** Rejection of a request, surfaced to the client with its status code */
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+    ) {
+        super(message)
+        this.name = 'HttpError'
+    }
+}
+
+export function parseAddress(value: string) {
+    if (!isAddress(value)) {
+        throw new HttpError(400, `Invalid address: ${value}`)
+    }
+    return getAddress(value)
+}
+
+export function parseUint(value: string, name: string) {
+    if (!/^\d+$/.test(value)) {
+        throw new HttpError(400, `Invalid ${name}: ${value}`)
+    }
+    return BigInt(value)
+}
+
+/** Serialise bigints as decimal strings */
+function toJson(body: unknown) {
+    return JSON.stringify(body, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value,
+    )
+}
+
+function formatTicket(db: IndexerDatabase, ticket: IndexedTicket) {
+    return {
+        ...ticket,
+        isWinningsClaimed: db.isWinningsClaimed(ticket.lootery, ticket.tokenId),
+    }
+}
+
+function getRoutes(db: IndexerDatabase): [RegExp, RouteHandler][] {
+    const getLottery = (address: string) => {
+        const lottery = db.getLottery(parseAddress(address))
+        if (!lottery) {
+            throw new HttpError(404, `Unknown lottery: ${address}`)
+        }
+        return lottery
+    }
+
+    return [
+        [/^\/lotteries$/, () => ({ lotteries: db.getLotteries() })],
+        [
+            /^\/lotteries\/([^/]+)\/games\/([^/]+)$/,
+            ([address, id]) => {
+                const lottery = getLottery(address)
+                const gameId = parseUint(id, 'game id')
+                const winningPick = db.getWinningPick(lottery.address, gameId)
+                return {
+                    lootery: lottery.address,
+                    gameId,
+                    ticketsSold: db.getTicketsSold(lottery.address, gameId),
+                    isFinalised: !!winningPick,
+                    winningPick: winningPick ?? null,
+                    winningPickId: winningPick ? computePickId(winningPick) : null,
+                    jackpot: db.getJackpotRollover(lottery.address, gameId) ?? null,
+                    winners: db.getWinnersOfGame(lottery.address, gameId),
+                }
+            },
+        ],
+        [
+            /^\/lotteries\/([^/]+)\/tickets\/([^/]+)$/,
+            ([address, id]) => {
+                const lottery = getLottery(address)
+                const tokenId = parseUint(id, 'token id')
+                const ticket = db.getTicket(lottery.address, tokenId)
+                if (!ticket) {
+                    throw new HttpError(404, `Unknown ticket: ${tokenId}`)
+                }
+                return formatTicket(db, ticket)
+            },
+        ],
+        [
+            /^\/accounts\/([^/]+)\/tickets$/,
+            ([address], query) => {
+                const account = parseAddress(address)
+                const lootery = query.get('lootery')
+                const games = db.getTicketsOwnedBy(
+                    account,
+                    lootery ? parseAddress(lootery) : undefined,
+                )
+                return {
+                    account,
+                    games: games.map((game) => ({
+                        ...game,
+                        tickets: game.tickets.map((ticket) => formatTicket(db, ticket)),
+                    })),
+                }
+            },
+        ],
+    ]
+}
+
+/**
+ * Create a read-only JSON API over indexed lottery data. uint256 values are
+ * serialised as decimal strings. Call `listen` on the returned server to start
+ * serving.
+ *
+ * Routes:
+ *  - GET /lotteries
+ *  - GET /lotteries/:address/games/:id
+ *  - GET /lotteries/:address/tickets/:tokenId
+ *  - GET /accounts/:address/tickets[?lootery=:address]
+ */
+export function createApiServer(options: ApiServerOptions) {
+    const routes = getRoutes(options.db)
+    return http.createServer((req, res) => {
+        const respond = (status: number, body: unknown) => {
+            res.writeHead(status, {
+                'Content-Type': 'application/json',
+                'Access-Control-Allow-Origin': options.allowOrigin ?? '*',
+            })
+            res.end(toJson(body))
+        }
+
+        try {
+            if (req.method !== 'GET') {
+                throw new HttpError(405, `Method not allowed: ${req.method}`)
+            }
+            const url = new URL(req.url ?? '/', 'http://localhost')
+            for (const [pattern, handler] of routes) {
+                const match = pattern.exec(url.pathname)
+                if (match) {
+                    return respond(
+                        200,
+                        handler(match.slice(1).map(decodeURIComponent), url.searchParams),
+                    )
+                }
+            }
+            throw new HttpError(404, `Not found: ${url.pathname}`)
+        } catch (err) {
+            if (err instanceof HttpError) {
+                return respond(err.status, { error: err.message })
+            }
+            console.error(`Failed to handle ${req.method} ${req.url}:`, err)
+            return respond(500, { error: 'Internal server error' })
+        }
+    })
+}
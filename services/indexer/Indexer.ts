@@ -0,0 +1,249 @@
+import { Log, Provider } from 'ethers'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { looteryFactoryInterface, looteryInterface } from '../../sdk/contracts'
+import { LooteryEvent, LooteryEventName, decodeLooteryEvent } from '../../sdk/events'
+import { IndexerDatabase, LogPosition } from './IndexerDatabase'
+
+/** Lootery events that are ingested by the indexer */
+const INDEXED_EVENTS: LooteryEventName[] = [
+    'TicketPurchased',
+    'Transfer',
+    'GameFinalised',
+    'WinningsClaimed',
+    'ConsolationClaimed',
+    'PrizeTierWinningsClaimed',
+    'JackpotRollover',
+    'BeneficiaryPaid',
+    'ProtocolFeePaid',
+    'JackpotSeeded',
+]
+
+export type IndexerLogger = Pick<Console, 'log' | 'warn' | 'error'>
+
+export interface IndexerOptions {
+    provider: Provider
+    /** Address of the LooteryFactory whose lotteries should be indexed */
+    factory: string
+    db: IndexerDatabase
+    /** Block from which to start indexing, if nothing has been indexed yet */
+    fromBlock?: number
+    /** Maximum block range per `eth_getLogs` query */
+    maxBlockRange?: number
+    /** Number of blocks to stay behind the chain head */
+    confirmations?: number
+    /** Number of checkpoints to search for a common ancestor after a reorg */
+    maxReorgDepth?: number
+    logger?: IndexerLogger
+}
+
+/**
+ * Indexes lotteries launched by a factory into SQLite. The hash of every
+ * processed block is checkpointed, so that a reorg is detected on the next
+ * sync and everything after the last common ancestor is reindexed.
+ */
+export class Indexer {
+    private readonly logger: IndexerLogger
+
+    constructor(private readonly options: IndexerOptions) {
+        this.logger = options.logger || console
+    }
+
+    /**
+     * Index everything up to the (confirmed) chain head
+     * @returns Last indexed block
+     */
+    async sync(): Promise<number> {
+        const { provider, db, maxBlockRange = 2000, confirmations = 0 } = this.options
+        await this.handleReorg()
+
+        const latestBlock = (await provider.getBlockNumber()) - confirmations
+        let lastIndexedBlock = db.getLatestBlock()?.number ?? (this.options.fromBlock ?? 0) - 1
+        while (lastIndexedBlock < latestBlock) {
+            const fromBlock = lastIndexedBlock + 1
+            const toBlock = Math.min(fromBlock + maxBlockRange - 1, latestBlock)
+            await this.indexRange(fromBlock, toBlock)
+            lastIndexedBlock = toBlock
+        }
+        return lastIndexedBlock
+    }
+
+    /**
+     * Sync forever (or until aborted)
+     * @param intervalMs Milliseconds to wait between syncs
+     * @param signal Signal to stop the indexer
+     */
+    async run(intervalMs: number, signal?: AbortSignal) {
+        while (!signal?.aborted) {
+            try {
+                const block = await this.sync()
+                this.logger.log(`Indexed up to block ${block}`)
+            } catch (err) {
+                this.logger.error('Indexer sync failed:', err)
+            }
+            try {
+                await sleep(intervalMs, undefined, { signal })
+            } catch {
+                // Aborted
+            }
+        }
+    }
+
+    /**
+     * Compare the latest checkpoint against the chain and, if it was reorged
+     * out, roll back to the latest checkpoint that is still canonical.
+     */
+    private async handleReorg() {
+        const { provider, db, maxReorgDepth = 128 } = this.options
+        const latest = db.getLatestBlock()
+        if (!latest) return
+        const block = await provider.getBlock(latest.number)
+        if (block?.hash === latest.hash) return
+
+        for (const checkpoint of db.getBlocks(maxReorgDepth)) {
+            const canonical = await provider.getBlock(checkpoint.number)
+            if (canonical?.hash === checkpoint.hash) {
+                this.logger.warn(
+                    `Reorg detected at block ${latest.number}; rolling back to block ${checkpoint.number}`,
+                )
+                db.rollback(checkpoint.number)
+                return
+            }
+        }
+        const fromBlock = this.options.fromBlock ?? 0
+        this.logger.warn(
+            `Reorg deeper than ${maxReorgDepth} checkpoints detected; reindexing from block ${fromBlock}`,
+        )
+        db.rollback(fromBlock - 1)
+    }
+
+    /** Fetch & store all relevant logs in a block range */
+    private async indexRange(fromBlock: number, toBlock: number) {
+        const { provider, factory, db } = this.options
+        // Fetch the hash of the last block first; if the range is reorged while
+        // fetching logs, the checkpoint is stale and the next sync rolls back.
+        const lastBlock = await provider.getBlock(toBlock)
+
+        // Lotteries must be known before their logs can be fetched
+        const launchLogs = await provider.getLogs({
+            address: factory,
+            topics: [looteryFactoryInterface.getEvent('LooteryLaunched').topicHash],
+            fromBlock,
+            toBlock,
+        })
+        const launched = launchLogs.map((log) => {
+            const { args } = looteryFactoryInterface.parseLog(log)!
+            return {
+                log,
+                lottery: {
+                    address: args.looteryProxy as string,
+                    implementation: args.looteryImplementation as string,
+                    deployer: args.deployer as string,
+                    name: args.name as string,
+                },
+            }
+        })
+        const lotteries = [
+            ...db.getLotteries().map((lottery) => lottery.address),
+            ...launched.map(({ lottery }) => lottery.address),
+        ]
+        const looteryLogs =
+            lotteries.length > 0
+                ? await provider.getLogs({
+                      address: lotteries,
+                      topics: [
+                          INDEXED_EVENTS.map((name) => looteryInterface.getEvent(name).topicHash),
+                      ],
+                      fromBlock,
+                      toBlock,
+                  })
+                : []
+
+        db.transaction(() => {
+            for (const { log, lottery } of launched) {
+                db.insertLottery(lottery, getLogPosition(log))
+                db.putBlock(log.blockNumber, log.blockHash)
+            }
+            for (const log of looteryLogs) {
+                const event = decodeLooteryEvent(log)
+                if (event) {
+                    this.insertEvent(event, getLogPosition(log))
+                    db.putBlock(log.blockNumber, log.blockHash)
+                }
+            }
+            db.putBlock(toBlock, lastBlock!.hash!)
+        })
+    }
+
+    private insertEvent(event: LooteryEvent, pos: LogPosition) {
+        const { db } = this.options
+        const lootery = event.address
+        switch (event.name) {
+            case 'TicketPurchased':
+                return db.insertTicket(
+                    {
+                        lootery,
+                        tokenId: event.args.tokenId,
+                        gameId: event.args.gameId,
+                        whomst: event.args.whomst,
+                        pick: event.args.pick,
+                    },
+                    pos,
+                )
+            case 'Transfer':
+                return db.insertTransfer(
+                    {
+                        lootery,
+                        tokenId: event.args.tokenId,
+                        from: event.args.from,
+                        to: event.args.to,
+                    },
+                    pos,
+                )
+            case 'GameFinalised':
+                return db.insertGameFinalised(
+                    { lootery, gameId: event.args.gameId, winningPick: event.args.winningPick },
+                    pos,
+                )
+            case 'WinningsClaimed':
+            case 'ConsolationClaimed':
+            case 'PrizeTierWinningsClaimed':
+                return db.insertClaim(
+                    {
+                        lootery,
+                        tokenId: event.args.tokenId,
+                        gameId: event.args.gameId,
+                        whomst: event.args.whomst,
+                        value: event.args.value,
+                        isConsolation: event.name === 'ConsolationClaimed',
+                    },
+                    pos,
+                )
+            case 'JackpotRollover':
+                return db.insertJackpotRollover({ lootery, ...event.args }, pos)
+            case 'BeneficiaryPaid':
+                return db.insertBeneficiaryPayment(
+                    {
+                        lootery,
+                        gameId: event.args.gameId,
+                        beneficiary: event.args.beneficiary,
+                        value: event.args.value,
+                    },
+                    pos,
+                )
+            case 'ProtocolFeePaid':
+                return db.insertProtocolFee(
+                    { lootery, recipient: event.args.to, value: event.args.value },
+                    pos,
+                )
+            case 'JackpotSeeded':
+                return db.insertJackpotSeed(
+                    { lootery, whomst: event.args.whomst, amount: event.args.amount },
+                    pos,
+                )
+        }
+    }
+}
+
+function getLogPosition(log: Log): LogPosition {
+    return { blockNumber: log.blockNumber, logIndex: log.index, txHash: log.transactionHash }
+}
@@ -0,0 +1,641 @@
+import Database from 'better-sqlite3'
+import { computePickId } from '../../sdk/pick'
+
+/** Position of a log on chain; the primary key of every event table */
+export interface LogPosition {
+    blockNumber: number
+    logIndex: number
+    txHash: string
+}
+
+export interface IndexedLottery {
+    address: string
+    implementation: string
+    deployer: string
+    name: string
+}
+
+export interface IndexedTicket {
+    lootery: string
+    tokenId: bigint
+    gameId: bigint
+    /** Account the ticket was purchased for */
+    whomst: string
+    /** Current owner of the ticket, or null if burnt */
+    owner: string | null
+    pick: bigint[]
+    pickId: bigint
+}
+
+export interface GameWinner extends IndexedTicket {
+    isClaimed: boolean
+    /** Prize claimed with this ticket, if claimed */
+    claimedValue: bigint | null
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS lotteries (
+    address TEXT PRIMARY KEY,
+    implementation TEXT NOT NULL,
+    deployer TEXT NOT NULL,
+    name TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tickets (
+    lootery TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    whomst TEXT NOT NULL,
+    pick TEXT NOT NULL,
+    pick_id TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS tickets_by_game ON tickets (lootery, game_id, pick_id);
+CREATE INDEX IF NOT EXISTS tickets_by_token ON tickets (lootery, token_id);
+CREATE TABLE IF NOT EXISTS transfers (
+    lootery TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS transfers_by_token ON transfers (lootery, token_id);
+CREATE INDEX IF NOT EXISTS transfers_by_recipient ON transfers ("to");
+CREATE TABLE IF NOT EXISTS games_finalised (
+    lootery TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    winning_pick TEXT NOT NULL,
+    winning_pick_id TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS games_finalised_by_game ON games_finalised (lootery, game_id);
+CREATE TABLE IF NOT EXISTS claims (
+    lootery TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    whomst TEXT NOT NULL,
+    value TEXT NOT NULL,
+    is_consolation INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS claims_by_token ON claims (lootery, token_id);
+CREATE TABLE IF NOT EXISTS jackpot_rollovers (
+    lootery TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    unclaimed_payouts TEXT NOT NULL,
+    current_jackpot TEXT NOT NULL,
+    next_unclaimed_payouts TEXT NOT NULL,
+    next_jackpot TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS beneficiary_payments (
+    lootery TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    beneficiary TEXT NOT NULL,
+    value TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS protocol_fees (
+    lootery TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    value TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS jackpot_seeds (
+    lootery TEXT NOT NULL,
+    whomst TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+`
+
+/** Tables whose rows are derived from logs, and must be rolled back on reorgs */
+const EVENT_TABLES = [
+    'lotteries',
+    'tickets',
+    'transfers',
+    'games_finalised',
+    'claims',
+    'jackpot_rollovers',
+    'beneficiary_payments',
+    'protocol_fees',
+    'jackpot_seeds',
+]
+
+/** Current owner of each ticket, i.e. the recipient of its latest transfer */
+const TICKET_OWNERS = `
+SELECT t.*, (
+    SELECT tr."to" FROM transfers tr
+    WHERE tr.lootery = t.lootery AND tr.token_id = t.token_id
+    ORDER BY tr.block_number DESC, tr.log_index DESC
+    LIMIT 1
+) AS owner
+FROM tickets t
+`
+
+interface TicketRow {
+    lootery: string
+    token_id: string
+    game_id: string
+    whomst: string
+    pick: string
+    pick_id: string
+    owner: string | null
+}
+
+function toIndexedTicket(row: TicketRow): IndexedTicket {
+    return {
+        lootery: row.lootery,
+        tokenId: BigInt(row.token_id),
+        gameId: BigInt(row.game_id),
+        whomst: row.whomst,
+        owner: row.owner === null || BigInt(row.owner) === 0n ? null : row.owner,
+        pick: (JSON.parse(row.pick) as string[]).map((ball) => BigInt(ball)),
+        pickId: BigInt(row.pick_id),
+    }
+}
+
+/**
+ * SQLite storage for indexed lottery events. All uint256 values are stored as
+ * decimal strings, and all addresses are checksummed.
+ */
+export class IndexerDatabase {
+    readonly db: Database.Database
+
+    /**
+     * @param filename Path to the SQLite database, or `:memory:`
+     */
+    constructor(filename: string) {
+        this.db = new Database(filename)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+    }
+
+    close() {
+        this.db.close()
+    }
+
+    /** Run `fn` atomically */
+    transaction<T>(fn: () => T): T {
+        return this.db.transaction(fn)()
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+    /// Checkpoints
+
+    /** Latest checkpointed block, if any */
+    getLatestBlock(): { number: number; hash: string } | undefined {
+        return this.db
+            .prepare('SELECT number, hash FROM blocks ORDER BY number DESC LIMIT 1')
+            .get() as { number: number; hash: string } | undefined
+    }
+
+    /** Checkpointed blocks, latest first */
+    getBlocks(limit: number): { number: number; hash: string }[] {
+        return this.db
+            .prepare('SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?')
+            .all(limit) as { number: number; hash: string }[]
+    }
+
+    /** Record the hash of a processed block */
+    putBlock(number: number, hash: string) {
+        this.db
+            .prepare('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)')
+            .run(number, hash)
+    }
+
+    /**
+     * Delete everything indexed after a block, e.g. after a reorg
+     * @param blockNumber Last block to keep
+     */
+    rollback(blockNumber: number) {
+        this.transaction(() => {
+            for (const table of EVENT_TABLES) {
+                this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber)
+            }
+            this.db.prepare('DELETE FROM blocks WHERE number > ?').run(blockNumber)
+        })
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+    /// Inserts
+
+    insertLottery(lottery: IndexedLottery, pos: LogPosition) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO lotteries
+                    (address, implementation, deployer, name, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                lottery.address,
+                lottery.implementation,
+                lottery.deployer,
+                lottery.name,
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertTicket(
+        ticket: {
+            lootery: string
+            tokenId: bigint
+            gameId: bigint
+            whomst: string
+            pick: bigint[]
+        },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO tickets
+                    (lootery, token_id, game_id, whomst, pick, pick_id, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                ticket.lootery,
+                ticket.tokenId.toString(),
+                ticket.gameId.toString(),
+                ticket.whomst,
+                JSON.stringify(ticket.pick.map((ball) => ball.toString())),
+                computePickId(ticket.pick).toString(),
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertTransfer(
+        transfer: { lootery: string; tokenId: bigint; from: string; to: string },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO transfers
+                    (lootery, token_id, "from", "to", block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                transfer.lootery,
+                transfer.tokenId.toString(),
+                transfer.from,
+                transfer.to,
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertGameFinalised(
+        game: { lootery: string; gameId: bigint; winningPick: bigint[] },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO games_finalised
+                    (lootery, game_id, winning_pick, winning_pick_id, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                game.lootery,
+                game.gameId.toString(),
+                JSON.stringify(game.winningPick.map((ball) => ball.toString())),
+                computePickId(game.winningPick).toString(),
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertClaim(
+        claim: {
+            lootery: string
+            tokenId: bigint
+            gameId: bigint
+            whomst: string
+            value: bigint
+            isConsolation: boolean
+        },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO claims
+                    (lootery, token_id, game_id, whomst, value, is_consolation, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                claim.lootery,
+                claim.tokenId.toString(),
+                claim.gameId.toString(),
+                claim.whomst,
+                claim.value.toString(),
+                claim.isConsolation ? 1 : 0,
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertJackpotRollover(
+        rollover: {
+            lootery: string
+            gameId: bigint
+            unclaimedPayouts: bigint
+            currentJackpot: bigint
+            nextUnclaimedPayouts: bigint
+            nextJackpot: bigint
+        },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO jackpot_rollovers
+                    (lootery, game_id, unclaimed_payouts, current_jackpot, next_unclaimed_payouts,
+                        next_jackpot, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                rollover.lootery,
+                rollover.gameId.toString(),
+                rollover.unclaimedPayouts.toString(),
+                rollover.currentJackpot.toString(),
+                rollover.nextUnclaimedPayouts.toString(),
+                rollover.nextJackpot.toString(),
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertBeneficiaryPayment(
+        payment: { lootery: string; gameId: bigint; beneficiary: string; value: bigint },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO beneficiary_payments
+                    (lootery, game_id, beneficiary, value, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                payment.lootery,
+                payment.gameId.toString(),
+                payment.beneficiary,
+                payment.value.toString(),
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertProtocolFee(
+        fee: { lootery: string; recipient: string; value: bigint },
+        pos: LogPosition,
+    ) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO protocol_fees
+                    (lootery, recipient, value, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                fee.lootery,
+                fee.recipient,
+                fee.value.toString(),
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    insertJackpotSeed(seed: { lootery: string; whomst: string; amount: bigint }, pos: LogPosition) {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO jackpot_seeds
+                    (lootery, whomst, amount, block_number, log_index, tx_hash)
+                    VALUES (?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                seed.lootery,
+                seed.whomst,
+                seed.amount.toString(),
+                pos.blockNumber,
+                pos.logIndex,
+                pos.txHash,
+            )
+    }
+
+    ///////////////////////////////////////////////////////////////////////////
+    /// Queries
+
+    /** All indexed lotteries, in order of launch */
+    getLotteries(): IndexedLottery[] {
+        return this.db
+            .prepare(
+                `SELECT address, implementation, deployer, name FROM lotteries
+                    ORDER BY block_number, log_index`,
+            )
+            .all() as IndexedLottery[]
+    }
+
+    /**
+     * Look up a single lottery
+     * @param address Lottery address
+     */
+    getLottery(address: string): IndexedLottery | undefined {
+        return this.db
+            .prepare(
+                `SELECT address, implementation, deployer, name FROM lotteries WHERE address = ?`,
+            )
+            .get(address) as IndexedLottery | undefined
+    }
+
+    /**
+     * Tickets currently owned by an account, grouped by lottery & game
+     * @param owner Checksummed address of the owner
+     * @param lootery Only include tickets of this lottery
+     */
+    getTicketsOwnedBy(owner: string, lootery?: string) {
+        const rows = this.db
+            .prepare(
+                `SELECT * FROM (${TICKET_OWNERS}) WHERE owner = ? AND (? IS NULL OR lootery = ?)
+                    ORDER BY lootery, CAST(game_id AS INTEGER), CAST(token_id AS INTEGER)`,
+            )
+            .all(owner, lootery ?? null, lootery ?? null) as TicketRow[]
+        const games: { lootery: string; gameId: bigint; tickets: IndexedTicket[] }[] = []
+        for (const ticket of rows.map(toIndexedTicket)) {
+            const last = games[games.length - 1]
+            if (last && last.lootery === ticket.lootery && last.gameId === ticket.gameId) {
+                last.tickets.push(ticket)
+            } else {
+                games.push({ lootery: ticket.lootery, gameId: ticket.gameId, tickets: [ticket] })
+            }
+        }
+        return games
+    }
+
+    /**
+     * Look up a single ticket
+     * @param lootery Lottery address
+     * @param tokenId Ticket token id
+     */
+    getTicket(lootery: string, tokenId: bigint): IndexedTicket | undefined {
+        const row = this.db
+            .prepare(`SELECT * FROM (${TICKET_OWNERS}) WHERE lootery = ? AND token_id = ?`)
+            .get(lootery, tokenId.toString()) as TicketRow | undefined
+        return row && toIndexedTicket(row)
+    }
+
+    /**
+     * Whether a ticket has been used to claim a share of the jackpot or of a
+     * prize tier, i.e. `Lootery#isWinningsClaimed`
+     * @param lootery Lottery address
+     * @param tokenId Ticket token id
+     */
+    isWinningsClaimed(lootery: string, tokenId: bigint): boolean {
+        return !!this.db
+            .prepare(
+                `SELECT 1 FROM claims WHERE lootery = ? AND token_id = ? AND is_consolation = 0`,
+            )
+            .get(lootery, tokenId.toString())
+    }
+
+    /**
+     * Number of tickets sold in a game
+     * @param lootery Lottery address
+     * @param gameId Game id
+     */
+    getTicketsSold(lootery: string, gameId: bigint): number {
+        const { count } = this.db
+            .prepare(`SELECT COUNT(*) AS count FROM tickets WHERE lootery = ? AND game_id = ?`)
+            .get(lootery, gameId.toString()) as { count: number }
+        return count
+    }
+
+    /**
+     * Jackpot accounting at the end of a game, if it has been drawn
+     * @param lootery Lottery address
+     * @param gameId Game id
+     */
+    getJackpotRollover(lootery: string, gameId: bigint) {
+        const row = this.db
+            .prepare(
+                `SELECT unclaimed_payouts, current_jackpot, next_unclaimed_payouts, next_jackpot
+                    FROM jackpot_rollovers WHERE lootery = ? AND game_id = ?`,
+            )
+            .get(lootery, gameId.toString()) as Record<string, string> | undefined
+        return (
+            row && {
+                unclaimedPayouts: BigInt(row.unclaimed_payouts),
+                currentJackpot: BigInt(row.current_jackpot),
+                nextUnclaimedPayouts: BigInt(row.next_unclaimed_payouts),
+                nextJackpot: BigInt(row.next_jackpot),
+            }
+        )
+    }
+
+    /**
+     * Winning pick of a game, if it has been drawn
+     * @param lootery Lottery address
+     * @param gameId Game id
+     */
+    getWinningPick(lootery: string, gameId: bigint): bigint[] | undefined {
+        const row = this.db
+            .prepare(`SELECT winning_pick FROM games_finalised WHERE lootery = ? AND game_id = ?`)
+            .get(lootery, gameId.toString()) as { winning_pick: string } | undefined
+        return row && (JSON.parse(row.winning_pick) as string[]).map((ball) => BigInt(ball))
+    }
+
+    /**
+     * Jackpot winners of a game, along with their claim status
+     * @param lootery Lottery address
+     * @param gameId Game id
+     */
+    getWinnersOfGame(lootery: string, gameId: bigint): GameWinner[] {
+        const rows = this.db
+            .prepare(
+                `SELECT t.*, c.value AS claimed_value FROM (${TICKET_OWNERS}) t
+                    JOIN games_finalised g
+                        ON g.lootery = t.lootery AND g.game_id = t.game_id
+                        AND g.winning_pick_id = t.pick_id
+                    LEFT JOIN claims c
+                        ON c.lootery = t.lootery AND c.token_id = t.token_id
+                        AND c.is_consolation = 0
+                    WHERE t.lootery = ? AND t.game_id = ?
+                    ORDER BY CAST(t.token_id AS INTEGER)`,
+            )
+            .all(lootery, gameId.toString()) as (TicketRow & { claimed_value: string | null })[]
+        return rows.map((row) => ({
+            ...toIndexedTicket(row),
+            isClaimed: row.claimed_value !== null,
+            claimedValue: row.claimed_value === null ? null : BigInt(row.claimed_value),
+        }))
+    }
+
+    /**
+     * Total community fees paid out per beneficiary. Fees that accrued to the
+     * lottery itself (no beneficiary selected) are attributed to the lottery.
+     * @param lootery Only include fees of this lottery
+     */
+    getFeeRevenuePerBeneficiary(lootery?: string): Map<string, bigint> {
+        const rows = this.db
+            .prepare(
+                `SELECT beneficiary, value FROM beneficiary_payments
+                    WHERE (? IS NULL OR lootery = ?)`,
+            )
+            .all(lootery ?? null, lootery ?? null) as { beneficiary: string; value: string }[]
+        const revenue = new Map<string, bigint>()
+        for (const { beneficiary, value } of rows) {
+            revenue.set(beneficiary, (revenue.get(beneficiary) ?? 0n) + BigInt(value))
+        }
+        return revenue
+    }
+
+    /**
+     * Total protocol fees paid per recipient
+     * @param lootery Only include fees of this lottery
+     */
+    getProtocolFeeRevenue(lootery?: string): Map<string, bigint> {
+        const rows = this.db
+            .prepare(`SELECT recipient, value FROM protocol_fees WHERE (? IS NULL OR lootery = ?)`)
+            .all(lootery ?? null, lootery ?? null) as { recipient: string; value: string }[]
+        const revenue = new Map<string, bigint>()
+        for (const { recipient, value } of rows) {
+            revenue.set(recipient, (revenue.get(recipient) ?? 0n) + BigInt(value))
+        }
+        return revenue
+    }
+}
@@ -0,0 +1,343 @@
+import { ContractTransactionResponse, Signer } from 'ethers'
+import { setTimeout as sleep } from 'node:timers/promises'
+import type { Lootery, LooteryFactory, LooterySubscriptions } from '../../typechain-types'
+import { chunkByGas } from '../../sdk/LooteryClient'
+import { connectLootery } from '../../sdk/contracts'
+import { decodeLooteryError } from '../../sdk/errors'
+import { GameState } from '../../sdk/GameState'
+import { KeeperState, loadKeeperState, saveKeeperState } from './KeeperState'
+
+/** How long a randomness request must be pending before `forceRedraw` is allowed */
+export const FORCE_REDRAW_DELAY = 60n * 60n
+
+/** Default gas budget of each `enterSubscriptions` transaction */
+export const DEFAULT_MAX_SUBSCRIPTIONS_GAS = 5_000_000n
+
+/** Reverts that are expected in normal operation, e.g. racing another keeper */
+const HANDLED_ERRORS = [
+    'WaitLonger',
+    'InsufficientOperationalFunds',
+    'UnexpectedState',
+    'NoTicketsSold',
+    'NoRandomnessRequestInFlight',
+]
+
+export type KeeperLogger = Pick<Console, 'log' | 'warn' | 'error'>
+
+export interface KeeperOptions {
+    factory: LooteryFactory
+    /** Signer that sends `draw`/`forceRedraw` transactions */
+    signer: Signer
+    /**
+     * Subscriptions contract whose subscriptions to the factory's lotteries
+     * should be entered into each game before it's drawn. Only subscriptions
+     * created after the keeper's first scanned block are discovered.
+     */
+    subscriptions?: LooterySubscriptions
+    /** Maximum gas of each `enterSubscriptions` transaction */
+    maxSubscriptionsGasPerTx?: bigint
+    /** Path to the file where keeper state is persisted */
+    stateFile: string
+    /** Block from which to start discovering lotteries, if there's no saved state */
+    fromBlock?: number
+    /** Maximum block range per `eth_getLogs` query */
+    maxBlockRange?: number
+    /**
+     * Multiplier applied to the quoted request price to absorb gas price
+     * fluctuations; the lottery refunds any excess.
+     */
+    requestPriceMultiplier?: bigint
+    logger?: KeeperLogger
+}
+
+export type KeeperAction = 'draw' | 'forceRedraw' | 'enterSubscriptions'
+
+export interface KeeperActionResult {
+    lootery: string
+    gameId: bigint
+    status: 'sent' | 'skipped' | 'failed'
+    action?: KeeperAction
+    /** Name of the revert that caused the action to be skipped, if any */
+    reason?: string
+    txHash?: string
+}
+
+/**
+ * Keeps lotteries launched by a factory ticking: calls `draw` once a game's
+ * period has elapsed, and `forceRedraw` if the randomness request has not been
+ * fulfilled within {FORCE_REDRAW_DELAY}. If configured with a subscriptions
+ * contract, due subscriptions are entered into each game before it's drawn.
+ */
+export class Keeper {
+    private state?: KeeperState
+    private readonly logger: KeeperLogger
+
+    constructor(private readonly options: KeeperOptions) {
+        this.logger = options.logger || console
+    }
+
+    /** Load persisted state (once) */
+    private async getState() {
+        if (!this.state) {
+            this.state = await loadKeeperState(this.options.stateFile, this.options.fromBlock)
+        }
+        return this.state
+    }
+
+    /**
+     * Discover lotteries launched by the factory (and subscriptions to them)
+     * since the last scanned block
+     * @returns Addresses of all known lotteries
+     */
+    async discover(): Promise<string[]> {
+        const state = await this.getState()
+        const { factory, subscriptions, maxBlockRange = 10_000 } = this.options
+        const latestBlock = await this.options.signer.provider!.getBlockNumber()
+        for (
+            let fromBlock = state.lastScannedBlock + 1;
+            fromBlock <= latestBlock;
+            fromBlock += maxBlockRange
+        ) {
+            const toBlock = Math.min(fromBlock + maxBlockRange - 1, latestBlock)
+            const events = await factory.queryFilter(
+                factory.filters.LooteryLaunched,
+                fromBlock,
+                toBlock,
+            )
+            for (const event of events) {
+                const lootery = event.args.looteryProxy
+                if (!state.lotteries[lootery]) {
+                    this.logger.log(`Discovered lottery "${event.args.name}" at ${lootery}`)
+                    state.lotteries[lootery] = { isDead: false }
+                }
+            }
+            const subscribedEvents = subscriptions
+                ? await subscriptions.queryFilter(
+                      subscriptions.filters.Subscribed,
+                      fromBlock,
+                      toBlock,
+                  )
+                : []
+            for (const event of subscribedEvents) {
+                const lotteryState = state.lotteries[event.args.lootery]
+                if (!lotteryState) continue
+                lotteryState.subscriptionIds = [
+                    ...(lotteryState.subscriptionIds || []),
+                    event.args.subscriptionId.toString(),
+                ]
+            }
+            state.lastScannedBlock = toBlock
+        }
+        await saveKeeperState(this.options.stateFile, state)
+        return Object.keys(state.lotteries)
+    }
+
+    /**
+     * Discover new lotteries and perform any due upkeep on all live lotteries
+     * @returns Results of upkeep actions that were due
+     */
+    async tick(): Promise<KeeperActionResult[]> {
+        const addresses = await this.discover()
+        const state = await this.getState()
+        const results: KeeperActionResult[] = []
+        for (const address of addresses) {
+            if (state.lotteries[address].isDead) continue
+            try {
+                const result = await this.upkeep(address)
+                if (result) {
+                    results.push(result)
+                }
+            } catch (err) {
+                // Don't let one lottery hold up the others
+                this.logger.error(`Failed to upkeep ${address}:`, err)
+            }
+        }
+        await saveKeeperState(this.options.stateFile, state)
+        return results
+    }
+
+    /**
+     * Tick forever (or until aborted)
+     * @param intervalMs Milliseconds to wait between ticks
+     * @param signal Signal to stop the keeper
+     */
+    async run(intervalMs: number, signal?: AbortSignal) {
+        while (!signal?.aborted) {
+            try {
+                await this.tick()
+            } catch (err) {
+                this.logger.error('Keeper tick failed:', err)
+            }
+            try {
+                await sleep(intervalMs, undefined, { signal })
+            } catch {
+                // Aborted
+            }
+        }
+    }
+
+    /**
+     * Perform upkeep on a single lottery, if any is due
+     * @param address Lottery address
+     */
+    private async upkeep(address: string): Promise<KeeperActionResult | null> {
+        const state = await this.getState()
+        const lootery = connectLootery(address, this.options.signer)
+        const [{ state: gameState, id: gameId }, latestBlock] = await Promise.all([
+            lootery.currentGame(),
+            this.options.signer.provider!.getBlock('latest'),
+        ])
+        const now = BigInt(latestBlock!.timestamp)
+
+        switch (Number(gameState) as GameState) {
+            case GameState.Dead:
+                this.logger.log(`${address} is dead; no longer keeping it`)
+                state.lotteries[address].isDead = true
+                return null
+            case GameState.Purchase: {
+                const [game, gamePeriod] = await Promise.all([
+                    lootery.gameData(gameId),
+                    lootery.gamePeriod(),
+                ])
+                const isDrawDue = now >= game.startedAt + gamePeriod
+                // Enter subscriptions first, so they don't miss the game; but
+                // don't hold up the draw if entering them keeps failing
+                const dueSubscriptionIds = await this.getDueSubscriptionIds(address, gameId)
+                if (dueSubscriptionIds.length > 0) {
+                    const result = await this.enterSubscriptions(
+                        lootery,
+                        gameId,
+                        dueSubscriptionIds,
+                    )
+                    if (result.status === 'sent' || !isDrawDue) return result
+                }
+                if (!isDrawDue) return null
+                // Draws without tickets sold are skipped, without requesting randomness
+                const value = game.ticketsSold > 0n ? await this.getRequestValue(lootery) : 0n
+                return this.execute(lootery, gameId, 'draw', {
+                    staticCall: () => lootery.draw.staticCall({ value }),
+                    send: () => lootery.draw({ value }),
+                })
+            }
+            case GameState.DrawPending: {
+                const { timestamp } = await lootery.randomnessRequest()
+                if (timestamp === 0n || now < timestamp + FORCE_REDRAW_DELAY) return null
+                const value = await this.getRequestValue(lootery)
+                return this.execute(lootery, gameId, 'forceRedraw', {
+                    staticCall: () => lootery.forceRedraw.staticCall({ value }),
+                    send: () => lootery.forceRedraw({ value }),
+                })
+            }
+            default:
+                return null
+        }
+    }
+
+    /** Value to send along with a randomness request */
+    private async getRequestValue(lootery: Lootery) {
+        const requestPrice = await lootery.getRequestPrice()
+        return requestPrice * (this.options.requestPriceMultiplier ?? 2n)
+    }
+
+    /**
+     * Ids of a lottery's subscriptions that are due to enter the current game.
+     * Subscriptions without games left are forgotten.
+     * @param address Lottery address
+     * @param gameId Current game id
+     */
+    private async getDueSubscriptionIds(address: string, gameId: bigint): Promise<bigint[]> {
+        const { subscriptions } = this.options
+        const lotteryState = (await this.getState()).lotteries[address]
+        if (!subscriptions || !lotteryState.subscriptionIds?.length) return []
+        const ids = lotteryState.subscriptionIds
+        const subs = await Promise.all(ids.map((id) => subscriptions.subscriptions(id)))
+        lotteryState.subscriptionIds = ids.filter((_, i) => subs[i].gamesLeft > 0n)
+        return ids
+            .filter((_, i) => subs[i].gamesLeft > 0n && subs[i].nextGameId <= gameId)
+            .map(BigInt)
+    }
+
+    /**
+     * Enter due subscriptions into the current game. Only the first chunk that
+     * fits the gas budget is sent; the rest are entered on subsequent ticks.
+     */
+    private async enterSubscriptions(
+        lootery: Lootery,
+        gameId: bigint,
+        subscriptionIds: bigint[],
+    ): Promise<KeeperActionResult> {
+        const subscriptions = this.options.subscriptions!
+        let chunk: bigint[]
+        try {
+            ;[chunk] = await chunkByGas(
+                subscriptionIds,
+                (ids) => subscriptions.enterSubscriptions.estimateGas(ids),
+                this.options.maxSubscriptionsGasPerTx ?? DEFAULT_MAX_SUBSCRIPTIONS_GAS,
+            )
+        } catch (err) {
+            const address = await lootery.getAddress()
+            this.logger.error(
+                `Failed to estimate enterSubscriptions on ${address} (game ${gameId}):`,
+                err,
+            )
+            return {
+                lootery: address,
+                gameId,
+                status: 'failed',
+                action: 'enterSubscriptions',
+                reason: decodeLooteryError(err)?.name,
+            }
+        }
+        return this.execute(lootery, gameId, 'enterSubscriptions', {
+            staticCall: () => subscriptions.enterSubscriptions.staticCall(chunk),
+            send: () => subscriptions.enterSubscriptions(chunk),
+        })
+    }
+
+    /**
+     * Simulate, then send an upkeep transaction. Expected reverts are logged
+     * and reported as skipped rather than thrown.
+     */
+    private async execute(
+        lootery: Lootery,
+        gameId: bigint,
+        action: KeeperAction,
+        call: {
+            staticCall: () => Promise<unknown>
+            send: () => Promise<ContractTransactionResponse>
+        },
+    ): Promise<KeeperActionResult> {
+        const address = await lootery.getAddress()
+        const state = await this.getState()
+        try {
+            await call.staticCall()
+            const tx = await call.send()
+            const receipt = await tx.wait()
+            const block = await receipt!.getBlock()
+            state.lotteries[address].lastAction = {
+                type: action,
+                gameId: gameId.toString(),
+                txHash: tx.hash,
+                timestamp: block.timestamp,
+            }
+            this.logger.log(`Called ${action} on ${address} (game ${gameId}): ${tx.hash}`)
+            return { lootery: address, gameId, status: 'sent', action, txHash: tx.hash }
+        } catch (err) {
+            const decoded = decodeLooteryError(err)
+            if (decoded && HANDLED_ERRORS.includes(decoded.name)) {
+                this.logger.warn(
+                    `Skipped ${action} on ${address} (game ${gameId}): ${decoded.name}(${decoded.args.join(', ')})`,
+                )
+                return { lootery: address, gameId, status: 'skipped', action, reason: decoded.name }
+            }
+            this.logger.error(`Failed to ${action} on ${address} (game ${gameId}):`, err)
+            return {
+                lootery: address,
+                gameId,
+                status: 'failed',
+                action,
+                reason: decoded?.name,
+            }
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+export interface LotteryKeeperState {
+    /** Set once the lottery is dead, after which it no longer needs keeping */
+    isDead: boolean
+    /** Ids of subscriptions to this lottery that may still have games left */
+    subscriptionIds?: string[]
+    /** Last transaction sent by the keeper for this lottery */
+    lastAction?: {
+        type: 'draw' | 'forceRedraw' | 'enterSubscriptions'
+        gameId: string
+        txHash: string
+        /** Block timestamp at which the action was taken */
+        timestamp: number
+    }
+}
+
+export interface KeeperState {
+    /** Last block that was scanned for `LooteryLaunched` (and `Subscribed`) events */
+    lastScannedBlock: number
+    /** Lottery address => keeper state */
+    lotteries: Record<string, LotteryKeeperState>
+}
+
+/**
+ * Load keeper state from disk, or initialise fresh state if it doesn't exist.
+ * @param stateFile Path to state file
+ * @param fromBlock Block from which to start discovering lotteries, if there is
+ *  no saved state
+ */
+export async function loadKeeperState(stateFile: string, fromBlock = 0): Promise<KeeperState> {
+    try {
+        const json = await fs.readFile(stateFile, { encoding: 'utf-8' })
+        return JSON.parse(json) as KeeperState
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        return {
+            lastScannedBlock: fromBlock - 1,
+            lotteries: {},
+        }
+    }
+}
+
+/**
+ * Persist keeper state to disk. The file is replaced atomically, so a crash
+ * mid-write can't corrupt existing state.
+ * @param stateFile Path to state file
+ * @param state Keeper state
+ */
+export async function saveKeeperState(stateFile: string, state: KeeperState) {
+    await fs.mkdir(path.dirname(path.resolve(stateFile)), { recursive: true })
+    const tmpFile = `${stateFile}.tmp`
+    await fs.writeFile(tmpFile, JSON.stringify(state, null, 2), { encoding: 'utf-8' })
+    await fs.rename(tmpFile, stateFile)
+}
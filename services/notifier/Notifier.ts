@@ -0,0 +1,279 @@
+import { Provider } from 'ethers'
+import { setTimeout as sleep } from 'node:timers/promises'
+import type { LooteryFactory } from '../../typechain-types'
+import { connectLootery } from '../../sdk/contracts'
+import { GameState } from '../../sdk/GameState'
+import { ClaimNotification, NotificationSink } from './sinks'
+import { NotifierState, loadNotifierState, saveNotifierState } from './NotifierState'
+
+/** Default reminders, in seconds before the claim deadline: a day, and an hour */
+export const DEFAULT_REMINDERS = [24 * 60 * 60, 60 * 60]
+
+export type NotifierLogger = Pick<Console, 'log' | 'warn' | 'error'>
+
+export interface NotifierOptions {
+    factory: LooteryFactory
+    provider: Provider
+    sinks: NotificationSink[]
+    /** Path to the file where notifier state is persisted */
+    stateFile: string
+    /** Block from which to start scanning, if there's no saved state */
+    fromBlock?: number
+    /** Maximum block range per `eth_getLogs` query */
+    maxBlockRange?: number
+    /** When to remind owners, in seconds before the claim deadline */
+    reminders?: number[]
+    logger?: NotifierLogger
+}
+
+/**
+ * Reminds owners of winning tickets to claim their winnings before the claim
+ * window closes. Winning tickets can only claim until the next game is drawn,
+ * so after every `GameFinalised`, the notifier tracks the game's unclaimed
+ * winning tickets, sends a `Won` notification for each, and `Reminder`s as the
+ * next game's deadline approaches.
+ *
+ * Only jackpot winners are notified; prize tier winners are not tracked.
+ *
+ * A notification is only recorded as sent once every sink delivered it; if any
+ * sink fails, it's retried (by all sinks) on the next tick.
+ */
+export class Notifier {
+    private state?: NotifierState
+    private readonly logger: NotifierLogger
+
+    constructor(private readonly options: NotifierOptions) {
+        this.logger = options.logger || console
+    }
+
+    /** Load persisted state (once) */
+    private async getState() {
+        if (!this.state) {
+            this.state = await loadNotifierState(this.options.stateFile, this.options.fromBlock)
+        }
+        return this.state
+    }
+
+    /**
+     * Discover lotteries launched by the factory and games finalised since the
+     * last scanned block, and track the winning tickets of those games
+     * @returns Keys of all pending claims
+     */
+    async scan(): Promise<string[]> {
+        const state = await this.getState()
+        const { factory, provider, maxBlockRange = 10_000 } = this.options
+        const latestBlock = await provider.getBlockNumber()
+        for (
+            let fromBlock = state.lastScannedBlock + 1;
+            fromBlock <= latestBlock;
+            fromBlock += maxBlockRange
+        ) {
+            const toBlock = Math.min(fromBlock + maxBlockRange - 1, latestBlock)
+            const launches = await factory.queryFilter(
+                factory.filters.LooteryLaunched,
+                fromBlock,
+                toBlock,
+            )
+            for (const event of launches) {
+                const lootery = event.args.looteryProxy
+                if (!state.lotteries.includes(lootery)) {
+                    this.logger.log(`Discovered lottery "${event.args.name}" at ${lootery}`)
+                    state.lotteries.push(lootery)
+                }
+            }
+            for (const address of state.lotteries) {
+                const lootery = connectLootery(address, provider)
+                const finalisations = await lootery.queryFilter(
+                    lootery.filters.GameFinalised,
+                    fromBlock,
+                    toBlock,
+                )
+                for (const event of finalisations) {
+                    await this.track(address, event.args.gameId)
+                }
+            }
+            state.lastScannedBlock = toBlock
+        }
+        await saveNotifierState(this.options.stateFile, state)
+        return Object.keys(state.claims)
+    }
+
+    /**
+     * Scan for finalised games, then send any notifications that are due
+     * @returns Notifications delivered by every sink
+     */
+    async tick(): Promise<ClaimNotification[]> {
+        const keys = await this.scan()
+        const state = await this.getState()
+        const notifications: ClaimNotification[] = []
+        for (const key of keys) {
+            notifications.push(...(await this.notify(key)))
+            await saveNotifierState(this.options.stateFile, state)
+        }
+        return notifications
+    }
+
+    /**
+     * Tick forever (or until aborted)
+     * @param intervalMs Milliseconds to wait between ticks
+     * @param signal Signal to stop the notifier
+     */
+    async run(intervalMs: number, signal?: AbortSignal) {
+        while (!signal?.aborted) {
+            try {
+                await this.tick()
+            } catch (err) {
+                this.logger.error('Notifier tick failed:', err)
+            }
+            try {
+                await sleep(intervalMs, undefined, { signal })
+            } catch {
+                // Aborted
+            }
+        }
+    }
+
+    /**
+     * Track the unclaimed winning tickets of a finalised game
+     * @param address Lottery address
+     * @param gameId Finalised game
+     */
+    private async track(address: string, gameId: bigint) {
+        const state = await this.getState()
+        const key = `${address}:${gameId}`
+        if (state.claims[key]) return
+        const lootery = connectLootery(address, this.options.provider)
+        const [{ winningPickId }, nextGame, gamePeriod, currentGame] = await Promise.all([
+            lootery.gameData(gameId),
+            lootery.gameData(gameId + 1n),
+            lootery.gamePeriod(),
+            lootery.currentGame(),
+        ])
+        const numWinners = await lootery.numWinnersInGame(gameId, winningPickId)
+        if (numWinners === 0n) return
+        if (currentGame.id > gameId + 1n) {
+            // Caught up on a game whose claim window already closed
+            return
+        }
+        if (Number(currentGame.state) === GameState.Dead) {
+            this.logger.log(`${address} is dead; winners of game ${gameId} can claim forever`)
+            return
+        }
+
+        const tokenIds: string[] = []
+        for (let i = 0n; i < numWinners; i++) {
+            const tokenId = await lootery.tokenByPickIdentity(gameId, winningPickId, i)
+            if (!(await lootery.isWinningsClaimed(tokenId))) {
+                tokenIds.push(tokenId.toString())
+            }
+        }
+        const deadline = nextGame.startedAt + gamePeriod
+        this.logger.log(
+            `Game ${gameId} of ${address} has ${tokenIds.length} unclaimed winning ticket(s); claim window closes after ${new Date(Number(deadline) * 1000).toISOString()}`,
+        )
+        state.claims[key] = {
+            lootery: address,
+            gameId: gameId.toString(),
+            deadline: deadline.toString(),
+            tokenIds,
+            sent: {},
+        }
+    }
+
+    /**
+     * Refresh which tickets of a game are still unclaimed, and notify their
+     * owners if any notification is due. Stops tracking the game once all its
+     * winners claimed or its claim window closed.
+     * @param key Key of the pending claims
+     */
+    private async notify(key: string): Promise<ClaimNotification[]> {
+        const state = await this.getState()
+        const claims = state.claims[key]
+        const gameId = BigInt(claims.gameId)
+        const lootery = connectLootery(claims.lootery, this.options.provider)
+        const [currentGame, latestBlock] = await Promise.all([
+            lootery.currentGame(),
+            this.options.provider.getBlock('latest'),
+        ])
+        if (currentGame.id > gameId + 1n) {
+            this.logger.warn(
+                `Claim window of game ${gameId} of ${claims.lootery} closed with ${claims.tokenIds.length} unclaimed winning ticket(s)`,
+            )
+            delete state.claims[key]
+            return []
+        }
+        const unclaimed: string[] = []
+        for (const tokenId of claims.tokenIds) {
+            if (!(await lootery.isWinningsClaimed(tokenId))) {
+                unclaimed.push(tokenId)
+            }
+        }
+        claims.tokenIds = unclaimed
+        if (unclaimed.length === 0) {
+            this.logger.log(`All winners of game ${gameId} of ${claims.lootery} claimed`)
+            delete state.claims[key]
+            return []
+        }
+        // Claims revert until the draw is finalised, and then it's too late
+        if (Number(currentGame.state) !== GameState.Purchase) return []
+
+        const now = BigInt(latestBlock!.timestamp)
+        const deadline = BigInt(claims.deadline)
+        const due = (this.options.reminders ?? DEFAULT_REMINDERS)
+            .filter((seconds) => now >= deadline - BigInt(seconds))
+            .map(String)
+        const [name, prizeToken, winningPickId, numClaimed, unclaimedPayouts] = await Promise.all([
+            lootery.name(),
+            lootery.prizeToken(),
+            lootery.gameData(gameId).then((game) => game.winningPickId),
+            lootery.numClaimedWinningTickets(gameId),
+            lootery.unclaimedPayouts(),
+        ])
+        const numWinners = await lootery.numWinnersInGame(gameId, winningPickId)
+        const amount = unclaimedPayouts / (numWinners - numClaimed)
+
+        const notifications: ClaimNotification[] = []
+        for (const tokenId of unclaimed) {
+            const sent = claims.sent[tokenId] ?? []
+            const pending = ['won', ...due].filter((label) => !sent.includes(label))
+            if (pending.length === 0) continue
+            // Catching up on several reminders at once only sends the latest
+            const notification: ClaimNotification = {
+                kind: sent.includes('won') ? 'Reminder' : 'Won',
+                lootery: claims.lootery,
+                name,
+                gameId,
+                tokenId: BigInt(tokenId),
+                owner: await lootery.ownerOf(tokenId),
+                prizeToken,
+                amount,
+                deadline,
+            }
+            if (await this.deliver(notification)) {
+                claims.sent[tokenId] = [...sent, ...pending]
+                notifications.push(notification)
+            }
+        }
+        return notifications
+    }
+
+    /**
+     * Send a notification to every sink
+     * @returns Whether every sink delivered it
+     */
+    private async deliver(notification: ClaimNotification) {
+        let delivered = true
+        for (const sink of this.options.sinks) {
+            try {
+                await sink.send(notification)
+            } catch (err) {
+                delivered = false
+                this.logger.error(
+                    `Failed to send ${notification.kind} notification for #${notification.tokenId} via ${sink.name}:`,
+                    err,
+                )
+            }
+        }
+        return delivered
+    }
+}
@@ -0,0 +1,55 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/** Unclaimed winning tickets of a finalised game */
+export interface PendingClaims {
+    lootery: string
+    gameId: string
+    /** Timestamp after which the claim window may close, i.e. the next game's deadline */
+    deadline: string
+    /** Winning tickets that haven't claimed yet */
+    tokenIds: string[]
+    /** tokenId => notifications already sent, e.g. `won` or `3600` (seconds before the deadline) */
+    sent: Record<string, string[]>
+}
+
+export interface NotifierState {
+    /** Last block that was scanned for `LooteryLaunched` & `GameFinalised` events */
+    lastScannedBlock: number
+    /** Addresses of lotteries launched by the factory */
+    lotteries: string[]
+    /** `${lootery}:${gameId}` => pending claims */
+    claims: Record<string, PendingClaims>
+}
+
+/**
+ * Load notifier state from disk, or initialise fresh state if it doesn't exist.
+ * @param stateFile Path to state file
+ * @param fromBlock Block from which to start scanning, if there is no saved state
+ */
+export async function loadNotifierState(stateFile: string, fromBlock = 0): Promise<NotifierState> {
+    try {
+        const json = await fs.readFile(stateFile, { encoding: 'utf-8' })
+        return JSON.parse(json) as NotifierState
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        return {
+            lastScannedBlock: fromBlock - 1,
+            lotteries: [],
+            claims: {},
+        }
+    }
+}
+
+/**
+ * Persist notifier state to disk. The file is replaced atomically, so a crash
+ * mid-write can't corrupt existing state.
+ * @param stateFile Path to state file
+ * @param state Notifier state
+ */
+export async function saveNotifierState(stateFile: string, state: NotifierState) {
+    await fs.mkdir(path.dirname(path.resolve(stateFile)), { recursive: true })
+    const tmpFile = `${stateFile}.tmp`
+    await fs.writeFile(tmpFile, JSON.stringify(state, null, 2), { encoding: 'utf-8' })
+    await fs.rename(tmpFile, stateFile)
+}
@@ -0,0 +1,126 @@
+import { getAddress } from 'ethers'
+import { SmtpConnectionOptions, sendSmtpMail } from './smtp'
+
+/**
+ * Notification about a winning ticket that hasn't claimed its winnings:
+ * - `Won`: sent once, when the ticket's game is finalised
+ * - `Reminder`: sent as the ticket's claim window is about to close
+ */
+export interface ClaimNotification {
+    kind: 'Won' | 'Reminder'
+    lootery: string
+    /** Name of the lottery */
+    name: string
+    gameId: bigint
+    tokenId: bigint
+    /** Current owner of the ticket, who receives the winnings */
+    owner: string
+    prizeToken: string
+    /** Prize tokens the ticket would receive if it claimed now */
+    amount: bigint
+    /**
+     * Timestamp at which the next game can be drawn; the claim window closes
+     * once that draw is finalised
+     */
+    deadline: bigint
+}
+
+/** Where notifications are delivered */
+export interface NotificationSink {
+    readonly name: string
+    /** Deliver a notification; throws if it couldn't be delivered */
+    send(notification: ClaimNotification): Promise<void>
+}
+
+/** Human readable subject & text of a notification */
+export function formatNotification(notification: ClaimNotification) {
+    const { kind, name, gameId, tokenId, amount, prizeToken } = notification
+    const deadline = new Date(Number(notification.deadline) * 1000).toISOString()
+    const subject =
+        kind === 'Won'
+            ? `Ticket #${tokenId} won game ${gameId} of ${name}`
+            : `Claim the winnings of ticket #${tokenId} before ${deadline}`
+    const text = [
+        `Ticket #${tokenId} of ${name} (${notification.lootery}) won game ${gameId}.`,
+        `It can claim ${amount} of prize token ${prizeToken}.`,
+        `Claim before ${deadline}: winnings can't be claimed once the next game is drawn.`,
+    ].join('\n')
+    return { subject, text }
+}
+
+/** JSON representation of a notification, with bigints as decimal strings */
+export function serialiseNotification(notification: ClaimNotification) {
+    return JSON.parse(
+        JSON.stringify(notification, (_, value) =>
+            typeof value === 'bigint' ? value.toString() : value,
+        ),
+    ) as Record<keyof ClaimNotification, string>
+}
+
+/** Logs notifications */
+export class ConsoleSink implements NotificationSink {
+    readonly name = 'console'
+
+    constructor(private readonly logger: Pick<Console, 'log'> = console) {}
+
+    async send(notification: ClaimNotification) {
+        const { subject } = formatNotification(notification)
+        this.logger.log(`[${notification.kind}] ${notification.owner}: ${subject}`)
+    }
+}
+
+export interface WebhookSinkOptions {
+    url: string
+    /** Extra request headers, e.g. for authorisation */
+    headers?: Record<string, string>
+}
+
+/** POSTs notifications as JSON */
+export class WebhookSink implements NotificationSink {
+    readonly name = 'webhook'
+
+    constructor(private readonly options: WebhookSinkOptions) {}
+
+    async send(notification: ClaimNotification) {
+        const response = await fetch(this.options.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.options.headers,
+            },
+            body: JSON.stringify(serialiseNotification(notification)),
+        })
+        if (!response.ok) {
+            throw new Error(`Webhook responded ${response.status} ${response.statusText}`)
+        }
+    }
+}
+
+export interface EmailSinkOptions extends SmtpConnectionOptions {
+    /** Sender address */
+    from: string
+    /** Owner address => email address; owners without one are skipped */
+    recipients: Record<string, string>
+}
+
+/** Mails notifications to the ticket owners that have an email address */
+export class EmailSink implements NotificationSink {
+    readonly name = 'email'
+    private readonly recipients: Map<string, string>
+
+    constructor(private readonly options: EmailSinkOptions) {
+        this.recipients = new Map(
+            Object.entries(options.recipients).map(([owner, email]) => [getAddress(owner), email]),
+        )
+    }
+
+    async send(notification: ClaimNotification) {
+        const to = this.recipients.get(getAddress(notification.owner))
+        if (!to) return
+        await sendSmtpMail(this.options, {
+            from: this.options.from,
+            to: [to],
+            ...formatNotification(notification),
+        })
+    }
+}
@@ -0,0 +1,247 @@
+import net from 'node:net'
+
+export class SmtpError extends Error {
+    constructor(
+        public readonly code: number,
+        message: string,
+    ) {
+        super(message)
+        this.name = 'SmtpError'
+    }
+}
+
+export interface SmtpMail {
+    from: string
+    to: string[]
+    subject: string
+    text: string
+}
+
+export interface SmtpConnectionOptions {
+    host: string
+    port: number
+    /** Milliseconds of inactivity after which the connection is dropped */
+    timeoutMs?: number
+}
+
+interface SmtpReply {
+    code: number
+    lines: string[]
+}
+
+/** Reads (possibly multiline) SMTP replies off a socket, in order */
+class SmtpReplyReader {
+    private buffer = ''
+    private lines: string[] = []
+    private readonly replies: SmtpReply[] = []
+    private waiting?: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }
+    private error?: Error
+
+    constructor(socket: net.Socket) {
+        socket.setEncoding('utf-8')
+        socket.on('data', (chunk: string) => {
+            this.buffer += chunk
+            let index: number
+            while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+                const line = this.buffer.slice(0, index)
+                this.buffer = this.buffer.slice(index + 2)
+                this.lines.push(line.slice(4))
+                // `250-...` continues the reply, `250 ...` ends it
+                if (line[3] !== '-') {
+                    this.push({ code: Number(line.slice(0, 3)), lines: this.lines })
+                    this.lines = []
+                }
+            }
+        })
+        socket.on('error', (err) => this.fail(err))
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+    }
+
+    private push(reply: SmtpReply) {
+        if (this.waiting) {
+            this.waiting.resolve(reply)
+            this.waiting = undefined
+        } else {
+            this.replies.push(reply)
+        }
+    }
+
+    private fail(err: Error) {
+        this.error ??= err
+        this.waiting?.reject(err)
+        this.waiting = undefined
+    }
+
+    /** Wait for the next reply */
+    next(): Promise<SmtpReply> {
+        const reply = this.replies.shift()
+        if (reply) return Promise.resolve(reply)
+        if (this.error) return Promise.reject(this.error)
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject }
+        })
+    }
+}
+
+/** Escape lines of a message body that start with a dot (RFC 5321 §4.5.2) */
+function dotStuff(text: string) {
+    return text
+        .split(/\r?\n/)
+        .map((line) => (line.startsWith('.') ? `.${line}` : line))
+        .join('\r\n')
+}
+
+/**
+ * Send a plain text mail over SMTP, without authentication or TLS; meant for
+ * a relay on the local network, or {SmtpStandIn} in development.
+ * @param options Where to connect to
+ * @param mail Mail to send
+ */
+export async function sendSmtpMail(options: SmtpConnectionOptions, mail: SmtpMail) {
+    const socket = net.createConnection({ host: options.host, port: options.port })
+    socket.setTimeout(options.timeoutMs ?? 10_000, () =>
+        socket.destroy(new Error('SMTP connection timed out')),
+    )
+    const reader = new SmtpReplyReader(socket)
+    const expectReply = async (command: string | null, ...codes: number[]) => {
+        if (command !== null) {
+            socket.write(`${command}\r\n`)
+        }
+        const reply = await reader.next()
+        if (!codes.includes(reply.code)) {
+            throw new SmtpError(
+                reply.code,
+                `Unexpected SMTP reply to ${command ?? 'greeting'}: ${reply.code} ${reply.lines.join(' ')}`,
+            )
+        }
+    }
+    try {
+        await expectReply(null, 220)
+        await expectReply('EHLO localhost', 250)
+        await expectReply(`MAIL FROM:<${mail.from}>`, 250)
+        for (const to of mail.to) {
+            await expectReply(`RCPT TO:<${to}>`, 250, 251)
+        }
+        await expectReply('DATA', 354)
+        const message = [
+            `From: <${mail.from}>`,
+            `To: ${mail.to.map((to) => `<${to}>`).join(', ')}`,
+            `Subject: ${mail.subject}`,
+            `Date: ${new Date().toUTCString()}`,
+            'MIME-Version: 1.0',
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            dotStuff(mail.text),
+        ].join('\r\n')
+        await expectReply(`${message}\r\n.`, 250)
+        await expectReply('QUIT', 221)
+    } finally {
+        socket.destroy()
+    }
+}
+
+export interface ReceivedMail {
+    from: string
+    to: string[]
+    /** Raw message, i.e. headers & body */
+    data: string
+}
+
+/**
+ * Minimal SMTP server that accepts any mail and keeps it in memory, standing
+ * in for a real mail server in development and tests.
+ */
+export class SmtpStandIn {
+    readonly messages: ReceivedMail[] = []
+    private readonly server: net.Server
+
+    /**
+     * @param onMail Called with every mail received
+     */
+    constructor(private readonly onMail?: (mail: ReceivedMail) => void) {
+        this.server = net.createServer((socket) => this.handle(socket))
+    }
+
+    /**
+     * Start listening
+     * @param port Port to listen on; 0 picks a free port
+     * @returns Port listened on
+     */
+    async listen(port = 0, host = '127.0.0.1'): Promise<number> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject)
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject)
+                resolve()
+            })
+        })
+        return (this.server.address() as net.AddressInfo).port
+    }
+
+    async close() {
+        await new Promise<void>((resolve) => this.server.close(() => resolve()))
+    }
+
+    private handle(socket: net.Socket) {
+        let buffer = ''
+        let mail: ReceivedMail = { from: '', to: [], data: '' }
+        let dataLines: string[] | null = null
+        const reply = (line: string) => socket.write(`${line}\r\n`)
+
+        socket.setEncoding('utf-8')
+        socket.on('error', () => socket.destroy())
+        reply('220 localhost SMTP stand-in')
+        socket.on('data', (chunk: string) => {
+            buffer += chunk
+            let index: number
+            while ((index = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, index)
+                buffer = buffer.slice(index + 2)
+                if (dataLines) {
+                    if (line === '.') {
+                        mail.data = dataLines.join('\r\n')
+                        this.messages.push(mail)
+                        this.onMail?.(mail)
+                        mail = { from: '', to: [], data: '' }
+                        dataLines = null
+                        reply('250 OK')
+                    } else {
+                        dataLines.push(line.startsWith('.') ? line.slice(1) : line)
+                    }
+                    continue
+                }
+                const verb = line.slice(0, 4).toUpperCase()
+                const address = /<([^>]*)>/.exec(line)?.[1] ?? ''
+                switch (verb) {
+                    case 'EHLO':
+                    case 'HELO':
+                    case 'NOOP':
+                        reply('250 OK')
+                        break
+                    case 'RSET':
+                        mail = { from: '', to: [], data: '' }
+                        reply('250 OK')
+                        break
+                    case 'MAIL':
+                        mail.from = address
+                        reply('250 OK')
+                        break
+                    case 'RCPT':
+                        mail.to.push(address)
+                        reply('250 OK')
+                        break
+                    case 'DATA':
+                        dataLines = []
+                        reply('354 End data with <CR><LF>.<CR><LF>')
+                        break
+                    case 'QUIT':
+                        reply('221 Bye')
+                        socket.end()
+                        break
+                    default:
+                        reply('502 Command not implemented')
+                }
+            }
+        })
+    }
+}
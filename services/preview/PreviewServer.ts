@@ -0,0 +1,189 @@
+import { BigNumberish, Provider } from 'ethers'
+import http from 'node:http'
+import { connectLootery } from '../../sdk/contracts'
+import { computePick } from '../../sdk/pick'
+import { renderTicketSVG, toSVGDataURI } from '../../sdk/ticketSvg'
+import type { Erc721Metadata } from '../../scripts/Erc721Metadata'
+import { HttpError, parseAddress, parseUint } from '../api/ApiServer'
+
+/** Renders a ticket as SVG, with the signature of `TicketSVGRenderer#renderSVG` */
+export type TicketSVGRenderFn = (
+    name: string,
+    maxPick: BigNumberish,
+    pick: BigNumberish[],
+) => string
+
+/** On-chain state of a ticket that its metadata is rendered from */
+export interface TicketDetails {
+    lootery: string
+    /** Name of the lottery */
+    name: string
+    tokenId: bigint
+    gameId: bigint
+    maxBallValue: bigint
+    pick: bigint[]
+    /** Whether the ticket's game has been drawn */
+    isDrawn: boolean
+    /** Whether the ticket won its game; null until it's drawn */
+    isWinner: boolean | null
+    isWinningsClaimed: boolean
+}
+
+export interface PreviewServerOptions {
+    provider: Provider
+    /** Renderer under preview (defaults to the port of the on-chain renderer) */
+    renderSVG?: TicketSVGRenderFn
+    /** Description of a ticket (defaults to its lottery & game) */
+    describe?: (ticket: TicketDetails) => string
+    /** Value of the `Access-Control-Allow-Origin` header */
+    allowOrigin?: string
+}
+
+/**
+ * Fetch the state of a ticket
+ * @param provider Provider
+ * @param lootery Address of the lottery
+ * @param tokenId Ticket token id
+ * @returns null if the ticket doesn't exist
+ */
+export async function fetchTicketDetails(
+    provider: Provider,
+    lootery: string,
+    tokenId: bigint,
+): Promise<TicketDetails | null> {
+    const contract = connectLootery(lootery, provider)
+    const exists = await contract.ownerOf(tokenId).then(
+        () => true,
+        () => false,
+    )
+    if (!exists) return null
+    const [name, maxBallValue, [gameId, pickId], currentGame, isWinningsClaimed] =
+        await Promise.all([
+            contract.name(),
+            contract.maxBallValue(),
+            contract.purchasedTickets(tokenId),
+            contract.currentGame(),
+            contract.isWinningsClaimed(tokenId),
+        ])
+    const isDrawn = gameId < currentGame.id
+    const { winningPickId } = await contract.gameData(gameId)
+    return {
+        lootery,
+        name,
+        tokenId,
+        gameId,
+        maxBallValue,
+        pick: computePick(pickId),
+        isDrawn,
+        isWinner: isDrawn ? pickId === winningPickId : null,
+        isWinningsClaimed,
+    }
+}
+
+/**
+ * ERC-721 metadata of a ticket, including OpenSea traits
+ * @param ticket Ticket state, e.g. from `fetchTicketDetails`
+ * @param renderSVG Renders the ticket's image
+ * @param description Description of the ticket
+ */
+export function renderTicketMetadata(
+    ticket: TicketDetails,
+    renderSVG: TicketSVGRenderFn = renderTicketSVG,
+    description = `${ticket.name} ticket for game #${ticket.gameId}`,
+): Erc721Metadata {
+    const winner = ticket.isWinner === null ? 'Not drawn' : ticket.isWinner ? 'Yes' : 'No'
+    return {
+        name: `${ticket.name} Ticket #${ticket.tokenId}`,
+        description,
+        image: toSVGDataURI(renderSVG(ticket.name, ticket.maxBallValue, ticket.pick)),
+        attributes: [
+            { trait_type: 'Game', display_type: 'number', value: Number(ticket.gameId) },
+            { trait_type: 'Pick', value: ticket.pick.join(', ') || 'None' },
+            { trait_type: 'Winner', value: winner },
+            {
+                trait_type: 'Claim status',
+                value: ticket.isWinningsClaimed ? 'Claimed' : 'Unclaimed',
+            },
+        ],
+    }
+}
+
+/**
+ * Create a server that renders ticket metadata & images off-chain, so that
+ * ticket art can be iterated on without redeploying the renderer. Call
+ * `listen` on the returned server to start serving.
+ *
+ * Routes:
+ *  - GET /lotteries/:address/tickets/:tokenId (metadata JSON)
+ *  - GET /lotteries/:address/tickets/:tokenId/image.svg
+ *  - GET /render.svg?name=:name&maxPick=:maxPick&pick=:n,:n,...
+ */
+export function createPreviewServer(options: PreviewServerOptions) {
+    const renderSVG = options.renderSVG ?? renderTicketSVG
+
+    async function getTicket(address: string, id: string) {
+        const lootery = parseAddress(address)
+        const tokenId = parseUint(id, 'token id')
+        const ticket = await fetchTicketDetails(options.provider, lootery, tokenId)
+        if (!ticket) {
+            throw new HttpError(404, `Unknown ticket: ${tokenId}`)
+        }
+        return ticket
+    }
+
+    async function handle(url: URL): Promise<[contentType: string, body: string]> {
+        let match = /^\/lotteries\/([^/]+)\/tickets\/([^/]+)(\/image\.svg)?$/.exec(url.pathname)
+        if (match) {
+            const [, address, id, isImage] = match.map((part) => part && decodeURIComponent(part))
+            const ticket = await getTicket(address, id)
+            if (isImage) {
+                return ['image/svg+xml', renderSVG(ticket.name, ticket.maxBallValue, ticket.pick)]
+            }
+            const metadata = renderTicketMetadata(ticket, renderSVG, options.describe?.(ticket))
+            return ['application/json', JSON.stringify(metadata)]
+        }
+        match = /^\/render\.svg$/.exec(url.pathname)
+        if (match) {
+            const name = url.searchParams.get('name') ?? 'The Lootery'
+            const maxPick = parseUint(url.searchParams.get('maxPick') ?? '', 'maxPick')
+            const pick = (url.searchParams.get('pick') || '')
+                .split(',')
+                .filter(Boolean)
+                .map((ball) => parseUint(ball.trim(), 'pick'))
+            return ['image/svg+xml', renderSVG(name, maxPick, pick)]
+        }
+        throw new HttpError(404, `Not found: ${url.pathname}`)
+    }
+
+    return http.createServer(async (req, res) => {
+        const respond = (status: number, contentType: string, body: string) => {
+            res.writeHead(status, {
+                'Content-Type': contentType,
+                'Access-Control-Allow-Origin': options.allowOrigin ?? '*',
+            })
+            res.end(body)
+        }
+
+        try {
+            if (req.method !== 'GET') {
+                throw new HttpError(405, `Method not allowed: ${req.method}`)
+            }
+            const [contentType, body] = await handle(new URL(req.url ?? '/', 'http://localhost'))
+            return respond(200, contentType, body)
+        } catch (err) {
+            if (err instanceof HttpError) {
+                return respond(
+                    err.status,
+                    'application/json',
+                    JSON.stringify({ error: err.message }),
+                )
+            }
+            console.error(`Failed to handle ${req.method} ${req.url}:`, err)
+            return respond(
+                500,
+                'application/json',
+                JSON.stringify({ error: 'Internal server error' }),
+            )
+        }
+    })
+}
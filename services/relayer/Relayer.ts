@@ -0,0 +1,268 @@
+import { Contract, TypedDataDomain, ZeroAddress, getAddress } from 'ethers'
+import type { LooteryPurchaseRelay } from '../../typechain-types'
+import {
+    connectLootery,
+    looteryInterface,
+    looteryPurchaseRelayInterface,
+} from '../../sdk/contracts'
+import { decodeLooteryError } from '../../sdk/errors'
+import { decodeLooteryEvents, filterLooteryEvents } from '../../sdk/events'
+import { GameState } from '../../sdk/GameState'
+import { InvalidPickError, validatePick } from '../../sdk/pick'
+import {
+    NO_PERMIT,
+    SignedPurchaseOrder,
+    getEip712Domain,
+    recoverPurchaseOrderSigner,
+} from '../../sdk/purchaseOrder'
+
+/** Default maximum number of tickets per relayed order */
+export const DEFAULT_MAX_TICKETS_PER_ORDER = 10
+
+/**
+ * Thrown when an order is rejected by the relayer. The `reason` is the name of
+ * the check that failed, or of the custom error that the order reverted with.
+ */
+export class RelayerError extends Error {
+    constructor(
+        public readonly reason:
+            | 'UnknownLootery'
+            | 'NoTicketsSpecified'
+            | 'TooManyTickets'
+            | 'PurchaseOrderExpired'
+            | 'InvalidSignature'
+            | 'InvalidNonce'
+            | 'GameInactive'
+            | 'InvalidPick'
+            | 'UnknownBeneficiary'
+            | 'MaxPriceExceeded'
+            | 'InsufficientBalance'
+            | 'InsufficientAllowance'
+            | 'InvalidPermit'
+            | 'SimulationFailed',
+        message: string,
+    ) {
+        super(message)
+        this.name = 'RelayerError'
+    }
+}
+
+export type RelayerLogger = Pick<Console, 'log' | 'warn' | 'error'>
+
+export interface RelayerOptions {
+    /** Relay contract, connected with the signer that pays for gas */
+    relay: LooteryPurchaseRelay
+    /** Lotteries whose orders may be relayed */
+    lotteries: string[]
+    /** Maximum number of tickets per order, to bound the gas of each order */
+    maxTicketsPerOrder?: number
+    logger?: RelayerLogger
+}
+
+export interface RelayedPurchase {
+    txHash: string
+    tokenIds: bigint[]
+    gasUsed: bigint
+}
+
+/**
+ * Relays signed purchase orders to a `LooteryPurchaseRelay`, paying for their
+ * gas. Orders are validated off-chain, then simulated, before being submitted,
+ * so that the relayer doesn't pay for transactions that would revert.
+ */
+export class Relayer {
+    private readonly lotteries: Set<string>
+    private readonly logger: RelayerLogger
+    private domain?: TypedDataDomain
+    /** Pending submission, which the next submission waits for */
+    private queue: Promise<unknown> = Promise.resolve()
+
+    constructor(private readonly options: RelayerOptions) {
+        this.lotteries = new Set(options.lotteries.map((address) => getAddress(address)))
+        this.logger = options.logger || console
+    }
+
+    /** EIP-712 domain of the relay (read once) */
+    private async getDomain() {
+        if (!this.domain) {
+            this.domain = await getEip712Domain(
+                await this.options.relay.getAddress(),
+                this.options.relay.runner!,
+            )
+        }
+        return this.domain
+    }
+
+    /**
+     * Reproduce the checks of `LooteryPurchaseRelay#purchase` and
+     * `Lootery#purchase` off-chain
+     * @param signedOrder Signed purchase order
+     * @throws {RelayerError} If the order can't be filled
+     */
+    async validate({ order, signature, permit }: SignedPurchaseOrder) {
+        const { relay, maxTicketsPerOrder = DEFAULT_MAX_TICKETS_PER_ORDER } = this.options
+        if (!this.lotteries.has(getAddress(order.lootery))) {
+            throw new RelayerError('UnknownLootery', `Unknown lottery: ${order.lootery}`)
+        }
+        if (order.tickets.length === 0) {
+            throw new RelayerError('NoTicketsSpecified', 'No tickets specified')
+        }
+        if (order.tickets.length > maxTicketsPerOrder) {
+            throw new RelayerError(
+                'TooManyTickets',
+                `Too many tickets (max ${maxTicketsPerOrder}, got ${order.tickets.length})`,
+            )
+        }
+
+        const provider = relay.runner!.provider!
+        const latestBlock = await provider.getBlock('latest')
+        const now = BigInt(latestBlock!.timestamp)
+        if (now > order.deadline) {
+            throw new RelayerError('PurchaseOrderExpired', `Order expired at ${order.deadline}`)
+        }
+
+        let signer: string | undefined
+        try {
+            signer = recoverPurchaseOrderSigner(await this.getDomain(), { order, signature })
+        } catch {
+            // Malformed signature
+        }
+        // Signatures of contract wallets are only checked by simulation
+        if (
+            signer !== getAddress(order.player) &&
+            (await provider.getCode(order.player)) === '0x'
+        ) {
+            throw new RelayerError('InvalidSignature', `Order not signed by ${order.player}`)
+        }
+        const nonce = await relay.nonces(order.player)
+        if (order.nonce !== nonce) {
+            throw new RelayerError(
+                'InvalidNonce',
+                `Invalid nonce (expected ${nonce}, got ${order.nonce})`,
+            )
+        }
+
+        const lootery = connectLootery(order.lootery, provider)
+        const [{ state }, pickLength, maxBallValue, ticketPrice, prizeToken] = await Promise.all([
+            lootery.currentGame(),
+            lootery.pickLength(),
+            lootery.maxBallValue(),
+            lootery.ticketPrice(),
+            lootery.prizeToken(),
+        ])
+        if (Number(state) !== GameState.Purchase) {
+            throw new RelayerError('GameInactive', `Lottery is not open for purchases`)
+        }
+        for (const { pick } of order.tickets) {
+            try {
+                validatePick(pick, pickLength, maxBallValue)
+            } catch (err) {
+                if (!(err instanceof InvalidPickError)) throw err
+                throw new RelayerError('InvalidPick', err.message)
+            }
+        }
+        if (
+            order.beneficiary !== ZeroAddress &&
+            !(await lootery.beneficiaryDisplayNames(order.beneficiary))
+        ) {
+            throw new RelayerError(
+                'UnknownBeneficiary',
+                `Unknown beneficiary: ${order.beneficiary}`,
+            )
+        }
+        const totalPrice = ticketPrice * BigInt(order.tickets.length)
+        if (totalPrice > order.maxPrice) {
+            throw new RelayerError(
+                'MaxPriceExceeded',
+                `Total price ${totalPrice} exceeds max price ${order.maxPrice}`,
+            )
+        }
+
+        const token = new Contract(
+            prizeToken,
+            [
+                'function balanceOf(address) view returns (uint256)',
+                'function allowance(address,address) view returns (uint256)',
+            ],
+            provider,
+        )
+        const relayAddress = await relay.getAddress()
+        const [balance, allowance] = await Promise.all([
+            token.balanceOf(order.player) as Promise<bigint>,
+            token.allowance(order.player, relayAddress) as Promise<bigint>,
+        ])
+        if (balance < totalPrice) {
+            throw new RelayerError(
+                'InsufficientBalance',
+                `Insufficient balance (have ${balance}, want ${totalPrice})`,
+            )
+        }
+        if (permit) {
+            if (permit.value < totalPrice || permit.deadline < now) {
+                throw new RelayerError(
+                    'InvalidPermit',
+                    `Permit must allow ${totalPrice} until after ${now}`,
+                )
+            }
+        } else if (allowance < totalPrice) {
+            throw new RelayerError(
+                'InsufficientAllowance',
+                `Insufficient allowance (have ${allowance}, want ${totalPrice})`,
+            )
+        }
+    }
+
+    /**
+     * Simulate filling an order
+     * @param signedOrder Signed purchase order
+     * @returns Estimated gas
+     * @throws {RelayerError} If the order would revert
+     */
+    async simulate({ order, signature, permit = NO_PERMIT }: SignedPurchaseOrder) {
+        const { relay } = this.options
+        try {
+            await relay.purchase.staticCall(order, signature, permit)
+            return await relay.purchase.estimateGas(order, signature, permit)
+        } catch (err) {
+            // Lootery reverts bubble up through the relay
+            const decoded =
+                decodeLooteryError(err, looteryPurchaseRelayInterface) ??
+                decodeLooteryError(err, looteryInterface)
+            throw new RelayerError(
+                'SimulationFailed',
+                decoded
+                    ? `Order would revert: ${decoded.name}(${decoded.args.join(', ')})`
+                    : `Order would revert: ${(err as Error).message}`,
+            )
+        }
+    }
+
+    /**
+     * Validate, simulate, then submit an order
+     * @param signedOrder Signed purchase order
+     * @returns Submitted transaction and the purchased tickets' token ids
+     * @throws {RelayerError} If the order is rejected
+     */
+    submit(signedOrder: SignedPurchaseOrder): Promise<RelayedPurchase> {
+        // Submissions are serialised, so that they don't race for the signer's nonce
+        const result = this.queue.then(() => this.submitNow(signedOrder))
+        this.queue = result.catch(() => {})
+        return result
+    }
+
+    private async submitNow(signedOrder: SignedPurchaseOrder): Promise<RelayedPurchase> {
+        const { order, signature, permit = NO_PERMIT } = signedOrder
+        await this.validate(signedOrder)
+        await this.simulate(signedOrder)
+        const tx = await this.options.relay.purchase(order, signature, permit)
+        const receipt = await tx.wait()
+        const tokenIds = filterLooteryEvents(
+            decodeLooteryEvents(receipt!.logs, order.lootery),
+            'TicketPurchased',
+        ).map((event) => event.args.tokenId)
+        this.logger.log(
+            `Relayed order ${order.nonce} of ${order.player} to ${order.lootery}: ${tx.hash}`,
+        )
+        return { txHash: tx.hash, tokenIds, gasUsed: receipt!.gasUsed }
+    }
+}
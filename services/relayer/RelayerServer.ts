@@ -0,0 +1,140 @@
+import http from 'node:http'
+import { HttpError, parseAddress, parseUint } from '../api/ApiServer'
+import type { PurchasePermit, SignedPurchaseOrder } from '../../sdk/purchaseOrder'
+import { Relayer, RelayerError } from './Relayer'
+
+export interface RelayerServerOptions {
+    relayer: Relayer
+    /** Value of the `Access-Control-Allow-Origin` header */
+    allowOrigin?: string
+    /** Maximum size of a request body, in bytes */
+    maxBodySize?: number
+}
+
+/** Serialise bigints as decimal strings */
+function toJson(body: unknown) {
+    return JSON.stringify(body, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value,
+    )
+}
+
+function parseString(value: unknown, name: string) {
+    if (typeof value !== 'string') {
+        throw new HttpError(400, `Invalid ${name}: ${value}`)
+    }
+    return value
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null
+}
+
+/**
+ * Parse a signed purchase order from JSON, where uint256 values are decimal
+ * strings (or numbers, for uint8 balls)
+ * @param body Parsed JSON body
+ */
+export function parseSignedPurchaseOrder(body: unknown): SignedPurchaseOrder {
+    const { order, signature, permit } = isObject(body) ? body : {}
+    if (!isObject(order) || !Array.isArray(order.tickets)) {
+        throw new HttpError(400, 'Missing order')
+    }
+    if (permit !== undefined && permit !== null && !isObject(permit)) {
+        throw new HttpError(400, 'Invalid permit')
+    }
+    const uint = (value: unknown, name: string) => parseUint(String(value), name)
+    return {
+        order: {
+            player: parseAddress(parseString(order.player, 'player')),
+            lootery: parseAddress(parseString(order.lootery, 'lootery')),
+            tickets: order.tickets.map((ticket: unknown) => {
+                if (!isObject(ticket) || !Array.isArray(ticket.pick)) {
+                    throw new HttpError(400, 'Invalid ticket')
+                }
+                return {
+                    whomst: parseAddress(parseString(ticket.whomst, 'whomst')),
+                    pick: ticket.pick.map((ball: unknown) => uint(ball, 'ball')),
+                }
+            }),
+            beneficiary: parseAddress(parseString(order.beneficiary, 'beneficiary')),
+            maxPrice: uint(order.maxPrice, 'maxPrice'),
+            deadline: uint(order.deadline, 'deadline'),
+            nonce: uint(order.nonce, 'nonce'),
+        },
+        signature: parseString(signature, 'signature'),
+        permit: permit
+            ? ({
+                  value: uint(permit.value, 'permit value'),
+                  deadline: uint(permit.deadline, 'permit deadline'),
+                  v: Number(uint(permit.v, 'permit v')),
+                  r: parseString(permit.r, 'permit r'),
+                  s: parseString(permit.s, 'permit s'),
+              } satisfies PurchasePermit)
+            : undefined,
+    }
+}
+
+async function readJsonBody(req: http.IncomingMessage, maxBodySize: number): Promise<unknown> {
+    let body = ''
+    for await (const chunk of req) {
+        body += chunk
+        if (body.length > maxBodySize) {
+            throw new HttpError(413, 'Request body too large')
+        }
+    }
+    try {
+        return JSON.parse(body)
+    } catch {
+        throw new HttpError(400, 'Invalid JSON')
+    }
+}
+
+/**
+ * Create an HTTP server that relays signed purchase orders. uint256 values are
+ * (de)serialised as decimal strings. Call `listen` on the returned server to
+ * start serving.
+ *
+ * Routes:
+ *  - POST /orders `{ order, signature, permit? }` => `{ txHash, tokenIds, gasUsed }`
+ *
+ * Rejected orders respond with 422 and the `reason` of the {RelayerError}.
+ */
+export function createRelayerServer(options: RelayerServerOptions) {
+    const { relayer, maxBodySize = 64 * 1024 } = options
+    return http.createServer(async (req, res) => {
+        const headers = {
+            'Access-Control-Allow-Origin': options.allowOrigin ?? '*',
+            'Access-Control-Allow-Headers': 'Content-Type',
+        }
+        const respond = (status: number, body: unknown) => {
+            res.writeHead(status, { ...headers, 'Content-Type': 'application/json' })
+            res.end(toJson(body))
+        }
+
+        try {
+            // CORS preflight
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204, headers)
+                return res.end()
+            }
+            const url = new URL(req.url ?? '/', 'http://localhost')
+            if (url.pathname !== '/orders') {
+                throw new HttpError(404, `Not found: ${url.pathname}`)
+            }
+            if (req.method !== 'POST') {
+                throw new HttpError(405, `Method not allowed: ${req.method}`)
+            }
+            const signedOrder = parseSignedPurchaseOrder(await readJsonBody(req, maxBodySize))
+            return respond(200, await relayer.submit(signedOrder))
+        } catch (err) {
+            if (err instanceof HttpError) {
+                return respond(err.status, { error: err.message })
+            }
+            if (err instanceof RelayerError) {
+                return respond(422, { error: err.message, reason: err.reason })
+            }
+            console.error(`Failed to handle ${req.method} ${req.url}:`, err)
+            return respond(500, { error: 'Internal server error' })
+        }
+    })
+}
@@ -0,0 +1,79 @@
+import { task, types } from 'hardhat/config'
+import fs from 'node:fs/promises'
+import { LooteryClient } from '../sdk/LooteryClient'
+import { QuickPickSource } from '../sdk/quickPick'
+import {
+    DEFAULT_MAX_AIRDROP_GAS,
+    chunkAirdrop,
+    parseAirdropCsv,
+    planAirdrop,
+    sendAirdrop,
+} from '../scripts/airdrop'
+
+task('lootery:airdrop', 'Give out free tickets of the current game from a CSV (owner only)')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('csv', 'CSV file with a "recipient,pick" header; leave a pick empty to quick-pick')
+    .addOptionalParam('seed', 'Seed of the quick picks (uint256), to reproduce them')
+    .addOptionalParam(
+        'maxGas',
+        'Gas budget of each transaction',
+        DEFAULT_MAX_AIRDROP_GAS.toString(),
+    )
+    .addOptionalParam('skip', 'Skip the first n tickets, e.g. to resume an airdrop', 0, types.int)
+    .addFlag('dryRun', 'Only simulate the transactions')
+    .setAction(
+        async (
+            args: {
+                lootery: string
+                csv: string
+                seed?: string
+                maxGas: string
+                skip: number
+                dryRun: boolean
+            },
+            hre,
+        ) => {
+            const [signer] = await hre.ethers.getSigners()
+            console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+            const client = LooteryClient.connect(args.lootery, signer)
+            const lootery = client.contract
+            const owner = await lootery.owner()
+            if (owner !== signer.address) {
+                throw new Error(
+                    `Signer ${signer.address} is not the owner of the lottery (${owner})`,
+                )
+            }
+
+            const { pickLength, maxBallValue } = await client.getConfig()
+            const source: QuickPickSource = args.seed
+                ? { kind: 'seed', seed: BigInt(args.seed) }
+                : { kind: 'csprng' }
+            const rows = parseAirdropCsv(await fs.readFile(args.csv, 'utf-8'))
+            const { tickets, quickPickSeed } = planAirdrop(rows, {
+                pickLength,
+                maxBallValue,
+                source,
+            })
+            if (quickPickSeed !== undefined) {
+                console.log(`Quick pick seed (keep it to resume or verify): ${quickPickSeed}`)
+            }
+
+            const remaining = tickets.slice(args.skip)
+            const chunks = await chunkAirdrop(lootery, remaining, BigInt(args.maxGas))
+            console.log(
+                `Airdropping ${remaining.length} ticket(s) in ${chunks.length} transaction(s)`,
+            )
+            if (args.dryRun) {
+                console.log(`[dry run] Simulated ${chunks.length} transaction(s); not sending`)
+                return
+            }
+            const resumeSeed = quickPickSeed === undefined ? '' : ` --seed ${quickPickSeed}`
+            let numSent = args.skip
+            await sendAirdrop(lootery, chunks, (batch, index) => {
+                numSent += chunks[index].length
+                console.log(
+                    `Sent tickets #${batch.tokenIds[0]}-#${batch.tokenIds[batch.tokenIds.length - 1]}: ${batch.txHash} (resume with --skip ${numSent}${resumeSeed})`,
+                )
+            })
+        },
+    )
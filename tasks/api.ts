@@ -0,0 +1,68 @@
+import { task, types } from 'hardhat/config'
+import { once } from 'node:events'
+import { createApiServer } from '../services/api/ApiServer'
+import { Indexer } from '../services/indexer/Indexer'
+import { IndexerDatabase } from '../services/indexer/IndexerDatabase'
+import { getDeployedAddress } from './helpers'
+
+task('lootery:api', 'Serve a read-only HTTP API over indexed lottery data')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('db', 'Path to the SQLite database', 'indexer.sqlite')
+    .addOptionalParam('port', 'Port to listen on', 8080, types.int)
+    .addOptionalParam('fromBlock', 'Block to start indexing from', 0, types.int)
+    .addOptionalParam('confirmations', 'Number of blocks to stay behind the head', 0, types.int)
+    .addOptionalParam('interval', 'Seconds to wait between syncs', 15, types.int)
+    .addFlag('noIndex', 'Only serve the database, without running the indexer')
+    .setAction(
+        async (
+            args: {
+                factory?: string
+                db: string
+                port: number
+                fromBlock: number
+                confirmations: number
+                interval: number
+                noIndex: boolean
+            },
+            hre,
+        ) => {
+            const db = new IndexerDatabase(args.db)
+            const controller = new AbortController()
+            process.once('SIGINT', () => controller.abort())
+            process.once('SIGTERM', () => controller.abort())
+
+            const server = createApiServer({ db })
+            server.listen(args.port)
+            await once(server, 'listening')
+            console.log(`\x1B[33;1mServing API on port ${args.port}\x1B[0m`)
+            try {
+                if (args.noIndex) {
+                    await once(controller.signal, 'abort')
+                    return
+                }
+                const chainId = await hre.ethers.provider
+                    .getNetwork()
+                    .then((network) => network.chainId)
+                const factoryAddress =
+                    args.factory ||
+                    (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+                console.log(
+                    `\x1B[33;1mIndexing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`,
+                )
+                const indexer = new Indexer({
+                    provider: hre.ethers.provider,
+                    factory: factoryAddress,
+                    db,
+                    fromBlock: args.fromBlock,
+                    confirmations: args.confirmations,
+                })
+                await indexer.run(args.interval * 1000, controller.signal)
+            } finally {
+                server.close()
+                db.close()
+            }
+        },
+    )
@@ -0,0 +1,199 @@
+import { task } from 'hardhat/config'
+import { Contract, formatUnits, getAddress, isAddress, parseUnits } from 'ethers'
+import { load as loadYaml } from 'js-yaml'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import z from 'zod'
+import { connectLootery, connectLooteryFactory, looteryFactoryInterface } from '../sdk/contracts'
+import { LooteryCreateParams, validateInitConfig } from '../sdk/initConfig'
+import { computeJackpotOdds } from '../sdk/odds'
+import { ERC20_ABI, getDeployedAddress } from './helpers'
+
+const AddressSchema = z.string().refine(isAddress, 'Invalid address').transform(getAddress)
+/** Amount of prize tokens, in whole tokens, e.g. "0.1" */
+const AmountSchema = z.union([z.string(), z.number()]).transform(String)
+const UintSchema = z.number().int().nonnegative()
+
+const LaunchConfigSchema = z.object({
+    name: z.string().min(1),
+    symbol: z.string().min(1),
+    pickLength: UintSchema,
+    maxBallValue: UintSchema,
+    /** seconds */
+    gamePeriod: UintSchema,
+    ticketPrice: AmountSchema,
+    communityFeeBps: UintSchema,
+    prizeToken: AddressSchema,
+    /** seconds */
+    seedJackpotDelay: UintSchema,
+    seedJackpotMinValue: AmountSchema,
+    /** Beneficiaries to add after creation */
+    beneficiaries: z
+        .array(z.object({ address: AddressSchema, displayName: z.string().min(1) }))
+        .default([]),
+    /** Amount to seed the jackpot with after creation */
+    seedJackpot: AmountSchema.optional(),
+})
+type LaunchConfig = z.TypeOf<typeof LaunchConfigSchema>
+
+interface LaunchRecord {
+    address: string
+    txHash: string
+    blockNumber: number
+    /** ISO timestamp */
+    createdAt: string
+    factory: string
+    owner: string
+    config: LaunchConfig
+}
+
+async function readLaunchConfig(file: string) {
+    const contents = await fs.readFile(file, { encoding: 'utf-8' })
+    const raw = ['.yaml', '.yml'].includes(path.extname(file).toLowerCase())
+        ? loadYaml(contents)
+        : JSON.parse(contents)
+    return LaunchConfigSchema.parse(raw)
+}
+
+/** Append a record to the chain's record file */
+async function writeLaunchRecord(recordsDir: string, chainId: bigint, record: LaunchRecord) {
+    const file = path.resolve(recordsDir, `chain-${chainId}.json`)
+    let records: LaunchRecord[] = []
+    try {
+        records = JSON.parse(await fs.readFile(file, { encoding: 'utf-8' }))
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+    records.push(record)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(records, null, 4) + '\n', { encoding: 'utf-8' })
+    return file
+}
+
+task('lootery:create', 'Create (and configure) a lottery from a JSON/YAML config file')
+    .addParam('configFile', 'Path to the lottery config file (.json, .yaml or .yml)')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('recordsDir', 'Directory of per-chain launch records', 'lotteries')
+    .addFlag('dryRun', 'Only validate the config and simulate creation')
+    .setAction(
+        async (
+            args: { configFile: string; factory?: string; recordsDir: string; dryRun: boolean },
+            hre,
+        ) => {
+            const config = await readLaunchConfig(args.configFile)
+            const [signer] = await hre.ethers.getSigners()
+            const chainId = await hre.ethers.provider
+                .getNetwork()
+                .then((network) => network.chainId)
+            const factoryAddress =
+                args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+            const factory = connectLooteryFactory(factoryAddress, signer)
+            console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`)
+            console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+
+            const prizeToken = new Contract(config.prizeToken, ERC20_ABI, signer)
+            const [symbol, decimals]: [string, bigint] = await Promise.all([
+                prizeToken.symbol(),
+                prizeToken.decimals(),
+            ])
+            const params: LooteryCreateParams = {
+                name: config.name,
+                symbol: config.symbol,
+                pickLength: BigInt(config.pickLength),
+                maxBallValue: BigInt(config.maxBallValue),
+                gamePeriod: BigInt(config.gamePeriod),
+                ticketPrice: parseUnits(config.ticketPrice, decimals),
+                communityFeeBps: BigInt(config.communityFeeBps),
+                prizeToken: config.prizeToken,
+                seedJackpotDelay: BigInt(config.seedJackpotDelay),
+                seedJackpotMinValue: parseUnits(config.seedJackpotMinValue, decimals),
+            }
+            validateInitConfig(params)
+            const seedAmount =
+                config.seedJackpot !== undefined
+                    ? parseUnits(config.seedJackpot, decimals)
+                    : undefined
+            if (seedAmount !== undefined && seedAmount < params.seedJackpotMinValue) {
+                throw new Error(
+                    `seedJackpot must be at least seedJackpotMinValue (${config.seedJackpotMinValue} ${symbol})`,
+                )
+            }
+            if (seedAmount) {
+                const balance: bigint = await prizeToken.balanceOf(signer.address)
+                if (balance < seedAmount) {
+                    throw new Error(
+                        `Insufficient ${symbol} balance to seed the jackpot: ${formatUnits(balance, decimals)}`,
+                    )
+                }
+            }
+
+            const createArgs = [
+                params.name,
+                params.symbol,
+                params.pickLength,
+                params.maxBallValue,
+                params.gamePeriod,
+                params.ticketPrice,
+                params.communityFeeBps,
+                params.prizeToken,
+                params.seedJackpotDelay,
+                params.seedJackpotMinValue,
+            ] as const
+            const predictedAddress = await factory.computeNextAddress()
+            const odds = computeJackpotOdds(params.pickLength, params.maxBallValue)
+            console.log(`Lottery:        ${params.name} (${params.symbol})`)
+            console.log(`Address:        ${predictedAddress} (predicted)`)
+            console.log(`Pick:           ${params.pickLength} of ${params.maxBallValue}`)
+            console.log(`Jackpot odds:   1 in ${odds.toLocaleString('en-US')}`)
+            console.log(`Ticket price:   ${config.ticketPrice} ${symbol}`)
+            console.log(`Beneficiaries:  ${config.beneficiaries.length}`)
+            console.log(`Initial seed:   ${config.seedJackpot ?? 0} ${symbol}`)
+
+            await factory.create.staticCall(...createArgs)
+            if (args.dryRun) {
+                console.log('[dry run] Simulated creation successfully; not sending')
+                return
+            }
+
+            const receipt = await factory.create(...createArgs).then((tx) => tx.wait())
+            const launched = receipt!.logs
+                .map((log) => looteryFactoryInterface.parseLog(log))
+                .find((event) => event?.name === 'LooteryLaunched')
+            if (!launched) {
+                throw new Error(`No LooteryLaunched event in ${receipt!.hash}`)
+            }
+            const address: string = launched.args.looteryProxy
+            if (address !== predictedAddress) {
+                // Someone else created a lottery in the meantime
+                console.warn(`Lottery was deployed at ${address}, not ${predictedAddress}`)
+            }
+            console.log(`Created lottery at ${address}: ${receipt!.hash}`)
+
+            const lootery = connectLootery(address, signer)
+            for (const { address: beneficiary, displayName } of config.beneficiaries) {
+                await lootery.setBeneficiary(beneficiary, displayName, true).then((tx) => tx.wait())
+                console.log(`Added beneficiary ${displayName} (${beneficiary})`)
+            }
+            if (seedAmount) {
+                await prizeToken.approve(address, seedAmount).then((tx) => tx.wait())
+                await lootery.seedJackpot(seedAmount).then((tx) => tx.wait())
+                console.log(`Seeded jackpot with ${config.seedJackpot} ${symbol}`)
+            }
+
+            const block = await receipt!.getBlock()
+            const recordFile = await writeLaunchRecord(args.recordsDir, chainId, {
+                address,
+                txHash: receipt!.hash,
+                blockNumber: receipt!.blockNumber,
+                createdAt: new Date(block.timestamp * 1000).toISOString(),
+                factory: factoryAddress,
+                owner: signer.address,
+                config,
+            })
+            console.log(`Recorded launch in ${recordFile}`)
+            return address
+        },
+    )
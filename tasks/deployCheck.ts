@@ -0,0 +1,84 @@
+import { task } from 'hardhat/config'
+import { Contract, ZeroAddress } from 'ethers'
+import { connectLooteryFactory } from '../sdk/contracts'
+import { MANIFEST_PATH, getNetworkManifest, readManifest } from '../scripts/manifest'
+import { getDeployedAddress } from './helpers'
+
+/** Ignition future ids of the LooteryETHAdapter, newest first */
+const ETH_ADAPTER_FUTURE_IDS = [
+    'LooteryETHAdapterV1_5_0#LooteryETHAdapter',
+    'LooteryETHAdapter#LooteryETHAdapter',
+]
+
+interface DeploymentCheck {
+    name: string
+    expected: string
+    actual: string
+    ok: boolean
+}
+
+task('deploy:check', 'Verify the deployment manifest against on-chain state')
+    .addOptionalParam('manifest', 'Path to the deployment manifest', MANIFEST_PATH)
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam(
+        'ethAdapter',
+        'Address of the LooteryETHAdapter (defaults to the ignition deployment)',
+    )
+    .setAction(async (args: { manifest: string; factory?: string; ethAdapter?: string }, hre) => {
+        const { provider } = hre.ethers
+        const chainId = await provider.getNetwork().then((network) => network.chainId)
+        const network = getNetworkManifest(chainId, readManifest(args.manifest))
+        const factoryAddress =
+            args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+        console.log(`\x1B[33;1mChecking ${network.name} (chain ${chainId})\x1B[0m`)
+        console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`)
+
+        const checks: DeploymentCheck[] = []
+        const check = (name: string, expected: string, actual: string) => {
+            checks.push({ name, expected, actual, ok: expected === actual })
+        }
+        const factory = connectLooteryFactory(factoryAddress, provider)
+        if (network.randomiser) {
+            check('randomiser', network.randomiser, await factory.getRandomiser())
+        }
+        check('feeRecipient', network.feeRecipient ?? ZeroAddress, await factory.getFeeRecipient())
+        if (network.owner) {
+            const isAdmin = await factory.hasRole(await factory.DEFAULT_ADMIN_ROLE(), network.owner)
+            check(`owner ${network.owner} is admin`, 'true', String(isAdmin))
+        }
+        if (network.weth) {
+            let ethAdapterAddress = args.ethAdapter
+            for (const futureId of ETH_ADAPTER_FUTURE_IDS) {
+                if (ethAdapterAddress) break
+                ethAdapterAddress = await getDeployedAddress(chainId, futureId).catch(
+                    () => undefined,
+                )
+            }
+            if (ethAdapterAddress) {
+                const ethAdapter = new Contract(
+                    ethAdapterAddress,
+                    ['function wrappedToken() view returns (address)'],
+                    provider,
+                )
+                check('weth', network.weth, await ethAdapter.wrappedToken())
+            } else {
+                console.warn('No LooteryETHAdapter deployment found; skipping weth check')
+            }
+        }
+
+        for (const { name, expected, actual, ok } of checks) {
+            console.log(
+                ok
+                    ? `\x1B[32;1m✓ ${name}: ${actual}\x1B[0m`
+                    : `\x1B[31;1m✗ ${name}: expected ${expected}, got ${actual}\x1B[0m`,
+            )
+        }
+        const failures = checks.filter((c) => !c.ok).length
+        if (failures > 0) {
+            throw new Error(`${failures} deployment check(s) failed on ${network.name}`)
+        }
+        return checks
+    })
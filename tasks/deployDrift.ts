@@ -0,0 +1,79 @@
+import { task, types } from 'hardhat/config'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { auditDeployment, readIgnitionDeployment } from '../scripts/drift'
+import { MANIFEST_PATH, getNetworkManifest, readManifest } from '../scripts/manifest'
+
+task('deploy:drift', 'Audit an ignition deployment for drift against on-chain state')
+    .addOptionalParam(
+        'deployment',
+        'Ignition deployment directory (defaults to ignition/deployments/chain-${chainId})',
+    )
+    .addOptionalParam('manifest', 'Deployment manifest with expected values', MANIFEST_PATH)
+    .addOptionalParam(
+        'fromBlock',
+        'Block to scan for admin role grants from (defaults to the factory deployment block)',
+        undefined,
+        types.int,
+    )
+    .addOptionalParam('maxBlockRange', 'Maximum block range of eth_getLogs', 10_000, types.int)
+    .addOptionalParam('out', 'Write the JSON drift report to this file')
+    .setAction(
+        async (
+            args: {
+                deployment?: string
+                manifest: string
+                fromBlock?: number
+                maxBlockRange: number
+                out?: string
+            },
+            hre,
+        ) => {
+            const { provider } = hre.ethers
+            const chainId = await provider.getNetwork().then((network) => network.chainId)
+            const deploymentDir =
+                args.deployment ||
+                path.resolve(__dirname, `../ignition/deployments/chain-${chainId}`)
+            const deployment = await readIgnitionDeployment(deploymentDir)
+            let expected = {}
+            try {
+                const { owner, feeRecipient, randomiser } = getNetworkManifest(
+                    chainId,
+                    readManifest(args.manifest),
+                )
+                expected = { owner, feeRecipient, randomiser }
+            } catch (err) {
+                console.warn(`Not checking manifest values: ${(err as Error).message}`)
+            }
+            console.log(`\x1B[33;1mAuditing ${deploymentDir} on chain ${chainId}\x1B[0m`)
+
+            const report = await auditDeployment(provider, deployment, {
+                expected,
+                fromBlock: args.fromBlock,
+                maxBlockRange: args.maxBlockRange,
+            })
+            const json =
+                JSON.stringify(
+                    report,
+                    (_, value) => (typeof value === 'bigint' ? String(value) : value),
+                    4,
+                ) + '\n'
+            if (args.out) {
+                await fs.writeFile(args.out, json, { encoding: 'utf-8' })
+                console.log(`Wrote drift report to ${args.out}`)
+            } else {
+                console.log(json)
+            }
+
+            for (const { kind, subject, expected, actual } of report.drift) {
+                console.log(
+                    `\x1B[31;1m✗ ${kind} ${subject}: expected ${expected ?? '-'}, got ${actual ?? '-'}\x1B[0m`,
+                )
+            }
+            if (report.drift.length > 0) {
+                throw new Error(`Detected ${report.drift.length} drift(s) on chain ${chainId}`)
+            }
+            console.log('\x1B[32;1m✓ No drift detected\x1B[0m')
+            return report
+        },
+    )
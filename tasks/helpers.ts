@@ -0,0 +1,31 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/** Subset of the ERC20 ABI used by tasks */
+export const ERC20_ABI = [
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address) view returns (uint256)',
+    'function allowance(address, address) view returns (uint256)',
+    'function approve(address, uint256) returns (bool)',
+]
+
+/**
+ * Read an address recorded by hardhat-ignition for a chain
+ * @param chainId Chain id
+ * @param futureId Ignition future id, e.g. `LooteryFactory#ERC1967Proxy`
+ */
+export async function getDeployedAddress(chainId: bigint, futureId: string) {
+    const deployedAddressesJson = await fs.readFile(
+        path.resolve(__dirname, `../ignition/deployments/chain-${chainId}/deployed_addresses.json`),
+        {
+            encoding: 'utf-8',
+        },
+    )
+    const deployedAddresses = JSON.parse(deployedAddressesJson) as Record<string, `0x${string}`>
+    const address = deployedAddresses[futureId]
+    if (!address) {
+        throw new Error(`No deployment of ${futureId} recorded for chain ${chainId}`)
+    }
+    return address
+}
@@ -0,0 +1,19 @@
+import './winningPick'
+import './keeper'
+import './notifier'
+import './indexer'
+import './api'
+import './relayer'
+import './preview'
+import './operator'
+import './airdrop'
+import './portfolio'
+import './create'
+import './odds'
+import './simulate'
+import './deployCheck'
+import './deployDrift'
+import './storageLayout'
+import './safe'
+import './release'
+import './renderer'
@@ -0,0 +1,56 @@
+import { task, types } from 'hardhat/config'
+import { Indexer } from '../services/indexer/Indexer'
+import { IndexerDatabase } from '../services/indexer/IndexerDatabase'
+import { getDeployedAddress } from './helpers'
+
+task('lootery:index', 'Index events of all lotteries of a factory into a SQLite database')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('db', 'Path to the SQLite database', 'indexer.sqlite')
+    .addOptionalParam('fromBlock', 'Block to start indexing from', 0, types.int)
+    .addOptionalParam('confirmations', 'Number of blocks to stay behind the head', 0, types.int)
+    .addOptionalParam('interval', 'Seconds to wait between syncs', 15, types.int)
+    .addFlag('once', 'Sync once and exit')
+    .setAction(
+        async (
+            args: {
+                factory?: string
+                db: string
+                fromBlock: number
+                confirmations: number
+                interval: number
+                once: boolean
+            },
+            hre,
+        ) => {
+            const chainId = await hre.ethers.provider
+                .getNetwork()
+                .then((network) => network.chainId)
+            const factoryAddress =
+                args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+            console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`)
+
+            const db = new IndexerDatabase(args.db)
+            const indexer = new Indexer({
+                provider: hre.ethers.provider,
+                factory: factoryAddress,
+                db,
+                fromBlock: args.fromBlock,
+                confirmations: args.confirmations,
+            })
+            try {
+                if (args.once) {
+                    console.log(`Indexed up to block ${await indexer.sync()}`)
+                    return
+                }
+                const controller = new AbortController()
+                process.once('SIGINT', () => controller.abort())
+                process.once('SIGTERM', () => controller.abort())
+                await indexer.run(args.interval * 1000, controller.signal)
+            } finally {
+                db.close()
+            }
+        },
+    )
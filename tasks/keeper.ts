@@ -0,0 +1,66 @@
+import { task, types } from 'hardhat/config'
+import { connectLooteryFactory, connectLooterySubscriptions } from '../sdk/contracts'
+import { Keeper } from '../services/keeper/Keeper'
+import { getDeployedAddress } from './helpers'
+
+task('lootery:keeper', 'Run a keeper that draws (and force-redraws) all lotteries of a factory')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam(
+        'subscriptions',
+        'Address of a LooterySubscriptions whose subscriptions should be entered into each game',
+    )
+    .addOptionalParam('stateFile', 'Where to persist keeper state', 'keeper-state.json')
+    .addOptionalParam('fromBlock', 'Block to start discovering lotteries from', 0, types.int)
+    .addOptionalParam('interval', 'Seconds to wait between ticks', 60, types.int)
+    .addOptionalParam(
+        'requestPriceMultiplier',
+        'Multiplier applied to the quoted VRF request price',
+        2,
+        types.int,
+    )
+    .addFlag('once', 'Tick once and exit')
+    .setAction(
+        async (
+            args: {
+                factory?: string
+                subscriptions?: string
+                stateFile: string
+                fromBlock: number
+                interval: number
+                requestPriceMultiplier: number
+                once: boolean
+            },
+            hre,
+        ) => {
+            const [signer] = await hre.ethers.getSigners()
+            const chainId = await hre.ethers.provider
+                .getNetwork()
+                .then((network) => network.chainId)
+            const factoryAddress =
+                args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+            console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`)
+            console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+
+            const keeper = new Keeper({
+                factory: connectLooteryFactory(factoryAddress, signer),
+                signer,
+                subscriptions: args.subscriptions
+                    ? connectLooterySubscriptions(args.subscriptions, signer)
+                    : undefined,
+                stateFile: args.stateFile,
+                fromBlock: args.fromBlock,
+                requestPriceMultiplier: BigInt(args.requestPriceMultiplier),
+            })
+            if (args.once) {
+                await keeper.tick()
+                return
+            }
+            const controller = new AbortController()
+            process.once('SIGINT', () => controller.abort())
+            process.once('SIGTERM', () => controller.abort())
+            await keeper.run(args.interval * 1000, controller.signal)
+        },
+    )
@@ -0,0 +1,106 @@
+import { task, types } from 'hardhat/config'
+import fs from 'node:fs/promises'
+import { connectLooteryFactory } from '../sdk/contracts'
+import { Notifier } from '../services/notifier/Notifier'
+import { ConsoleSink, EmailSink, NotificationSink, WebhookSink } from '../services/notifier/sinks'
+import { SmtpStandIn } from '../services/notifier/smtp'
+import { getDeployedAddress } from './helpers'
+
+task('lootery:notifier', 'Remind winners of all lotteries of a factory to claim in time')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('stateFile', 'Where to persist notifier state', 'notifier-state.json')
+    .addOptionalParam('fromBlock', 'Block to start scanning from', 0, types.int)
+    .addOptionalParam('interval', 'Seconds to wait between ticks', 60, types.int)
+    .addOptionalParam(
+        'reminders',
+        'Comma-separated seconds before the claim deadline at which to remind',
+        '86400,3600',
+    )
+    .addOptionalParam('webhook', 'URL to POST notifications to as JSON')
+    .addOptionalParam(
+        'recipients',
+        'JSON file mapping owner addresses to email addresses; enables email',
+    )
+    .addOptionalParam('smtpHost', 'SMTP server to send email through', '127.0.0.1')
+    .addOptionalParam('smtpPort', 'Port of the SMTP server', 2525, types.int)
+    .addOptionalParam('emailFrom', 'Sender address of emails', 'lootery@localhost')
+    .addFlag('smtpStandIn', 'Run a local SMTP stand-in that logs emails instead of sending them')
+    .addFlag('once', 'Tick once and exit')
+    .setAction(
+        async (
+            args: {
+                factory?: string
+                stateFile: string
+                fromBlock: number
+                interval: number
+                reminders: string
+                webhook?: string
+                recipients?: string
+                smtpHost: string
+                smtpPort: number
+                emailFrom: string
+                smtpStandIn: boolean
+                once: boolean
+            },
+            hre,
+        ) => {
+            const chainId = await hre.ethers.provider
+                .getNetwork()
+                .then((network) => network.chainId)
+            const factoryAddress =
+                args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+            console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`)
+
+            const sinks: NotificationSink[] = [new ConsoleSink()]
+            if (args.webhook) {
+                sinks.push(new WebhookSink({ url: args.webhook }))
+            }
+            let standIn: SmtpStandIn | undefined
+            if (args.smtpStandIn) {
+                standIn = new SmtpStandIn((mail) =>
+                    console.log(`\x1B[32;1mSMTP stand-in received mail:\x1B[0m\n${mail.data}`),
+                )
+                await standIn.listen(args.smtpPort, args.smtpHost)
+                console.log(`SMTP stand-in listening on ${args.smtpHost}:${args.smtpPort}`)
+            }
+            if (args.recipients) {
+                const recipients = JSON.parse(
+                    await fs.readFile(args.recipients, { encoding: 'utf-8' }),
+                ) as Record<string, string>
+                sinks.push(
+                    new EmailSink({
+                        host: args.smtpHost,
+                        port: args.smtpPort,
+                        from: args.emailFrom,
+                        recipients,
+                    }),
+                )
+            }
+            console.log(
+                `\x1B[33;1mSending notifications via: ${sinks.map((sink) => sink.name).join(', ')}\x1B[0m`,
+            )
+
+            const notifier = new Notifier({
+                factory: connectLooteryFactory(factoryAddress, hre.ethers.provider),
+                provider: hre.ethers.provider,
+                sinks,
+                stateFile: args.stateFile,
+                fromBlock: args.fromBlock,
+                reminders: args.reminders.split(',').map((seconds) => Number(seconds.trim())),
+            })
+            try {
+                if (args.once) {
+                    return await notifier.tick()
+                }
+                const controller = new AbortController()
+                process.once('SIGINT', () => controller.abort())
+                process.once('SIGTERM', () => controller.abort())
+                await notifier.run(args.interval * 1000, controller.signal)
+            } finally {
+                await standIn?.close()
+            }
+        },
+    )
@@ -0,0 +1,155 @@
+import { task, types } from 'hardhat/config'
+import { Contract, formatUnits, parseUnits } from 'ethers'
+import { connectLootery } from '../sdk/contracts'
+import {
+    OddsParams,
+    computeConsolationShare,
+    computeExpectedValue,
+    computeFeeSplit,
+    computeJackpotOdds,
+    computeRolloverStats,
+    readOddsParams,
+} from '../sdk/odds'
+import { ERC20_ABI } from './helpers'
+
+task('lootery:odds', 'Compute odds & expected value of a live or hypothetical lottery')
+    .addOptionalParam('lootery', 'Address of a live lottery to read parameters from')
+    .addOptionalParam('pickLength', 'Number of balls in a pick', undefined, types.int)
+    .addOptionalParam('maxBallValue', 'Maximum value of a ball', undefined, types.int)
+    .addOptionalParam('ticketPrice', 'Ticket price, in whole prize tokens')
+    .addOptionalParam('communityFeeBps', 'Community fee share, in bps', undefined, types.int)
+    .addOptionalParam('gamePeriod', 'Game period, in seconds', undefined, types.int)
+    .addOptionalParam('jackpot', 'Jackpot, in whole prize tokens')
+    .addOptionalParam('ticketsPerGame', 'Tickets sold per game', undefined, types.int)
+    .addOptionalParam('decimals', 'Decimals of a hypothetical prize token', 18, types.int)
+    .addFlag('protocolFee', 'Whether a hypothetical lottery pays the protocol fee')
+    .setAction(
+        async (
+            args: {
+                lootery?: string
+                pickLength?: number
+                maxBallValue?: number
+                ticketPrice?: string
+                communityFeeBps?: number
+                gamePeriod?: number
+                jackpot?: string
+                ticketsPerGame?: number
+                decimals: number
+                protocolFee: boolean
+            },
+            hre,
+        ) => {
+            let decimals = BigInt(args.decimals)
+            let symbol = 'tokens'
+            let live: Awaited<ReturnType<typeof readOddsParams>> | undefined
+            if (args.lootery) {
+                const lootery = connectLootery(args.lootery, hre.ethers.provider)
+                live = await readOddsParams(lootery)
+                const prizeToken = new Contract(
+                    await lootery.prizeToken(),
+                    ERC20_ABI,
+                    hre.ethers.provider,
+                )
+                ;[symbol, decimals] = await Promise.all([
+                    prizeToken.symbol(),
+                    prizeToken.decimals(),
+                ])
+            }
+
+            // Hypothetical parameters override live ones
+            const resolve = (
+                value: bigint | undefined,
+                liveValue: bigint | undefined,
+                name: string,
+            ) => {
+                const resolved = value ?? liveValue
+                if (resolved === undefined) {
+                    throw new Error(`--${name} is required without --lootery`)
+                }
+                return resolved
+            }
+            const toBigInt = (value?: number) => (value === undefined ? undefined : BigInt(value))
+            const params: OddsParams = {
+                pickLength: resolve(
+                    toBigInt(args.pickLength),
+                    live?.params.pickLength,
+                    'pick-length',
+                ),
+                maxBallValue: resolve(
+                    toBigInt(args.maxBallValue),
+                    live?.params.maxBallValue,
+                    'max-ball-value',
+                ),
+                ticketPrice: resolve(
+                    args.ticketPrice !== undefined
+                        ? parseUnits(args.ticketPrice, decimals)
+                        : undefined,
+                    live?.params.ticketPrice,
+                    'ticket-price',
+                ),
+                communityFeeBps: resolve(
+                    toBigInt(args.communityFeeBps),
+                    live?.params.communityFeeBps,
+                    'community-fee-bps',
+                ),
+                hasProtocolFee: live ? live.params.hasProtocolFee : args.protocolFee,
+                gamePeriod: resolve(
+                    toBigInt(args.gamePeriod),
+                    live?.params.gamePeriod,
+                    'game-period',
+                ),
+            }
+            const jackpot =
+                args.jackpot !== undefined
+                    ? parseUnits(args.jackpot, decimals)
+                    : (live?.state.jackpot ?? 0n)
+            const ticketsPerGame = resolve(
+                toBigInt(args.ticketsPerGame),
+                live?.state.ticketsSold,
+                'tickets-per-game',
+            )
+            const format = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`
+
+            const odds = computeJackpotOdds(params.pickLength, params.maxBallValue)
+            const fees = computeFeeSplit(
+                params.ticketPrice,
+                params.communityFeeBps,
+                params.hasProtocolFee,
+            )
+            // The current game's other tickets share the pot with this one
+            const ev = computeExpectedValue(
+                params,
+                jackpot,
+                ticketsPerGame > 0n ? ticketsPerGame - 1n : 0n,
+            )
+            const rollover = computeRolloverStats(params, ticketsPerGame)
+            // If the lottery died now, the pot would be shared by all outstanding tickets
+            const consolationShare = computeConsolationShare(
+                jackpot + (live?.state.unclaimedPayouts ?? 0n),
+                live ? live.state.totalSupply : ticketsPerGame,
+            )
+
+            console.log(`Pick:                 ${params.pickLength} of ${params.maxBallValue}`)
+            console.log(
+                `Jackpot odds:         1 in ${odds.toLocaleString('en-US')} (p = ${ev.winProbability.toExponential(4)})`,
+            )
+            console.log(`Ticket price:         ${format(params.ticketPrice)}`)
+            console.log(`  -> community fee:   ${format(fees.communityFee)}`)
+            console.log(`  -> protocol fee:    ${format(fees.protocolFee)}`)
+            console.log(`  -> jackpot:         ${format(fees.jackpotShare)}`)
+            console.log(`Jackpot:              ${format(jackpot)}`)
+            console.log(`Tickets per game:     ${ticketsPerGame}`)
+            console.log(`Expected prize:       ${format(ev.expectedPrize)}`)
+            console.log(`Expected value:       ${format(ev.expectedValue)}`)
+            console.log(`Return to player:     ${(ev.returnToPlayer * 100).toFixed(4)}%`)
+            console.log(
+                `P(jackpot won/game):  ${(rollover.jackpotWonProbability * 100).toFixed(4)}%`,
+            )
+            console.log(`Expected rollovers:   ${(rollover.expectedGames - 1).toFixed(2)} games`)
+            console.log(
+                `Expected duration:    ${(rollover.expectedDuration / 86400).toFixed(2)} days`,
+            )
+            console.log(`Jackpot growth/game:  ${format(rollover.jackpotGrowthPerGame)}`)
+            console.log(`Consolation share:    ${format(consolationShare)}`)
+        },
+    )
@@ -0,0 +1,370 @@
+import { task, types } from 'hardhat/config'
+import type { HardhatRuntimeEnvironment } from 'hardhat/types'
+import {
+    Contract,
+    ContractTransaction,
+    Signer,
+    ZeroAddress,
+    formatEther,
+    formatUnits,
+    getAddress,
+    parseUnits,
+} from 'ethers'
+import type { Lootery } from '../typechain-types'
+import { connectLootery } from '../sdk/contracts'
+import { decodeLooteryError } from '../sdk/errors'
+import { GameState } from '../sdk/GameState'
+import { LooteryClient } from '../sdk/LooteryClient'
+import { ERC20_ABI } from './helpers'
+
+interface OperatorArgs {
+    lootery: string
+    dryRun: boolean
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, address: string) {
+    const [signer] = await hre.ethers.getSigners()
+    console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+    return { signer, lootery: connectLootery(address, signer) }
+}
+
+/** Refuse to continue unless the signer owns the lottery */
+async function assertOwner(lootery: Lootery, signer: Signer) {
+    const [owner, signerAddress] = await Promise.all([lootery.owner(), signer.getAddress()])
+    if (owner !== signerAddress) {
+        throw new Error(`Signer ${signerAddress} is not the owner of the lottery (${owner})`)
+    }
+}
+
+/** Refuse to continue unless the current game is in the expected state */
+async function assertState(lootery: Lootery, expected: GameState) {
+    const { state } = await lootery.currentGame()
+    if (Number(state) !== expected) {
+        throw new Error(
+            `Lottery must be in ${GameState[expected]} state, but is in ${GameState[Number(state)]} state`,
+        )
+    }
+}
+
+/**
+ * Simulate a transaction via `eth_call` and, unless this is a dry run, send it.
+ * @param signer Signer that would send the transaction
+ * @param tx Populated transaction
+ * @param description What the transaction does, for logging
+ * @param dryRun Only simulate
+ */
+async function execute(
+    signer: Signer,
+    tx: ContractTransaction,
+    description: string,
+    dryRun: boolean,
+) {
+    try {
+        await signer.call(tx)
+    } catch (err) {
+        const decoded = decodeLooteryError(err)
+        if (decoded) {
+            throw new Error(
+                `Simulation of ${description} reverted with ${decoded.name}(${decoded.args.join(', ')})`,
+            )
+        }
+        throw err
+    }
+    if (dryRun) {
+        console.log(`[dry run] Simulated ${description} successfully; not sending`)
+        return
+    }
+    const response = await signer.sendTransaction(tx)
+    console.log(`Sent ${description}: ${response.hash}`)
+    await response.wait()
+    console.log(`Confirmed ${description}`)
+}
+
+task('lootery:status', 'Show the configuration and current state of a lottery')
+    .addParam('lootery', 'Address of the lottery')
+    .setAction(async (args: { lootery: string }, hre) => {
+        const client = LooteryClient.connect(args.lootery, hre.ethers.provider)
+        const lootery = client.contract
+        const [
+            config,
+            game,
+            beneficiaries,
+            owner,
+            accruedFees,
+            balance,
+            request,
+            renderer,
+            maxOwnerPicks,
+        ] = await Promise.all([
+            client.getConfig(),
+            client.getGameState(),
+            client.getBeneficiaries(),
+            lootery.owner(),
+            lootery.accruedCommunityFees(),
+            hre.ethers.provider.getBalance(args.lootery),
+            lootery.randomnessRequest(),
+            lootery.ticketSVGRenderer(),
+            lootery.maxOwnerPicksPerGame(),
+        ])
+        const prizeToken = new Contract(config.prizeToken, ERC20_ABI, hre.ethers.provider)
+        const [symbol, decimals] = await Promise.all([prizeToken.symbol(), prizeToken.decimals()])
+        const format = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`
+
+        console.log(`Lottery:           ${config.name} (${config.symbol})`)
+        console.log(`Owner:             ${owner}`)
+        console.log(`Pick:              ${config.pickLength} of ${config.maxBallValue}`)
+        console.log(`Ticket price:      ${format(config.ticketPrice)}`)
+        console.log(`Community fee:     ${Number(config.communityFeeBps) / 100}%`)
+        console.log(`Game period:       ${config.gamePeriod}s`)
+        console.log(`Ticket renderer:   ${renderer}`)
+        console.log(`Game:              ${game.gameId} (${GameState[game.state]})`)
+        console.log(`Tickets sold:      ${game.ticketsSold}`)
+        console.log(
+            `Free tickets:      ${await lootery.numOwnerPicks(game.gameId)} of ${maxOwnerPicks}`,
+        )
+        console.log(`Deadline:          ${new Date(Number(game.deadline) * 1000).toISOString()}`)
+        console.log(`Jackpot:           ${format(game.jackpot)}`)
+        console.log(`Unclaimed payouts: ${format(game.unclaimedPayouts)}`)
+        console.log(`Accrued fees:      ${format(accruedFees)}`)
+        console.log(`ETH balance:       ${formatEther(balance)} ETH`)
+        if (request.requestId !== 0n) {
+            console.log(
+                `VRF request:       ${request.requestId} (since ${new Date(Number(request.timestamp) * 1000).toISOString()})`,
+            )
+        }
+        console.log(`Apocalypse mode:   ${game.isApocalypseMode}`)
+        console.log(`Beneficiaries:     ${beneficiaries.length === 0 ? 'none' : ''}`)
+        for (const { address, displayName } of beneficiaries) {
+            console.log(`  - ${displayName} (${address})`)
+        }
+    })
+
+task('lootery:beneficiary:add', 'Add (or rename) a beneficiary of a lottery')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('beneficiary', 'Address of the beneficiary')
+    .addParam('displayName', 'Display name of the beneficiary')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs & { beneficiary: string; displayName: string }, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        if (!args.displayName) {
+            throw new Error('Display name must not be empty')
+        }
+        const currentName = await lootery.beneficiaryDisplayNames(args.beneficiary)
+        if (currentName === args.displayName) {
+            console.warn(`Beneficiary ${args.beneficiary} is already set as "${currentName}"`)
+            return
+        }
+        await execute(
+            signer,
+            await lootery.setBeneficiary.populateTransaction(
+                args.beneficiary,
+                args.displayName,
+                true,
+            ),
+            `setBeneficiary(${args.beneficiary}, "${args.displayName}", true)`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:beneficiary:remove', 'Remove a beneficiary of a lottery')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('beneficiary', 'Address of the beneficiary')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs & { beneficiary: string }, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        const [addresses] = await lootery.beneficiaries()
+        if (!addresses.includes(getAddress(args.beneficiary))) {
+            console.warn(`${args.beneficiary} is not a beneficiary`)
+            return
+        }
+        await execute(
+            signer,
+            await lootery.setBeneficiary.populateTransaction(args.beneficiary, '', false),
+            `setBeneficiary(${args.beneficiary}, "", false)`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:kill', 'Make the current game the last game of a lottery (apocalypse mode)')
+    .addParam('lootery', 'Address of the lottery')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        if (await lootery.isApocalypseMode()) {
+            console.warn('Apocalypse mode is already active')
+            return
+        }
+        await assertState(lootery, GameState.Purchase)
+        await execute(signer, await lootery.kill.populateTransaction(), 'kill()', args.dryRun)
+    })
+
+task('lootery:withdraw-fees', 'Withdraw accrued community fees of a lottery to the owner')
+    .addParam('lootery', 'Address of the lottery')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        const accruedFees = await lootery.accruedCommunityFees()
+        if (accruedFees === 0n) {
+            console.warn('No accrued fees to withdraw')
+            return
+        }
+        await execute(
+            signer,
+            await lootery.withdrawAccruedFees.populateTransaction(),
+            `withdrawAccruedFees() (${accruedFees})`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:rescue-eth', 'Withdraw the ETH (operational funds) of a lottery to the owner')
+    .addParam('lootery', 'Address of the lottery')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        const balance = await hre.ethers.provider.getBalance(args.lootery)
+        if (balance === 0n) {
+            console.warn('Lottery has no ETH balance')
+            return
+        }
+        const { state } = await lootery.currentGame()
+        if (Number(state) === GameState.DrawPending) {
+            console.warn('A draw is pending; withdrawing ETH may prevent a redraw')
+        }
+        await execute(
+            signer,
+            await lootery.rescueETH.populateTransaction(),
+            `rescueETH() (${formatEther(balance)} ETH)`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:rescue-tokens', 'Withdraw ERC20 tokens accidentally sent to a lottery')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('token', 'Address of the token to rescue')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs & { token: string }, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        if ((await lootery.prizeToken()) === getAddress(args.token)) {
+            throw new Error('The prize token cannot be rescued')
+        }
+        const token = new Contract(args.token, ERC20_ABI, hre.ethers.provider)
+        const balance: bigint = await token.balanceOf(args.lootery)
+        if (balance === 0n) {
+            console.warn(`Lottery has no balance of ${args.token}`)
+            return
+        }
+        await execute(
+            signer,
+            await lootery.rescueTokens.populateTransaction(args.token),
+            `rescueTokens(${args.token}) (${balance})`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:seed-jackpot', 'Add prize tokens to the jackpot of the current game')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('amount', 'Amount of prize tokens, in whole tokens (e.g. 1.5)')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs & { amount: string }, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertState(lootery, GameState.Purchase)
+        const prizeToken = new Contract(await lootery.prizeToken(), ERC20_ABI, signer)
+        const amount = parseUnits(args.amount, await prizeToken.decimals())
+        const [minValue, lastSeededAt, delay, latestBlock] = await Promise.all([
+            lootery.seedJackpotMinValue(),
+            lootery.jackpotLastSeededAt(),
+            lootery.seedJackpotDelay(),
+            hre.ethers.provider.getBlock('latest'),
+        ])
+        if (amount < minValue) {
+            throw new Error(`Amount must be at least ${minValue}, got ${amount}`)
+        }
+        if (BigInt(latestBlock!.timestamp) < lastSeededAt + delay) {
+            throw new Error(
+                `Jackpot was seeded recently; wait ${lastSeededAt + delay - BigInt(latestBlock!.timestamp)}s`,
+            )
+        }
+        const [balance, allowance]: bigint[] = await Promise.all([
+            prizeToken.balanceOf(signer.address),
+            prizeToken.allowance(signer.address, args.lootery),
+        ])
+        if (balance < amount) {
+            throw new Error(`Insufficient prize token balance: ${balance} < ${amount}`)
+        }
+        if (allowance < amount) {
+            if (args.dryRun) {
+                console.warn(
+                    `[dry run] Approval of ${amount} would be required; skipping simulation`,
+                )
+                return
+            }
+            await execute(
+                signer,
+                await prizeToken.approve.populateTransaction(args.lootery, amount),
+                `approve(${args.lootery}, ${amount})`,
+                false,
+            )
+        }
+        await execute(
+            signer,
+            await lootery.seedJackpot.populateTransaction(amount),
+            `seedJackpot(${amount})`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:set-renderer', 'Set the contract that renders ticket SVGs of a lottery')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('renderer', 'Address of the ITicketSVGRenderer')
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs & { renderer: string }, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        if (args.renderer === ZeroAddress) {
+            throw new Error('Renderer must not be the zero address')
+        }
+        if ((await hre.ethers.provider.getCode(args.renderer)) === '0x') {
+            throw new Error(`No contract deployed at ${args.renderer}`)
+        }
+        await execute(
+            signer,
+            await lootery.setTicketSVGRenderer.populateTransaction(args.renderer),
+            `setTicketSVGRenderer(${args.renderer})`,
+            args.dryRun,
+        )
+    })
+
+task('lootery:set-max-owner-picks', 'Set how many free tickets the owner may give out per game')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('maxPicks', 'Maximum number of free tickets per game', undefined, types.int)
+    .addFlag('dryRun', 'Only simulate the transaction')
+    .setAction(async (args: OperatorArgs & { maxPicks: number }, hre) => {
+        const { signer, lootery } = await connect(hre, args.lootery)
+        await assertOwner(lootery, signer)
+        await assertState(lootery, GameState.Purchase)
+        const [current, { id: gameId }] = await Promise.all([
+            lootery.maxOwnerPicksPerGame(),
+            lootery.currentGame(),
+        ])
+        if (BigInt(args.maxPicks) === current) {
+            console.warn(`Limit is already ${current}`)
+            return
+        }
+        if (BigInt(args.maxPicks) > current && (await lootery.gameData(gameId)).ticketsSold > 0n) {
+            throw new Error(
+                `Game ${gameId} has sold tickets; the limit can only be raised in the next game`,
+            )
+        }
+        await execute(
+            signer,
+            await lootery.setMaxOwnerPicksPerGame.populateTransaction(args.maxPicks),
+            `setMaxOwnerPicksPerGame(${args.maxPicks})`,
+            args.dryRun,
+        )
+    })
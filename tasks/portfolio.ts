@@ -0,0 +1,80 @@
+import { task, types } from 'hardhat/config'
+import { Contract, formatUnits } from 'ethers'
+import { GameState } from '../sdk/GameState'
+import { LooteryClient } from '../sdk/LooteryClient'
+import { claimPortfolio, scanPortfolio } from '../sdk/portfolio'
+import { ERC20_ABI } from './helpers'
+
+task('lootery:portfolio', 'List the tickets of a wallet and what they can claim')
+    .addParam('lootery', 'Address of the lottery')
+    .addOptionalParam('owner', 'Wallet to scan (defaults to the signer)')
+    .addOptionalParam('fromBlock', 'Block from which to scan for tickets', 0, types.int)
+    .addOptionalParam('maxBlockRange', 'Maximum block range of eth_getLogs', 10_000, types.int)
+    .addFlag('claim', 'Claim the winnings of all claimable tickets')
+    .addFlag('batch', 'Claim with as few batched transactions as possible')
+    .setAction(
+        async (
+            args: {
+                lootery: string
+                owner?: string
+                fromBlock: number
+                maxBlockRange: number
+                claim: boolean
+                batch: boolean
+            },
+            hre,
+        ) => {
+            const [signer] = await hre.ethers.getSigners()
+            const owner = args.owner ?? signer.address
+            const client = LooteryClient.connect(args.lootery, signer)
+            const portfolio = await scanPortfolio(client.contract, owner, {
+                fromBlock: args.fromBlock,
+                maxBlockRange: args.maxBlockRange,
+            })
+            const { prizeToken } = await client.getConfig()
+            const erc20 = new Contract(prizeToken, ERC20_ABI, hre.ethers.provider)
+            const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()])
+            const format = (value: bigint) => `${formatUnits(value, decimals)} ${symbol}`
+
+            console.log(
+                `\x1B[33;1m${owner} owns ${portfolio.tickets.length} ticket(s); current game ${portfolio.gameId} (${GameState[portfolio.state]})\x1B[0m`,
+            )
+            for (const ticket of portfolio.tickets) {
+                const claim =
+                    ticket.status === 'Claimable' || ticket.status === 'Locked'
+                        ? ` ${format(ticket.claimable)}${ticket.isConsolation ? ' (consolation)' : ''}`
+                        : ''
+                const prizeTier =
+                    ticket.prizeTierMatches === undefined
+                        ? ''
+                        : ` (prize tier: ${ticket.prizeTierMatches} matches)`
+                console.log(
+                    `  #${ticket.tokenId} game ${ticket.gameId} [${ticket.pick.join(', ')}]: ${ticket.status}${prizeTier}${claim}`,
+                )
+            }
+            console.log(`Total claimable: ${format(portfolio.totalClaimable)}`)
+
+            if (args.claim && portfolio.totalClaimable > 0n) {
+                if (owner !== signer.address) {
+                    console.log(`Claiming on behalf of ${owner}; winnings are sent to the owner`)
+                }
+                const results = await claimPortfolio(client, portfolio, undefined, {
+                    batch: args.batch,
+                })
+                for (const result of results) {
+                    if (result.status === 'claimed') {
+                        console.log(
+                            `\x1B[32;1mClaimed ${format(result.value!)} with #${result.tokenId}: ${result.txHash}\x1B[0m`,
+                        )
+                    } else if (result.status === 'skipped') {
+                        console.log(`Skipped #${result.tokenId}, which can't claim`)
+                    } else {
+                        console.log(
+                            `\x1B[31;1mFailed to claim with #${result.tokenId}: ${result.reason}\x1B[0m`,
+                        )
+                    }
+                }
+            }
+            return portfolio
+        },
+    )
@@ -0,0 +1,29 @@
+import { task, types } from 'hardhat/config'
+import { once } from 'node:events'
+import { createPreviewServer } from '../services/preview/PreviewServer'
+
+task(
+    'lootery:preview',
+    'Serve ticket metadata & images rendered off-chain, for previewing ticket art',
+)
+    .addOptionalParam('port', 'Port to listen on', 8081, types.int)
+    .setAction(async (args: { port: number }, hre) => {
+        const controller = new AbortController()
+        process.once('SIGINT', () => controller.abort())
+        process.once('SIGTERM', () => controller.abort())
+
+        const server = createPreviewServer({ provider: hre.ethers.provider })
+        server.listen(args.port)
+        await once(server, 'listening')
+        console.log(`\x1B[33;1mServing ticket previews on port ${args.port}\x1B[0m`)
+        console.log(`  http://localhost:${args.port}/lotteries/\${lootery}/tickets/\${tokenId}`)
+        console.log(
+            `  http://localhost:${args.port}/lotteries/\${lootery}/tickets/\${tokenId}/image.svg`,
+        )
+        console.log(`  http://localhost:${args.port}/render.svg?maxPick=36&pick=1,2,3,4,5`)
+        try {
+            await once(controller.signal, 'abort')
+        } finally {
+            server.close()
+        }
+    })
@@ -0,0 +1,52 @@
+import { task, types } from 'hardhat/config'
+import { once } from 'node:events'
+import { connectLooteryPurchaseRelay } from '../sdk/contracts'
+import { Relayer } from '../services/relayer/Relayer'
+import { createRelayerServer } from '../services/relayer/RelayerServer'
+import { getDeployedAddress } from './helpers'
+
+task('lootery:relayer', 'Serve a relayer that submits signed purchase orders, paying for gas')
+    .addParam('lotteries', 'Comma-separated addresses of the lotteries to relay orders for')
+    .addOptionalParam(
+        'relay',
+        'Address of the LooteryPurchaseRelay (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('port', 'Port to listen on', 8081, types.int)
+    .addOptionalParam('maxTickets', 'Maximum number of tickets per order', 10, types.int)
+    .setAction(
+        async (
+            args: {
+                lotteries: string
+                relay?: string
+                port: number
+                maxTickets: number
+            },
+            hre,
+        ) => {
+            const [signer] = await hre.ethers.getSigners()
+            const chainId = await hre.ethers.provider
+                .getNetwork()
+                .then((network) => network.chainId)
+            const relayAddress =
+                args.relay ||
+                (await getDeployedAddress(chainId, 'LooteryPurchaseRelay#LooteryPurchaseRelay'))
+            console.log(`\x1B[33;1mUsing LooteryPurchaseRelay deployed at: ${relayAddress}\x1B[0m`)
+            console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+
+            const relayer = new Relayer({
+                relay: connectLooteryPurchaseRelay(relayAddress, signer),
+                lotteries: args.lotteries.split(',').map((address) => address.trim()),
+                maxTicketsPerOrder: args.maxTickets,
+            })
+            const server = createRelayerServer({ relayer })
+            server.listen(args.port)
+            await once(server, 'listening')
+            console.log(`\x1B[33;1mRelaying orders on port ${args.port}\x1B[0m`)
+
+            const controller = new AbortController()
+            process.once('SIGINT', () => controller.abort())
+            process.once('SIGTERM', () => controller.abort())
+            await once(controller.signal, 'abort')
+            server.close()
+        },
+    )
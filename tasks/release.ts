@@ -0,0 +1,250 @@
+import { task } from 'hardhat/config'
+import { ZeroHash, getAddress, getBytes, hexlify } from 'ethers'
+import { connectLooteryFactory, looteryFactoryInterface } from '../sdk/contracts'
+import { createSafeBatch, encodeSafeTransaction, formatSafeBatch } from '../sdk/safe'
+import { ERC1967_IMPLEMENTATION_SLOT, getTypeAndVersion } from '../scripts/drift'
+import { getNetworkManifest } from '../scripts/manifest'
+import {
+    RELEASES_DIR,
+    RELEASE_CONTRACTS,
+    ReleaseEntry,
+    ReleaseError,
+    buildReleaseModule,
+    getReleaseModuleId,
+    isReleaseContract,
+    recordRelease,
+} from '../scripts/release'
+import { writeSafeBatch } from '../scripts/safe'
+import {
+    STORAGE_LAYOUTS_DIR,
+    assertStorageLayoutCompatible,
+    compareStorageLayouts,
+    compareVersions,
+    getBuildStorageLayout,
+    readSnapshot,
+    writeSnapshot,
+} from '../scripts/storageLayout'
+import { getDeployedAddress } from './helpers'
+
+task('release', 'Deploy a new Lootery or LooteryFactory implementation and point the factory at it')
+    .addParam('contract', `Contract to release (${Object.keys(RELEASE_CONTRACTS).join(' | ')})`)
+    .addParam('release', 'Version to release; must match the build of the contract')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('safe', 'Safe that administers the factory (defaults to the manifest owner)')
+    .addOptionalParam('changelog', 'Release changelog directory', RELEASES_DIR)
+    .addOptionalParam('layouts', 'Storage layouts directory', STORAGE_LAYOUTS_DIR)
+    .addOptionalParam('out', 'Output path of the Safe batch (defaults to safe-batches/)')
+    .addFlag('dryRun', 'Check the release without deploying anything')
+    .addFlag('noCompile', "Don't compile before releasing")
+    .addFlag('noVerify', "Don't verify the deployment on the block explorer")
+    .setAction(
+        async (
+            args: {
+                contract: string
+                release: string
+                factory?: string
+                safe?: string
+                changelog: string
+                layouts: string
+                out?: string
+                dryRun: boolean
+                noCompile: boolean
+                noVerify: boolean
+            },
+            hre,
+        ): Promise<ReleaseEntry | null> => {
+            const { contract, release: version } = args
+            if (!isReleaseContract(contract)) {
+                throw new ReleaseError(
+                    'UnknownContract',
+                    `Unknown contract ${contract}; expected one of ${Object.keys(RELEASE_CONTRACTS).join(', ')}`,
+                )
+            }
+            const futureId = `${getReleaseModuleId(contract, version)}#${contract}`
+            if (!args.noCompile) {
+                await hre.run('compile', { quiet: true })
+            }
+            // Catch a forgotten version bump before anything is deployed
+            const layout = await getBuildStorageLayout(hre.artifacts, contract)
+            if (layout.version !== version) {
+                throw new ReleaseError(
+                    'VersionMismatch',
+                    `The build of ${contract} is version ${layout.version}, not ${version}; bump its typeAndVersion()`,
+                )
+            }
+            const released = await readSnapshot(contract, version, args.layouts).catch(() => null)
+            if (released && compareStorageLayouts(released, layout).length > 0) {
+                throw new ReleaseError(
+                    'VersionMismatch',
+                    `${contract} ${version} was already released with a different storage layout; bump the version`,
+                )
+            }
+
+            const { provider } = hre.ethers
+            const chainId = await provider.getNetwork().then((network) => network.chainId)
+            const [signer] = await hre.ethers.getSigners()
+            const factoryAddress =
+                args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+            const factory = connectLooteryFactory(factoryAddress, signer)
+            console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factoryAddress}\x1B[0m`)
+            console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+
+            const previousImplementation =
+                contract === 'Lootery'
+                    ? await factory.getLooteryMasterCopy()
+                    : getAddress(
+                          hexlify(
+                              getBytes(
+                                  await provider.getStorage(
+                                      factoryAddress,
+                                      ERC1967_IMPLEMENTATION_SLOT,
+                                  ),
+                              ).slice(-20),
+                          ),
+                      )
+            const previousVersion =
+                (await getTypeAndVersion(provider, previousImplementation))?.split(' ').pop() ??
+                null
+            console.log(
+                `Current ${contract} implementation: ${previousImplementation} (${previousVersion ?? 'unknown version'})`,
+            )
+            if (previousVersion === version) {
+                console.log(
+                    `\x1B[33;1mNothing to do; ${contract} ${version} is already live\x1B[0m`,
+                )
+                return null
+            }
+            if (previousVersion && compareVersions(version, previousVersion) < 0) {
+                throw new ReleaseError(
+                    'Downgrade',
+                    `Refusing to downgrade ${contract} from ${previousVersion} to ${version}`,
+                )
+            }
+            if (previousVersion) {
+                await assertStorageLayoutCompatible(
+                    hre.artifacts,
+                    contract,
+                    previousVersion,
+                    args.layouts,
+                )
+            } else if (contract === 'LooteryFactory') {
+                throw new ReleaseError(
+                    'VersionMismatch',
+                    `Could not determine the version of the current LooteryFactory implementation`,
+                )
+            }
+
+            // Only the factory admin may set the master copy or upgrade; if the
+            // admin is a Safe, the update is written as a batch for its owners
+            let safe: string | null = null
+            if (!(await factory.hasRole(ZeroHash, signer.address))) {
+                safe = args.safe ?? null
+                if (!safe) {
+                    try {
+                        safe = getNetworkManifest(chainId).owner ?? null
+                    } catch (err) {
+                        console.warn((err as Error).message)
+                    }
+                }
+                if (
+                    !safe ||
+                    (await provider.getCode(safe)) === '0x' ||
+                    !(await factory.hasRole(ZeroHash, safe))
+                ) {
+                    throw new ReleaseError(
+                        'NotAdmin',
+                        `Neither the signer nor a Safe (${safe ?? 'none'}) is an admin of the factory`,
+                    )
+                }
+                console.log(
+                    `\x1B[33;1mFactory admin ${safe} is a contract; the update will be written as a Safe batch\x1B[0m`,
+                )
+            }
+            if (args.dryRun) {
+                console.log(
+                    `\x1B[32;1m${contract} ${previousVersion ?? 'unknown'} -> ${version} is ready to release as ${futureId}\x1B[0m`,
+                )
+                return null
+            }
+
+            const { implementation } = await hre.ignition.deploy(
+                buildReleaseModule(contract, version),
+            )
+            const implementationAddress = await implementation.getAddress()
+            console.log(`Deployed ${contract} implementation at: ${implementationAddress}`)
+            const typeAndVersion = await getTypeAndVersion(provider, implementationAddress)
+            if (typeAndVersion !== `${contract} ${version}`) {
+                throw new ReleaseError(
+                    'VersionMismatch',
+                    `Deployed implementation ${implementationAddress} reports "${typeAndVersion}", expected "${contract} ${version}"`,
+                )
+            }
+
+            const method = RELEASE_CONTRACTS[contract].update
+            const callArgs =
+                method === 'upgradeToAndCall'
+                    ? [implementationAddress, '0x']
+                    : [implementationAddress]
+            let update: ReleaseEntry['update']
+            if (safe) {
+                const batch = createSafeBatch({
+                    chainId,
+                    safe,
+                    name: `Release ${contract} ${version}`,
+                    transactions: [
+                        encodeSafeTransaction(
+                            factoryAddress,
+                            looteryFactoryInterface,
+                            method,
+                            callArgs,
+                        ),
+                    ],
+                })
+                console.log(formatSafeBatch(batch, { [factoryAddress]: 'LooteryFactory' }))
+                const file = await writeSafeBatch(batch, args.out)
+                console.log(`\x1B[32;1mWrote Safe batch to ${file}\x1B[0m`)
+                update = { kind: 'SafeBatch', safe: getAddress(safe), file }
+            } else {
+                const tx =
+                    method === 'upgradeToAndCall'
+                        ? await factory.upgradeToAndCall(implementationAddress, '0x')
+                        : await factory.setLooteryMasterCopy(implementationAddress)
+                await tx.wait(1)
+                console.log(`\x1B[32;1m${method}(${implementationAddress}): ${tx.hash}\x1B[0m`)
+                update = { kind: 'Transaction', hash: tx.hash }
+            }
+
+            if (!released) {
+                const file = await writeSnapshot(layout, args.layouts)
+                console.log(`\x1B[32;1mSnapshotted ${contract} ${version}: ${file}\x1B[0m`)
+            }
+            const entry: ReleaseEntry = {
+                contract,
+                version,
+                implementation: implementationAddress,
+                futureId,
+                factory: factoryAddress,
+                previous: { version: previousVersion, implementation: previousImplementation },
+                update,
+                releasedAt: new Date().toISOString(),
+            }
+            const file = await recordRelease(chainId, entry, args.changelog)
+            console.log(`\x1B[32;1mRecorded release in ${file}\x1B[0m`)
+
+            if (!args.noVerify && hre.network.name !== 'hardhat') {
+                await hre.run(
+                    {
+                        scope: 'ignition',
+                        task: 'verify',
+                    },
+                    {
+                        deploymentId: `chain-${chainId.toString()}`,
+                    },
+                )
+            }
+            return entry
+        },
+    )
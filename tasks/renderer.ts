@@ -0,0 +1,77 @@
+import { task } from 'hardhat/config'
+import { getAddress } from 'ethers'
+import { connectLootery } from '../sdk/contracts'
+import {
+    TICKET_THEMES,
+    buildThemedRendererModule,
+    getThemedRendererModuleId,
+    readTicketTheme,
+} from '../scripts/ticketTheme'
+
+task('lootery:deploy-renderer', 'Deploy a themed ticket renderer and switch lotteries to it')
+    .addParam(
+        'theme',
+        `Theme file (.json, .yaml or .yml) or built-in theme (${Object.keys(TICKET_THEMES).join(' | ')})`,
+    )
+    .addOptionalParam(
+        'lootery',
+        'Address of a lottery, or comma-separated addresses of lotteries, to switch to the renderer',
+    )
+    .addOptionalParam('safe', 'Safe that owns the lotteries not owned by the signer')
+    .addOptionalParam('out', 'Output path of the Safe batch (defaults to safe-batches/)')
+    .addFlag('dryRun', 'Only validate the theme and show what would be done')
+    .setAction(
+        async (
+            args: { theme: string; lootery?: string; safe?: string; out?: string; dryRun: boolean },
+            hre,
+        ) => {
+            const { provider } = hre.ethers
+            const [signer] = await hre.ethers.getSigners()
+            console.log(`\x1B[33;1mUsing signer: ${signer.address}\x1B[0m`)
+            const { name, theme } = await readTicketTheme(args.theme)
+            const moduleId = getThemedRendererModuleId(name, theme)
+            console.log(`Theme ${name}:`, theme)
+
+            // Lotteries owned by the signer are switched directly; the rest
+            // are switched by a Safe batch
+            const lotteries = args.lootery
+                ? args.lootery.split(',').map((address) => getAddress(address.trim()))
+                : []
+            const owned: string[] = []
+            const viaSafe: string[] = []
+            for (const address of lotteries) {
+                const owner = await connectLootery(address, provider).owner()
+                ;(owner === signer.address ? owned : viaSafe).push(address)
+            }
+            if (args.dryRun) {
+                console.log(`[dry run] Would deploy ${moduleId}`)
+                for (const address of owned) {
+                    console.log(`[dry run] Would call setTicketSVGRenderer on ${address}`)
+                }
+                if (viaSafe.length > 0) {
+                    console.log(`[dry run] Would write a Safe batch for ${viaSafe.join(', ')}`)
+                }
+                return null
+            }
+
+            const { renderer } = await hre.ignition.deploy(buildThemedRendererModule(name, theme))
+            const rendererAddress = await renderer.getAddress()
+            console.log(`\x1B[32;1mDeployed ${moduleId} at: ${rendererAddress}\x1B[0m`)
+            for (const address of owned) {
+                await hre.run('lootery:set-renderer', {
+                    lootery: address,
+                    renderer: rendererAddress,
+                })
+            }
+            if (viaSafe.length > 0) {
+                await hre.run('safe:lootery', {
+                    lootery: viaSafe.join(','),
+                    safe: args.safe,
+                    renderer: rendererAddress,
+                    name: `Switch to the ${name} ticket renderer`,
+                    out: args.out,
+                })
+            }
+            return rendererAddress
+        },
+    )
@@ -0,0 +1,274 @@
+import { task } from 'hardhat/config'
+import {
+    AbiCoder,
+    Provider,
+    ZeroHash,
+    concat,
+    getAddress,
+    getCreate2Address,
+    isHexString,
+    keccak256,
+    toBigInt,
+} from 'ethers'
+import { connectLootery, looteryFactoryInterface, looteryInterface } from '../sdk/contracts'
+import { decodeLooteryError } from '../sdk/errors'
+import {
+    SafeTransaction,
+    createSafeBatch,
+    decodeSafeBatch,
+    encodeSafeTransaction,
+    formatSafeBatch,
+} from '../sdk/safe'
+import { getNetworkManifest } from '../scripts/manifest'
+import { readSafeBatch, writeSafeBatch } from '../scripts/safe'
+import { getDeployedAddress } from './helpers'
+
+/**
+ * Simulate each transaction of a batch as a call from the Safe, so that
+ * signers aren't asked to sign a batch that reverts. Transactions are
+ * simulated independently of each other.
+ */
+async function simulateFromSafe(provider: Provider, safe: string, txs: SafeTransaction[]) {
+    for (const [i, tx] of txs.entries()) {
+        try {
+            await provider.call({ from: safe, to: tx.to, data: tx.data, value: BigInt(tx.value) })
+        } catch (err) {
+            const decoded = decodeLooteryError(err)
+            const reason = decoded ? `${decoded.name}(${decoded.args.join(', ')})` : String(err)
+            throw new Error(
+                `Simulation of #${i + 1} ${tx.contractMethod?.name} from ${safe} reverted: ${reason}`,
+            )
+        }
+    }
+}
+
+/** Warn if the Safe isn't a contract, e.g. a mistyped owner */
+async function warnIfNotContract(provider: Provider, safe: string) {
+    if ((await provider.getCode(safe)) === '0x') {
+        console.warn(`\x1B[31;1m${safe} is not a contract; is it really a Safe?\x1B[0m`)
+    }
+}
+
+// keccak256("troops.lootery_factory.nonce")
+const FACTORY_NONCE_SLOT = '0xb673313ff65da5deee919e9043f9d191abd6721ce5d457fcf870135fe1bceb99'
+/** Code of an EIP-1167 clone, around its implementation's address */
+const CLONE_CODE_PREFIX = '0x363d3d373d3d3d363d73'
+const CLONE_CODE_SUFFIX = '5af43d82803e903d91602b57fd5bf3'
+
+/**
+ * Find the master copy and nonce that each lottery was launched with, by
+ * deriving the address of every nonce that the factory has used like
+ * `LooteryFactory#create` does
+ * @returns Nonces of the lotteries, by master copy
+ */
+async function findLaunchNonces(provider: Provider, factory: string, lotteries: string[]) {
+    const numLaunched = toBigInt(await provider.getStorage(factory, FACTORY_NONCE_SLOT))
+    const nonces = new Map<string, bigint[]>()
+    for (const lootery of lotteries.map((lootery) => getAddress(lootery))) {
+        const code = (await provider.getCode(lootery)).toLowerCase()
+        if (
+            code.length !== 2 + 45 * 2 ||
+            !code.startsWith(CLONE_CODE_PREFIX) ||
+            !code.endsWith(CLONE_CODE_SUFFIX)
+        ) {
+            throw new Error(`${lootery} is not a clone of a lottery`)
+        }
+        const masterCopy = getAddress(
+            `0x${code.slice(CLONE_CODE_PREFIX.length, -CLONE_CODE_SUFFIX.length)}`,
+        )
+        // The clone's creation code returns its code
+        const initCodeHash = keccak256(concat(['0x3d602d80600a3d3981f3', code]))
+        let nonce = 0n
+        for (; nonce < numLaunched; nonce++) {
+            const salt = keccak256(
+                AbiCoder.defaultAbiCoder().encode(['uint256', 'string'], [nonce, 'lootery']),
+            )
+            if (getCreate2Address(factory, salt, initCodeHash) === lootery) break
+        }
+        if (nonce === numLaunched) {
+            throw new Error(`${lootery} was not launched by ${factory}`)
+        }
+        nonces.set(masterCopy, [...(nonces.get(masterCopy) || []), nonce])
+    }
+    return nonces
+}
+
+task('safe:factory', 'Build a Safe Transaction Builder batch of LooteryFactory admin calls')
+    .addOptionalParam(
+        'factory',
+        'Address of the LooteryFactory (defaults to the ignition deployment)',
+    )
+    .addOptionalParam('safe', 'Safe that administers the factory (defaults to the manifest owner)')
+    .addOptionalParam('masterCopy', 'New Lootery implementation (setLooteryMasterCopy)')
+    .addOptionalParam('randomiser', 'New randomiser (setRandomiser)')
+    .addOptionalParam('renderer', 'New TicketSVGRenderer (setTicketSVGRenderer)')
+    .addOptionalParam('feeRecipient', 'New protocol fee recipient (setFeeRecipient)')
+    .addOptionalParam(
+        'recordLaunched',
+        'Comma-separated lotteries launched before LooteryFactory v1.7.0 to record (recordLaunchedLooteries)',
+    )
+    .addOptionalParam('grant', 'Account to grant --role to (grantRole)')
+    .addOptionalParam('revoke', 'Account to revoke --role from (revokeRole)')
+    .addOptionalParam('role', 'Role to grant or revoke', ZeroHash)
+    .addOptionalParam('name', 'Name of the batch', 'LooteryFactory admin')
+    .addOptionalParam('out', 'Output path of the batch (defaults to safe-batches/)')
+    .setAction(
+        async (
+            args: {
+                factory?: string
+                safe?: string
+                masterCopy?: string
+                randomiser?: string
+                renderer?: string
+                feeRecipient?: string
+                recordLaunched?: string
+                grant?: string
+                revoke?: string
+                role: string
+                name: string
+                out?: string
+            },
+            hre,
+        ) => {
+            const { provider } = hre.ethers
+            const chainId = await provider.getNetwork().then((network) => network.chainId)
+            const factory =
+                args.factory || (await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy'))
+            const safe = args.safe || getNetworkManifest(chainId).owner
+            if (!safe) {
+                throw new Error('No --safe given and no owner in the deployment manifest')
+            }
+            if (!isHexString(args.role, 32)) {
+                throw new Error(`Role must be a bytes32, got ${args.role}`)
+            }
+            console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${factory}\x1B[0m`)
+            console.log(`\x1B[33;1mUsing Safe: ${safe}\x1B[0m`)
+            await warnIfNotContract(provider, safe)
+
+            const calls: [string, unknown[]][] = []
+            if (args.masterCopy) calls.push(['setLooteryMasterCopy', [args.masterCopy]])
+            if (args.randomiser) calls.push(['setRandomiser', [args.randomiser]])
+            if (args.renderer) calls.push(['setTicketSVGRenderer', [args.renderer]])
+            if (args.feeRecipient) calls.push(['setFeeRecipient', [args.feeRecipient]])
+            if (args.recordLaunched) {
+                const nonces = await findLaunchNonces(
+                    provider,
+                    factory,
+                    args.recordLaunched.split(','),
+                )
+                for (const [masterCopy, masterCopyNonces] of nonces) {
+                    calls.push(['recordLaunchedLooteries', [masterCopy, masterCopyNonces]])
+                }
+            }
+            if (args.grant) calls.push(['grantRole', [args.role, args.grant]])
+            if (args.revoke) calls.push(['revokeRole', [args.role, args.revoke]])
+            const transactions = calls.map(([method, callArgs]) =>
+                encodeSafeTransaction(factory, looteryFactoryInterface, method, callArgs),
+            )
+            if (transactions.length === 0) {
+                throw new Error('Nothing to do; specify at least one call')
+            }
+            await simulateFromSafe(provider, safe, transactions)
+
+            const batch = createSafeBatch({ chainId, safe, name: args.name, transactions })
+            console.log(formatSafeBatch(batch, { [factory]: 'LooteryFactory' }))
+            const file = await writeSafeBatch(batch, args.out)
+            console.log(`\x1B[32;1mWrote Safe batch to ${file}\x1B[0m`)
+            return batch
+        },
+    )
+
+task('safe:lootery', 'Build a Safe Transaction Builder batch of lottery owner calls')
+    .addParam('lootery', 'Address of the lottery, or comma-separated addresses of lotteries')
+    .addOptionalParam('safe', 'Safe that owns the lotteries (defaults to their owner)')
+    .addOptionalParam('beneficiary', 'Beneficiary to add or rename (setBeneficiary)')
+    .addOptionalParam('displayName', 'Display name of the --beneficiary')
+    .addOptionalParam('removeBeneficiary', 'Beneficiary to remove (setBeneficiary)')
+    .addFlag('kill', 'Make the current game the last (kill)')
+    .addFlag('withdrawFees', 'Withdraw accrued community fees (withdrawAccruedFees)')
+    .addOptionalParam('renderer', 'New TicketSVGRenderer (setTicketSVGRenderer)')
+    .addOptionalParam('name', 'Name of the batch', 'Lootery owner')
+    .addOptionalParam('out', 'Output path of the batch (defaults to safe-batches/)')
+    .setAction(
+        async (
+            args: {
+                lootery: string
+                safe?: string
+                beneficiary?: string
+                displayName?: string
+                removeBeneficiary?: string
+                kill: boolean
+                withdrawFees: boolean
+                renderer?: string
+                name: string
+                out?: string
+            },
+            hre,
+        ) => {
+            const { provider } = hre.ethers
+            const chainId = await provider.getNetwork().then((network) => network.chainId)
+            if (args.beneficiary && !args.displayName) {
+                throw new Error('--beneficiary requires a --display-name')
+            }
+            const lotteries = args.lootery.split(',').map((address) => getAddress(address.trim()))
+            const owners = await Promise.all(
+                lotteries.map((address) => connectLootery(address, provider).owner()),
+            )
+            const safe = getAddress(args.safe || owners[0])
+            for (const [i, owner] of owners.entries()) {
+                if (owner !== safe) {
+                    throw new Error(`Lottery ${lotteries[i]} is owned by ${owner}, not ${safe}`)
+                }
+            }
+            console.log(`\x1B[33;1mUsing Safe: ${safe}\x1B[0m`)
+            await warnIfNotContract(provider, safe)
+
+            const transactions: SafeTransaction[] = []
+            const labels: Record<string, string> = {}
+            for (const address of lotteries) {
+                labels[address] = await connectLootery(address, provider).name()
+                const call = (method: string, callArgs: unknown[] = []) =>
+                    transactions.push(
+                        encodeSafeTransaction(address, looteryInterface, method, callArgs),
+                    )
+                if (args.beneficiary) {
+                    call('setBeneficiary', [args.beneficiary, args.displayName, true])
+                }
+                if (args.removeBeneficiary) {
+                    call('setBeneficiary', [args.removeBeneficiary, '', false])
+                }
+                if (args.withdrawFees) call('withdrawAccruedFees')
+                if (args.renderer) call('setTicketSVGRenderer', [args.renderer])
+                // Killing last, as it's the only call that depends on the game state
+                if (args.kill) call('kill')
+            }
+            if (transactions.length === 0) {
+                throw new Error('Nothing to do; specify at least one call')
+            }
+            await simulateFromSafe(provider, safe, transactions)
+
+            const batch = createSafeBatch({ chainId, safe, name: args.name, transactions })
+            console.log(formatSafeBatch(batch, labels))
+            const file = await writeSafeBatch(batch, args.out)
+            console.log(`\x1B[32;1mWrote Safe batch to ${file}\x1B[0m`)
+            return batch
+        },
+    )
+
+task('safe:decode', 'Pretty-print a Safe Transaction Builder batch for review')
+    .addPositionalParam('batch', 'Path to the batch JSON')
+    .setAction(async (args: { batch: string }) => {
+        const batch = await readSafeBatch(args.batch)
+        const labels: Record<string, string> = {}
+        const factory = await getDeployedAddress(
+            BigInt(batch.chainId),
+            'LooteryFactory#ERC1967Proxy',
+        ).catch(() => null)
+        if (factory) labels[factory] = 'LooteryFactory'
+        console.log(formatSafeBatch(batch, labels))
+        const decoded = decodeSafeBatch(batch)
+        if (decoded.some((tx) => tx.dataMismatch)) {
+            throw new Error("Batch contains calls whose data doesn't match their inputs")
+        }
+        return decoded
+    })
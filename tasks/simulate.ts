@@ -0,0 +1,195 @@
+import { task, types } from 'hardhat/config'
+import { Contract, formatUnits, parseUnits } from 'ethers'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { connectLootery } from '../sdk/contracts'
+import { readOddsParams } from '../sdk/odds'
+import { SimulationParams, SimulationRound, simulate } from '../sdk/simulation'
+import { ERC20_ABI } from './helpers'
+
+const CSV_COLUMNS = [
+    'gameId',
+    'startedAt',
+    'ticketsSold',
+    'winningPick',
+    'winners',
+    'jackpot',
+    'expiredPayouts',
+    'seeded',
+    'communityFees',
+    'protocolFees',
+    'claimed',
+    'nextJackpot',
+    'nextUnclaimedPayouts',
+    'cumulativeCommunityFees',
+    'cumulativeProtocolFees',
+] as const
+/** Columns that aren't prize token amounts */
+const COUNT_COLUMNS = new Set(['gameId', 'startedAt', 'ticketsSold', 'winners'])
+
+task('lootery:simulate', 'Monte Carlo simulation of a live or hypothetical lottery')
+    .addOptionalParam('lootery', 'Address of a live lottery to read parameters from')
+    .addOptionalParam('pickLength', 'Number of balls in a pick', undefined, types.int)
+    .addOptionalParam('maxBallValue', 'Maximum value of a ball', undefined, types.int)
+    .addOptionalParam('ticketPrice', 'Ticket price, in whole prize tokens')
+    .addOptionalParam('communityFeeBps', 'Community fee share, in bps', undefined, types.int)
+    .addOptionalParam('gamePeriod', 'Game period, in seconds', undefined, types.int)
+    .addOptionalParam('seedJackpotDelay', 'Jackpot seeding rate limit, in seconds', 3600, types.int)
+    .addOptionalParam('seedJackpotMinValue', 'Minimum jackpot seed, in whole prize tokens', '1')
+    .addOptionalParam('decimals', 'Decimals of a hypothetical prize token', 18, types.int)
+    .addFlag('protocolFee', 'Whether a hypothetical lottery pays the protocol fee')
+    .addOptionalParam('rounds', 'Number of games to simulate', 1000, types.int)
+    .addParam('ticketsPerGame', 'Mean number of tickets sold per game', undefined, types.float)
+    .addOptionalParam('claimProbability', 'Probability that a winner claims', 1, types.float)
+    .addOptionalParam('seedAmount', 'Jackpot seed whenever allowed, in whole prize tokens', '0')
+    .addOptionalParam('players', 'Number of players', 100, types.int)
+    .addOptionalParam('beneficiaries', 'Number of beneficiaries', 3, types.int)
+    .addFlag('kill', 'Kill the lottery in the last game')
+    .addOptionalParam('seed', 'PRNG seed', 'lootery')
+    .addOptionalParam('out', 'Write per-game results to a .csv or .json file')
+    .setAction(
+        async (
+            args: {
+                lootery?: string
+                pickLength?: number
+                maxBallValue?: number
+                ticketPrice?: string
+                communityFeeBps?: number
+                gamePeriod?: number
+                seedJackpotDelay: number
+                seedJackpotMinValue: string
+                decimals: number
+                protocolFee: boolean
+                rounds: number
+                ticketsPerGame: number
+                claimProbability: number
+                seedAmount: string
+                players: number
+                beneficiaries: number
+                kill: boolean
+                seed: string
+                out?: string
+            },
+            hre,
+        ) => {
+            let decimals = BigInt(args.decimals)
+            let symbol = 'tokens'
+            let params: SimulationParams
+            if (args.lootery) {
+                const lootery = connectLootery(args.lootery, hre.ethers.provider)
+                const prizeToken = new Contract(
+                    await lootery.prizeToken(),
+                    ERC20_ABI,
+                    hre.ethers.provider,
+                )
+                const [live, seedJackpotDelay, seedJackpotMinValue] = await Promise.all([
+                    readOddsParams(lootery),
+                    lootery.seedJackpotDelay(),
+                    lootery.seedJackpotMinValue(),
+                ])
+                ;[symbol, decimals] = await Promise.all([
+                    prizeToken.symbol(),
+                    prizeToken.decimals(),
+                ])
+                params = { ...live.params, seedJackpotDelay, seedJackpotMinValue }
+            } else {
+                const { pickLength, maxBallValue, ticketPrice, communityFeeBps, gamePeriod } = args
+                if (
+                    pickLength === undefined ||
+                    maxBallValue === undefined ||
+                    ticketPrice === undefined ||
+                    communityFeeBps === undefined ||
+                    gamePeriod === undefined
+                ) {
+                    throw new Error(
+                        '--pick-length, --max-ball-value, --ticket-price, --community-fee-bps and --game-period are required without --lootery',
+                    )
+                }
+                params = {
+                    pickLength: BigInt(pickLength),
+                    maxBallValue: BigInt(maxBallValue),
+                    ticketPrice: parseUnits(ticketPrice, decimals),
+                    communityFeeBps: BigInt(communityFeeBps),
+                    hasProtocolFee: args.protocolFee,
+                    gamePeriod: BigInt(gamePeriod),
+                    seedJackpotDelay: BigInt(args.seedJackpotDelay),
+                    seedJackpotMinValue: parseUnits(args.seedJackpotMinValue, decimals),
+                }
+            }
+
+            const beneficiaries = Array.from(
+                { length: args.beneficiaries },
+                (_, i) => `beneficiary-${i}`,
+            )
+            const sim = simulate({
+                params,
+                rounds: args.rounds,
+                ticketsPerGame: args.ticketsPerGame,
+                claimProbability: args.claimProbability,
+                seedAmount: parseUnits(args.seedAmount, decimals),
+                kill: args.kill,
+                players: Array.from({ length: args.players }, (_, i) => `player-${i}`),
+                beneficiaries,
+                owner: 'owner',
+                protocolFeeRecipient: 'protocol',
+                seed: args.seed,
+            })
+            const format = (value: bigint) => formatUnits(value, decimals)
+
+            if (args.out) {
+                const rows = toRows(sim.rounds)
+                const contents =
+                    path.extname(args.out).toLowerCase() === '.csv'
+                        ? toCsv(rows, format)
+                        : JSON.stringify(
+                              rows,
+                              (_, value) => (typeof value === 'bigint' ? String(value) : value),
+                              4,
+                          ) + '\n'
+                await fs.writeFile(args.out, contents, { encoding: 'utf-8' })
+                console.log(`Wrote ${rows.length} games to ${args.out}`)
+            }
+
+            const jackpotsWon = sim.rounds.filter((round) => round.winners > 0n).length
+            const protocolFees = sim.balances.get('protocol') ?? 0n
+            console.log(`Games:                ${sim.rounds.length}`)
+            console.log(`Jackpots won:         ${jackpotsWon}`)
+            console.log(
+                `Tickets sold:         ${sim.rounds.reduce((sum, round) => sum + round.ticketsSold, 0n)}`,
+            )
+            console.log(`Final jackpot:        ${format(sim.jackpot)} ${symbol}`)
+            console.log(`Unclaimed payouts:    ${format(sim.unclaimedPayouts)} ${symbol}`)
+            console.log(`Protocol fees:        ${format(protocolFees)} ${symbol}`)
+            console.log(
+                `Owner (net):          ${format(sim.balances.get('owner') ?? 0n)} ${symbol}`,
+            )
+            for (const beneficiary of beneficiaries) {
+                console.log(
+                    `${beneficiary}:${' '.repeat(Math.max(1, 21 - beneficiary.length))}${format(sim.balances.get(beneficiary) ?? 0n)} ${symbol}`,
+                )
+            }
+        },
+    )
+
+/** Per-game results with cumulative fee curves */
+function toRows(rounds: SimulationRound[]) {
+    let cumulativeCommunityFees = 0n
+    let cumulativeProtocolFees = 0n
+    return rounds.map((round) => {
+        cumulativeCommunityFees += round.communityFees
+        cumulativeProtocolFees += round.protocolFees
+        return { ...round, cumulativeCommunityFees, cumulativeProtocolFees }
+    })
+}
+
+function toCsv(rows: ReturnType<typeof toRows>, format: (value: bigint) => string) {
+    const lines = rows.map((row) =>
+        CSV_COLUMNS.map((column) => {
+            const value = row[column]
+            if (value === null) return ''
+            if (Array.isArray(value)) return value.join(' ')
+            return COUNT_COLUMNS.has(column) ? String(value) : format(value)
+        }).join(','),
+    )
+    return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
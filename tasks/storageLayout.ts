@@ -0,0 +1,121 @@
+import { task } from 'hardhat/config'
+import {
+    STORAGE_LAYOUTS_DIR,
+    STORAGE_LAYOUT_CONTRACTS,
+    StorageLayoutError,
+    assertStorageLayoutCompatible,
+    compareStorageLayouts,
+    getBuildStorageLayout,
+    listSnapshotVersions,
+    readSnapshot,
+    writeSnapshot,
+} from '../scripts/storageLayout'
+
+task('storage-layout:snapshot', 'Snapshot storage layouts of the current build as a release')
+    .addOptionalParam('contract', 'Contract to snapshot (defaults to all gated contracts)')
+    .addOptionalParam(
+        'release',
+        'Version to record (defaults to the version returned by typeAndVersion())',
+    )
+    .addOptionalParam('dir', 'Storage layouts directory', STORAGE_LAYOUTS_DIR)
+    .addFlag('force', 'Overwrite an existing snapshot that differs')
+    .addFlag('noCompile', "Don't compile before snapshotting")
+    .setAction(
+        async (
+            args: {
+                contract?: string
+                release?: string
+                dir: string
+                force: boolean
+                noCompile: boolean
+            },
+            hre,
+        ) => {
+            if (!args.noCompile) {
+                await hre.run('compile', { quiet: true })
+            }
+            const contracts = args.contract
+                ? [args.contract]
+                : Object.keys(STORAGE_LAYOUT_CONTRACTS)
+            if (args.release && contracts.length > 1) {
+                throw new Error('--release may only be used with --contract')
+            }
+            const files: string[] = []
+            for (const contractName of contracts) {
+                const snapshot = await getBuildStorageLayout(
+                    hre.artifacts,
+                    contractName,
+                    args.release,
+                )
+                const existing = await readSnapshot(contractName, snapshot.version, args.dir).catch(
+                    () => null,
+                )
+                if (existing) {
+                    const changes = compareStorageLayouts(existing, snapshot)
+                    if (changes.length === 0) {
+                        console.log(`${contractName} ${snapshot.version} is up to date`)
+                        continue
+                    }
+                    if (!args.force) {
+                        // Released layouts are what upgrades are checked against
+                        throw new Error(
+                            `${contractName} ${snapshot.version} was already snapshotted with a different layout; bump the version or use --force`,
+                        )
+                    }
+                }
+                const file = await writeSnapshot(snapshot, args.dir)
+                console.log(
+                    `\x1B[32;1mSnapshotted ${contractName} ${snapshot.version}: ${file}\x1B[0m`,
+                )
+                files.push(file)
+            }
+            return files
+        },
+    )
+
+task('storage-layout:check', 'Check the current build against released storage layouts')
+    .addOptionalParam('contract', 'Contract to check (defaults to all gated contracts)')
+    .addOptionalParam(
+        'against',
+        'Released version to check against (defaults to the latest snapshot)',
+    )
+    .addOptionalParam('dir', 'Storage layouts directory', STORAGE_LAYOUTS_DIR)
+    .addFlag('noCompile', "Don't compile before checking")
+    .setAction(
+        async (
+            args: { contract?: string; against?: string; dir: string; noCompile: boolean },
+            hre,
+        ) => {
+            if (!args.noCompile) {
+                await hre.run('compile', { quiet: true })
+            }
+            const contracts = args.contract
+                ? [args.contract]
+                : Object.keys(STORAGE_LAYOUT_CONTRACTS)
+            const errors: string[] = []
+            for (const contractName of contracts) {
+                const against =
+                    args.against ?? (await listSnapshotVersions(contractName, args.dir)).pop()
+                if (!against) {
+                    throw new StorageLayoutError(
+                        'MissingSnapshot',
+                        `No storage layout snapshots for ${contractName}; run storage-layout:snapshot`,
+                    )
+                }
+                try {
+                    await assertStorageLayoutCompatible(
+                        hre.artifacts,
+                        contractName,
+                        against,
+                        args.dir,
+                    )
+                } catch (err) {
+                    if (!(err instanceof StorageLayoutError)) throw err
+                    errors.push(err.message)
+                }
+            }
+            if (errors.length > 0) {
+                throw new Error(errors.join('\n'))
+            }
+        },
+    )
@@ -0,0 +1,39 @@
+import { task, types } from 'hardhat/config'
+import { connectLootery } from '../sdk/contracts'
+import { auditWinningPick } from '../sdk/audit'
+
+task('lootery:winning-pick', 'Independently re-derive the winning pick of a finalised game')
+    .addParam('lootery', 'Address of the lottery')
+    .addParam('gameId', 'Id of the game to audit', undefined, types.bigint)
+    .addOptionalParam('fromBlock', 'Block to start searching for events from', 0, types.int)
+    .addOptionalParam(
+        'randomWord',
+        'Random word to derive from, if the fulfilment tx cannot be traced',
+        undefined,
+        types.bigint,
+    )
+    .setAction(
+        async (
+            args: { lootery: string; gameId: bigint; fromBlock: number; randomWord?: bigint },
+            hre,
+        ) => {
+            const lootery = connectLootery(args.lootery, hre.ethers.provider)
+            const audit = await auditWinningPick(lootery, args.gameId, {
+                fromBlock: args.fromBlock,
+                randomWord: args.randomWord,
+            })
+            console.log(`Game:              ${audit.gameId}`)
+            console.log(`Randomness reqs:   ${audit.requestIds.join(', ')}`)
+            console.log(`Fulfilled request: ${audit.requestId}`)
+            console.log(`Fulfilment tx:     ${audit.fulfilmentTxHash}`)
+            console.log(`Random word:       ${audit.randomWord}`)
+            console.log(`Derived pick:      [${audit.derivedPick.join(', ')}]`)
+            console.log(`Emitted pick:      [${audit.emittedPick.join(', ')}]`)
+            console.log(`Winning pick id:   ${audit.winningPickId}`)
+            if (!audit.isMatch) {
+                throw new Error('Derived winning pick does not match on-chain result!')
+            }
+            console.log('\x1B[32;1mDerived winning pick matches on-chain result\x1B[0m')
+            return audit
+        },
+    )
@@ -0,0 +1,171 @@
+import { ethers } from 'hardhat'
+import {
+    MockRandomiser__factory,
+    MockERC20__factory,
+    TicketSVGRenderer__factory,
+    Lootery__factory,
+    LooteryFactory__factory,
+    LooteryFactory,
+    LooteryHarness,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import {
+    AirdropError,
+    chunkAirdrop,
+    parseAirdropCsv,
+    planAirdrop,
+    sendAirdrop,
+} from '../scripts/airdrop'
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+
+function expectAirdropError(fn: () => unknown, reason: AirdropError['reason']) {
+    expect(fn).to.throw(AirdropError).with.property('reason', reason)
+}
+
+describe('Airdrop', () => {
+    describe('CSV', () => {
+        it('should parse picks in any order and quick picks', () => {
+            const csv = [
+                'recipient, pick',
+                `${ALICE.toLowerCase()},55 5 10-46 41`,
+                '',
+                `${BOB},`,
+                `${BOB},quick`,
+                ALICE,
+            ].join('\r\n')
+            expect(parseAirdropCsv(csv)).to.deep.eq([
+                { line: 2, recipient: ALICE, pick: [5n, 10n, 41n, 46n, 55n] },
+                { line: 4, recipient: BOB, pick: null },
+                { line: 5, recipient: BOB, pick: null },
+                { line: 6, recipient: ALICE, pick: null },
+            ])
+        })
+
+        it('should reject invalid rows', () => {
+            expectAirdropError(() => parseAirdropCsv(`address,pick\n${ALICE},`), 'InvalidCsv')
+            expectAirdropError(
+                () => parseAirdropCsv(`recipient,pick\n${ALICE},1 2 3,x`),
+                'InvalidCsv',
+            )
+            expectAirdropError(
+                () => parseAirdropCsv('recipient,pick\n0x1234,1 2 3'),
+                'InvalidRecipient',
+            )
+            expectAirdropError(
+                () => parseAirdropCsv(`recipient,pick\n${ALICE},1 two 3`),
+                'InvalidPick',
+            )
+        })
+
+        it('should validate picks and quick-pick the rest', () => {
+            const params = { pickLength: 3, maxBallValue: 10 }
+            expectAirdropError(
+                () => planAirdrop(parseAirdropCsv(`recipient,pick\n${ALICE},1 1 2`), params),
+                'InvalidPick',
+            )
+            expectAirdropError(
+                () => planAirdrop(parseAirdropCsv(`recipient,pick\n${ALICE},1 2 11`), params),
+                'InvalidPick',
+            )
+            expectAirdropError(() => planAirdrop([], params), 'NoTicketsSpecified')
+
+            const rows = parseAirdropCsv(`recipient,pick\n${ALICE},\n${BOB},1 2 3\n${BOB},`)
+            const plan = planAirdrop(rows, { ...params, source: { kind: 'seed', seed: 42n } })
+            expect(plan.quickPickSeed).to.eq(42n)
+            expect(plan.tickets.map(({ whomst }) => whomst)).to.deep.eq([ALICE, BOB, BOB])
+            expect(plan.tickets[1].pick).to.deep.eq([1n, 2n, 3n])
+            expect(plan.tickets[0].pick).to.not.deep.eq(plan.tickets[2].pick)
+            // Quick picks are reproducible from their seed
+            expect(
+                planAirdrop(rows, { ...params, source: { kind: 'seed', seed: 42n } }),
+            ).to.deep.eq(plan)
+            expect(planAirdrop(parseAirdropCsv(`recipient,pick\n${BOB},1 2 3`), params)).to.deep.eq(
+                {
+                    tickets: [{ whomst: BOB, pick: [1n, 2n, 3n] }],
+                    quickPickSeed: undefined,
+                },
+            )
+        })
+    })
+
+    describe('ownerPick', () => {
+        let deployer: SignerWithAddress
+        let lotto: LooteryHarness
+        beforeEach(async () => {
+            ;[deployer] = await ethers.getSigners()
+            const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+            const testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+            const looteryImpl = await new Lootery__factory(deployer).deploy()
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            const factory: LooteryFactory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await looteryImpl.getAddress(),
+                    await mockRandomiser.getAddress(),
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+            ;({ lotto } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            }))
+        })
+
+        function planQuickPicks(n: number) {
+            const csv = [
+                'recipient,pick',
+                ...Array.from({ length: n }, (_, i) => (i % 2 ? ALICE : BOB)),
+            ]
+            return planAirdrop(parseAirdropCsv(csv.join('\n')), {
+                pickLength: 5,
+                maxBallValue: 69,
+                source: { kind: 'seed', seed: 1n },
+            }).tickets
+        }
+
+        it('should airdrop tickets in gas-bounded chunks', async () => {
+            await lotto.setMaxOwnerPicksPerGame(20)
+            const tickets = planQuickPicks(20)
+            const maxGasPerTx = 1_500_000n
+            const chunks = await chunkAirdrop(lotto, tickets, maxGasPerTx)
+            expect(chunks.length).to.be.gt(1)
+            expect(chunks.flat()).to.deep.eq(tickets)
+            for (const chunk of chunks) {
+                expect(await lotto.ownerPick.estimateGas(chunk)).to.be.lte(maxGasPerTx)
+            }
+
+            const onBatch: number[] = []
+            const batches = await sendAirdrop(lotto, chunks, (_, index) => onBatch.push(index))
+            expect(onBatch).to.deep.eq(chunks.map((_, index) => index))
+            const tokenIds = batches.flatMap((batch) => batch.tokenIds)
+            expect(tokenIds).to.deep.eq(tickets.map((_, i) => BigInt(i + 1)))
+            for (const [i, { whomst, pick }] of tickets.entries()) {
+                expect(await lotto.ownerOf(tokenIds[i])).to.eq(whomst)
+                const { pickId } = await lotto.purchasedTickets(tokenIds[i])
+                expect(await lotto.computePick(pickId)).to.deep.eq(pick)
+            }
+            expect(await lotto.numOwnerPicks(0n)).to.eq(20n)
+        })
+
+        it('should not airdrop more tickets than the game allows', async () => {
+            await lotto.setMaxOwnerPicksPerGame(5)
+            await lotto.ownerPick(planQuickPicks(2))
+            try {
+                await chunkAirdrop(lotto, planQuickPicks(4))
+                expect.fail('Expected the airdrop to be rejected')
+            } catch (err) {
+                expect(err).to.be.instanceOf(AirdropError)
+                expect((err as AirdropError).reason).to.eq('OwnerPickLimitExceeded')
+            }
+            expect(await chunkAirdrop(lotto, planQuickPicks(3))).to.have.lengthOf(1)
+        })
+    })
+})
@@ -0,0 +1,154 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { AddressInfo } from 'node:net'
+import { once } from 'node:events'
+import http from 'node:http'
+import { deployProxy } from './helpers/deployProxy'
+import { computePickId, deployLotto, purchaseTicket } from './helpers/lotto'
+import { computeWinningPick } from '../sdk/winningPick'
+import { Indexer } from '../services/indexer/Indexer'
+import { IndexerDatabase } from '../services/indexer/IndexerDatabase'
+import { createApiServer } from '../services/api/ApiServer'
+
+describe('ApiServer', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let db: IndexerDatabase
+    let indexer: Indexer
+    let server: http.Server
+    let baseUrl: string
+    beforeEach(async () => {
+        ;[deployer, alice] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        db = new IndexerDatabase(':memory:')
+        indexer = new Indexer({
+            provider: ethers.provider,
+            factory: await factory.getAddress(),
+            db,
+            logger: { log: () => {}, warn: () => {}, error: () => {} },
+        })
+        server = createApiServer({ db }).listen(0)
+        await once(server, 'listening')
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    })
+
+    afterEach(() => {
+        server.close()
+        db.close()
+    })
+
+    async function get(path: string) {
+        const res = await fetch(`${baseUrl}${path}`)
+        return { status: res.status, body: await res.json() }
+    }
+
+    it('should serve lotteries, games, tickets and accounts', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const lootery = await lotto.getAddress()
+        await testERC20.mint(alice, parseEther('1'))
+        await testERC20.connect(alice).approve(lotto, parseEther('1'))
+        const randomness = 1234n
+        const winningPick = computeWinningPick(5n, 69n, randomness)
+        const { tokenId: winner } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            winningPick,
+        )
+        const { tokenId: loser } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            [1, 2, 3, 4, 5],
+        )
+        await fastForwardAndDraw(randomness)
+        await lotto.claimWinnings(winner)
+        await indexer.sync()
+
+        const lotteries = await get('/lotteries')
+        expect(lotteries.status).to.eq(200)
+        expect(lotteries.body.lotteries).to.have.length(1)
+        expect(lotteries.body.lotteries[0]).to.include({ address: lootery, name: 'Lotto' })
+
+        const game = await get(`/lotteries/${lootery.toLowerCase()}/games/0`)
+        expect(game.status).to.eq(200)
+        expect(game.body).to.include({
+            lootery,
+            gameId: '0',
+            ticketsSold: 2,
+            isFinalised: true,
+            winningPickId: computePickId(winningPick).toString(),
+        })
+        expect(game.body.winners).to.have.length(1)
+        expect(game.body.winners[0].tokenId).to.eq(winner.toString())
+        expect((await get(`/lotteries/${lootery}/games/1`)).body.isFinalised).to.eq(false)
+
+        const winningTicket = await get(`/lotteries/${lootery}/tickets/${winner}`)
+        expect(winningTicket.status).to.eq(200)
+        expect(winningTicket.body.pick).to.deep.eq(winningPick.map(String))
+        expect(winningTicket.body.owner).to.eq(alice.address)
+        expect(winningTicket.body.isWinningsClaimed).to.eq(await lotto.isWinningsClaimed(winner))
+        expect(winningTicket.body.isWinningsClaimed).to.eq(true)
+        const losingTicket = await get(`/lotteries/${lootery}/tickets/${loser}`)
+        expect(losingTicket.body.pick).to.deep.eq(['1', '2', '3', '4', '5'])
+        expect(losingTicket.body.isWinningsClaimed).to.eq(false)
+
+        const account = await get(`/accounts/${alice.address}/tickets`)
+        expect(account.status).to.eq(200)
+        expect(account.body.games).to.have.length(1)
+        expect(account.body.games[0].tickets.map((t: any) => t.tokenId)).to.deep.eq([
+            winner.toString(),
+            loser.toString(),
+        ])
+        expect((await get(`/accounts/${deployer.address}/tickets`)).body.games).to.deep.eq([])
+    })
+
+    it('should reject invalid requests', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await indexer.sync()
+        const lootery = await lotto.getAddress()
+
+        expect((await get('/nope')).status).to.eq(404)
+        expect((await get('/lotteries/0x1234/games/0')).status).to.eq(400)
+        expect((await get(`/lotteries/${lootery}/games/abc`)).status).to.eq(400)
+        expect((await get(`/lotteries/${deployer.address}/games/0`)).status).to.eq(404)
+        const missing = await get(`/lotteries/${lootery}/tickets/1`)
+        expect(missing.status).to.eq(404)
+        expect(missing.body.error).to.eq('Unknown ticket: 1')
+        const post = await fetch(`${baseUrl}/lotteries`, { method: 'POST' })
+        expect(post.status).to.eq(405)
+    })
+})
@@ -0,0 +1,192 @@
+import hre, { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther, ZeroAddress } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import { computeJackpotOdds } from '../sdk/odds'
+import { InvalidInitConfigError, LooteryCreateParams, validateInitConfig } from '../sdk/initConfig'
+
+describe('lootery:create', () => {
+    const validParams: LooteryCreateParams = {
+        name: 'Lotto',
+        symbol: 'LOTTO',
+        pickLength: 5n,
+        maxBallValue: 69n,
+        gamePeriod: 86400n,
+        ticketPrice: parseEther('0.1'),
+        communityFeeBps: 5000n,
+        prizeToken: '0x0000000000000000000000000000000000000001',
+        seedJackpotDelay: 3600n,
+        seedJackpotMinValue: parseEther('1'),
+    }
+
+    describe('validateInitConfig', () => {
+        const cases: [Partial<LooteryCreateParams>, InvalidInitConfigError['reason']][] = [
+            [{ pickLength: 0n }, 'InvalidPickLength'],
+            [{ pickLength: 33n, maxBallValue: 255n }, 'InvalidPickLength'],
+            [{ pickLength: 6n, maxBallValue: 5n }, 'InvalidMaxBallValue'],
+            [{ gamePeriod: 10n * 60n - 1n }, 'InvalidGamePeriod'],
+            [{ ticketPrice: 0n }, 'InvalidTicketPrice'],
+            [{ communityFeeBps: 9501n }, 'InvalidFeeShares'],
+            [{ prizeToken: ZeroAddress }, 'InvalidPrizeToken'],
+            [{ seedJackpotDelay: 0n }, 'InvalidSeedJackpotConfig'],
+            [{ seedJackpotMinValue: 0n }, 'InvalidSeedJackpotConfig'],
+        ]
+        for (const [overrides, reason] of cases) {
+            it(`should reject invalid ${Object.keys(overrides).join(', ')} with ${reason}`, () => {
+                expect(() => validateInitConfig({ ...validParams, ...overrides }))
+                    .to.throw(InvalidInitConfigError)
+                    .with.property('reason', reason)
+            })
+        }
+
+        it('should accept boundary values', () => {
+            validateInitConfig({
+                ...validParams,
+                pickLength: 32n,
+                maxBallValue: 32n,
+                gamePeriod: 10n * 60n,
+                communityFeeBps: 9500n,
+            })
+        })
+    })
+
+    it('should compute jackpot odds', () => {
+        expect(computeJackpotOdds(5n, 69n)).to.eq(11_238_513n)
+        expect(computeJackpotOdds(6n, 49n)).to.eq(13_983_816n)
+        expect(computeJackpotOdds(1n, 1n)).to.eq(1n)
+    })
+
+    describe('task', () => {
+        let deployer: SignerWithAddress
+        let beneficiary: SignerWithAddress
+        let testERC20: MockERC20
+        let factory: LooteryFactory
+        let tmpDir: string
+        beforeEach(async () => {
+            ;[deployer, beneficiary] = await ethers.getSigners()
+            const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+            testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+            const looteryImpl = await new Lootery__factory(deployer).deploy()
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            factory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await looteryImpl.getAddress(),
+                    await mockRandomiser.getAddress(),
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+            tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-create-'))
+        })
+
+        async function runCreate(config: string, filename: string, dryRun = false) {
+            const file = path.join(tmpDir, filename)
+            await fs.writeFile(file, config)
+            return hre.run('lootery:create', {
+                configFile: file,
+                factory: await factory.getAddress(),
+                recordsDir: path.join(tmpDir, 'lotteries'),
+                dryRun,
+            })
+        }
+
+        it('should create, configure and record a lottery from a YAML config', async () => {
+            await testERC20.mint(deployer, parseEther('10'))
+            const predicted = await factory.computeNextAddress()
+            const address = await runCreate(
+                [
+                    'name: Lotto',
+                    'symbol: LOTTO',
+                    'pickLength: 5',
+                    'maxBallValue: 69',
+                    'gamePeriod: 86400',
+                    "ticketPrice: '0.1'",
+                    'communityFeeBps: 5000',
+                    `prizeToken: '${await testERC20.getAddress()}'`,
+                    'seedJackpotDelay: 3600',
+                    'seedJackpotMinValue: 1',
+                    'beneficiaries:',
+                    `  - address: '${beneficiary.address}'`,
+                    '    displayName: Beneficiary',
+                    'seedJackpot: 10',
+                ].join('\n'),
+                'lotto.yaml',
+            )
+            expect(address).to.eq(predicted)
+
+            const lotto = Lootery__factory.connect(address, deployer)
+            expect(await lotto.name()).to.eq('Lotto')
+            expect(await lotto.ticketPrice()).to.eq(parseEther('0.1'))
+            expect(await lotto.owner()).to.eq(deployer.address)
+            expect(await lotto.beneficiaries()).to.deep.eq([[beneficiary.address], ['Beneficiary']])
+            expect(await lotto.jackpot()).to.eq(parseEther('10'))
+
+            const { chainId } = await ethers.provider.getNetwork()
+            const records = JSON.parse(
+                await fs.readFile(path.join(tmpDir, 'lotteries', `chain-${chainId}.json`), 'utf-8'),
+            )
+            expect(records).to.have.length(1)
+            expect(records[0].address).to.eq(address)
+            expect(records[0].config.name).to.eq('Lotto')
+        })
+
+        it('should reject invalid configs before sending anything', async () => {
+            const config = {
+                name: 'Lotto',
+                symbol: 'LOTTO',
+                pickLength: 5,
+                maxBallValue: 69,
+                gamePeriod: 60,
+                ticketPrice: '0.1',
+                communityFeeBps: 5000,
+                prizeToken: await testERC20.getAddress(),
+                seedJackpotDelay: 3600,
+                seedJackpotMinValue: '1',
+            }
+            const nonce = await ethers.provider.getTransactionCount(deployer)
+            await expect(runCreate(JSON.stringify(config), 'lotto.json')).to.be.rejectedWith(
+                InvalidInitConfigError,
+            )
+            await expect(
+                runCreate(
+                    JSON.stringify({ ...config, gamePeriod: 600, seedJackpot: '0.5' }),
+                    'lotto.json',
+                ),
+            ).to.be.rejectedWith(/seedJackpot must be at least seedJackpotMinValue/)
+            expect(await ethers.provider.getTransactionCount(deployer)).to.eq(nonce)
+        })
+
+        it('should only simulate in dry-run mode', async () => {
+            const config = {
+                name: 'Lotto',
+                symbol: 'LOTTO',
+                pickLength: 5,
+                maxBallValue: 69,
+                gamePeriod: 600,
+                ticketPrice: '0.1',
+                communityFeeBps: 5000,
+                prizeToken: await testERC20.getAddress(),
+                seedJackpotDelay: 3600,
+                seedJackpotMinValue: '1',
+            }
+            const predicted = await factory.computeNextAddress()
+            await runCreate(JSON.stringify(config), 'lotto.json', true)
+            expect(await factory.computeNextAddress()).to.eq(predicted)
+            expect(await ethers.provider.getCode(predicted)).to.eq('0x')
+        })
+    })
+})
@@ -0,0 +1,133 @@
+import hre, { ethers } from 'hardhat'
+import {
+    impersonateAccount,
+    loadFixture,
+    setBalance,
+} from '@nomicfoundation/hardhat-network-helpers'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { ZeroHash } from 'ethers'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { connectLooteryFactory } from '../sdk/contracts'
+import { IgnitionDeployment, auditDeployment, readIgnitionDeployment } from '../scripts/drift'
+
+const JOURNAL_DIR = path.resolve(__dirname, '../ignition/deployments/chain-8453')
+
+describe('Deployment drift', () => {
+    const tmpDirs: string[] = []
+    let tmpDir: string
+    let deployment: IgnitionDeployment
+    let deployer: SignerWithAddress
+    let other: SignerWithAddress
+
+    async function seedFromJournal() {
+        // Copy the journal, pretending it was recorded on the local chain
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-drift-'))
+        tmpDirs.push(dir)
+        await fs.cp(JOURNAL_DIR, dir, { recursive: true })
+        const journalPath = path.join(dir, 'journal.jsonl')
+        const journal = await fs.readFile(journalPath, { encoding: 'utf-8' })
+        await fs.writeFile(journalPath, journal.replace('"chainId":8453', '"chainId":31337'))
+        const seeded = await readIgnitionDeployment(dir)
+
+        // Replay every creation transaction from the recorded deployer & nonce,
+        // so that each contract lands at its recorded address
+        for (const future of seeded.futures) {
+            await impersonateAccount(future.from)
+            await setBalance(future.from, 10n ** 18n)
+            await hre.network.provider.send('hardhat_setNonce', [
+                future.from,
+                ethers.toQuantity(future.nonce!),
+            ])
+            const signer = await ethers.getSigner(future.from)
+            const receipt = await signer
+                .sendTransaction({ data: future.data })
+                .then((tx) => tx.wait())
+            expect(receipt!.contractAddress).to.eq(future.address)
+        }
+        return { dir, deployment: seeded }
+    }
+
+    beforeEach(async () => {
+        ;[other] = await ethers.getSigners()
+        ;({ dir: tmpDir, deployment } = await loadFixture(seedFromJournal))
+        deployer = await ethers.getSigner(deployment.futures[0].from)
+    })
+
+    after(async () => {
+        for (const dir of tmpDirs) {
+            await fs.rm(dir, { recursive: true, force: true })
+        }
+    })
+
+    function getFactory() {
+        return connectLooteryFactory(
+            deployment.deployedAddresses['LooteryFactory#ERC1967Proxy'],
+            deployer,
+        )
+    }
+
+    it('should report no drift for a deployment seeded from the journal', async () => {
+        const report = await auditDeployment(ethers.provider, deployment, { fromBlock: 0 })
+        expect(report.drift).to.deep.eq([])
+        expect(report.contracts).to.have.length(5)
+        expect(report.contracts.every((c) => c.bytecodeMatches)).to.eq(true)
+        expect(report.factory!.implementation).to.eq(
+            deployment.deployedAddresses['LooteryFactory#LooteryFactory'],
+        )
+        expect(report.factory!.looteryMasterCopyTypeAndVersion).to.match(/^Lootery /)
+        expect(report.factory!.admins).to.deep.eq([deployer.address])
+    })
+
+    it('should report drift in the factory configuration', async () => {
+        const factory = getFactory()
+        await factory.setLooteryMasterCopy(other.address)
+        await factory.grantRole(ZeroHash, other.address)
+        const report = await auditDeployment(ethers.provider, deployment, {
+            fromBlock: 0,
+            expected: { feeRecipient: other.address },
+        })
+        expect(report.drift).to.deep.eq([
+            {
+                kind: 'MasterCopyMismatch',
+                subject: 'looteryMasterCopy',
+                expected: deployment.deployedAddresses['LooteryImplV1_8_0#Lootery'],
+                actual: other.address,
+            },
+            {
+                kind: 'FeeRecipientMismatch',
+                subject: 'feeRecipient',
+                expected: other.address,
+                actual: ethers.ZeroAddress,
+            },
+            { kind: 'UnexpectedAdmin', subject: 'DEFAULT_ADMIN_ROLE', actual: other.address },
+        ])
+    })
+
+    it('should report drift in deployed code', async () => {
+        const renderer = deployment.deployedAddresses['TicketSVGRenderer#TicketSVGRenderer']
+        await hre.network.provider.send('hardhat_setCode', [renderer, '0x6080'])
+        await getFactory().renounceRole(ZeroHash, deployer.address)
+        const report = await auditDeployment(ethers.provider, deployment, { fromBlock: 0 })
+        expect(report.drift.map((d) => [d.kind, d.subject])).to.deep.eq([
+            ['BytecodeMismatch', 'TicketSVGRenderer#TicketSVGRenderer'],
+            ['MissingAdmin', 'DEFAULT_ADMIN_ROLE'],
+        ])
+    })
+
+    it('should write the report and fail on drift with deploy:drift', async () => {
+        const out = path.join(tmpDir, 'drift.json')
+        // The local chain isn't in the manifest, so only the journal is checked
+        await hre.run('deploy:drift', { deployment: tmpDir, fromBlock: 0, out })
+        const report = JSON.parse(await fs.readFile(out, { encoding: 'utf-8' }))
+        expect(report.chainId).to.eq('31337')
+        expect(report.drift).to.deep.eq([])
+
+        await getFactory().setLooteryMasterCopy(other.address)
+        await expect(
+            hre.run('deploy:drift', { deployment: tmpDir, fromBlock: 0, out }),
+        ).to.be.rejectedWith(/Detected 1 drift\(s\) on chain 31337/)
+    })
+})
@@ -0,0 +1,146 @@
+import hre, { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import {
+    DeploymentManifestSchema,
+    getNetworkManifest,
+    readManifest,
+    toHardhatConfig,
+} from '../scripts/manifest'
+
+describe('Deployment manifest', () => {
+    const network = {
+        chainId: 1,
+        rpcUrlEnv: 'MAINNET_URL',
+        deployerKeyEnv: 'MAINNET_DEPLOYER_PK',
+    }
+
+    it('should validate the checked-in manifest', () => {
+        const manifest = readManifest()
+        expect(getNetworkManifest(534352n, manifest).name).to.eq('scroll')
+        expect(() => getNetworkManifest(1n, manifest)).to.throw(/not in the deployment manifest/)
+    })
+
+    it('should reject invalid manifests', () => {
+        const cases = [
+            { mainnet: { ...network, randomiser: '0x1234' } },
+            { mainnet: { ...network, rpcUrlEnv: 'mainnet-url' } },
+            { mainnet: network, ethereum: network },
+            {
+                mainnet: {
+                    ...network,
+                    explorer: { apiKeyEnv: 'ETHERSCAN_API_KEY', apiUrl: 'https://example.com' },
+                },
+            },
+        ]
+        for (const networks of cases) {
+            expect(DeploymentManifestSchema.safeParse({ networks }).success).to.eq(false)
+        }
+    })
+
+    it('should generate hardhat network configs', () => {
+        const { networks, etherscan } = toHardhatConfig(
+            DeploymentManifestSchema.parse({
+                networks: {
+                    mainnet: { ...network, explorer: { apiKeyEnv: 'ETHERSCAN_API_KEY' } },
+                    custom: {
+                        ...network,
+                        chainId: 2,
+                        explorer: {
+                            apiKeyEnv: 'CUSTOMSCAN_API_KEY',
+                            network: 'customChain',
+                            apiUrl: 'https://api.example.com/api',
+                            browserUrl: 'https://example.com',
+                        },
+                    },
+                },
+            }),
+        )
+        expect(networks).to.have.keys(['mainnet', 'custom'])
+        expect(networks.custom).to.include({ chainId: 2 })
+        expect(etherscan.apiKey).to.have.keys(['mainnet', 'customChain'])
+        expect(etherscan.customChains).to.deep.eq([
+            {
+                network: 'customChain',
+                chainId: 2,
+                urls: { apiURL: 'https://api.example.com/api', browserURL: 'https://example.com' },
+            },
+        ])
+    })
+
+    describe('deploy:check', () => {
+        let deployer: SignerWithAddress
+        let feeRecipient: SignerWithAddress
+        let factory: LooteryFactory
+        let randomiser: string
+        let tmpDir: string
+        beforeEach(async () => {
+            ;[deployer, feeRecipient] = await ethers.getSigners()
+            const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+            randomiser = await mockRandomiser.getAddress()
+            const looteryImpl = await new Lootery__factory(deployer).deploy()
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            factory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await looteryImpl.getAddress(),
+                    randomiser,
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+            await factory.setFeeRecipient(feeRecipient.address)
+            tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-manifest-'))
+        })
+
+        async function runCheck(overrides: Record<string, string>) {
+            const manifest = path.join(tmpDir, 'deployments.yaml')
+            // NB: JSON is valid YAML
+            await fs.writeFile(
+                manifest,
+                JSON.stringify({
+                    networks: {
+                        hardhat: {
+                            ...network,
+                            chainId: 31337,
+                            randomiser,
+                            owner: deployer.address,
+                            feeRecipient: feeRecipient.address,
+                            ...overrides,
+                        },
+                    },
+                }),
+            )
+            return hre.run('deploy:check', { manifest, factory: await factory.getAddress() })
+        }
+
+        it('should pass when the manifest matches the deployment', async () => {
+            const checks = await runCheck({})
+            expect(checks.map((c: { name: string }) => c.name)).to.deep.eq([
+                'randomiser',
+                'feeRecipient',
+                `owner ${deployer.address} is admin`,
+            ])
+        })
+
+        it('should fail when the manifest has drifted', async () => {
+            await expect(runCheck({ randomiser: feeRecipient.address })).to.be.rejectedWith(
+                /1 deployment check\(s\) failed/,
+            )
+            await expect(runCheck({ owner: feeRecipient.address })).to.be.rejectedWith(
+                /1 deployment check\(s\) failed/,
+            )
+        })
+    })
+})
@@ -0,0 +1,217 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { computeWinningPick } from '../sdk/winningPick'
+import { Indexer, IndexerLogger } from '../services/indexer/Indexer'
+import { IndexerDatabase } from '../services/indexer/IndexerDatabase'
+
+const silentLogger: IndexerLogger = {
+    log: () => {},
+    warn: () => {},
+    error: () => {},
+}
+
+describe('Indexer', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let bob: SignerWithAddress
+    let beneficiary: SignerWithAddress
+    let db: IndexerDatabase
+    let indexer: Indexer
+    beforeEach(async () => {
+        ;[deployer, alice, bob, beneficiary] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        db = new IndexerDatabase(':memory:')
+        indexer = new Indexer({
+            provider: ethers.provider,
+            factory: await factory.getAddress(),
+            db,
+            logger: silentLogger,
+        })
+    })
+
+    afterEach(() => {
+        db.close()
+    })
+
+    async function deployFundedLotto() {
+        const lotto = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        for (const account of [alice, bob]) {
+            await testERC20.mint(account, parseEther('1'))
+            await testERC20.connect(account).approve(lotto.lotto, parseEther('1'))
+        }
+        return lotto
+    }
+
+    it('should index lotteries and the tickets owned by each account', async () => {
+        const { lotto: lotto0 } = await deployFundedLotto()
+        const { lotto: lotto1 } = await deployFundedLotto()
+        const { tokenId: t0 } = await purchaseTicket(
+            lotto0.connect(alice),
+            alice.address,
+            [1, 2, 3, 4, 5],
+        )
+        const { tokenId: t1 } = await purchaseTicket(
+            lotto0.connect(bob),
+            bob.address,
+            [6, 7, 8, 9, 10],
+        )
+        const { tokenId: t2 } = await purchaseTicket(
+            lotto1.connect(alice),
+            alice.address,
+            [11, 12, 13, 14, 15],
+        )
+        await lotto0.connect(bob).transferFrom(bob.address, alice.address, t1)
+
+        expect(await indexer.sync()).to.eq(await ethers.provider.getBlockNumber())
+        expect(db.getLotteries().map((lottery) => lottery.address)).to.deep.eq([
+            await lotto0.getAddress(),
+            await lotto1.getAddress(),
+        ])
+
+        const aliceGames = db.getTicketsOwnedBy(alice.address)
+        expect(aliceGames).to.have.length(2)
+        expect(aliceGames[0].lootery).to.eq(await lotto0.getAddress())
+        expect(aliceGames[0].gameId).to.eq(0n)
+        expect(aliceGames[0].tickets.map((ticket) => ticket.tokenId)).to.deep.eq([t0, t1])
+        expect(aliceGames[0].tickets[1].whomst).to.eq(bob.address)
+        expect(aliceGames[0].tickets[1].pick).to.deep.eq([6n, 7n, 8n, 9n, 10n])
+        expect(aliceGames[1].tickets.map((ticket) => ticket.tokenId)).to.deep.eq([t2])
+        expect(db.getTicketsOwnedBy(alice.address, await lotto1.getAddress())).to.have.length(1)
+        expect(db.getTicketsOwnedBy(bob.address)).to.deep.eq([])
+
+        // Syncing again is a no-op
+        await indexer.sync()
+        expect(db.getTicketsOwnedBy(alice.address)).to.deep.eq(aliceGames)
+    })
+
+    it('should index winners of a game and their claims', async () => {
+        const { lotto, fastForwardAndDraw } = await deployFundedLotto()
+        const randomness = 1234n
+        const winningPick = computeWinningPick(5n, 69n, randomness)
+        const { tokenId: winner } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            winningPick,
+        )
+        await purchaseTicket(lotto.connect(bob), bob.address, [1, 2, 3, 4, 5])
+        await fastForwardAndDraw(randomness)
+
+        await indexer.sync()
+        const lootery = await lotto.getAddress()
+        expect(db.getWinningPick(lootery, 0n)).to.deep.eq(winningPick)
+        let winners = db.getWinnersOfGame(lootery, 0n)
+        expect(winners).to.have.length(1)
+        expect(winners[0].tokenId).to.eq(winner)
+        expect(winners[0].owner).to.eq(alice.address)
+        expect(winners[0].isClaimed).to.eq(false)
+
+        await lotto.claimWinnings(winner)
+        await indexer.sync()
+        winners = db.getWinnersOfGame(lootery, 0n)
+        expect(winners[0].isClaimed).to.eq(true)
+        expect(winners[0].claimedValue).to.be.greaterThan(0n)
+        expect(db.getWinnersOfGame(lootery, 1n)).to.deep.eq([])
+    })
+
+    it('should index prize tier claims', async () => {
+        const { lotto, fastForwardAndDraw } = await deployFundedLotto()
+        await lotto.setPrizeTiers([{ matches: 4, shareBps: 1000 }])
+        const randomness = 1234n
+        const winningPick = computeWinningPick(5n, 69n, randomness)
+        // Matches 4 of the winning balls
+        const pick = [...winningPick.slice(0, 4), winningPick.includes(1n) ? 2n : 1n].sort(
+            (a, b) => (a < b ? -1 : 1),
+        )
+        const { tokenId } = await purchaseTicket(lotto.connect(alice), alice.address, pick)
+        await fastForwardAndDraw(randomness)
+
+        const lootery = await lotto.getAddress()
+        await lotto.claimWinnings(tokenId)
+        await indexer.sync()
+        expect(db.isWinningsClaimed(lootery, tokenId)).to.eq(true)
+        // Not a jackpot winner
+        expect(db.getWinnersOfGame(lootery, 0n)).to.deep.eq([])
+    })
+
+    it('should sum fee revenue per beneficiary', async () => {
+        const { lotto } = await deployFundedLotto()
+        await lotto.setBeneficiary(beneficiary.address, 'Beneficiary', true)
+        await purchaseTicket(lotto.connect(alice), alice.address, [1, 2, 3, 4, 5])
+        await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            [1, 2, 3, 4, 6],
+            beneficiary.address,
+        )
+        await purchaseTicket(lotto.connect(bob), bob.address, [1, 2, 3, 4, 7], beneficiary.address)
+
+        await indexer.sync()
+        const lootery = await lotto.getAddress()
+        const revenue = db.getFeeRevenuePerBeneficiary(lootery)
+        expect(revenue.get(beneficiary.address)).to.eq(parseEther('0.1'))
+        // Fees without a beneficiary accrue to the lottery itself
+        expect(revenue.get(lootery)).to.eq(parseEther('0.05'))
+    })
+
+    it('should roll back to the common ancestor after a reorg', async () => {
+        const { lotto } = await deployFundedLotto()
+        const lootery = await lotto.getAddress()
+        await purchaseTicket(lotto.connect(alice), alice.address, [1, 2, 3, 4, 5])
+        await indexer.sync()
+        const ancestor = await ethers.provider.getBlockNumber()
+
+        const snapshotId = await ethers.provider.send('evm_snapshot', [])
+        await purchaseTicket(lotto.connect(alice), alice.address, [6, 7, 8, 9, 10])
+        await indexer.sync()
+        expect(db.getTicketsOwnedBy(alice.address)[0].tickets).to.have.length(2)
+
+        // Replace the indexed block with a different one at the same height
+        await ethers.provider.send('evm_revert', [snapshotId])
+        const { tokenId } = await purchaseTicket(
+            lotto.connect(bob),
+            bob.address,
+            [11, 12, 13, 14, 15],
+        )
+        expect(await ethers.provider.getBlockNumber()).to.eq(ancestor + 1)
+
+        await indexer.sync()
+        expect(db.getTicketsOwnedBy(alice.address)[0].tickets).to.have.length(1)
+        const [bobGame] = db.getTicketsOwnedBy(bob.address, lootery)
+        expect(bobGame.tickets.map((ticket) => ticket.tokenId)).to.deep.eq([tokenId])
+        expect(db.getLatestBlock()!.hash).to.eq(
+            (await ethers.provider.getBlock(ancestor + 1))!.hash,
+        )
+    })
+})
@@ -0,0 +1,274 @@
+import { ethers } from 'hardhat'
+import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+    LooterySubscriptions__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import { GameState } from './helpers/GameState'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { Keeper, KeeperLogger } from '../services/keeper/Keeper'
+import { loadKeeperState } from '../services/keeper/KeeperState'
+
+const silentLogger: KeeperLogger = {
+    log: () => {},
+    warn: () => {},
+    error: () => {},
+}
+
+describe('Keeper', () => {
+    let mockRandomiser: MockRandomiser
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let keeperSigner: SignerWithAddress
+    let stateFile: string
+    beforeEach(async () => {
+        ;[deployer, bob, keeperSigner] = await ethers.getSigners()
+        mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-keeper-'))
+        stateFile = path.join(stateDir, 'state.json')
+    })
+
+    function createKeeper(requestPriceMultiplier?: bigint) {
+        return new Keeper({
+            factory,
+            signer: keeperSigner,
+            stateFile,
+            requestPriceMultiplier,
+            logger: silentLogger,
+        })
+    }
+
+    async function deployLottoWithTicket() {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(bob, parseEther('0.1'))
+        await testERC20.connect(bob).approve(lotto, parseEther('0.1'))
+        await purchaseTicket(lotto.connect(bob), bob.address, [1, 2, 3, 4, 5])
+        return lotto
+    }
+
+    it('should discover lotteries and persist state', async () => {
+        const lotto0 = await deployLottoWithTicket()
+        const lotto1 = await deployLottoWithTicket()
+
+        const keeper = createKeeper()
+        expect(await keeper.discover()).to.deep.eq([
+            await lotto0.getAddress(),
+            await lotto1.getAddress(),
+        ])
+        const state = await loadKeeperState(stateFile)
+        expect(state.lastScannedBlock).to.eq(await ethers.provider.getBlockNumber())
+        expect(Object.keys(state.lotteries)).to.have.length(2)
+
+        // A new keeper resumes from the persisted state
+        const lotto2 = await deployLottoWithTicket()
+        expect(await createKeeper().discover()).to.deep.eq([
+            await lotto0.getAddress(),
+            await lotto1.getAddress(),
+            await lotto2.getAddress(),
+        ])
+    })
+
+    it('should draw once the game period has elapsed', async () => {
+        const lotto = await deployLottoWithTicket()
+        const keeper = createKeeper()
+
+        // Not due yet
+        expect(await keeper.tick()).to.deep.eq([])
+        expect((await lotto.currentGame()).state).to.eq(GameState.Purchase)
+
+        await time.increase(3600n)
+        const [result] = await keeper.tick()
+        expect(result.status).to.eq('sent')
+        expect(result.action).to.eq('draw')
+        expect(result.gameId).to.eq(0n)
+        expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+
+        const state = await loadKeeperState(stateFile)
+        expect(state.lotteries[await lotto.getAddress()].lastAction).to.include({
+            type: 'draw',
+            gameId: '0',
+            txHash: result.txHash,
+        })
+
+        // Nothing to do while the request is fresh
+        expect(await keeper.tick()).to.deep.eq([])
+    })
+
+    it('should skip games without tickets sold', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await time.increase(3600n)
+        const [result] = await createKeeper().tick()
+        expect(result.status).to.eq('sent')
+        const game = await lotto.currentGame()
+        expect(game.state).to.eq(GameState.Purchase)
+        expect(game.id).to.eq(1n)
+    })
+
+    it('should force redraw once the randomness request is stale', async () => {
+        const lotto = await deployLottoWithTicket()
+        const keeper = createKeeper()
+        await time.increase(3600n)
+        await keeper.tick()
+        const { requestId } = await lotto.randomnessRequest()
+
+        await time.increase(30n * 60n)
+        expect(await keeper.tick()).to.deep.eq([])
+
+        await time.increase(30n * 60n)
+        const [result] = await keeper.tick()
+        expect(result.status).to.eq('sent')
+        expect(result.action).to.eq('forceRedraw')
+        const { requestId: newRequestId } = await lotto.randomnessRequest()
+        expect(newRequestId).to.not.eq(requestId)
+
+        // Fulfilment of the new request starts the next game, to be drawn later
+        await mockRandomiser.fulfillRandomness(newRequestId, 1234n)
+        const game = await lotto.currentGame()
+        expect(game.state).to.eq(GameState.Purchase)
+        expect(game.id).to.eq(1n)
+        expect(await keeper.tick()).to.deep.eq([])
+    })
+
+    it('should gracefully handle insufficient operational funds', async () => {
+        const lotto = await deployLottoWithTicket()
+        await setBalance(await lotto.getAddress(), 0n)
+        await time.increase(3600n)
+        const [result] = await createKeeper(0n).tick()
+        expect(result.status).to.eq('skipped')
+        expect(result.reason).to.eq('InsufficientOperationalFunds')
+        expect((await lotto.currentGame()).state).to.eq(GameState.Purchase)
+    })
+
+    it('should enter subscriptions before drawing', async () => {
+        const lotto = await deployLottoWithTicket()
+        const subscriptions = await new LooterySubscriptions__factory(deployer).deploy(factory)
+        await testERC20.mint(bob, parseEther('0.3'))
+        await testERC20.connect(bob).approve(subscriptions, parseEther('0.3'))
+        await subscriptions
+            .connect(bob)
+            .subscribe(lotto, { whomst: bob.address, pick: [1, 2, 3, 4, 5] }, 3, ZeroAddress)
+        const keeper = new Keeper({
+            factory,
+            signer: keeperSigner,
+            stateFile,
+            subscriptions: subscriptions.connect(keeperSigner),
+            logger: silentLogger,
+        })
+
+        // The current game was entered when subscribing
+        expect(await keeper.tick()).to.deep.eq([])
+        await time.increase(3600n)
+        const [drawResult] = await keeper.tick()
+        expect(drawResult.action).to.eq('draw')
+        const { requestId } = await lotto.randomnessRequest()
+        await mockRandomiser.fulfillRandomness(requestId, 1234n)
+
+        // The next game is entered as soon as it starts
+        const [result] = await keeper.tick()
+        expect(result.status).to.eq('sent')
+        expect(result.action).to.eq('enterSubscriptions')
+        expect(result.gameId).to.eq(1n)
+        expect((await lotto.gameData(1n)).ticketsSold).to.eq(1n)
+        expect(await keeper.tick()).to.deep.eq([])
+
+        // Cancelled subscriptions are forgotten
+        await subscriptions.connect(bob).cancelSubscription(0n)
+        await keeper.tick()
+        const state = await loadKeeperState(stateFile)
+        expect(state.lotteries[await lotto.getAddress()].subscriptionIds).to.deep.eq([])
+    })
+
+    it('should still draw if subscriptions fail to be estimated', async () => {
+        const lotto = await deployLottoWithTicket()
+        const subscriptions = await new LooterySubscriptions__factory(deployer).deploy(factory)
+        await testERC20.mint(bob, parseEther('0.3'))
+        await testERC20.connect(bob).approve(subscriptions, parseEther('0.3'))
+        await subscriptions
+            .connect(bob)
+            .subscribe(lotto, { whomst: bob.address, pick: [1, 2, 3, 4, 5] }, 3, ZeroAddress)
+        // e.g. the RPC fails to estimate the entries
+        const connected = subscriptions.connect(keeperSigner)
+        const failingSubscriptions = new Proxy(connected, {
+            get: (target, prop) => {
+                if (prop === 'enterSubscriptions') {
+                    return Object.assign(() => Promise.reject(new Error('RPC error')), {
+                        estimateGas: () => Promise.reject(new Error('RPC error')),
+                    })
+                }
+                const value = Reflect.get(target, prop)
+                return typeof value === 'function' ? value.bind(target) : value
+            },
+        })
+        const keeper = new Keeper({
+            factory,
+            signer: keeperSigner,
+            stateFile,
+            subscriptions: failingSubscriptions,
+            logger: silentLogger,
+        })
+        await time.increase(3600n)
+        await keeper.tick()
+        const { requestId } = await lotto.randomnessRequest()
+        await mockRandomiser.fulfillRandomness(requestId, 1234n)
+
+        // The subscription is due, but the draw isn't held up
+        await time.increase(3600n)
+        const [result] = await keeper.tick()
+        expect(result.action).to.eq('draw')
+        expect(result.status).to.eq('sent')
+        expect((await lotto.currentGame()).id).to.eq(2n)
+    })
+
+    it('should stop keeping dead lotteries', async () => {
+        const lotto = await deployLottoWithTicket()
+        const keeper = createKeeper()
+        await lotto.kill()
+        await time.increase(3600n)
+        await keeper.tick()
+        const { requestId } = await lotto.randomnessRequest()
+        await mockRandomiser.fulfillRandomness(requestId, 1234n)
+        expect((await lotto.currentGame()).state).to.eq(GameState.Dead)
+
+        expect(await keeper.tick()).to.deep.eq([])
+        const state = await loadKeeperState(stateFile)
+        expect(state.lotteries[await lotto.getAddress()].isDead).to.eq(true)
+    })
+})
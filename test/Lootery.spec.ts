@@ -18,7 +18,7 @@ import {
     LooteryFactory,
 } from '../typechain-types'
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
-import { ZeroAddress, parseEther } from 'ethers'
+import { ContractTransactionResponse, ZeroAddress, parseEther } from 'ethers'
 import { expect } from 'chai'
 import { deployProxy } from './helpers/deployProxy'
 import { GameState } from './helpers/GameState'
@@ -774,7 +774,7 @@ describe('Lootery', () => {
             await time.increase(3600n)
 
             const [requestPrice] = await mockRandomiser.getRequestPrice(
-                500_000 /** TODO: This will be configurable */,
+                await lotto.callbackGasLimit(),
             )
             const payment = parseEther('1') // ought to be enough for any request
             const drawTx = lotto.draw({
@@ -1209,6 +1209,152 @@ describe('Lootery', () => {
         })
     })
 
+    describe('#claimWinningsBatch', () => {
+        let prizeToken: ERC20
+        let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+        let winningPick: bigint[]
+        beforeEach(async () => {
+            ;({ lotto, fastForwardAndDraw, prizeToken } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            }))
+            // With seed=69420, the winning pick is [5,10,41,46,55]
+            winningPick = Array.from(await lotto.computePick(36101364786398240n))
+        })
+
+        async function countPrizeTransfers(tx: Promise<ContractTransactionResponse>) {
+            const receipt = await tx.then((tx) => tx.wait())
+            return receipt!.logs
+                .filter((log) => log.address === testERC20.target)
+                .map((log) => testERC20.interface.parseLog(log))
+                .filter((log) => log?.name === 'Transfer').length
+        }
+
+        it('should revert if no tickets were specified', async () => {
+            await expect(lotto.claimWinningsBatch([], false)).to.be.revertedWithCustomError(
+                lotto,
+                'NoTicketsSpecified',
+            )
+        })
+
+        it('should revert if any ticket did not win, unless lenient', async () => {
+            await lotto.pickTickets([
+                { whomst: alice.address, pick: winningPick },
+                { whomst: bob.address, pick: [1n, 2n, 3n, 4n, 5n] },
+            ])
+            await fastForwardAndDraw(69420n)
+
+            await expect(lotto.claimWinningsBatch([1, 2], false))
+                .to.be.revertedWithCustomError(lotto, 'NoWin')
+                .withArgs(computePickId([1n, 2n, 3n, 4n, 5n]), 36101364786398240n)
+            const jackpot = await lotto.unclaimedPayouts()
+            await expect(lotto.claimWinningsBatch([1, 2], true))
+                .to.emit(lotto, 'WinningsClaimed')
+                .withArgs(1, 0, alice.address, jackpot)
+            expect(await prizeToken.balanceOf(alice.address)).to.eq(jackpot)
+            // Already claimed
+            await expect(lotto.claimWinningsBatch([1], false))
+                .to.be.revertedWithCustomError(lotto, 'AlreadyClaimed')
+                .withArgs(1)
+            expect(await lotto.claimWinningsBatch.staticCall([1, 2], true)).to.eq(0)
+        })
+
+        it('should transfer the prizes of each ticket holder at once', async () => {
+            await lotto.pickTickets([
+                { whomst: alice.address, pick: winningPick },
+                { whomst: bob.address, pick: winningPick },
+                { whomst: alice.address, pick: winningPick },
+                { whomst: deployer.address, pick: [1n, 2n, 3n, 4n, 5n] },
+            ])
+            await fastForwardAndDraw(69420n)
+            const jackpot = await lotto.unclaimedPayouts()
+
+            // Duplicates are skipped as already claimed
+            const tokenIds = [1, 2, 3, 4, 1]
+            expect(await lotto.claimWinningsBatch.staticCall(tokenIds, true)).to.eq(jackpot)
+            const claimTx = lotto.claimWinningsBatch(tokenIds, true)
+            for (const tokenId of [1, 2, 3]) {
+                await expect(claimTx)
+                    .to.emit(lotto, 'WinningsClaimed')
+                    .withArgs(
+                        tokenId,
+                        0,
+                        (whomst: string) => whomst !== deployer.address,
+                        (value: bigint) => value > 0n,
+                    )
+            }
+            expect(await countPrizeTransfers(claimTx)).to.eq(2)
+            const aliceBalance = await prizeToken.balanceOf(alice.address)
+            const bobBalance = await prizeToken.balanceOf(bob.address)
+            expect(aliceBalance).to.be.gt(bobBalance)
+            expect(aliceBalance + bobBalance).to.eq(jackpot)
+            expect(await lotto.unclaimedPayouts()).to.eq(0)
+        })
+
+        it('should claim consolation prizes in Dead state', async () => {
+            const tickets = Array.from({ length: 4 }, (_, i) => ({
+                whomst: alice.address,
+                pick: [1n, 2n, 3n, 4n, BigInt(6 + i)],
+            }))
+            await lotto.pickTickets(tickets)
+            await lotto.kill() // trigger apocalypse mode
+            await fastForwardAndDraw(69420n)
+            const jackpot = await lotto.unclaimedPayouts()
+
+            const claimTx = lotto.claimWinningsBatch([1, 2, 3, 4], false)
+            await expect(claimTx)
+                .to.emit(lotto, 'ConsolationClaimed')
+                .withArgs(4, 0, alice.address, jackpot / 4n)
+            expect(await countPrizeTransfers(claimTx)).to.eq(1)
+            expect(await prizeToken.balanceOf(alice.address)).to.eq(jackpot)
+            expect(await lotto.totalSupply()).to.eq(0)
+        })
+
+        it('should skip burnt consolation tickets if lenient', async () => {
+            const tickets = Array.from({ length: 3 }, (_, i) => ({
+                whomst: alice.address,
+                pick: [1n, 2n, 3n, 4n, BigInt(6 + i)],
+            }))
+            await lotto.pickTickets(tickets)
+            await lotto.kill() // trigger apocalypse mode
+            await fastForwardAndDraw(69420n)
+            const jackpot = await lotto.unclaimedPayouts()
+
+            // Claiming the consolation share burns the ticket
+            await lotto.claimWinnings(1)
+            await expect(lotto.claimWinningsBatch([1, 2, 3], false))
+                .to.be.revertedWithCustomError(lotto, 'ERC721NonexistentToken')
+                .withArgs(1)
+            const claimTx = lotto.claimWinningsBatch([1, 2, 3], true)
+            for (const tokenId of [2, 3]) {
+                await expect(claimTx)
+                    .to.emit(lotto, 'ConsolationClaimed')
+                    .withArgs(tokenId, 0, alice.address, (value: bigint) => value > 0n)
+            }
+            expect(await prizeToken.balanceOf(alice.address)).to.eq(jackpot)
+            expect(await lotto.totalSupply()).to.eq(0)
+        })
+
+        it('should skip tickets of older games if lenient', async () => {
+            await lotto.pickTickets([{ whomst: alice.address, pick: winningPick }])
+            await fastForwardAndDraw(69420n)
+            await lotto.pickTickets([{ whomst: alice.address, pick: winningPick }])
+            await fastForwardAndDraw(69420n)
+            const jackpot = await lotto.unclaimedPayouts()
+
+            // Ticket #1 won the game before the last one
+            await expect(lotto.claimWinningsBatch([1, 2], false))
+                .to.be.revertedWithCustomError(lotto, 'ClaimWindowMissed')
+                .withArgs(1)
+            await expect(lotto.claimWinningsBatch([1, 2], true))
+                .to.emit(lotto, 'WinningsClaimed')
+                .withArgs(2, 1, alice.address, jackpot)
+            expect(await prizeToken.balanceOf(alice.address)).to.eq(jackpot)
+        })
+    })
+
     describe('#withdrawAccruedFees', () => {
         beforeEach(async () => {
             ;({ lotto } = await deployLotto({
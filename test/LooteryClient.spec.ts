@@ -0,0 +1,230 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import {
+    GameState,
+    InvalidPickError,
+    LooteryClient,
+    chunkByGas,
+    filterLooteryEvents,
+    validatePick,
+} from '../sdk'
+
+describe('LooteryClient', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let beneficiary: SignerWithAddress
+    beforeEach(async () => {
+        ;[deployer, bob, beneficiary] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+    })
+
+    describe('validatePick', () => {
+        it('should accept valid picks', () => {
+            expect(validatePick([1, 2, 3, 4, 69], 5, 69)).to.deep.eq([1n, 2n, 3n, 4n, 69n])
+            // Empty picks are dummy tickets
+            expect(validatePick([], 5, 69)).to.deep.eq([])
+        })
+
+        it('should reject picks that the contract would reject', () => {
+            const expectInvalid = (pick: number[], reason: InvalidPickError['reason']) => {
+                expect(() => validatePick(pick, 5, 69))
+                    .to.throw(InvalidPickError)
+                    .with.property('reason', reason)
+            }
+            expectInvalid([1, 2, 3, 4], 'InvalidPickLength')
+            expectInvalid([1, 2, 3, 4, 5, 6], 'InvalidPickLength')
+            expectInvalid([2, 1, 3, 4, 5], 'UnsortedPick')
+            expectInvalid([1, 1, 3, 4, 5], 'UnsortedPick')
+            expectInvalid([0, 1, 3, 4, 5], 'UnsortedPick')
+            expectInvalid([1, 2, 3, 4, 70], 'InvalidBallValue')
+        })
+    })
+
+    it('should read game state, purchase and claim', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await lotto.setBeneficiary(beneficiary.address, 'Beneficiary', true)
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+
+        const config = await client.getConfig()
+        expect(config.pickLength).to.eq(5n)
+        expect(config.maxBallValue).to.eq(69n)
+        expect(config.ticketPrice).to.eq(parseEther('0.1'))
+        expect(await client.getBeneficiaries()).to.deep.eq([
+            { address: beneficiary.address, displayName: 'Beneficiary' },
+        ])
+
+        let game = await client.getGameState()
+        expect(game.state).to.eq(GameState.Purchase)
+        expect(game.gameId).to.eq(0n)
+        expect(game.jackpot).to.eq(parseEther('10'))
+        expect(game.deadline).to.eq(game.startedAt + 3600n)
+
+        // Invalid picks never reach the chain
+        await expect(
+            client.purchase([{ whomst: bob.address, pick: [31, 35, 37, 61, 56] }]),
+        ).to.be.rejectedWith(InvalidPickError)
+        await expect(
+            client.purchase(
+                [{ whomst: bob.address, pick: [31, 35, 37, 56, 61] }],
+                deployer.address,
+            ),
+        ).to.be.rejectedWith(/Unknown beneficiary/)
+
+        await testERC20.mint(bob, parseEther('0.2'))
+        await testERC20.connect(bob).approve(lotto, parseEther('0.2'))
+        const { tickets } = await client.purchase(
+            [
+                { whomst: bob.address, pick: [31, 35, 37, 56, 61] },
+                { whomst: bob.address, pick: [1, 2, 3, 4, 5] },
+            ],
+            beneficiary.address,
+        )
+        expect(tickets.map(({ tokenId }) => tokenId)).to.deep.eq([1n, 2n])
+        expect(tickets[0].gameId).to.eq(0n)
+        expect(tickets[0].pick).to.deep.eq([31n, 35n, 37n, 56n, 61n])
+
+        game = await client.getGameState()
+        expect(game.ticketsSold).to.eq(2n)
+
+        // Winning pick for this seed is [31, 35, 37, 56, 61]
+        await fastForwardAndDraw(6942069420n)
+        const jackpot = await lotto.unclaimedPayouts()
+        const claim = await client.claimWinnings(1n)
+        expect(claim.isConsolation).to.eq(false)
+        expect(claim.gameId).to.eq(0n)
+        expect(claim.whomst).to.eq(bob.address)
+        expect(claim.value).to.eq(jackpot)
+
+        const events = await client.getEvents()
+        const eventNames = events.map(({ name }) => name)
+        expect(eventNames).to.include.members([
+            'JackpotSeeded',
+            'BeneficiarySet',
+            'TicketPurchased',
+            'GameFinalised',
+            'JackpotRollover',
+            'WinningsClaimed',
+        ])
+        const [finalised] = filterLooteryEvents(events, 'GameFinalised')
+        expect(finalised.args.gameId).to.eq(0n)
+        expect(finalised.args.winningPick).to.deep.eq([31n, 35n, 37n, 56n, 61n])
+    })
+
+    describe('claimWinningsBatch', () => {
+        it('should split items into chunks that fit the gas budget', async () => {
+            const estimateGas = async (chunk: number[]) => 100n + 10n * BigInt(chunk.length)
+            expect(await chunkByGas([1, 2, 3, 4, 5], estimateGas, 125n)).to.deep.eq([
+                [1, 2],
+                [3],
+                [4, 5],
+            ])
+            expect(await chunkByGas([1, 2, 3, 4, 5], estimateGas, 150n)).to.deep.eq([
+                [1, 2, 3, 4, 5],
+            ])
+            // A single item is never split
+            expect(await chunkByGas([1], estimateGas, 0n)).to.deep.eq([[1]])
+            expect(await chunkByGas([], estimateGas, 0n)).to.deep.eq([])
+        })
+
+        it('should halve chunks whose gas estimate fails', async () => {
+            // e.g. chunks over the block gas limit
+            const estimateGas = async (chunk: number[]) => {
+                if (chunk.length > 2) throw new Error('Exceeds block gas limit')
+                return 100n
+            }
+            expect(await chunkByGas([1, 2, 3, 4, 5], estimateGas, 150n)).to.deep.eq([
+                [1, 2],
+                [3],
+                [4, 5],
+            ])
+            // A single item that fails to estimate surfaces its error
+            const reverts = async (chunk: number[]) => {
+                if (chunk.includes(4)) throw new Error('Reverted')
+                return 100n
+            }
+            try {
+                await chunkByGas([1, 2, 3, 4, 5], reverts, 150n)
+                expect.fail('Expected the estimate to throw')
+            } catch (err) {
+                expect((err as Error).message).to.eq('Reverted')
+            }
+        })
+
+        it('should claim in as many transactions as the gas budget requires', async () => {
+            const { lotto, fastForwardAndDraw } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            })
+            const client = LooteryClient.connect(await lotto.getAddress(), bob)
+            await testERC20.mint(bob, parseEther('0.4'))
+            await testERC20.connect(bob).approve(lotto, parseEther('0.4'))
+            const winningPick = [31, 35, 37, 56, 61]
+            await client.purchase([
+                { whomst: bob.address, pick: winningPick },
+                { whomst: bob.address, pick: [1, 2, 3, 4, 5] },
+                { whomst: bob.address, pick: winningPick },
+                { whomst: bob.address, pick: winningPick },
+            ])
+            // Winning pick for this seed is [31, 35, 37, 56, 61]
+            await fastForwardAndDraw(6942069420n)
+            const jackpot = await lotto.unclaimedPayouts()
+            const balanceBefore = await testERC20.balanceOf(bob.address)
+
+            // Strict batches revert on the losing ticket
+            await expect(client.claimWinningsBatch([1n, 2n])).to.be.rejected
+
+            const maxGasPerTx = await lotto.claimWinningsBatch.estimateGas([1n, 3n], true)
+            const onBatch: number[] = []
+            const batches = await client.claimWinningsBatch([1n, 2n, 3n, 4n, 4n], {
+                lenient: true,
+                maxGasPerTx,
+                onBatch: (_, index) => onBatch.push(index),
+            })
+            expect(batches.length).to.be.gt(1)
+            expect(onBatch).to.deep.eq(batches.map((_, index) => index))
+            expect(batches.flatMap(({ tokenIds }) => tokenIds)).to.deep.eq([1n, 2n, 3n, 4n])
+            const claims = batches.flatMap(({ claims }) => claims)
+            expect(claims.map(({ tokenId }) => tokenId)).to.deep.eq([1n, 3n, 4n])
+            expect(claims.every(({ whomst }) => whomst === bob.address)).to.eq(true)
+            expect(claims.reduce((sum, { value }) => sum + value, 0n)).to.eq(jackpot)
+            for (const { receipt } of batches) {
+                expect(receipt.gasUsed).to.be.lte(maxGasPerTx)
+            }
+            expect(await testERC20.balanceOf(bob.address)).to.eq(balanceBefore + jackpot)
+        })
+    })
+})
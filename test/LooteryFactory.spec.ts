@@ -10,6 +10,8 @@ import {
     TicketSVGRenderer,
 } from '../typechain-types'
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { setStorageAt } from '@nomicfoundation/hardhat-network-helpers'
+import { AbiCoder, ZeroHash, id, keccak256 } from 'ethers'
 import { expect } from 'chai'
 import { deployProxy } from './helpers/deployProxy'
 
@@ -112,6 +114,7 @@ describe('LooteryFactory', () => {
 
     it('should create a lotto at the computed address', async () => {
         const computedAddress = await factory.computeNextAddress()
+        expect(await factory.isLooteryLaunched(computedAddress)).to.eq(false)
         await expect(
             factory.create(
                 'Test Lootery',
@@ -133,6 +136,45 @@ describe('LooteryFactory', () => {
                 deployer.address,
                 'Test Lootery',
             )
+        expect(await factory.isLooteryLaunched(computedAddress)).to.eq(true)
+    })
+
+    it('should record lottos launched before they were recorded at launch', async () => {
+        const lootery = await factory.computeNextAddress()
+        await factory.create(
+            'Test Lootery',
+            'TEST',
+            5,
+            16,
+            3600,
+            1,
+            5000,
+            ethers.Wallet.createRandom().address,
+            60,
+            1,
+        )
+        // Forget the launch, like factories before v1.7.0
+        const launchedSlot = keccak256(
+            AbiCoder.defaultAbiCoder().encode(
+                ['address', 'bytes32'],
+                [lootery, id('troops.lootery_factory.launched_looteries')],
+            ),
+        )
+        await setStorageAt(await factory.getAddress(), launchedSlot, ZeroHash)
+        expect(await factory.isLooteryLaunched(lootery)).to.eq(false)
+
+        const masterCopy = await factory.getLooteryMasterCopy()
+        await expect(
+            factory.connect(bob).recordLaunchedLooteries(masterCopy, [0]),
+        ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
+        // Nothing was launched with nonce 1 yet
+        await expect(factory.recordLaunchedLooteries(masterCopy, [0, 1]))
+            .to.be.revertedWithCustomError(factory, 'LooteryNotLaunched')
+            .withArgs(masterCopy, 1)
+        await expect(factory.recordLaunchedLooteries(masterCopy, [0]))
+            .to.emit(factory, 'LaunchedLooteryRecorded')
+            .withArgs(lootery)
+        expect(await factory.isLooteryLaunched(lootery)).to.eq(true)
     })
 
     it('should set protocol fee recipient', async () => {
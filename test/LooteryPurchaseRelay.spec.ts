@@ -0,0 +1,187 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    LooteryPurchaseRelay__factory,
+    type LooteryPurchaseRelay,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { HDNodeWallet, TypedDataDomain, Wallet, ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import {
+    NO_PERMIT,
+    PurchaseOrder,
+    buildPurchaseOrder,
+    getEip712Domain,
+    hashPurchaseOrder,
+    signPermit,
+    signPurchaseOrder,
+} from '../sdk/purchaseOrder'
+
+describe('Lootery Purchase Relay', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let relay: LooteryPurchaseRelay
+    let domain: TypedDataDomain
+    let deployer: SignerWithAddress
+    /** Player without any gas */
+    let alice: HDNodeWallet
+    let bob: SignerWithAddress
+    let relayer: SignerWithAddress
+    beforeEach(async () => {
+        ;[deployer, bob, relayer] = await ethers.getSigners()
+        alice = Wallet.createRandom(ethers.provider)
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        relay = await new LooteryPurchaseRelay__factory(deployer).deploy()
+        domain = await getEip712Domain(await relay.getAddress(), ethers.provider)
+    })
+
+    /** Deploy a lottery and an order of 2 tickets from alice, who has no gas */
+    async function setup() {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(alice, parseEther('1'))
+        const deadline = BigInt(await time.latest()) + 3600n
+        const order = await buildPurchaseOrder(await relay.getAddress(), ethers.provider, {
+            player: alice.address,
+            lootery: await lotto.getAddress(),
+            tickets: [
+                { whomst: alice.address, pick: [1, 2, 3, 4, 5] },
+                { whomst: bob.address, pick: [6, 7, 8, 9, 10] },
+            ],
+            beneficiary: ZeroAddress,
+            deadline,
+        })
+        const permit = await signPermit(
+            alice,
+            await testERC20.getAddress(),
+            await relay.getAddress(),
+            order.maxPrice,
+            deadline,
+        )
+        return { lotto, order, permit, signature: await signPurchaseOrder(alice, domain, order) }
+    }
+
+    it('should hash orders like the sdk', async () => {
+        const { order } = await setup()
+        expect(await relay.hashPurchaseOrder(order)).to.eq(hashPurchaseOrder(domain, order))
+    })
+
+    it('should fill signed orders with a permit', async () => {
+        const { lotto, order, permit, signature } = await setup()
+        await expect(relay.connect(relayer).purchase(order, signature, permit))
+            .to.emit(relay, 'PurchaseOrderFilled')
+            .withArgs(
+                alice.address,
+                0n,
+                await lotto.getAddress(),
+                relayer.address,
+                parseEther('0.2'),
+            )
+            .to.emit(lotto, 'TicketPurchased')
+            .withArgs(0n, bob.address, 2n, [6n, 7n, 8n, 9n, 10n])
+        expect(await lotto.ownerOf(1n)).to.eq(alice.address)
+        expect(await lotto.ownerOf(2n)).to.eq(bob.address)
+        expect(await testERC20.balanceOf(alice)).to.eq(parseEther('0.8'))
+        expect(await testERC20.balanceOf(relay)).to.eq(0n)
+        expect(await relay.nonces(alice)).to.eq(1n)
+        // Alice never paid for gas
+        expect(await ethers.provider.getBalance(alice)).to.eq(0n)
+    })
+
+    it('should fill orders whose permit was front-run', async () => {
+        const { lotto, order, permit, signature } = await setup()
+        await testERC20
+            .connect(bob)
+            .permit(
+                alice.address,
+                await relay.getAddress(),
+                permit.value,
+                permit.deadline,
+                permit.v,
+                permit.r,
+                permit.s,
+            )
+        await expect(relay.connect(relayer).purchase(order, signature, permit)).to.emit(
+            lotto,
+            'TicketPurchased',
+        )
+    })
+
+    it('should fill orders without a permit if already approved', async () => {
+        const { lotto, order, signature } = await setup()
+        await testERC20.setApproval(alice, relay, order.maxPrice)
+        await expect(relay.connect(relayer).purchase(order, signature, NO_PERMIT)).to.emit(
+            lotto,
+            'TicketPurchased',
+        )
+    })
+
+    it('should not fill orders twice', async () => {
+        const { order, permit, signature } = await setup()
+        await relay.connect(relayer).purchase(order, signature, permit)
+        await expect(relay.connect(relayer).purchase(order, signature, permit))
+            .to.be.revertedWithCustomError(relay, 'InvalidAccountNonce')
+            .withArgs(alice.address, 1n)
+    })
+
+    it('should reject expired orders', async () => {
+        const { order, permit, signature } = await setup()
+        await time.increaseTo(order.deadline + 1n)
+        await expect(relay.connect(relayer).purchase(order, signature, permit))
+            .to.be.revertedWithCustomError(relay, 'PurchaseOrderExpired')
+            .withArgs(order.deadline)
+    })
+
+    it('should reject orders that were not signed by the player', async () => {
+        const { order, permit, signature } = await setup()
+        const tampered: PurchaseOrder = {
+            ...order,
+            tickets: [{ whomst: bob.address, pick: [1n, 2n, 3n, 4n, 5n] }, order.tickets[1]],
+        }
+        await expect(
+            relay.connect(relayer).purchase(tampered, signature, permit),
+        ).to.be.revertedWithCustomError(relay, 'InvalidSignature')
+        await expect(
+            relay
+                .connect(relayer)
+                .purchase(order, await signPurchaseOrder(bob, domain, order), permit),
+        ).to.be.revertedWithCustomError(relay, 'InvalidSignature')
+    })
+
+    it('should not pay more than the max price', async () => {
+        const { order, permit } = await setup()
+        const cheapOrder = { ...order, maxPrice: order.maxPrice - 1n }
+        await expect(
+            relay
+                .connect(relayer)
+                .purchase(cheapOrder, await signPurchaseOrder(alice, domain, cheapOrder), permit),
+        )
+            .to.be.revertedWithCustomError(relay, 'MaxPriceExceeded')
+            .withArgs(order.maxPrice, cheapOrder.maxPrice)
+    })
+})
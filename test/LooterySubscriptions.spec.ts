@@ -0,0 +1,265 @@
+import { ethers } from 'hardhat'
+import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    LooterySubscriptions__factory,
+    type LooterySubscriptions,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import { GameState } from './helpers/GameState'
+
+describe('Lootery Subscriptions', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let subscriptions: LooterySubscriptions
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let bob: SignerWithAddress
+    let keeper: SignerWithAddress
+    beforeEach(async () => {
+        ;[deployer, alice, bob, keeper] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        subscriptions = await new LooterySubscriptions__factory(deployer).deploy(factory)
+    })
+
+    async function deployLottoWithSubscriber() {
+        const lotto = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(alice, parseEther('1'))
+        await testERC20.connect(alice).approve(subscriptions, parseEther('1'))
+        return lotto
+    }
+
+    it('should enter the current game when subscribing', async () => {
+        const { lotto } = await deployLottoWithSubscriber()
+        const pick = [1n, 2n, 3n, 4n, 5n]
+        await expect(
+            subscriptions
+                .connect(alice)
+                .subscribe(lotto, { whomst: bob.address, pick }, 3, ZeroAddress),
+        )
+            .to.emit(subscriptions, 'Subscribed')
+            .withArgs(0n, await lotto.getAddress(), bob.address, 3n, pick)
+            .to.emit(lotto, 'TicketPurchased')
+            .withArgs(0n, bob.address, 1n, pick)
+            .to.emit(subscriptions, 'SubscriptionEntered')
+            .withArgs(0n, 0n, 2n)
+        expect(await testERC20.balanceOf(alice)).to.eq(parseEther('0.7'))
+        expect(await testERC20.balanceOf(subscriptions)).to.eq(parseEther('0.2'))
+        expect(await lotto.ownerOf(1n)).to.eq(bob.address)
+
+        const subscription = await subscriptions.subscriptions(0n)
+        expect(subscription.whomst).to.eq(bob.address)
+        expect(subscription.nextGameId).to.eq(1n)
+        expect(subscription.gamesLeft).to.eq(2n)
+        expect(subscription.prizeToken).to.eq(await testERC20.getAddress())
+        expect(subscription.ticketPrice).to.eq(parseEther('0.1'))
+
+        // Already entered the current game
+        expect(await subscriptions.isDue(0n)).to.eq(false)
+        await expect(subscriptions.enterSubscriptions([0n])).to.not.emit(lotto, 'TicketPurchased')
+    })
+
+    it('should enter each game as it starts, until the prepaid games run out', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLottoWithSubscriber()
+        const pick = [1n, 2n, 3n, 4n, 5n]
+        await subscriptions
+            .connect(alice)
+            .subscribe(lotto, { whomst: alice.address, pick }, 3, ZeroAddress)
+
+        for (const gameId of [1n, 2n]) {
+            await fastForwardAndDraw(6969n)
+            expect(await subscriptions.isDue(0n)).to.eq(true)
+            await expect(subscriptions.connect(keeper).enterSubscriptions([0n, 0n]))
+                .to.emit(lotto, 'TicketPurchased')
+                .withArgs(gameId, alice.address, gameId + 1n, pick)
+            expect((await lotto.gameData(gameId)).ticketsSold).to.eq(1n)
+        }
+        expect((await subscriptions.subscriptions(0n)).gamesLeft).to.eq(0n)
+        expect(await testERC20.balanceOf(subscriptions)).to.eq(0n)
+
+        await fastForwardAndDraw(6969n)
+        expect(await subscriptions.isDue(0n)).to.eq(false)
+        await expect(subscriptions.enterSubscriptions([0n])).to.not.emit(lotto, 'TicketPurchased')
+    })
+
+    it('should keep missed games prepaid', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLottoWithSubscriber()
+        await subscriptions
+            .connect(alice)
+            .subscribe(lotto, { whomst: alice.address, pick: [1, 2, 3, 4, 5] }, 2, ZeroAddress)
+        // Game 1 is never entered, so it's skipped without tickets
+        await fastForwardAndDraw(6969n)
+        await time.increase(3600n)
+        await expect(lotto.draw()).to.emit(lotto, 'DrawSkipped').withArgs(1n)
+
+        expect((await lotto.currentGame()).id).to.eq(2n)
+        await subscriptions.enterSubscriptions([0n])
+        expect((await lotto.gameData(2n)).ticketsSold).to.eq(1n)
+        const subscription = await subscriptions.subscriptions(0n)
+        expect(subscription.nextGameId).to.eq(3n)
+        expect(subscription.gamesLeft).to.eq(0n)
+    })
+
+    it('should wait for the next game if a draw is pending', async () => {
+        const { lotto, mockRandomiser } = await deployLottoWithSubscriber()
+        await testERC20.mint(bob, parseEther('0.1'))
+        await testERC20.connect(bob).approve(lotto, parseEther('0.1'))
+        await lotto
+            .connect(bob)
+            .purchase([{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }], ZeroAddress)
+        await time.increase(3600n)
+        await setBalance(await lotto.getAddress(), parseEther('0.1'))
+        await lotto.draw()
+        expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+
+        await expect(
+            subscriptions
+                .connect(alice)
+                .subscribe(lotto, { whomst: alice.address, pick: [1, 2, 3, 4, 5] }, 2, ZeroAddress),
+        ).to.not.emit(subscriptions, 'SubscriptionEntered')
+        expect(await subscriptions.isDue(0n)).to.eq(false)
+
+        const { requestId } = await lotto.randomnessRequest()
+        await mockRandomiser.fulfillRandomness(requestId, 6969n)
+        await expect(subscriptions.enterSubscriptions([0n]))
+            .to.emit(subscriptions, 'SubscriptionEntered')
+            .withArgs(0n, 1n, 1n)
+    })
+
+    it('should pay the beneficiary, unless it has been removed', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLottoWithSubscriber()
+        await lotto.setBeneficiary(bob.address, 'Bob', true)
+        await subscriptions
+            .connect(alice)
+            .subscribe(lotto, { whomst: alice.address, pick: [1, 2, 3, 4, 5] }, 2, bob.address)
+        expect(await testERC20.balanceOf(bob)).to.eq(parseEther('0.05'))
+
+        await lotto.setBeneficiary(bob.address, '', false)
+        await fastForwardAndDraw(6969n)
+        const accruedCommunityFees = await lotto.accruedCommunityFees()
+        await expect(subscriptions.enterSubscriptions([0n]))
+            .to.emit(lotto, 'BeneficiaryPaid')
+            .withArgs(1n, await lotto.getAddress(), parseEther('0.05'))
+        expect(await testERC20.balanceOf(bob)).to.eq(parseEther('0.05'))
+        expect(await lotto.accruedCommunityFees()).to.eq(accruedCommunityFees + parseEther('0.05'))
+    })
+
+    it('should not let a failing subscription hold up the others', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLottoWithSubscriber()
+        const pick = [1n, 2n, 3n, 4n, 5n]
+        // Contracts that can't receive tickets fail to enter
+        const receiver = await testERC20.getAddress()
+        const reason = lotto.interface.encodeErrorResult('ERC721InvalidReceiver', [receiver])
+        await expect(
+            subscriptions
+                .connect(alice)
+                .subscribe(lotto, { whomst: receiver, pick }, 2, ZeroAddress),
+        )
+            .to.emit(subscriptions, 'SubscriptionEntryFailed')
+            .withArgs(0n, 0n, reason)
+        await subscriptions
+            .connect(alice)
+            .subscribe(lotto, { whomst: alice.address, pick }, 2, ZeroAddress)
+
+        await fastForwardAndDraw(6969n)
+        await expect(subscriptions.enterSubscriptions([0n, 1n]))
+            .to.emit(subscriptions, 'SubscriptionEntryFailed')
+            .withArgs(0n, 1n, reason)
+            .to.emit(subscriptions, 'SubscriptionEntered')
+            .withArgs(1n, 1n, 0n)
+        // The missed games stay prepaid
+        const subscription = await subscriptions.subscriptions(0n)
+        expect(subscription.gamesLeft).to.eq(2n)
+        expect(subscription.nextGameId).to.eq(2n)
+        expect(await testERC20.balanceOf(subscriptions)).to.eq(parseEther('0.2'))
+        expect(await testERC20.allowance(subscriptions, lotto)).to.eq(0n)
+    })
+
+    it('should refund unused games on cancellation', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLottoWithSubscriber()
+        await subscriptions
+            .connect(alice)
+            .subscribe(lotto, { whomst: alice.address, pick: [1, 2, 3, 4, 5] }, 5, ZeroAddress)
+        await fastForwardAndDraw(6969n)
+        await subscriptions.enterSubscriptions([0n])
+
+        await expect(subscriptions.connect(bob).cancelSubscription(0n))
+            .to.be.revertedWithCustomError(subscriptions, 'InvalidSubscription')
+            .withArgs(0n)
+        await expect(subscriptions.connect(alice).cancelSubscription(0n))
+            .to.emit(subscriptions, 'SubscriptionCancelled')
+            .withArgs(0n, alice.address, parseEther('0.3'))
+        expect(await testERC20.balanceOf(alice)).to.eq(parseEther('0.8'))
+        expect(await testERC20.balanceOf(subscriptions)).to.eq(0n)
+        // Tickets already purchased are kept
+        expect(await lotto.balanceOf(alice)).to.eq(2n)
+
+        await expect(subscriptions.connect(alice).cancelSubscription(0n))
+            .to.be.revertedWithCustomError(subscriptions, 'InvalidSubscription')
+            .withArgs(0n)
+        await fastForwardAndDraw(6969n)
+        await expect(subscriptions.enterSubscriptions([0n])).to.not.emit(lotto, 'TicketPurchased')
+    })
+
+    it('should reject invalid subscriptions', async () => {
+        const { lotto } = await deployLottoWithSubscriber()
+        // Not launched by the factory, so it can't be trusted with the escrow
+        const clone = await new Lootery__factory(deployer).deploy()
+        await expect(
+            subscriptions
+                .connect(alice)
+                .subscribe(clone, { whomst: alice.address, pick: [1, 2, 3, 4, 5] }, 2, ZeroAddress),
+        )
+            .to.be.revertedWithCustomError(subscriptions, 'UnknownLootery')
+            .withArgs(await clone.getAddress())
+        await expect(
+            subscriptions
+                .connect(alice)
+                .subscribe(lotto, { whomst: alice.address, pick: [1, 2, 3, 4, 5] }, 0, ZeroAddress),
+        )
+            .to.be.revertedWithCustomError(subscriptions, 'InvalidNumGames')
+            .withArgs(0n)
+        for (const pick of [
+            [],
+            [1, 2, 3, 4],
+            [1, 2, 3, 4, 5, 6],
+            [2, 1, 3, 4, 5],
+            [1, 1, 3, 4, 5],
+            [0, 1, 2, 3, 4],
+            [1, 2, 3, 4, 70],
+        ]) {
+            await expect(
+                subscriptions
+                    .connect(alice)
+                    .subscribe(lotto, { whomst: alice.address, pick }, 2, ZeroAddress),
+            ).to.be.revertedWithCustomError(subscriptions, 'InvalidPick')
+        }
+    })
+})
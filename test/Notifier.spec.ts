@@ -0,0 +1,261 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { computeWinningPick } from '../sdk/winningPick'
+import { Notifier, NotifierLogger } from '../services/notifier/Notifier'
+import { loadNotifierState } from '../services/notifier/NotifierState'
+import {
+    ClaimNotification,
+    EmailSink,
+    NotificationSink,
+    WebhookSink,
+} from '../services/notifier/sinks'
+import { SmtpStandIn } from '../services/notifier/smtp'
+
+const silentLogger: NotifierLogger = {
+    log: () => {},
+    warn: () => {},
+    error: () => {},
+}
+
+/** Keeps notifications in memory; fails the first `failures` sends */
+class MemorySink implements NotificationSink {
+    readonly name = 'memory'
+    readonly notifications: ClaimNotification[] = []
+
+    constructor(private failures = 0) {}
+
+    async send(notification: ClaimNotification) {
+        if (this.failures > 0) {
+            this.failures -= 1
+            throw new Error('Unavailable')
+        }
+        this.notifications.push(notification)
+    }
+}
+
+describe('Notifier', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let bob: SignerWithAddress
+    let stateFile: string
+    const randomness = 1234n
+    const winningPick = computeWinningPick(5n, 69n, randomness)
+    const losingPick = [1, 2, 3, 4, 5]
+    const reminders = [1800, 600]
+
+    beforeEach(async () => {
+        ;[deployer, alice, bob] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        await testERC20.mint(alice, parseEther('10'))
+        await testERC20.mint(bob, parseEther('10'))
+        const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-notifier-'))
+        stateFile = path.join(stateDir, 'state.json')
+    })
+
+    async function setup() {
+        const deployed = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.connect(alice).approve(deployed.lotto, parseEther('10'))
+        await testERC20.connect(bob).approve(deployed.lotto, parseEther('10'))
+        return deployed
+    }
+
+    function createNotifier(sinks: NotificationSink[]) {
+        return new Notifier({
+            factory,
+            provider: ethers.provider,
+            sinks,
+            stateFile,
+            reminders,
+            logger: silentLogger,
+        })
+    }
+
+    function summarise(notifications: ClaimNotification[]) {
+        return notifications.map(({ kind, tokenId, owner }) => [kind, tokenId, owner])
+    }
+
+    it('should remind winners until they claim or the claim window closes', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const { tokenId: a0 } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            winningPick,
+        )
+        const { tokenId: a1 } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            winningPick,
+        )
+        const { tokenId: b0 } = await purchaseTicket(lotto.connect(bob), bob.address, winningPick)
+        await purchaseTicket(lotto.connect(bob), bob.address, losingPick)
+
+        // Webhook & email sinks deliver to local stand-ins
+        const webhookBodies: Record<string, string>[] = []
+        const webhook = http.createServer((req, res) => {
+            let body = ''
+            req.on('data', (chunk) => (body += chunk))
+            req.on('end', () => {
+                webhookBodies.push(JSON.parse(body))
+                res.writeHead(204).end()
+            })
+        })
+        await new Promise<void>((resolve) => webhook.listen(0, '127.0.0.1', resolve))
+        const smtp = new SmtpStandIn()
+        const smtpPort = await smtp.listen()
+        const memory = new MemorySink()
+        const notifier = createNotifier([
+            memory,
+            new WebhookSink({
+                url: `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hook`,
+            }),
+            new EmailSink({
+                host: '127.0.0.1',
+                port: smtpPort,
+                from: 'lootery@localhost',
+                recipients: { [alice.address.toLowerCase()]: 'alice@example.com' },
+            }),
+        ])
+
+        try {
+            expect(await notifier.tick()).to.deep.eq([])
+            await fastForwardAndDraw(randomness)
+            const unclaimedPayouts = await lotto.unclaimedPayouts()
+            const deadline = (await lotto.gameData(1n)).startedAt + 3600n
+
+            const won = await notifier.tick()
+            expect(summarise(won)).to.deep.eq([
+                ['Won', a0, alice.address],
+                ['Won', a1, alice.address],
+                ['Won', b0, bob.address],
+            ])
+            expect(won[0]).to.include({
+                gameId: 0n,
+                amount: unclaimedPayouts / 3n,
+                deadline,
+                prizeToken: await testERC20.getAddress(),
+            })
+            expect(webhookBodies).to.have.length(3)
+            expect(webhookBodies[0]).to.include({
+                kind: 'Won',
+                lootery: await lotto.getAddress(),
+                tokenId: a0.toString(),
+                deadline: deadline.toString(),
+            })
+            // Only alice has an email address
+            expect(smtp.messages.map(({ from, to }) => [from, to])).to.deep.eq([
+                ['lootery@localhost', ['alice@example.com']],
+                ['lootery@localhost', ['alice@example.com']],
+            ])
+            expect(smtp.messages[0].data).to.include(`Subject: Ticket #${a0} won game 0`)
+
+            // Nothing new to say
+            expect(await notifier.tick()).to.deep.eq([])
+
+            // Claimed tickets are no longer reminded
+            await lotto.connect(alice).claimWinnings(a0)
+            await time.increaseTo(deadline - 1800n)
+            expect(summarise(await notifier.tick())).to.deep.eq([
+                ['Reminder', a1, alice.address],
+                ['Reminder', b0, bob.address],
+            ])
+            await time.increaseTo(deadline - 600n)
+            const reminded = await notifier.tick()
+            expect(summarise(reminded)).to.deep.eq([
+                ['Reminder', a1, alice.address],
+                ['Reminder', b0, bob.address],
+            ])
+            // Shares grow as other winners claim
+            expect(reminded[0].amount).to.eq(await lotto.unclaimedPayouts().then((p) => p / 2n))
+            expect(await notifier.tick()).to.deep.eq([])
+            expect(memory.notifications).to.have.length(7)
+
+            // The next draw closes the claim window
+            await purchaseTicket(lotto.connect(bob), bob.address, losingPick)
+            await fastForwardAndDraw(randomness + 1n)
+            expect(await notifier.tick()).to.deep.eq([])
+            expect((await loadNotifierState(stateFile)).claims).to.deep.eq({})
+        } finally {
+            await new Promise((resolve) => webhook.close(resolve))
+            await smtp.close()
+        }
+    })
+
+    it('should persist state and retry failed deliveries', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const { tokenId } = await purchaseTicket(lotto.connect(alice), alice.address, winningPick)
+        await fastForwardAndDraw(randomness)
+
+        const flaky = new MemorySink(1)
+        expect(await createNotifier([flaky]).tick()).to.deep.eq([])
+        const state = await loadNotifierState(stateFile)
+        expect(state.lotteries).to.deep.eq([await lotto.getAddress()])
+        expect(state.claims[`${await lotto.getAddress()}:0`]).to.deep.include({
+            gameId: '0',
+            tokenIds: [tokenId.toString()],
+            sent: {},
+        })
+
+        // A new notifier resumes from the persisted state
+        expect(summarise(await createNotifier([flaky]).tick())).to.deep.eq([
+            ['Won', tokenId, alice.address],
+        ])
+
+        // Catching up on several due reminders sends just one
+        const deadline = (await lotto.gameData(1n)).startedAt + 3600n
+        await time.increaseTo(deadline - 60n)
+        expect(summarise(await createNotifier([flaky]).tick())).to.deep.eq([
+            ['Reminder', tokenId, alice.address],
+        ])
+        expect(
+            (await loadNotifierState(stateFile)).claims[`${await lotto.getAddress()}:0`].sent,
+        ).to.deep.eq({ [tokenId.toString()]: ['won', '1800', '600'] })
+    })
+
+    it('should not remind winners of a dead lottery', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        await purchaseTicket(lotto.connect(alice), alice.address, winningPick)
+        await lotto.kill()
+        await fastForwardAndDraw(randomness)
+        const memory = new MemorySink()
+        expect(await createNotifier([memory]).tick()).to.deep.eq([])
+        expect((await loadNotifierState(stateFile)).claims).to.deep.eq({})
+    })
+})
@@ -0,0 +1,132 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { parseEther, ZeroAddress } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import {
+    choose,
+    computeConsolationShare,
+    computeExpectedValue,
+    computeFeeSplit,
+    computeRolloverStats,
+    computeWinProbability,
+    readOddsParams,
+} from '../sdk/odds'
+
+describe('Odds', () => {
+    const coinFlip = {
+        pickLength: 1n,
+        maxBallValue: 2n,
+        ticketPrice: parseEther('1'),
+        communityFeeBps: 0n,
+        hasProtocolFee: false,
+        gamePeriod: 3600n,
+    }
+
+    it('should compute binomial coefficients', () => {
+        expect(choose(69, 5)).to.eq(11_238_513n)
+        expect(choose(49, 6)).to.eq(13_983_816n)
+        expect(choose(255, 32)).to.eq(
+            // Symmetry
+            choose(255, 223),
+        )
+        expect(choose(5, 0)).to.eq(1n)
+        expect(choose(5, 6)).to.eq(0n)
+        expect(computeWinProbability(1n, 2n)).to.eq(0.5)
+    })
+
+    it('should split fees like Lootery#purchase', () => {
+        expect(computeFeeSplit(parseEther('0.1'), 5000n, false)).to.deep.eq({
+            communityFee: parseEther('0.05'),
+            protocolFee: 0n,
+            jackpotShare: parseEther('0.05'),
+        })
+        expect(computeFeeSplit(parseEther('0.1'), 5000n, true, 3n)).to.deep.eq({
+            communityFee: parseEther('0.15'),
+            protocolFee: parseEther('0.015'),
+            jackpotShare: parseEther('0.135'),
+        })
+    })
+
+    it('should compute the expected value of a ticket', () => {
+        // Alone in the draw: EV = p * pot
+        const alone = computeExpectedValue(coinFlip, parseEther('1'))
+        expect(alone.pot).to.eq(parseEther('2'))
+        expect(alone.expectedPrize).to.eq(parseEther('1'))
+        expect(alone.expectedValue).to.eq(0n)
+        expect(alone.returnToPlayer).to.eq(1)
+
+        // One other ticket: win alone w.p. 1/4 (pot), or split w.p. 1/4 (pot/2)
+        const shared = computeExpectedValue(coinFlip, parseEther('1'), 1n)
+        expect(shared.expectedPrize).to.eq((parseEther('2') * 3n) / 8n)
+    })
+
+    it('should compute expected rollover duration', () => {
+        const stats = computeRolloverStats(coinFlip, 1n)
+        expect(stats.jackpotWonProbability).to.eq(0.5)
+        expect(stats.expectedGames).to.eq(2)
+        expect(stats.expectedDuration).to.eq(7200)
+        expect(stats.jackpotGrowthPerGame).to.eq(parseEther('1'))
+
+        expect(computeRolloverStats(coinFlip, 2n).jackpotWonProbability).to.eq(0.75)
+        expect(computeRolloverStats(coinFlip, 0n).expectedGames).to.eq(Infinity)
+    })
+
+    it('should compute the consolation share', () => {
+        expect(computeConsolationShare(parseEther('10'), 3n)).to.eq(parseEther('10') / 3n)
+        expect(computeConsolationShare(parseEther('10'), 0n)).to.eq(0n)
+    })
+
+    it('should read the parameters of a live lottery', async () => {
+        const [deployer, alice] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        const testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        const factory: LooteryFactory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(alice, parseEther('0.1'))
+        await testERC20.connect(alice).approve(lotto, parseEther('0.1'))
+        await purchaseTicket(lotto.connect(alice), alice.address, [1, 2, 3, 4, 5])
+
+        const { params, state } = await readOddsParams(lotto)
+        expect(params).to.deep.eq({
+            pickLength: 5n,
+            maxBallValue: 69n,
+            ticketPrice: parseEther('0.1'),
+            communityFeeBps: 5000n,
+            hasProtocolFee: (await factory.getFeeRecipient()) !== ZeroAddress,
+            gamePeriod: 3600n,
+        })
+        expect(state.ticketsSold).to.eq(1n)
+        expect(state.totalSupply).to.eq(1n)
+        // Jackpot seed + jackpot share of the ticket
+        const { jackpotShare } = computeFeeSplit(
+            params.ticketPrice,
+            params.communityFeeBps,
+            params.hasProtocolFee,
+        )
+        expect(state.jackpot).to.eq(parseEther('10') + jackpotShare)
+    })
+})
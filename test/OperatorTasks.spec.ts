@@ -0,0 +1,143 @@
+import hre, { ethers } from 'hardhat'
+import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+    LooteryHarness,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { GameState } from './helpers/GameState'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+
+describe('Operator tasks', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let beneficiary: SignerWithAddress
+    let lotto: LooteryHarness
+    let lootery: string
+    beforeEach(async () => {
+        ;[deployer, alice, beneficiary] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        ;({ lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        }))
+        lootery = await lotto.getAddress()
+    })
+
+    it('should show the status of a lottery', async () => {
+        await hre.run('lootery:status', { lootery })
+    })
+
+    it('should add and remove beneficiaries', async () => {
+        await hre.run('lootery:beneficiary:add', {
+            lootery,
+            beneficiary: beneficiary.address,
+            displayName: 'Beneficiary',
+            dryRun: true,
+        })
+        expect((await lotto.beneficiaries())[0]).to.deep.eq([])
+
+        await hre.run('lootery:beneficiary:add', {
+            lootery,
+            beneficiary: beneficiary.address,
+            displayName: 'Beneficiary',
+        })
+        expect((await lotto.beneficiaries())[0]).to.deep.eq([beneficiary.address])
+
+        await hre.run('lootery:beneficiary:remove', { lootery, beneficiary: beneficiary.address })
+        expect((await lotto.beneficiaries())[0]).to.deep.eq([])
+    })
+
+    it('should refuse to operate if the signer is not the owner', async () => {
+        await lotto.transferOwnership(alice.address)
+        await expect(hre.run('lootery:kill', { lootery })).to.be.rejectedWith(
+            /is not the owner of the lottery/,
+        )
+    })
+
+    it('should kill a lottery in Purchase state only', async () => {
+        await hre.run('lootery:kill', { lootery, dryRun: true })
+        expect(await lotto.isApocalypseMode()).to.eq(false)
+
+        await hre.run('lootery:kill', { lootery })
+        expect(await lotto.isApocalypseMode()).to.eq(true)
+        // Already killed: no-op
+        await hre.run('lootery:kill', { lootery })
+    })
+
+    it('should refuse to kill a lottery with a pending draw', async () => {
+        await testERC20.mint(alice, parseEther('0.1'))
+        await testERC20.connect(alice).approve(lotto, parseEther('0.1'))
+        await purchaseTicket(lotto.connect(alice), alice.address, [1, 2, 3, 4, 5])
+        await time.increase(3600n)
+        await setBalance(lootery, parseEther('0.1'))
+        await lotto.draw()
+        expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+
+        await expect(hre.run('lootery:kill', { lootery })).to.be.rejectedWith(
+            'Lottery must be in Purchase state, but is in DrawPending state',
+        )
+    })
+
+    it('should withdraw accrued fees', async () => {
+        await testERC20.mint(alice, parseEther('0.1'))
+        await testERC20.connect(alice).approve(lotto, parseEther('0.1'))
+        await purchaseTicket(lotto.connect(alice), alice.address, [1, 2, 3, 4, 5])
+        const accruedFees = await lotto.accruedCommunityFees()
+        expect(accruedFees).to.be.greaterThan(0n)
+
+        const balanceBefore = await testERC20.balanceOf(deployer)
+        await hre.run('lootery:withdraw-fees', { lootery })
+        expect(await lotto.accruedCommunityFees()).to.eq(0n)
+        expect(await testERC20.balanceOf(deployer)).to.eq(balanceBefore + accruedFees)
+    })
+
+    it('should seed the jackpot, approving the prize token if necessary', async () => {
+        await testERC20.mint(deployer, parseEther('2'))
+        await expect(hre.run('lootery:seed-jackpot', { lootery, amount: '2' })).to.be.rejectedWith(
+            /Jackpot was seeded recently/,
+        )
+
+        await time.increase(3600n)
+        await expect(
+            hre.run('lootery:seed-jackpot', { lootery, amount: '0.5' }),
+        ).to.be.rejectedWith(/Amount must be at least/)
+
+        const jackpot = await lotto.jackpot()
+        await hre.run('lootery:seed-jackpot', { lootery, amount: '2', dryRun: true })
+        expect(await lotto.jackpot()).to.eq(jackpot)
+        await hre.run('lootery:seed-jackpot', { lootery, amount: '2' })
+        expect(await lotto.jackpot()).to.eq(jackpot + parseEther('2'))
+    })
+
+    it('should refuse to rescue the prize token', async () => {
+        await expect(
+            hre.run('lootery:rescue-tokens', { lootery, token: await testERC20.getAddress() }),
+        ).to.be.rejectedWith('The prize token cannot be rescued')
+    })
+})
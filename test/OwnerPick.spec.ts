@@ -0,0 +1,139 @@
+import { ethers } from 'hardhat'
+import {
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+    Lootery__factory,
+    LooteryFactory__factory,
+    LooteryFactory,
+    LooteryHarness,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+
+const WINNING_SEED = 69420n
+
+describe('Owner pick', () => {
+    let testERC20: MockERC20
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let lotto: LooteryHarness
+    let factory: LooteryFactory
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    beforeEach(async () => {
+        ;[deployer, bob, alice] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        ;({ lotto, fastForwardAndDraw } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        }))
+    })
+
+    const tickets = (whomst: string, n: number) =>
+        Array.from({ length: n }, (_, i) => ({
+            whomst,
+            pick: [1n, 2n, 3n, 4n, BigInt(5 + i)],
+        }))
+
+    it('should only allow the owner to give out free tickets', async () => {
+        await lotto.setMaxOwnerPicksPerGame(10)
+        await expect(lotto.connect(bob).ownerPick(tickets(bob.address, 1)))
+            .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
+            .withArgs(bob.address)
+        await expect(lotto.connect(bob).setMaxOwnerPicksPerGame(100))
+            .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
+            .withArgs(bob.address)
+    })
+
+    it('should not give out free tickets by default', async () => {
+        expect(await lotto.maxOwnerPicksPerGame()).to.eq(0n)
+        await expect(lotto.ownerPick(tickets(bob.address, 1)))
+            .to.be.revertedWithCustomError(lotto, 'OwnerPickLimitExceeded')
+            .withArgs(0n)
+        await lotto.setMaxOwnerPicksPerGame(10)
+        await expect(lotto.ownerPick([])).to.be.revertedWithCustomError(lotto, 'NoTicketsSpecified')
+    })
+
+    it('should give out free tickets up to the limit of each game', async () => {
+        await expect(lotto.setMaxOwnerPicksPerGame(3))
+            .to.emit(lotto, 'MaxOwnerPicksPerGameSet')
+            .withArgs(3n)
+        const jackpot = await lotto.jackpot()
+
+        await expect(lotto.ownerPick(tickets(bob.address, 2)))
+            .to.emit(lotto, 'OwnerPicked')
+            .withArgs(0n, 1n, 2n)
+            .to.emit(lotto, 'TicketPurchased')
+            .withArgs(0n, bob.address, 2n, [1n, 2n, 3n, 4n, 6n])
+        expect(await lotto.ownerOf(1n)).to.eq(bob.address)
+        expect(await lotto.ownerOf(2n)).to.eq(bob.address)
+        expect(await lotto.numOwnerPicks(0n)).to.eq(2n)
+        expect((await lotto.gameData(0n)).ticketsSold).to.eq(2n)
+        // Free tickets don't add to the jackpot
+        expect(await lotto.jackpot()).to.eq(jackpot)
+
+        await expect(lotto.ownerPick(tickets(alice.address, 2)))
+            .to.be.revertedWithCustomError(lotto, 'OwnerPickLimitExceeded')
+            .withArgs(3n)
+        await expect(lotto.ownerPick(tickets(alice.address, 1)))
+            .to.emit(lotto, 'OwnerPicked')
+            .withArgs(0n, 3n, 1n)
+
+        // The limit applies to each game
+        await fastForwardAndDraw(WINNING_SEED)
+        expect(await lotto.numOwnerPicks(1n)).to.eq(0n)
+        await expect(lotto.ownerPick(tickets(alice.address, 3)))
+            .to.emit(lotto, 'OwnerPicked')
+            .withArgs(1n, 4n, 3n)
+    })
+
+    it('should only raise the limit before the game has sold tickets', async () => {
+        await lotto.setMaxOwnerPicksPerGame(2)
+        await testERC20.mint(deployer, parseEther('1'))
+        await testERC20.approve(lotto, parseEther('1'))
+        await purchaseTicket(lotto, alice.address, [1n, 2n, 3n, 4n, 5n])
+
+        await expect(lotto.setMaxOwnerPicksPerGame(3))
+            .to.be.revertedWithCustomError(lotto, 'OwnerPickLimitLocked')
+            .withArgs(0n)
+        // Lowering the limit is always allowed
+        await lotto.setMaxOwnerPicksPerGame(1)
+        expect(await lotto.maxOwnerPicksPerGame()).to.eq(1n)
+
+        await fastForwardAndDraw(WINNING_SEED)
+        await lotto.setMaxOwnerPicksPerGame(3)
+        expect(await lotto.maxOwnerPicksPerGame()).to.eq(3n)
+    })
+
+    it('should pay out free tickets like purchased tickets', async () => {
+        await lotto.setMaxOwnerPicksPerGame(1)
+        const winningPick = [...(await lotto.computeWinningPick(WINNING_SEED))]
+        await lotto.ownerPick([{ whomst: bob.address, pick: winningPick }])
+        const jackpot = await lotto.jackpot()
+        expect(await fastForwardAndDraw(WINNING_SEED)).to.deep.eq(winningPick)
+
+        await expect(lotto.claimWinnings(1n))
+            .to.emit(lotto, 'WinningsClaimed')
+            .withArgs(1n, 0n, bob.address, jackpot)
+        expect(await testERC20.balanceOf(bob)).to.eq(jackpot)
+    })
+})
@@ -0,0 +1,360 @@
+import hre, { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { GameState } from './helpers/GameState'
+import { computeWinningPick } from '../sdk/winningPick'
+import { LooteryClient } from '../sdk/LooteryClient'
+import { Portfolio, claimPortfolio, scanPortfolio } from '../sdk/portfolio'
+
+describe('Portfolio', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let bob: SignerWithAddress
+    const randomness = 1234n
+    const winningPick = computeWinningPick(5n, 69n, randomness)
+    const losingPick = [1, 2, 3, 4, 5]
+    // Matches 3 of the winning balls
+    const threeMatchPick = [
+        ...winningPick.slice(0, 3),
+        ...[1n, 2n, 3n, 4n, 5n].filter((ball) => !winningPick.includes(ball)).slice(0, 2),
+    ].sort((a, b) => (a < b ? -1 : 1))
+
+    beforeEach(async () => {
+        ;[deployer, alice, bob] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        await testERC20.mint(alice, parseEther('10'))
+        await testERC20.mint(bob, parseEther('10'))
+    })
+
+    async function setup() {
+        const deployed = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.connect(alice).approve(deployed.lotto, parseEther('10'))
+        await testERC20.connect(bob).approve(deployed.lotto, parseEther('10'))
+        return deployed
+    }
+
+    function statuses(portfolio: Portfolio) {
+        return portfolio.tickets.map(({ tokenId, status }) => [tokenId, status])
+    }
+
+    it('should report claimable winnings of the previous game', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const { tokenId: won } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            winningPick,
+        )
+        const { tokenId: lost } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            losingPick,
+        )
+        // Transferred away
+        const { tokenId: given } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            losingPick,
+        )
+        await lotto.connect(alice).transferFrom(alice.address, bob.address, given)
+        // Bob's winning ticket shares the jackpot
+        await purchaseTicket(lotto.connect(bob), bob.address, winningPick)
+
+        const undrawn = await scanPortfolio(lotto, alice.address)
+        expect(undrawn.gameId).to.eq(0n)
+        expect(undrawn.state).to.eq(GameState.Purchase)
+        expect(statuses(undrawn)).to.deep.eq([
+            [won, 'Pending'],
+            [lost, 'Pending'],
+        ])
+        expect(undrawn.tickets[1].pick).to.deep.eq(losingPick.map(BigInt))
+        expect(undrawn.totalClaimable).to.eq(0n)
+
+        await fastForwardAndDraw(randomness)
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+        const drawn = await scanPortfolio(lotto, alice.address)
+        expect(statuses(drawn)).to.deep.eq([
+            [won, 'Claimable'],
+            [lost, 'Lost'],
+        ])
+        expect(drawn.tickets[0].claimable).to.eq(unclaimedPayouts / 2n)
+        expect(drawn.totalClaimable).to.eq(unclaimedPayouts / 2n)
+
+        // Claims on behalf of alice pay alice
+        const balanceBefore = await testERC20.balanceOf(alice.address)
+        const results = await claimPortfolio(
+            LooteryClient.connect(await lotto.getAddress(), bob),
+            drawn,
+        )
+        expect(results).to.have.length(1)
+        expect(results[0]).to.include({
+            tokenId: won,
+            status: 'claimed',
+            value: unclaimedPayouts / 2n,
+        })
+        expect(await testERC20.balanceOf(alice.address)).to.eq(
+            balanceBefore + unclaimedPayouts / 2n,
+        )
+        expect(statuses(await scanPortfolio(lotto, alice.address))).to.deep.eq([
+            [won, 'Claimed'],
+            [lost, 'Lost'],
+        ])
+    })
+
+    it('should compute successive claims like the contract', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const tokenIds: bigint[] = []
+        for (let i = 0; i < 3; i++) {
+            const { tokenId } = await purchaseTicket(
+                lotto.connect(alice),
+                alice.address,
+                winningPick,
+            )
+            tokenIds.push(tokenId)
+        }
+        await fastForwardAndDraw(randomness)
+        const portfolio = await scanPortfolio(lotto, alice.address)
+        expect(portfolio.totalClaimable).to.eq(await lotto.unclaimedPayouts())
+
+        const results = await claimPortfolio(
+            LooteryClient.connect(await lotto.getAddress(), alice),
+            portfolio,
+            [tokenIds[0], tokenIds[1]],
+        )
+        expect(results.map(({ value }) => value)).to.deep.eq(
+            portfolio.tickets.slice(0, 2).map(({ claimable }) => claimable),
+        )
+
+        // The claim window of the last ticket closes with the next draw
+        await purchaseTicket(lotto.connect(bob), bob.address, losingPick)
+        await time.increase(3600n)
+        await setBalance(await lotto.getAddress(), parseEther('0.1'))
+        await lotto.draw()
+        expect(statuses(await scanPortfolio(lotto, alice.address))).to.deep.eq([
+            [tokenIds[0], 'Claimed'],
+            [tokenIds[1], 'Claimed'],
+            [tokenIds[2], 'Locked'],
+        ])
+    })
+
+    it('should report expired winnings', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const { tokenId } = await purchaseTicket(lotto.connect(alice), alice.address, winningPick)
+        await fastForwardAndDraw(randomness)
+        // Nothing sold, so the draw is skipped
+        await time.increase(3600n)
+        await lotto.draw()
+        const portfolio = await scanPortfolio(lotto, alice.address)
+        expect(statuses(portfolio)).to.deep.eq([[tokenId, 'Expired']])
+        expect(
+            await claimPortfolio(LooteryClient.connect(await lotto.getAddress(), alice), portfolio),
+        ).to.deep.eq([])
+    })
+
+    it('should report consolation shares of a dead lottery', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const { tokenId: a } = await purchaseTicket(lotto.connect(alice), alice.address, losingPick)
+        const { tokenId: b } = await purchaseTicket(lotto.connect(alice), alice.address, losingPick)
+        await purchaseTicket(lotto.connect(bob), bob.address, losingPick)
+        await lotto.kill()
+        await fastForwardAndDraw(randomness)
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+
+        const portfolio = await scanPortfolio(lotto, alice.address)
+        expect(portfolio.state).to.eq(GameState.Dead)
+        expect(statuses(portfolio)).to.deep.eq([
+            [a, 'Claimable'],
+            [b, 'Claimable'],
+        ])
+        expect(portfolio.tickets.every(({ isConsolation }) => isConsolation)).to.eq(true)
+        const first = unclaimedPayouts / 3n
+        expect(portfolio.tickets.map(({ claimable }) => claimable)).to.deep.eq([
+            first,
+            (unclaimedPayouts - first) / 2n,
+        ])
+
+        const results = await claimPortfolio(
+            LooteryClient.connect(await lotto.getAddress(), alice),
+            portfolio,
+        )
+        expect(results.map(({ value }) => value)).to.deep.eq(
+            portfolio.tickets.map(({ claimable }) => claimable),
+        )
+        // Burnt by the consolation claims
+        expect((await scanPortfolio(lotto, alice.address)).tickets).to.deep.eq([])
+    })
+
+    it('should report prize tier winnings', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        await lotto.setPrizeTiers([{ matches: 3, shareBps: 1000 }])
+        const { tokenId: tier } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            threeMatchPick,
+        )
+        const { tokenId: lost } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            losingPick,
+        )
+        await purchaseTicket(lotto.connect(bob), bob.address, threeMatchPick)
+        await fastForwardAndDraw(randomness)
+        const payouts = await lotto.unclaimedPrizeTierPayouts(3)
+        expect(payouts).to.be.greaterThan(0n)
+
+        const portfolio = await scanPortfolio(lotto, alice.address)
+        expect(statuses(portfolio)).to.deep.eq([
+            [tier, 'Claimable'],
+            [lost, 'Lost'],
+        ])
+        expect(portfolio.tickets[0].prizeTierMatches).to.eq(3)
+        expect(portfolio.tickets[1].prizeTierMatches).to.eq(undefined)
+        expect(portfolio.tickets[0].claimable).to.eq(payouts / 2n)
+        expect(portfolio.totalClaimable).to.eq(payouts / 2n)
+
+        const results = await claimPortfolio(
+            LooteryClient.connect(await lotto.getAddress(), alice),
+            portfolio,
+        )
+        expect(results.map(({ value }) => value)).to.deep.eq([payouts / 2n])
+        expect(statuses(await scanPortfolio(lotto, alice.address))).to.deep.eq([
+            [tier, 'Claimed'],
+            [lost, 'Lost'],
+        ])
+    })
+
+    it('should add prize tier shares to consolation shares of a dead lottery', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        await lotto.setPrizeTiers([{ matches: 3, shareBps: 1000 }])
+        const { tokenId: tier } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            threeMatchPick,
+        )
+        const { tokenId: lost } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            losingPick,
+        )
+        await lotto.kill()
+        await fastForwardAndDraw(randomness)
+        const [unclaimedPayouts, payouts] = await Promise.all([
+            lotto.unclaimedPayouts(),
+            lotto.unclaimedPrizeTierPayouts(3),
+        ])
+
+        const portfolio = await scanPortfolio(lotto, alice.address)
+        expect(statuses(portfolio)).to.deep.eq([
+            [tier, 'Claimable'],
+            [lost, 'Claimable'],
+        ])
+        const first = unclaimedPayouts / 2n
+        expect(portfolio.tickets.map(({ claimable }) => claimable)).to.deep.eq([
+            first + payouts,
+            unclaimedPayouts - first,
+        ])
+        const results = await claimPortfolio(
+            LooteryClient.connect(await lotto.getAddress(), alice),
+            portfolio,
+        )
+        expect(results.map(({ value }) => value)).to.deep.eq(
+            portfolio.tickets.map(({ claimable }) => claimable),
+        )
+    })
+
+    it('should claim in batches', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const tokenIds: bigint[] = []
+        for (let i = 0; i < 3; i++) {
+            const { tokenId } = await purchaseTicket(
+                lotto.connect(alice),
+                alice.address,
+                winningPick,
+            )
+            tokenIds.push(tokenId)
+        }
+        await fastForwardAndDraw(randomness)
+        const portfolio = await scanPortfolio(lotto, alice.address)
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        // Already claimed by the time the batch is sent
+        await client.claimWinnings(tokenIds[0])
+
+        const balanceBefore = await testERC20.balanceOf(alice.address)
+        const results = await claimPortfolio(client, portfolio, undefined, { batch: true })
+        expect(results.map(({ tokenId, status }) => [tokenId, status])).to.deep.eq([
+            [tokenIds[0], 'skipped'],
+            [tokenIds[1], 'claimed'],
+            [tokenIds[2], 'claimed'],
+        ])
+        // A single transaction
+        expect(results[1].txHash).to.eq(results[2].txHash)
+        expect(await testERC20.balanceOf(alice.address)).to.eq(
+            balanceBefore + results[1].value! + results[2].value!,
+        )
+        expect(await lotto.unclaimedPayouts()).to.eq(0n)
+    })
+
+    it('should fail batch claims while the next game is being drawn', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        const { tokenId } = await purchaseTicket(lotto.connect(alice), alice.address, winningPick)
+        await fastForwardAndDraw(randomness)
+        const portfolio = await scanPortfolio(lotto, alice.address)
+
+        await purchaseTicket(lotto.connect(bob), bob.address, losingPick)
+        await time.increase(3600n)
+        await setBalance(await lotto.getAddress(), parseEther('0.1'))
+        await lotto.draw()
+        const results = await claimPortfolio(
+            LooteryClient.connect(await lotto.getAddress(), alice),
+            portfolio,
+            undefined,
+            { batch: true },
+        )
+        expect(results).to.deep.eq([{ tokenId, status: 'failed', reason: 'UnexpectedState' }])
+    })
+
+    it('should claim via lootery:portfolio', async () => {
+        const { lotto, fastForwardAndDraw } = await setup()
+        await testERC20.mint(deployer, parseEther('1'))
+        await testERC20.approve(lotto, parseEther('1'))
+        await purchaseTicket(lotto, deployer.address, winningPick)
+        await fastForwardAndDraw(randomness)
+        const before: Portfolio = await hre.run('lootery:portfolio', {
+            lootery: await lotto.getAddress(),
+            claim: true,
+        })
+        expect(before.totalClaimable).to.be.greaterThan(0n)
+        expect(await lotto.isWinningsClaimed(before.tickets[0].tokenId)).to.eq(true)
+    })
+})
@@ -0,0 +1,153 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { AddressInfo } from 'node:net'
+import { once } from 'node:events'
+import http from 'node:http'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { computeWinningPick } from '../sdk/winningPick'
+import { renderTicketSVG, toSVGDataURI } from '../sdk/ticketSvg'
+import { createPreviewServer } from '../services/preview/PreviewServer'
+import { Erc721MetadataSchema } from '../scripts/Erc721Metadata'
+
+describe('PreviewServer', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let server: http.Server
+    let baseUrl: string
+    beforeEach(async () => {
+        ;[deployer, alice] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        server = createPreviewServer({ provider: ethers.provider }).listen(0)
+        await once(server, 'listening')
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    })
+
+    afterEach(() => {
+        server.close()
+    })
+
+    async function get(path: string) {
+        const res = await fetch(`${baseUrl}${path}`)
+        return { status: res.status, contentType: res.headers.get('content-type'), res }
+    }
+
+    it('should render ticket metadata with traits', async () => {
+        const { lotto, fastForwardAndDraw } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const lootery = await lotto.getAddress()
+        await testERC20.mint(alice, parseEther('1'))
+        await testERC20.connect(alice).approve(lotto, parseEther('1'))
+        const randomness = 1234n
+        const winningPick = computeWinningPick(5n, 69n, randomness)
+        const { tokenId: winner } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            winningPick,
+        )
+        const { tokenId: loser } = await purchaseTicket(
+            lotto.connect(alice),
+            alice.address,
+            [1, 2, 3, 4, 5],
+        )
+
+        const undrawn = await get(`/lotteries/${lootery}/tickets/${loser}`)
+        expect(undrawn.status).to.eq(200)
+        expect(undrawn.contentType).to.eq('application/json')
+        const undrawnMetadata = await undrawn.res.json()
+        expect(Erc721MetadataSchema.safeParse(undrawnMetadata).success).to.eq(true)
+        expect(undrawnMetadata.name).to.eq(`Lotto Ticket #${loser}`)
+        expect(undrawnMetadata.image).to.eq(
+            toSVGDataURI(renderTicketSVG('Lotto', 69n, [1, 2, 3, 4, 5])),
+        )
+        expect(undrawnMetadata.attributes).to.deep.eq([
+            { trait_type: 'Game', display_type: 'number', value: 0 },
+            { trait_type: 'Pick', value: '1, 2, 3, 4, 5' },
+            { trait_type: 'Winner', value: 'Not drawn' },
+            { trait_type: 'Claim status', value: 'Unclaimed' },
+        ])
+
+        await fastForwardAndDraw(randomness)
+        await lotto.claimWinnings(winner)
+        const won = await (await get(`/lotteries/${lootery}/tickets/${winner}`)).res.json()
+        expect(won.attributes).to.deep.include({ trait_type: 'Winner', value: 'Yes' })
+        expect(won.attributes).to.deep.include({ trait_type: 'Claim status', value: 'Claimed' })
+        const lost = await (await get(`/lotteries/${lootery}/tickets/${loser}`)).res.json()
+        expect(lost.attributes).to.deep.include({ trait_type: 'Winner', value: 'No' })
+
+        const image = await get(`/lotteries/${lootery}/tickets/${winner}/image.svg`)
+        expect(image.status).to.eq(200)
+        expect(image.contentType).to.eq('image/svg+xml')
+        // Same image as the on-chain tokenURI
+        const tokenURI = await lotto.tokenURI(winner)
+        const onchain = JSON.parse(
+            Buffer.from(tokenURI.split(',')[1], 'base64').toString('utf-8'),
+        ) as { image: string }
+        expect(toSVGDataURI(await image.res.text())).to.eq(onchain.image)
+    })
+
+    it('should render arbitrary tickets', async () => {
+        const svg = await get('/render.svg?name=Preview&maxPick=36&pick=3,14,15')
+        expect(svg.status).to.eq(200)
+        expect(await svg.res.text()).to.eq(renderTicketSVG('Preview', 36, [3, 14, 15]))
+        expect((await get('/render.svg?pick=1')).status).to.eq(400)
+    })
+
+    it('should use the renderer under preview', async () => {
+        server.close()
+        server = createPreviewServer({
+            provider: ethers.provider,
+            renderSVG: (name, maxPick, pick) => `<svg>${name}:${maxPick}:${pick.join(',')}</svg>`,
+        }).listen(0)
+        await once(server, 'listening')
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+        const svg = await get('/render.svg?name=Preview&maxPick=36&pick=3,14')
+        expect(await svg.res.text()).to.eq('<svg>Preview:36:3,14</svg>')
+    })
+
+    it('should reject invalid requests', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const lootery = await lotto.getAddress()
+        expect((await get('/nope')).status).to.eq(404)
+        expect((await get('/lotteries/0x1234/tickets/1')).status).to.eq(400)
+        const missing = await get(`/lotteries/${lootery}/tickets/1`)
+        expect(missing.status).to.eq(404)
+        expect(await missing.res.json()).to.deep.eq({ error: 'Unknown ticket: 1' })
+        const post = await fetch(`${baseUrl}/render.svg`, { method: 'POST' })
+        expect(post.status).to.eq(405)
+    })
+})
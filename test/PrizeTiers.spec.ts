@@ -0,0 +1,382 @@
+import { ethers } from 'hardhat'
+import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+    LooteryHarness__factory,
+    LooteryHarness,
+    LooteryFactory__factory,
+    LooteryFactory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { GameState } from './helpers/GameState'
+import {
+    computePickId,
+    computePrizeTierPayouts,
+    countMatches,
+    countPrizeTierWinners,
+    deployLotto,
+} from './helpers/lotto'
+
+// With seed=69420, the winning pick is [5,10,41,46,55]
+const WINNING_SEED = 69420n
+const WINNING_PICK = [5n, 10n, 41n, 46n, 55n]
+
+const tiers = [
+    { matches: 3, shareBps: 1000 },
+    { matches: 4, shareBps: 2000 },
+]
+
+describe('Prize tiers', () => {
+    let testERC20: MockERC20
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let lotto: LooteryHarness
+    let factory: LooteryFactory
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    beforeEach(async () => {
+        ;[deployer, bob, alice] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await new LooteryHarness__factory(deployer)
+                    .deploy()
+                    .then((contract) => contract.getAddress()),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        ;({ lotto, fastForwardAndDraw } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        }))
+    })
+
+    describe('helpers', () => {
+        it('should count matches as the popcount of the intersection of picks', () => {
+            const winningPickId = computePickId(WINNING_PICK)
+            expect(countMatches(winningPickId, winningPickId)).to.eq(5)
+            expect(countMatches(computePickId([1n, 5n, 10n, 41n, 46n]), winningPickId)).to.eq(4)
+            expect(countMatches(computePickId([1n, 2n, 3n, 4n, 6n]), winningPickId)).to.eq(0)
+            expect(countMatches(0n, winningPickId)).to.eq(0)
+        })
+
+        it('should count winners and payouts per tier', () => {
+            const winningPickId = computePickId(WINNING_PICK)
+            const pickIds = [
+                [1n, 5n, 10n, 41n, 46n],
+                [5n, 10n, 41n, 46n, 69n],
+                [1n, 2n, 5n, 10n, 41n],
+                [1n, 2n, 3n, 5n, 10n],
+            ].map(computePickId)
+            const numWinners = countPrizeTierWinners(pickIds, winningPickId, tiers)
+            expect(numWinners).to.deep.eq([1n, 2n])
+            expect(computePrizeTierPayouts(parseEther('10'), tiers, numWinners)).to.deep.eq([
+                parseEther('1'),
+                parseEther('2'),
+            ])
+            expect(computePrizeTierPayouts(parseEther('10'), tiers, [0n, 2n])).to.deep.eq([
+                0n,
+                parseEther('2'),
+            ])
+        })
+    })
+
+    describe('#setPrizeTiers', () => {
+        it('should set prize tiers', async () => {
+            await expect(lotto.setPrizeTiers(tiers))
+                .to.emit(lotto, 'PrizeTiersSet')
+                .withArgs(0, [
+                    [3, 1000],
+                    [4, 2000],
+                ])
+            const prizeTiers = await lotto.prizeTiers()
+            expect(prizeTiers.map(({ matches, shareBps }) => [matches, shareBps])).to.deep.eq([
+                [3n, 1000n],
+                [4n, 2000n],
+            ])
+
+            // Prize tiers can be removed again
+            await lotto.setPrizeTiers([])
+            expect(await lotto.prizeTiers()).to.have.length(0)
+        })
+
+        it('should raise the callback gas limit for the subsets counted', async () => {
+            expect(await lotto.callbackGasLimit()).to.eq(500_000)
+            // 2 tiers counting C(5,3) + C(5,4) = 15 subsets of 5 balls
+            await expect(lotto.setPrizeTiers(tiers))
+                .to.emit(lotto, 'CallbackGasLimitSet')
+                .withArgs(500_000 + 2 * 40_000 + 15 * (4_000 + 250 * 5))
+            await lotto.setPrizeTiers([])
+            expect(await lotto.callbackGasLimit()).to.eq(500_000)
+
+            // Capped at the worst case, e.g. C(6,1) + ... + C(6,5) = 62 subsets
+            const { lotto: sixBallLotto } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+                pickLength: 6n,
+                maxBallValue: 30n,
+            })
+            await sixBallLotto.setPrizeTiers(
+                [1, 2, 3, 4, 5].map((matches) => ({ matches, shareBps: 100 })),
+            )
+            expect(await sixBallLotto.callbackGasLimit()).to.eq(1_000_000)
+        })
+
+        it('should revert if called by non-owner', async () => {
+            await expect(lotto.connect(alice).setPrizeTiers(tiers))
+                .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
+                .withArgs(alice.address)
+        })
+
+        it('should revert if called in any state other than Purchase', async () => {
+            await lotto.setGameState(GameState.DrawPending)
+            await expect(lotto.setPrizeTiers(tiers))
+                .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                .withArgs(GameState.DrawPending)
+        })
+
+        it('should revert if prize tiers are invalid', async () => {
+            const invalidTiers = [
+                // Not ascending
+                [
+                    { matches: 4, shareBps: 1000 },
+                    { matches: 3, shareBps: 1000 },
+                ],
+                // Duplicate
+                [
+                    { matches: 3, shareBps: 1000 },
+                    { matches: 3, shareBps: 1000 },
+                ],
+                // No matches
+                [{ matches: 0, shareBps: 1000 }],
+                // Matching every ball is the jackpot
+                [{ matches: 5, shareBps: 1000 }],
+                // No share
+                [{ matches: 3, shareBps: 0 }],
+                // No share left for the jackpot
+                [
+                    { matches: 3, shareBps: 5000 },
+                    { matches: 4, shareBps: 5000 },
+                ],
+            ]
+            for (const prizeTiers of invalidTiers) {
+                await expect(lotto.setPrizeTiers(prizeTiers)).to.be.revertedWithCustomError(
+                    lotto,
+                    'InvalidPrizeTiers',
+                )
+            }
+        })
+
+        it('should revert if too many subsets of a pick would be counted', async () => {
+            ;({ lotto } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+                pickLength: 8n,
+            }))
+            // C(8,4) + C(8,5) + C(8,6) + C(8,7) = 162
+            await expect(
+                lotto.setPrizeTiers([{ matches: 4, shareBps: 1000 }]),
+            ).to.be.revertedWithCustomError(lotto, 'InvalidPrizeTiers')
+            // C(8,6) + C(8,7) = 36
+            await expect(lotto.setPrizeTiers([{ matches: 6, shareBps: 1000 }])).to.emit(
+                lotto,
+                'PrizeTiersSet',
+            )
+        })
+
+        it('should revert once the current game has sold tickets', async () => {
+            await lotto.setPrizeTiers(tiers)
+            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+            await expect(lotto.setPrizeTiers([]))
+                .to.be.revertedWithCustomError(lotto, 'PrizeTiersLocked')
+                .withArgs(0)
+
+            // Unlocked again in the next game
+            await fastForwardAndDraw(WINNING_SEED)
+            await expect(lotto.setPrizeTiers([])).to.emit(lotto, 'PrizeTiersSet').withArgs(1, [])
+        })
+    })
+
+    describe('#receiveRandomness', () => {
+        // The most balls, subsets and tiers that MAX_PRIZE_TIER_SUBSETS allows
+        const worstCases = [
+            // C(32,31) = 32 subsets of the longest pick
+            { pickLength: 32, maxBallValue: 64, matches: [31] },
+            // C(6,1) + C(6,2) + C(6,3) + C(6,4) + C(6,5) = 62 subsets in 5 tiers
+            { pickLength: 6, maxBallValue: 30, matches: [1, 2, 3, 4, 5] },
+            // C(7,4) + C(7,5) + C(7,6) = 63 subsets
+            { pickLength: 7, maxBallValue: 40, matches: [4, 5, 6] },
+        ]
+        for (const { pickLength, maxBallValue, matches } of worstCases) {
+            it(`should count the winners of a ${pickLength}-ball pick's tiers [${matches}] within the callback gas limit`, async () => {
+                const { lotto, mockRandomiser } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: testERC20,
+                    pickLength: BigInt(pickLength),
+                    maxBallValue: BigInt(maxBallValue),
+                })
+                await lotto.setPrizeTiers(matches.map((m) => ({ matches: m, shareBps: 100 })))
+                // Every tier has a winner, so that each reserves its payouts
+                const winningPick = [...(await lotto.computeWinningPick(WINNING_SEED))]
+                const otherBalls = Array.from({ length: maxBallValue }, (_, i) => BigInt(i + 1))
+                    .filter((ball) => !winningPick.includes(ball))
+                    .slice(0, pickLength)
+                await lotto.pickTickets(
+                    [...matches, pickLength].map((m) => ({
+                        whomst: alice.address,
+                        pick: [
+                            ...winningPick.slice(0, m),
+                            ...otherBalls.slice(0, pickLength - m),
+                        ].sort((a, b) => (a < b ? -1 : 1)),
+                    })),
+                )
+
+                await time.increase(3600n)
+                await setBalance(await lotto.getAddress(), parseEther('0.1'))
+                await lotto.draw()
+                const { requestId } = await lotto.randomnessRequest()
+                const receipt = await mockRandomiser
+                    .fulfillRandomness(requestId, WINNING_SEED)
+                    .then((tx) => tx.wait())
+                // Also includes the gas used by the mock randomiser
+                expect(receipt!.gasUsed).to.be.lte(await lotto.callbackGasLimit())
+                for (const m of matches) {
+                    expect(await lotto.numPrizeTierWinners(0, m)).to.eq(1)
+                }
+            })
+        }
+    })
+
+    describe('#claimWinnings', () => {
+        it('should pay out prize tiers alongside the jackpot', async () => {
+            await lotto.setPrizeTiers(tiers)
+            const picks = [
+                // Jackpot
+                WINNING_PICK,
+                // 4 matches
+                [1n, 5n, 10n, 41n, 46n],
+                [5n, 10n, 41n, 46n, 69n],
+                // 3 matches
+                [1n, 2n, 5n, 10n, 41n],
+                // 2 matches, no tier
+                [1n, 2n, 3n, 5n, 10n],
+            ]
+            await lotto.pickTickets(picks.map((pick) => ({ whomst: alice.address, pick })))
+            const pot = await lotto.jackpot()
+            const numWinners = countPrizeTierWinners(
+                picks.map(computePickId),
+                computePickId(WINNING_PICK),
+                tiers,
+            )
+            const payouts = computePrizeTierPayouts(pot, tiers, numWinners)
+
+            const drawnPick = await fastForwardAndDraw(WINNING_SEED)
+            expect(drawnPick).to.deep.eq(WINNING_PICK)
+            for (let t = 0; t < tiers.length; t++) {
+                expect(await lotto.numPrizeTierWinners(0, tiers[t].matches)).to.eq(numWinners[t])
+                expect(await lotto.unclaimedPrizeTierPayouts(tiers[t].matches)).to.eq(payouts[t])
+            }
+            const jackpotPayout = pot - payouts[0] - payouts[1]
+            expect(await lotto.unclaimedPayouts()).to.eq(jackpotPayout)
+
+            await expect(lotto.claimWinnings(1))
+                .to.emit(lotto, 'WinningsClaimed')
+                .withArgs(1, 0, alice.address, jackpotPayout)
+            await expect(lotto.claimWinnings(2))
+                .to.emit(lotto, 'PrizeTierWinningsClaimed')
+                .withArgs(2, 0, 4, alice.address, payouts[1] / 2n)
+            await expect(lotto.claimWinnings(3))
+                .to.emit(lotto, 'PrizeTierWinningsClaimed')
+                .withArgs(3, 0, 4, alice.address, payouts[1] / 2n)
+            await expect(lotto.claimWinnings(4))
+                .to.emit(lotto, 'PrizeTierWinningsClaimed')
+                .withArgs(4, 0, 3, alice.address, payouts[0])
+            await expect(lotto.claimWinnings(5)).to.be.revertedWithCustomError(lotto, 'NoWin')
+            await expect(lotto.claimWinnings(2))
+                .to.be.revertedWithCustomError(lotto, 'AlreadyClaimed')
+                .withArgs(2)
+
+            expect(await testERC20.balanceOf(alice.address)).to.eq(pot)
+            expect(await lotto.unclaimedPrizeTierPayouts(3)).to.eq(0)
+            expect(await lotto.unclaimedPrizeTierPayouts(4)).to.eq(0)
+            // Winning tickets are not burnt
+            expect(await lotto.ownerOf(2)).to.eq(alice.address)
+        })
+
+        it('should roll over shares of tiers without winners and unclaimed tier payouts', async () => {
+            await lotto.setPrizeTiers(tiers)
+            // 3 matches only
+            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 5, 10, 41] }])
+            const pot = await lotto.jackpot()
+            const payouts = computePrizeTierPayouts(pot, tiers, [1n, 0n])
+
+            await fastForwardAndDraw(WINNING_SEED)
+            const nextJackpot = pot - payouts[0]
+            const [rollover] = await lotto.queryFilter(lotto.filters.PrizeTierRollover(0, 4))
+            expect(rollover.args.numWinners).to.eq(0)
+            expect(rollover.args.payouts).to.eq(0)
+            // The 4-match tier's share stays in the jackpot
+            expect(await lotto.jackpot()).to.eq(nextJackpot)
+            expect(await lotto.unclaimedPrizeTierPayouts(3)).to.eq(payouts[0])
+
+            // Nobody claims; the 3-match tier's payouts roll over into the
+            // next game's pot
+            await lotto.pickTickets([{ whomst: bob.address, pick: [] }])
+            await fastForwardAndDraw(99999n)
+            const [jackpotRollover] = await lotto.queryFilter(lotto.filters.JackpotRollover(1))
+            expect(jackpotRollover.args.unclaimedPayouts).to.eq(payouts[0])
+            expect(jackpotRollover.args.currentJackpot).to.eq(nextJackpot)
+            expect(jackpotRollover.args.nextJackpot).to.eq(pot)
+            expect(await lotto.jackpot()).to.eq(pot)
+            expect(await lotto.unclaimedPrizeTierPayouts(3)).to.eq(0)
+            expect(await testERC20.balanceOf(lotto)).to.eq(pot)
+
+            await expect(lotto.claimWinnings(1))
+                .to.be.revertedWithCustomError(lotto, 'ClaimWindowMissed')
+                .withArgs(1)
+        })
+
+        it('should pay out prize tiers alongside consolation payouts in Dead state', async () => {
+            await lotto.setPrizeTiers(tiers)
+            await lotto.pickTickets([
+                // 3 matches
+                { whomst: alice.address, pick: [1, 2, 5, 10, 41] },
+                // No matches
+                { whomst: bob.address, pick: [1, 2, 3, 4, 6] },
+            ])
+            const pot = await lotto.jackpot()
+            const payouts = computePrizeTierPayouts(pot, tiers, [1n, 0n])
+            await lotto.kill() // trigger apocalypse mode
+            await fastForwardAndDraw(WINNING_SEED)
+            expect(await lotto.currentGame().then((game) => game.state)).to.eq(GameState.Dead)
+
+            const consolation = (pot - payouts[0]) / 2n
+            await expect(lotto.claimWinnings(1))
+                .to.emit(lotto, 'ConsolationClaimed')
+                .withArgs(1, 0, alice.address, consolation + payouts[0])
+            await expect(lotto.claimWinnings(2))
+                .to.emit(lotto, 'ConsolationClaimed')
+                .withArgs(2, 0, bob.address, consolation)
+            expect(await testERC20.balanceOf(lotto)).to.eq(0)
+        })
+    })
+})
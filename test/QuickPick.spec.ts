@@ -0,0 +1,176 @@
+import { expect } from 'chai'
+import { computePickId, validatePick } from '../sdk/pick'
+import { choose } from '../sdk/odds'
+import {
+    QuickPickError,
+    computeQuickPick,
+    generateQuickPicks,
+    quickPick,
+    verifyQuickPicks,
+} from '../sdk/quickPick'
+
+/** Pearson's chi-squared statistic of observed counts against a uniform distribution */
+function chiSquared(counts: number[]) {
+    const total = counts.reduce((sum, count) => sum + count, 0)
+    const expected = total / counts.length
+    return counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0)
+}
+
+describe('QuickPick', () => {
+    const seed = 0x1337n
+
+    it('should reproduce a batch from its seed', () => {
+        const options = { pickLength: 5, maxBallValue: 69, source: { kind: 'seed', seed } } as const
+        const batch = generateQuickPicks(10, options)
+        expect(batch.seed).to.eq(seed)
+        expect(generateQuickPicks(10, options)).to.deep.eq(batch)
+        expect(batch.tickets[0]).to.deep.eq(computeQuickPick(5, 69, seed, 0))
+        expect(
+            generateQuickPicks(10, { ...options, source: { kind: 'seed', seed: seed + 1n } }),
+        ).to.not.deep.eq(batch)
+        verifyQuickPicks(batch)
+    })
+
+    it('should derive seeds from user entropy', () => {
+        const source = { kind: 'entropy', entropy: '4 2 6 6 1 3 5 2 1 1 4 6' } as const
+        const batch = generateQuickPicks(3, { pickLength: 6, maxBallValue: 49, source })
+        expect(generateQuickPicks(3, { pickLength: 6, maxBallValue: 49, source })).to.deep.eq(batch)
+        // Same as hashing the entropy as a seed
+        expect(
+            generateQuickPicks(3, {
+                pickLength: 6,
+                maxBallValue: 49,
+                source: { kind: 'entropy', entropy: new TextEncoder().encode(source.entropy) },
+            }),
+        ).to.deep.eq(batch)
+        expect(() =>
+            quickPick({
+                pickLength: 6,
+                maxBallValue: 49,
+                source: { kind: 'entropy', entropy: '' },
+            }),
+        ).to.throw(QuickPickError, /Entropy must not be empty/)
+    })
+
+    it('should return the CSPRNG seed for verification', () => {
+        const a = generateQuickPicks(5, { pickLength: 5, maxBallValue: 69 })
+        const b = generateQuickPicks(5, { pickLength: 5, maxBallValue: 69 })
+        expect(a.seed).to.not.eq(b.seed)
+        verifyQuickPicks(a)
+        verifyQuickPicks(b)
+    })
+
+    it('should output valid uint8 picks with matching pick identities', () => {
+        for (const [pickLength, maxBallValue] of [
+            [1, 1],
+            [1, 255],
+            [5, 69],
+            [32, 32],
+            [32, 255],
+        ]) {
+            const { tickets } = generateQuickPicks(
+                Math.min(20, Number(choose(maxBallValue, pickLength))),
+                {
+                    pickLength,
+                    maxBallValue,
+                },
+            )
+            for (const { pick, pickId } of tickets) {
+                expect(pick.every((ball) => Number.isInteger(ball) && ball <= 255)).to.eq(true)
+                validatePick(pick, pickLength, maxBallValue)
+                expect(pickId).to.eq(computePickId(pick.map(BigInt)))
+            }
+        }
+    })
+
+    it('should generate distinct tickets, up to every combination', () => {
+        const { tickets } = generateQuickPicks(15, {
+            pickLength: 2,
+            maxBallValue: 6,
+            source: { kind: 'seed', seed },
+        })
+        expect(new Set(tickets.map(({ pickId }) => pickId)).size).to.eq(15)
+        expect(() => generateQuickPicks(16, { pickLength: 2, maxBallValue: 6 })).to.throw(
+            QuickPickError,
+            /between 1 and 15 distinct tickets, got 16/,
+        )
+    })
+
+    it('should reject invalid parameters', () => {
+        const cases: [() => unknown, string][] = [
+            [() => quickPick({ pickLength: 0, maxBallValue: 69 }), 'InvalidPickLength'],
+            [() => quickPick({ pickLength: 33, maxBallValue: 69 }), 'InvalidPickLength'],
+            [() => quickPick({ pickLength: 5, maxBallValue: 4 }), 'InvalidMaxBallValue'],
+            [() => quickPick({ pickLength: 5, maxBallValue: 256 }), 'InvalidMaxBallValue'],
+            [() => generateQuickPicks(0, { pickLength: 5, maxBallValue: 69 }), 'InvalidCount'],
+            [() => generateQuickPicks(1.5, { pickLength: 5, maxBallValue: 69 }), 'InvalidCount'],
+            [
+                () =>
+                    quickPick({
+                        pickLength: 5,
+                        maxBallValue: 69,
+                        source: { kind: 'seed', seed: 2n ** 256n },
+                    }),
+                'InvalidSeed',
+            ],
+        ]
+        for (const [fn, reason] of cases) {
+            expect(fn).to.throw(QuickPickError).with.property('reason', reason)
+        }
+    })
+
+    it('should detect tampered batches', () => {
+        const batch = generateQuickPicks(3, { pickLength: 5, maxBallValue: 69 })
+        const tampered = {
+            ...batch,
+            tickets: [batch.tickets[0], { pick: [1, 2, 3, 4, 5], pickId: 62n }, batch.tickets[2]],
+        }
+        expect(() => verifyQuickPicks(tampered))
+            .to.throw(QuickPickError, /Ticket #1 \[1, 2, 3, 4, 5\] wasn't generated by seed/)
+            .with.property('reason', 'SeedMismatch')
+    })
+
+    describe('uniformity', () => {
+        // Critical values of the chi-squared distribution at p = 0.001, i.e. a
+        // uniform generator fails 0.1% of seeds; the seed is fixed, so the
+        // tests are deterministic
+        it('should pick every ball equally often', () => {
+            const [pickLength, maxBallValue, tickets] = [5, 20, 2000]
+            const counts = new Array(maxBallValue).fill(0)
+            for (let i = 0; i < tickets; i++) {
+                for (const ball of computeQuickPick(pickLength, maxBallValue, seed, i).pick) {
+                    counts[ball - 1]++
+                }
+            }
+            // 19 degrees of freedom
+            expect(chiSquared(counts)).to.be.lessThan(43.82)
+        })
+
+        it('should pick every combination equally often', () => {
+            const [pickLength, maxBallValue, tickets] = [2, 6, 3000]
+            const counts = new Map<bigint, number>()
+            for (let i = 0; i < tickets; i++) {
+                const { pickId } = computeQuickPick(pickLength, maxBallValue, seed, i)
+                counts.set(pickId, (counts.get(pickId) ?? 0) + 1)
+            }
+            expect(counts.size).to.eq(15)
+            // 14 degrees of freedom
+            expect(chiSquared([...counts.values()])).to.be.lessThan(36.12)
+        })
+
+        it('should draw the first ticket of every batch uniformly', () => {
+            const counts = new Map<bigint, number>()
+            for (let i = 0n; i < 1500n; i++) {
+                const [{ pickId }] = generateQuickPicks(1, {
+                    pickLength: 1,
+                    maxBallValue: 10,
+                    source: { kind: 'seed', seed: seed + i },
+                }).tickets
+                counts.set(pickId, (counts.get(pickId) ?? 0) + 1)
+            }
+            expect(counts.size).to.eq(10)
+            // 9 degrees of freedom
+            expect(chiSquared([...counts.values()])).to.be.lessThan(27.88)
+        })
+    })
+})
@@ -0,0 +1,311 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    LooteryPurchaseRelay__factory,
+    type LooteryPurchaseRelay,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { TypedDataDomain, ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { AddressInfo } from 'node:net'
+import { once } from 'node:events'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import {
+    PurchaseOrder,
+    SignedPurchaseOrder,
+    buildPurchaseOrder,
+    getEip712Domain,
+    signPermit,
+    signPurchaseOrder,
+} from '../sdk/purchaseOrder'
+import { Relayer, RelayerError, RelayerLogger } from '../services/relayer/Relayer'
+import { createRelayerServer, parseSignedPurchaseOrder } from '../services/relayer/RelayerServer'
+import { HttpError } from '../services/api/ApiServer'
+
+const silentLogger: RelayerLogger = {
+    log: () => {},
+    warn: () => {},
+    error: () => {},
+}
+
+describe('Relayer', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let relay: LooteryPurchaseRelay
+    let domain: TypedDataDomain
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    let bob: SignerWithAddress
+    let relayerSigner: SignerWithAddress
+    beforeEach(async () => {
+        ;[deployer, alice, bob, relayerSigner] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        relay = await new LooteryPurchaseRelay__factory(deployer).deploy()
+        domain = await getEip712Domain(await relay.getAddress(), ethers.provider)
+    })
+
+    async function setup() {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(alice, parseEther('1'))
+        const relayer = new Relayer({
+            relay: relay.connect(relayerSigner),
+            lotteries: [await lotto.getAddress()],
+            maxTicketsPerOrder: 2,
+            logger: silentLogger,
+        })
+        return { lotto, relayer }
+    }
+
+    /** Sign an order as alice, with a permit for its max price */
+    async function signOrder(
+        lootery: string,
+        overrides: Partial<PurchaseOrder> = {},
+    ): Promise<SignedPurchaseOrder> {
+        const deadline = BigInt(await time.latest()) + 3600n
+        const order = {
+            ...(await buildPurchaseOrder(await relay.getAddress(), ethers.provider, {
+                player: alice.address,
+                lootery,
+                tickets: [{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }],
+                beneficiary: ZeroAddress,
+                deadline,
+            })),
+            ...overrides,
+        }
+        return {
+            order,
+            signature: await signPurchaseOrder(alice, domain, order),
+            permit: await signPermit(
+                alice,
+                await testERC20.getAddress(),
+                await relay.getAddress(),
+                order.maxPrice,
+                deadline,
+            ),
+        }
+    }
+
+    async function expectRejected(submit: () => Promise<unknown>, reason: RelayerError['reason']) {
+        const nonce = await ethers.provider.getTransactionCount(relayerSigner)
+        try {
+            await submit()
+            expect.fail('Expected the order to be rejected')
+        } catch (err) {
+            expect(err).to.be.instanceOf(RelayerError)
+            expect((err as RelayerError).reason).to.eq(reason)
+        }
+        // Nothing was submitted
+        expect(await ethers.provider.getTransactionCount(relayerSigner)).to.eq(nonce)
+    }
+
+    it('should submit valid orders', async () => {
+        const { lotto, relayer } = await setup()
+        const signedOrder = await signOrder(await lotto.getAddress())
+        await relayer.validate(signedOrder)
+        expect(await relayer.simulate(signedOrder)).to.be.gt(0n)
+
+        const { txHash, tokenIds } = await relayer.submit(signedOrder)
+        expect(tokenIds).to.deep.eq([1n])
+        expect(await lotto.ownerOf(1n)).to.eq(alice.address)
+        const tx = await ethers.provider.getTransaction(txHash)
+        expect(tx!.from).to.eq(relayerSigner.address)
+        expect(await testERC20.balanceOf(alice)).to.eq(parseEther('0.9'))
+
+        // Replays are rejected
+        await expectRejected(async () => relayer.submit(signedOrder), 'InvalidNonce')
+    })
+
+    it('should serialise concurrent submissions', async () => {
+        const { lotto, relayer } = await setup()
+        await testERC20.mint(bob, parseEther('1'))
+        const aliceOrder = await signOrder(await lotto.getAddress())
+        const deadline = BigInt(await time.latest()) + 3600n
+        const bobOrder = await buildPurchaseOrder(await relay.getAddress(), ethers.provider, {
+            player: bob.address,
+            lootery: await lotto.getAddress(),
+            tickets: [{ whomst: bob.address, pick: [6, 7, 8, 9, 10] }],
+            beneficiary: ZeroAddress,
+            deadline,
+        })
+        const results = await Promise.all([
+            relayer.submit(aliceOrder),
+            relayer.submit({
+                order: bobOrder,
+                signature: await signPurchaseOrder(bob, domain, bobOrder),
+                permit: await signPermit(
+                    bob,
+                    await testERC20.getAddress(),
+                    await relay.getAddress(),
+                    bobOrder.maxPrice,
+                    deadline,
+                ),
+            }),
+        ])
+        expect(results.map(({ tokenIds }) => tokenIds)).to.deep.eq([[1n], [2n]])
+    })
+
+    it('should reject invalid orders without submitting them', async () => {
+        const { lotto, relayer } = await setup()
+        const lootery = await lotto.getAddress()
+        const { lotto: otherLotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+
+        await expectRejected(
+            async () => relayer.submit(await signOrder(await otherLotto.getAddress())),
+            'UnknownLootery',
+        )
+        await expectRejected(
+            async () => relayer.submit(await signOrder(lootery, { tickets: [] })),
+            'NoTicketsSpecified',
+        )
+        const ticket = { whomst: alice.address, pick: [1n, 2n, 3n, 4n, 5n] }
+        await expectRejected(
+            async () =>
+                relayer.submit(await signOrder(lootery, { tickets: [ticket, ticket, ticket] })),
+            'TooManyTickets',
+        )
+        await expectRejected(
+            async () =>
+                relayer.submit(
+                    await signOrder(lootery, { deadline: BigInt(await time.latest()) - 1n }),
+                ),
+            'PurchaseOrderExpired',
+        )
+        const signedOrder = await signOrder(lootery)
+        await expectRejected(
+            async () =>
+                relayer.submit({
+                    ...signedOrder,
+                    signature: await signPurchaseOrder(bob, domain, signedOrder.order),
+                }),
+            'InvalidSignature',
+        )
+        await expectRejected(
+            async () => relayer.submit(await signOrder(lootery, { nonce: 1n })),
+            'InvalidNonce',
+        )
+        await expectRejected(
+            async () =>
+                relayer.submit(
+                    await signOrder(lootery, {
+                        tickets: [{ whomst: alice.address, pick: [5n, 4n, 3n, 2n, 1n] }],
+                    }),
+                ),
+            'InvalidPick',
+        )
+        await expectRejected(
+            async () => relayer.submit(await signOrder(lootery, { beneficiary: bob.address })),
+            'UnknownBeneficiary',
+        )
+        await expectRejected(
+            async () => relayer.submit(await signOrder(lootery, { maxPrice: parseEther('0.05') })),
+            'MaxPriceExceeded',
+        )
+        await expectRejected(
+            async () => relayer.submit({ ...signedOrder, permit: undefined }),
+            'InsufficientAllowance',
+        )
+        await testERC20.connect(alice).transfer(bob, parseEther('1'))
+        await expectRejected(async () => relayer.submit(signedOrder), 'InsufficientBalance')
+    })
+
+    it('should reject orders that fail simulation', async () => {
+        const { lotto, relayer } = await setup()
+        const signedOrder = await signOrder(await lotto.getAddress())
+        // Permit signed by someone other than the player
+        const permit = await signPermit(
+            bob,
+            await testERC20.getAddress(),
+            await relay.getAddress(),
+            signedOrder.order.maxPrice,
+            signedOrder.order.deadline,
+        )
+        await expectRejected(
+            async () => relayer.submit({ ...signedOrder, permit }),
+            'SimulationFailed',
+        )
+    })
+
+    it('should reject malformed orders', async () => {
+        const { lotto } = await setup()
+        const signedOrder = JSON.parse(
+            JSON.stringify(await signOrder(await lotto.getAddress()), (_, value) =>
+                typeof value === 'bigint' ? value.toString() : value,
+            ),
+        )
+        expect(parseSignedPurchaseOrder(signedOrder).order.nonce).to.eq(0n)
+        for (const body of [
+            null,
+            'order',
+            { ...signedOrder, order: 'order' },
+            { ...signedOrder, order: { ...signedOrder.order, tickets: [null] } },
+            { ...signedOrder, order: { ...signedOrder.order, player: 1 } },
+            { ...signedOrder, permit: 'permit' },
+        ]) {
+            expect(() => parseSignedPurchaseOrder(body))
+                .to.throw(HttpError)
+                .with.property('status', 400)
+        }
+    })
+
+    it('should relay orders over HTTP', async () => {
+        const { lotto, relayer } = await setup()
+        const server = createRelayerServer({ relayer }).listen(0)
+        await once(server, 'listening')
+        const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+        const post = async (body: unknown) => {
+            const res = await fetch(`${baseUrl}/orders`, {
+                method: 'POST',
+                body: JSON.stringify(body, (_, value) =>
+                    typeof value === 'bigint' ? value.toString() : value,
+                ),
+            })
+            return { status: res.status, body: await res.json() }
+        }
+        try {
+            const signedOrder = await signOrder(await lotto.getAddress())
+            const { status, body } = await post(signedOrder)
+            expect(status).to.eq(200)
+            expect(body.tokenIds).to.deep.eq(['1'])
+            expect(await lotto.ownerOf(1n)).to.eq(alice.address)
+
+            expect(await post(signedOrder)).to.deep.include({
+                status: 422,
+                body: { error: 'Invalid nonce (expected 1, got 0)', reason: 'InvalidNonce' },
+            })
+            expect((await post({ signature: '0x' })).status).to.eq(400)
+            expect((await fetch(`${baseUrl}/orders`)).status).to.eq(405)
+        } finally {
+            server.close()
+        }
+    })
+})
@@ -0,0 +1,123 @@
+import hre, { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroHash } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import { ReleaseEntry, getBuildVersion, readReleases } from '../scripts/release'
+import { readSafeBatch } from '../scripts/safe'
+
+describe('Release', () => {
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let safe: string
+    let tmpDir: string
+    let chainId: bigint
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        // Stands in for a master copy of unknown version, and for a Safe
+        safe = await mockRandomiser.getAddress()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                safe,
+                safe,
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
+        tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-release-'))
+    })
+
+    afterEach(async () => {
+        await fs.rm(tmpDir, { recursive: true, force: true })
+    })
+
+    async function release(contract: string, version: string, args: Record<string, unknown> = {}) {
+        return hre.run('release', {
+            contract,
+            release: version,
+            factory: await factory.getAddress(),
+            changelog: tmpDir,
+            layouts: tmpDir,
+            noCompile: true,
+            ...args,
+        }) as Promise<ReleaseEntry | null>
+    }
+
+    it('should release a Lootery implementation & record it', async () => {
+        const version = await getBuildVersion(hre.artifacts, 'Lootery')
+        const entry = (await release('Lootery', version))!
+        expect(entry).to.deep.include({
+            contract: 'Lootery',
+            version,
+            futureId: `LooteryImplV${version.replace(/\./g, '_')}#Lootery`,
+            factory: await factory.getAddress(),
+            previous: { version: null, implementation: safe },
+        })
+        expect(entry.update.kind).to.eq('Transaction')
+        expect(await factory.getLooteryMasterCopy()).to.eq(entry.implementation)
+        expect(
+            await Lootery__factory.connect(entry.implementation, deployer).typeAndVersion(),
+        ).to.eq(`Lootery ${version}`)
+        expect(await readReleases(chainId, tmpDir)).to.deep.eq([entry])
+        // The released layout is snapshotted
+        await fs.access(path.join(tmpDir, 'Lootery', `${version}.json`))
+
+        // Already live
+        expect(await release('Lootery', version)).to.eq(null)
+        expect(await readReleases(chainId, tmpDir)).to.have.length(1)
+    })
+
+    it('should not release a version that is not the build', async () => {
+        await expect(release('Lootery', '0.0.1')).to.be.rejectedWith(/bump its typeAndVersion/)
+        await expect(release('LooteryFactory', 'latest')).to.be.rejectedWith(/Invalid version/)
+        await expect(release('LooteryImpl', '1.0.0')).to.be.rejectedWith(/Unknown contract/)
+    })
+
+    it('should not deploy anything on a dry run', async () => {
+        const version = await getBuildVersion(hre.artifacts, 'Lootery')
+        expect(await release('Lootery', version, { dryRun: true })).to.eq(null)
+        expect(await factory.getLooteryMasterCopy()).to.eq(safe)
+        expect(await readReleases(chainId, tmpDir)).to.deep.eq([])
+    })
+
+    it('should do nothing if the factory is already at the version', async () => {
+        const version = await getBuildVersion(hre.artifacts, 'LooteryFactory')
+        expect(await release('LooteryFactory', version)).to.eq(null)
+    })
+
+    it('should write a Safe batch if a Safe administers the factory', async () => {
+        const version = await getBuildVersion(hre.artifacts, 'Lootery')
+        await factory.grantRole(ZeroHash, safe)
+        await factory.revokeRole(ZeroHash, deployer.address)
+        const out = path.join(tmpDir, 'batch.json')
+        await expect(release('Lootery', version, { safe: deployer.address })).to.be.rejectedWith(
+            /is an admin of the factory/,
+        )
+
+        const entry = (await release('Lootery', version, { safe, out }))!
+        expect(entry.update).to.deep.eq({ kind: 'SafeBatch', safe, file: out })
+        // Up to the Safe's owners
+        expect(await factory.getLooteryMasterCopy()).to.eq(safe)
+        const batch = await readSafeBatch(out)
+        expect(batch.meta.createdFromSafeAddress).to.eq(safe)
+        expect(batch.transactions).to.have.length(1)
+        expect(batch.transactions[0].contractMethod!.name).to.eq('setLooteryMasterCopy')
+        expect(batch.transactions[0].contractInputsValues).to.deep.eq({
+            looteryMasterCopy: entry.implementation,
+        })
+    })
+})
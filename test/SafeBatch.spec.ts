@@ -0,0 +1,253 @@
+import hre, { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    TicketSVGRenderer__factory,
+    LooteryHarness,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroHash } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import { looteryFactoryInterface, looteryInterface } from '../sdk/contracts'
+import {
+    SafeBatch,
+    calculateSafeBatchChecksum,
+    createSafeBatch,
+    decodeSafeBatch,
+    encodeSafeTransaction,
+    formatSafeBatch,
+} from '../sdk/safe'
+
+describe('Safe batches', () => {
+    const lootery = '0x000000000000000000000000000000000000dEaD'
+    const beneficiary = '0x000000000000000000000000000000000000bEEF'
+
+    function createBatch() {
+        return createSafeBatch({
+            chainId: 8453n,
+            safe: '0xF9FCDf64160087Ac1610bB1366750D55043ef206',
+            name: 'Test',
+            createdAt: 0,
+            transactions: [
+                encodeSafeTransaction(lootery, looteryInterface, 'setBeneficiary', [
+                    beneficiary,
+                    'Beneficiary',
+                    true,
+                ]),
+                encodeSafeTransaction(lootery, looteryFactoryInterface, 'setTicketSVGRenderer', [
+                    beneficiary,
+                ]),
+                encodeSafeTransaction(lootery, looteryInterface, 'kill'),
+            ],
+        })
+    }
+
+    it('should encode calls as Transaction Builder transactions', () => {
+        const [setBeneficiary, , kill] = createBatch().transactions
+        expect(setBeneficiary.contractMethod!.name).to.eq('setBeneficiary')
+        expect(setBeneficiary.contractInputsValues).to.deep.eq({
+            beneficiary,
+            displayName: 'Beneficiary',
+            isBeneficiary: 'true',
+        })
+        expect(setBeneficiary.data).to.eq(
+            looteryInterface.encodeFunctionData('setBeneficiary', [
+                beneficiary,
+                'Beneficiary',
+                true,
+            ]),
+        )
+        expect(kill.contractInputsValues).to.deep.eq({})
+        expect(kill.value).to.eq('0')
+    })
+
+    it('should decode a batch against the exported ABIs', () => {
+        const batch = createBatch()
+        const decoded = decodeSafeBatch(batch)
+        expect(decoded.map((tx) => tx.fragment!.name)).to.deep.eq([
+            'setBeneficiary',
+            'setTicketSVGRenderer',
+            'kill',
+        ])
+        // Same selector on both contracts
+        expect(decoded[1].contracts).to.deep.eq(['LooteryFactory', 'Lootery'])
+        expect(decoded.every((tx) => !tx.dataMismatch)).to.eq(true)
+
+        const formatted = formatSafeBatch(batch, { [lootery]: 'Lotto' })
+        expect(formatted).to.include(`#1 to ${lootery} (Lotto)`)
+        expect(formatted).to.include('Lootery.setBeneficiary(address,string,bool)')
+        expect(formatted).to.include(`beneficiary: ${beneficiary}`)
+        expect(formatted).not.to.include('WARNING')
+    })
+
+    it('should flag batches that were tampered with', () => {
+        const batch: SafeBatch = JSON.parse(JSON.stringify(createBatch()))
+        expect(calculateSafeBatchChecksum(batch)).to.eq(batch.meta.checksum)
+        batch.transactions[0].contractInputsValues!.displayName = 'Someone else'
+        expect(calculateSafeBatchChecksum(batch)).not.to.eq(batch.meta.checksum)
+
+        const [decoded] = decodeSafeBatch(batch)
+        expect(decoded.dataMismatch).to.eq(true)
+        // What's executed is what's displayed in the Transaction Builder
+        expect(decoded.args!.displayName).to.eq('Someone else')
+        const formatted = formatSafeBatch(batch)
+        expect(formatted).to.include('checksum mismatch')
+        expect(formatted).to.include('data does not match the displayed inputs')
+    })
+
+    it('should decode unknown calls as such', () => {
+        const batch = createBatch()
+        batch.transactions.push({
+            to: lootery,
+            value: '1',
+            data: '0x12345678',
+            contractMethod: null,
+            contractInputsValues: null,
+        })
+        const decoded = decodeSafeBatch(batch)
+        expect(decoded[3]).to.include({ fragment: null, value: 1n })
+        expect(formatSafeBatch(batch)).to.include('Unknown call')
+    })
+
+    describe('tasks', () => {
+        let factory: LooteryFactory
+        let deployer: SignerWithAddress
+        let alice: SignerWithAddress
+        let lotto: LooteryHarness
+        let tmpDir: string
+        beforeEach(async () => {
+            ;[deployer, alice] = await ethers.getSigners()
+            const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+            const testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+            const looteryImpl = await new Lootery__factory(deployer).deploy()
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            factory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await looteryImpl.getAddress(),
+                    await mockRandomiser.getAddress(),
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+            ;({ lotto } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            }))
+            tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-safe-'))
+        })
+
+        afterEach(async () => {
+            await fs.rm(tmpDir, { recursive: true, force: true })
+        })
+
+        /** Execute a batch as the Safe would, i.e. each call from the Safe */
+        async function execute(batch: SafeBatch, safe: SignerWithAddress) {
+            for (const tx of batch.transactions) {
+                await safe.sendTransaction({ to: tx.to, data: tx.data!, value: tx.value })
+            }
+        }
+
+        it('should build & decode a batch of factory admin calls', async () => {
+            const out = path.join(tmpDir, 'factory.json')
+            // The deployer stands in for the Safe
+            const batch: SafeBatch = await hre.run('safe:factory', {
+                factory: await factory.getAddress(),
+                safe: deployer.address,
+                feeRecipient: alice.address,
+                grant: alice.address,
+                out,
+            })
+            expect(batch.transactions.map((tx) => tx.contractMethod!.name)).to.deep.eq([
+                'setFeeRecipient',
+                'grantRole',
+            ])
+            const decoded = await hre.run('safe:decode', { batch: out })
+            expect(decoded).to.have.length(2)
+
+            await execute(batch, deployer)
+            expect(await factory.getFeeRecipient()).to.eq(alice.address)
+            expect(await factory.hasRole(ZeroHash, alice.address)).to.eq(true)
+        })
+
+        it('should build a batch recording lotteries launched before the factory recorded them', async () => {
+            const batch: SafeBatch = await hre.run('safe:factory', {
+                factory: await factory.getAddress(),
+                safe: deployer.address,
+                recordLaunched: await lotto.getAddress(),
+                out: path.join(tmpDir, 'factory.json'),
+            })
+            expect(batch.transactions.map((tx) => tx.contractMethod!.name)).to.deep.eq([
+                'recordLaunchedLooteries',
+            ])
+            expect(batch.transactions[0].contractInputsValues).to.deep.eq({
+                looteryMasterCopy: await factory.getLooteryMasterCopy(),
+                nonces: '[0]',
+            })
+
+            await expect(
+                hre.run('safe:factory', {
+                    factory: await factory.getAddress(),
+                    safe: deployer.address,
+                    recordLaunched: alice.address,
+                    out: path.join(tmpDir, 'factory.json'),
+                }),
+            ).to.be.rejectedWith(/is not a clone of a lottery/)
+        })
+
+        it('should refuse to build a batch that the Safe cannot execute', async () => {
+            await expect(
+                hre.run('safe:factory', {
+                    factory: await factory.getAddress(),
+                    safe: alice.address,
+                    revoke: deployer.address,
+                    out: path.join(tmpDir, 'factory.json'),
+                }),
+            ).to.be.rejectedWith(/Simulation of #1 revokeRole/)
+        })
+
+        it('should build a batch of lottery owner calls', async () => {
+            const out = path.join(tmpDir, 'lootery.json')
+            const batch: SafeBatch = await hre.run('safe:lootery', {
+                lootery: await lotto.getAddress(),
+                beneficiary: alice.address,
+                displayName: 'Alice',
+                withdrawFees: true,
+                kill: true,
+                out,
+            })
+            expect(batch.meta.createdFromSafeAddress).to.eq(deployer.address)
+            expect(batch.transactions.map((tx) => tx.contractMethod!.name)).to.deep.eq([
+                'setBeneficiary',
+                'withdrawAccruedFees',
+                'kill',
+            ])
+            await execute(batch, deployer)
+            expect(await lotto.beneficiaryDisplayNames(alice.address)).to.eq('Alice')
+            expect(await lotto.isApocalypseMode()).to.eq(true)
+
+            // Already killed
+            await expect(
+                hre.run('safe:lootery', { lootery: await lotto.getAddress(), kill: true, out }),
+            ).to.be.rejectedWith(/Simulation of #1 kill .* reverted: GameInactive/)
+            await expect(
+                hre.run('safe:lootery', {
+                    lootery: await lotto.getAddress(),
+                    safe: alice.address,
+                    kill: true,
+                    out,
+                }),
+            ).to.be.rejectedWith(/is owned by/)
+        })
+    })
+})
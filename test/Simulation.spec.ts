@@ -0,0 +1,197 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import { MaxUint256, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import { readOddsParams } from '../sdk/odds'
+import { LooterySimulation, SimulationError, simulate } from '../sdk/simulation'
+import { GameState } from '../sdk/GameState'
+
+describe('Simulation', () => {
+    const params = {
+        pickLength: 2n,
+        maxBallValue: 5n,
+        ticketPrice: parseEther('0.1'),
+        communityFeeBps: 5000n,
+        hasProtocolFee: true,
+        gamePeriod: 600n,
+        seedJackpotDelay: 3600n,
+        seedJackpotMinValue: parseEther('1'),
+    }
+
+    it('should mirror Lootery reverts', () => {
+        const sim = new LooterySimulation(params, { startedAt: 0n, protocolFeeRecipient: 'dave' })
+        expect(() => sim.purchase('alice', [], 'carol')).to.throw(SimulationError)
+        expect(() => sim.purchase('alice', [{ whomst: 'alice', pick: [1n, 2n] }], 'carol'))
+            .to.throw(SimulationError)
+            .with.property('reason', 'UnknownBeneficiary')
+        expect(() => sim.draw())
+            .to.throw(SimulationError)
+            .with.property('reason', 'WaitLonger')
+
+        sim.advanceTime(3600n)
+        sim.seedJackpot('owner', parseEther('1'))
+        expect(() => sim.seedJackpot('owner', parseEther('1')))
+            .to.throw(SimulationError)
+            .with.property('reason', 'RateLimited')
+
+        const [tokenId] = sim.purchase(
+            'alice',
+            [{ whomst: 'alice', pick: [1n, 2n] }],
+            ethers.ZeroAddress,
+        )
+        expect(sim.draw()).to.eq(true)
+        expect(() => sim.claimWinnings(tokenId))
+            .to.throw(SimulationError)
+            .with.property('reason', 'UnexpectedState')
+    })
+
+    it('should conserve prize tokens over many games', () => {
+        const sim = simulate({
+            params,
+            rounds: 500,
+            ticketsPerGame: 5,
+            claimProbability: 0.5,
+            seedAmount: parseEther('1'),
+            kill: true,
+            players: ['alice', 'bob'],
+            beneficiaries: ['carol'],
+            owner: 'owner',
+            protocolFeeRecipient: 'dave',
+            seed: 'conservation',
+        })
+        expect(sim.rounds).to.have.length(500)
+        expect(sim.state).to.eq(GameState.Dead)
+        expect(sim.balance).to.eq(sim.jackpot + sim.unclaimedPayouts + sim.accruedCommunityFees)
+        const netFlows = [...sim.balances.values()].reduce((sum, value) => sum + value, 0n)
+        expect(netFlows + sim.balance).to.eq(0n)
+    })
+
+    it('should replay identically against Lootery', async () => {
+        const [deployer, alice, bob, carol, dave] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        const testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        const factory: LooteryFactory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        await factory.setFeeRecipient(dave.address)
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: params.gamePeriod,
+            prizeToken: testERC20,
+            pickLength: params.pickLength,
+            maxBallValue: params.maxBallValue,
+            seedJackpotDelay: params.seedJackpotDelay,
+            seedJackpotMinValue: params.seedJackpotMinValue,
+            shouldSkipSeedJackpot: true,
+        })
+        expect((await readOddsParams(lotto)).params).to.deep.eq({
+            pickLength: params.pickLength,
+            maxBallValue: params.maxBallValue,
+            ticketPrice: params.ticketPrice,
+            communityFeeBps: params.communityFeeBps,
+            hasProtocolFee: params.hasProtocolFee,
+            gamePeriod: params.gamePeriod,
+        })
+        await lotto.setBeneficiary(carol.address, 'Carol', true)
+        for (const signer of [deployer, alice, bob]) {
+            await testERC20.mint(signer, parseEther('100'))
+            await testERC20.connect(signer).approve(lotto, MaxUint256)
+        }
+        await setBalance(await lotto.getAddress(), parseEther('1'))
+        const accounts = [deployer, alice, bob, carol, dave]
+        const initialBalances = await Promise.all(
+            accounts.map((account) => testERC20.balanceOf(account)),
+        )
+
+        const sim = simulate({
+            params,
+            rounds: 12,
+            ticketsPerGame: 3,
+            ticketsPerPurchase: 3,
+            claimProbability: 0.6,
+            seedAmount: parseEther('1'),
+            kill: true,
+            players: [alice.address, bob.address],
+            beneficiaries: [carol.address],
+            owner: deployer.address,
+            protocolFeeRecipient: dave.address,
+            seed: 'd',
+            startedAt: (await lotto.gameData(0)).startedAt,
+            timestamp: BigInt(await time.latest()),
+            recordHistory: true,
+        })
+        // Make sure the history exercises winners, expired claims, skipped
+        // draws, seeding and consolation payouts
+        expect(sim.rounds.some((round) => round.winners > 0n)).to.eq(true)
+        expect(sim.rounds.some((round) => round.expiredPayouts > 0n)).to.eq(true)
+        expect(sim.rounds.some((round) => round.winningPick === null)).to.eq(true)
+        expect(sim.rounds.filter((round) => round.seeded > 0n)).to.have.length.greaterThan(1)
+        expect(sim.rounds[sim.rounds.length - 1].winners).to.eq(0n)
+
+        const signerOf = (address: string) => accounts.find((a) => a.address === address)!
+        for (const action of sim.history) {
+            await time.setNextBlockTimestamp(action.timestamp)
+            switch (action.type) {
+                case 'purchase':
+                    await lotto
+                        .connect(signerOf(action.buyer))
+                        .purchase(action.tickets, action.beneficiary)
+                    break
+                case 'seedJackpot':
+                    await lotto.connect(signerOf(action.from)).seedJackpot(action.value)
+                    break
+                case 'draw':
+                    await lotto.draw()
+                    break
+                case 'fulfil': {
+                    const { requestId } = await lotto.randomnessRequest()
+                    await mockRandomiser.fulfillRandomness(requestId, action.randomWord)
+                    break
+                }
+                case 'claimWinnings':
+                    await lotto.claimWinnings(action.tokenId)
+                    break
+                case 'kill':
+                    await lotto.kill()
+                    break
+                case 'withdrawAccruedFees':
+                    await lotto.connect(signerOf(action.to)).withdrawAccruedFees()
+                    break
+            }
+        }
+
+        const currentGame = await lotto.currentGame()
+        expect(currentGame.state).to.eq(sim.state)
+        expect(currentGame.id).to.eq(sim.gameId)
+        expect(await lotto.jackpot()).to.eq(sim.jackpot)
+        expect(await lotto.unclaimedPayouts()).to.eq(sim.unclaimedPayouts)
+        expect(await lotto.accruedCommunityFees()).to.eq(sim.accruedCommunityFees)
+        expect(await lotto.totalSupply()).to.eq(sim.totalSupply)
+        expect(await testERC20.balanceOf(lotto)).to.eq(sim.balance)
+        for (const [i, account] of accounts.entries()) {
+            expect((await testERC20.balanceOf(account)) - initialBalances[i]).to.eq(
+                sim.balances.get(account.address) ?? 0n,
+                `Balance of ${account.address}`,
+            )
+        }
+    })
+})
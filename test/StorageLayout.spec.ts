@@ -0,0 +1,169 @@
+import hre from 'hardhat'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import {
+    STORAGE_LAYOUT_CONTRACTS,
+    StorageLayoutSnapshot,
+    compareStorageLayouts,
+    compareVersions,
+    getBuildStorageLayout,
+    listSnapshotVersions,
+    readSnapshot,
+} from '../scripts/storageLayout'
+
+describe('Storage layouts', () => {
+    let lootery: StorageLayoutSnapshot
+    beforeEach(async () => {
+        lootery = await readSnapshot('Lootery', '1.9.0')
+    })
+
+    function withStorage(snapshot: StorageLayoutSnapshot, storage = snapshot.storage) {
+        return { ...snapshot, version: '2.0.0', storage: storage.map((e) => ({ ...e })) }
+    }
+
+    function kinds(previous: StorageLayoutSnapshot, next: StorageLayoutSnapshot) {
+        return compareStorageLayouts(previous, next).map((c) => [c.kind, c.label, c.compatible])
+    }
+
+    it('should order versions numerically', async () => {
+        expect(['1.10.0', '1.9.0', '1.9.1', '2.0'].sort(compareVersions)).to.deep.eq([
+            '1.9.0',
+            '1.9.1',
+            '1.10.0',
+            '2.0',
+        ])
+        expect(await listSnapshotVersions('LooteryFactory')).to.include('1.6.0')
+        expect(await listSnapshotVersions('NotAContract')).to.deep.eq([])
+    })
+
+    it('should report no changes for the same layout', () => {
+        expect(compareStorageLayouts(lootery, withStorage(lootery))).to.deep.eq([])
+    })
+
+    it('should allow appending & renaming variables', () => {
+        const next = withStorage(lootery)
+        next.storage.push({ ...next.storage[0], label: 'appended', slot: '26', offset: 0 })
+        next.storage.find((e) => e.label === 'jackpot')!.label = 'jackpotBalance'
+        expect(kinds(lootery, next)).to.deep.eq([
+            ['Renamed', 'jackpot', true],
+            ['Added', 'appended', true],
+        ])
+    })
+
+    it('should flag reordered variables', () => {
+        const next = withStorage(lootery)
+        const jackpot = next.storage.find((e) => e.label === 'jackpot')!
+        const unclaimedPayouts = next.storage.find((e) => e.label === 'unclaimedPayouts')!
+        ;[jackpot.slot, unclaimedPayouts.slot] = [unclaimedPayouts.slot, jackpot.slot]
+        expect(kinds(lootery, next)).to.deep.eq([
+            ['Moved', 'unclaimedPayouts', false],
+            ['Moved', 'jackpot', false],
+        ])
+    })
+
+    it('should flag inserted & removed variables', () => {
+        // Inserting a variable shifts everything after it
+        const inserted = withStorage(lootery)
+        for (const entry of inserted.storage.slice(3)) {
+            entry.slot = String(Number(entry.slot) + 1)
+        }
+        const changes = compareStorageLayouts(lootery, inserted)
+        expect(changes.filter((c) => !c.compatible)).to.have.length(lootery.storage.length - 3)
+
+        const removed = withStorage(
+            lootery,
+            lootery.storage.filter((e) => e.label !== 'beneficiaryDisplayNames'),
+        )
+        expect(kinds(lootery, removed)).to.deep.eq([['Removed', 'beneficiaryDisplayNames', false]])
+    })
+
+    it('should flag type changes, including within structs', () => {
+        const next = withStorage(lootery)
+        next.storage.find((e) => e.label === 'jackpot')!.type = 't_uint64'
+        expect(kinds(lootery, next)).to.deep.eq([['TypeChanged', 'jackpot', false]])
+
+        // Swap two members of the CurrentGame struct
+        const currentGame = lootery.storage.find((e) => e.label === 'currentGame')!
+        const types = structuredClone(lootery.types)!
+        const members = types[currentGame.type].members!
+        ;[members[0].label, members[1].label] = [members[1].label, members[0].label]
+        expect(kinds(lootery, { ...withStorage(lootery), types })).to.deep.eq([
+            ['TypeChanged', 'currentGame', false],
+        ])
+    })
+
+    it('should flag changes to fixed slots', async () => {
+        const factory = await readSnapshot('LooteryFactory', '1.6.0')
+        const {
+            'LooteryFactory.LOOTERY_MASTER_COPY_SLOT': masterCopySlot,
+            'LooteryFactory.RANDOMISER_SLOT': randomiserSlot,
+            'LooteryFactory.NONCE_SLOT': _,
+            ...rest
+        } = factory.fixedSlots
+        const next = {
+            ...factory,
+            fixedSlots: {
+                ...rest,
+                'LooteryFactory.LOOTERY_MASTER_COPY_SLOT': randomiserSlot,
+                'LooteryFactory.IMPL_SLOT': masterCopySlot,
+                'LooteryFactory.NEW_SLOT': `0x${'11'.repeat(32)}`,
+            },
+        }
+        expect(kinds(factory, next)).to.deep.eq([
+            ['FixedSlotChanged', 'LooteryFactory.LOOTERY_MASTER_COPY_SLOT', false],
+            ['FixedSlotRenamed', 'LooteryFactory.RANDOMISER_SLOT', true],
+            ['FixedSlotRemoved', 'LooteryFactory.NONCE_SLOT', false],
+            ['FixedSlotAdded', 'LooteryFactory.NEW_SLOT', true],
+        ])
+    })
+
+    describe('current build', () => {
+        let tmpDir: string
+        beforeEach(async () => {
+            tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-storage-layouts-'))
+        })
+
+        afterEach(async () => {
+            await fs.rm(tmpDir, { recursive: true, force: true })
+        })
+
+        it('should be compatible with the latest released layouts', async () => {
+            for (const contractName of Object.keys(STORAGE_LAYOUT_CONTRACTS)) {
+                const latest = (await listSnapshotVersions(contractName)).pop()!
+                const changes = compareStorageLayouts(
+                    await readSnapshot(contractName, latest),
+                    await getBuildStorageLayout(hre.artifacts, contractName),
+                )
+                expect(changes.filter((c) => !c.compatible)).to.deep.eq([])
+            }
+        })
+
+        it('should snapshot & check with storage-layout tasks', async () => {
+            const files = await hre.run('storage-layout:snapshot', {
+                dir: tmpDir,
+                noCompile: true,
+            })
+            expect(files).to.have.length(Object.keys(STORAGE_LAYOUT_CONTRACTS).length)
+            // Snapshotting again is a no-op
+            expect(
+                await hre.run('storage-layout:snapshot', { dir: tmpDir, noCompile: true }),
+            ).to.deep.eq([])
+            await hre.run('storage-layout:check', { dir: tmpDir, noCompile: true })
+
+            // Pretend that the released factory stored its master copy elsewhere
+            const { version } = await getBuildStorageLayout(hre.artifacts, 'LooteryFactory')
+            const file = path.join(tmpDir, 'LooteryFactory', `${version}.json`)
+            const snapshot = JSON.parse(await fs.readFile(file, { encoding: 'utf-8' }))
+            snapshot.fixedSlots['LooteryFactory.LOOTERY_MASTER_COPY_SLOT'] = `0x${'11'.repeat(32)}`
+            await fs.writeFile(file, JSON.stringify(snapshot))
+            await expect(
+                hre.run('storage-layout:check', { dir: tmpDir, noCompile: true }),
+            ).to.be.rejectedWith(/1 incompatible storage layout change\(s\) in LooteryFactory/)
+            await expect(
+                hre.run('storage-layout:snapshot', { dir: tmpDir, noCompile: true }),
+            ).to.be.rejectedWith(/already snapshotted with a different layout/)
+        })
+    })
+})
@@ -0,0 +1,230 @@
+import hre, { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+    ThemedTicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { expectToMatchSnapshot } from './helpers/snapshot'
+import { computeWinningPick } from '../sdk/winningPick'
+import { SafeBatch } from '../sdk/safe'
+import { TICKET_THEMES, TicketTheme } from '../scripts/ticketTheme'
+import {
+    decodeDataURI,
+    decodeTokenURI,
+    getTicketNumbers,
+    parseXML,
+    validateTicketTokenURI,
+} from '../scripts/tokenURI'
+
+describe('ThemedTicketSVGRenderer', () => {
+    let deployer: SignerWithAddress
+    let alice: SignerWithAddress
+    beforeEach(async () => {
+        ;[deployer, alice] = await ethers.getSigners()
+    })
+
+    async function deployRenderer(theme: TicketTheme) {
+        return new ThemedTicketSVGRenderer__factory(deployer).deploy(theme)
+    }
+
+    /** Attributes as rendered; parsing with the metadata schema would strip `display_type` */
+    function getAttributes(tokenURI: string) {
+        return JSON.parse(decodeDataURI(tokenURI).content).attributes
+    }
+
+    for (const [themeName, theme] of Object.entries(TICKET_THEMES)) {
+        describe(`${themeName} theme`, () => {
+            const cases: [string, number, number[]][] = [
+                ['Lotto', 69, [3, 14, 15, 42, 69]],
+                // Escaped name; partial last row
+                ['Fish & Chips', 12, [1, 12]],
+            ]
+            for (const [name, maxPick, pick] of cases) {
+                it(`should render maxPick=${maxPick} as snapshotted`, async () => {
+                    const renderer = await deployRenderer(theme)
+                    const svg = await renderer.renderSVG(name, maxPick, pick)
+                    await expectToMatchSnapshot(svg, `ThemedTicketSVG/${themeName}-${maxPick}.svg`)
+                    const root = parseXML(svg)
+                    expect(root.attributes.width).to.eq(String((theme.numbersPerRow + 1) * 50))
+                    const numbers = getTicketNumbers(root)
+                    expect(numbers.map(({ number }) => Number(number))).to.deep.eq(
+                        Array.from({ length: maxPick }, (_, i) => i + 1),
+                    )
+                    expect(
+                        numbers
+                            .filter(({ circles }) => circles > 0)
+                            .map(({ number }) => Number(number)),
+                    ).to.deep.eq(pick)
+                })
+            }
+        })
+    }
+
+    it('should render metadata with a logo & escaped description', async () => {
+        const renderer = await deployRenderer({
+            ...TICKET_THEMES.midnight,
+            logo: 'ipfs://bafkreigh2akiscaildc/logo.svg?a=1&b=2',
+            description: 'Say "hi"\nto the \\o/',
+        })
+        const { metadata, svg } = decodeTokenURI(
+            await renderer.renderTokenURI('Fish & Chips', 3n, 36, [7, 36]),
+        )
+        expect(metadata.name).to.eq('Fish & Chips Ticket #3')
+        expect(metadata.description).to.eq('Say "hi"\nto the \\o/')
+        // Not called by a lottery, so there's no game to look up
+        expect(metadata.attributes).to.deep.eq([{ trait_type: 'Pick', value: '7, 36' }])
+        await expectToMatchSnapshot(svg, 'ThemedTicketSVG/logo.svg')
+    })
+
+    it('should reject zero numbers per row', async () => {
+        await expect(
+            deployRenderer({ ...TICKET_THEMES.classic, numbersPerRow: 0 }),
+        ).to.be.revertedWithCustomError(
+            new ThemedTicketSVGRenderer__factory(deployer),
+            'InvalidNumbersPerRow',
+        )
+    })
+
+    describe('as the renderer of a lottery', () => {
+        let testERC20: MockERC20
+        let factory: LooteryFactory
+        beforeEach(async () => {
+            const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+            testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+            const looteryImpl = await new Lootery__factory(deployer).deploy()
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            factory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await looteryImpl.getAddress(),
+                    await mockRandomiser.getAddress(),
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+        })
+
+        it('should add game & winner attributes', async () => {
+            const { lotto, fastForwardAndDraw } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            })
+            const renderer = await deployRenderer(TICKET_THEMES.wide)
+            await lotto.setTicketSVGRenderer(renderer)
+            await testERC20.mint(deployer, parseEther('1'))
+            await testERC20.approve(lotto, parseEther('1'))
+            const randomness = 1234n
+            const winningPick = computeWinningPick(5n, 69n, randomness)
+            const { tokenId: winner } = await purchaseTicket(lotto, deployer.address, winningPick)
+            const { tokenId: loser } = await purchaseTicket(
+                lotto,
+                deployer.address,
+                [1, 2, 3, 4, 5],
+            )
+
+            const undrawn = validateTicketTokenURI(
+                await lotto.tokenURI(loser),
+                [1n, 2n, 3n, 4n, 5n],
+                69n,
+            )
+            expect(undrawn.metadata.description).to.eq(TICKET_THEMES.wide.description)
+            expect(getAttributes(await lotto.tokenURI(loser))).to.deep.eq([
+                { trait_type: 'Game', display_type: 'number', value: 0 },
+                { trait_type: 'Pick', value: '1, 2, 3, 4, 5' },
+                { trait_type: 'Winner', value: 'Not drawn' },
+            ])
+            await expectToMatchSnapshot(undrawn.svg, 'ThemedTicketSVG/lottery.svg')
+
+            await fastForwardAndDraw(randomness)
+            expect(getAttributes(await lotto.tokenURI(winner))).to.deep.include({
+                trait_type: 'Winner',
+                value: 'Yes',
+            })
+            expect(getAttributes(await lotto.tokenURI(loser))).to.deep.include({
+                trait_type: 'Winner',
+                value: 'No',
+            })
+        })
+
+        describe('lootery:deploy-renderer', () => {
+            let tmpDir: string
+            beforeEach(async () => {
+                tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-renderer-'))
+            })
+
+            afterEach(async () => {
+                await fs.rm(tmpDir, { recursive: true, force: true })
+            })
+
+            it('should deploy a theme file and switch owned lotteries to it', async () => {
+                const { lotto } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: testERC20,
+                })
+                const themeFile = path.join(tmpDir, 'mine.yaml')
+                await fs.writeFile(
+                    themeFile,
+                    [
+                        "background: '#000000'",
+                        "foreground: '#00ff00'",
+                        'accent: magenta',
+                        'description: Mine',
+                        'numbersPerRow: 6',
+                    ].join('\n'),
+                )
+                const rendererAddress: string = await hre.run('lootery:deploy-renderer', {
+                    theme: themeFile,
+                    lootery: await lotto.getAddress(),
+                })
+                expect(await lotto.ticketSVGRenderer()).to.eq(rendererAddress)
+                const renderer = ThemedTicketSVGRenderer__factory.connect(rendererAddress, deployer)
+                expect((await renderer.theme()).fontFamily).to.eq('Arial')
+                expect((await renderer.theme()).numbersPerRow).to.eq(6n)
+
+                await expect(
+                    hre.run('lootery:deploy-renderer', { theme: path.join(tmpDir, 'nope.yaml') }),
+                ).to.be.rejectedWith(/neither a theme file nor one of classic/)
+            })
+
+            it('should write a Safe batch for lotteries owned by a Safe', async () => {
+                const { lotto } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: testERC20,
+                })
+                await lotto.transferOwnership(alice.address)
+                const out = path.join(tmpDir, 'renderer.json')
+                const rendererAddress: string = await hre.run('lootery:deploy-renderer', {
+                    theme: 'midnight',
+                    lootery: await lotto.getAddress(),
+                    out,
+                })
+                const batch: SafeBatch = JSON.parse(await fs.readFile(out, 'utf-8'))
+                expect(batch.meta.createdFromSafeAddress).to.eq(alice.address)
+                expect(batch.transactions).to.have.length(1)
+                expect(batch.transactions[0].contractMethod!.name).to.eq('setTicketSVGRenderer')
+                expect(batch.transactions[0].contractInputsValues).to.deep.eq({
+                    renderer: rendererAddress,
+                })
+            })
+        })
+    })
+})
@@ -3,7 +3,8 @@ import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
 import { TicketSVGRenderer, TicketSVGRenderer__factory } from '../typechain-types'
 import { expect } from 'chai'
 import { getBytes, toBeHex } from 'ethers'
-import { shuffle } from './helpers/lotto'
+import { shuffle, slikpik } from './helpers/lotto'
+import { renderTicketSVG, renderTicketTokenURI } from '../sdk/ticketSvg'
 
 describe('TicketSVG', () => {
     let deployer: SignerWithAddress
@@ -79,6 +80,34 @@ describe('TicketSVG', () => {
             expect(tokenURI).to.match(/^data:application\/json;base64,.+$/)
         })
     })
+
+    describe('off-chain renderer', () => {
+        // Includes multiples of 5, whose last row the contract lays out specially
+        const maxPicks = [1n, 4n, 5n, 6n, 10n, 11n, 25n, 26n, 36n, 50n, 69n]
+
+        it('should render the same SVG as #renderSVG', async () => {
+            for (const maxPick of maxPicks) {
+                const pickLength = maxPick < 5n ? maxPick : 5n
+                for (const pick of [[], [maxPick], slikpik(pickLength, maxPick)]) {
+                    const name = 'The Lootery ✨'
+                    expect(renderTicketSVG(name, maxPick, pick)).to.eq(
+                        await ticketSVGRenderer.renderSVG(name, maxPick, pick),
+                        `maxPick=${maxPick}, pick=${pick}`,
+                    )
+                }
+            }
+        })
+
+        it('should render the same tokenURI as #renderTokenURI', async () => {
+            for (const maxPick of maxPicks) {
+                const pick = slikpik(maxPick < 5n ? maxPick : 5n, maxPick)
+                expect(renderTicketTokenURI('The Lootery', 420n, maxPick, pick)).to.eq(
+                    await ticketSVGRenderer.renderTokenURI('The Lootery', 420n, maxPick, pick),
+                    `maxPick=${maxPick}, pick=${pick}`,
+                )
+            }
+        })
+    })
 })
 
 function getInterfaceId(fns: string[]) {
@@ -0,0 +1,171 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, encodeBase64, parseEther, toUtf8Bytes } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { computePick, deployLotto, slikpik } from './helpers/lotto'
+import { renderTicketTokenURI } from '../sdk/ticketSvg'
+import {
+    TokenURIError,
+    decodeTokenURI,
+    parseXML,
+    validateTicketTokenURI,
+} from '../scripts/tokenURI'
+
+describe('tokenURI', () => {
+    describe('validator', () => {
+        function toDataURI(mediaType: string, content: string) {
+            return `data:${mediaType};base64,${encodeBase64(toUtf8Bytes(content))}`
+        }
+
+        it('should parse well-formed XML', () => {
+            const root = parseXML(
+                "<?xml version='1.0'?><!-- ticket --><svg a='1' b=\"2\"><text>&amp;&#60;</text><rect /></svg>",
+            )
+            expect(root.name).to.eq('svg')
+            expect(root.attributes).to.deep.eq({ a: '1', b: '2' })
+            expect(root.children).to.have.length(2)
+        })
+
+        it('should reject malformed XML', () => {
+            for (const xml of [
+                '<svg><text></svg>',
+                '<svg a=1 />',
+                "<svg a='1' a='2' />",
+                '<svg />trailing',
+                '<svg>A & B</svg>',
+                '<svg>&nbsp;</svg>',
+                '<svg>',
+            ]) {
+                expect(() => parseXML(xml), xml).to.throw(TokenURIError, /at offset/)
+            }
+        })
+
+        it('should reject metadata that does not match the schema', () => {
+            expect(() => decodeTokenURI('https://example.com/1.json')).to.throw(/Not a data URI/)
+            expect(() => decodeTokenURI(toDataURI('application/json', '{"name":1}'))).to.throw(
+                /Erc721MetadataSchema/,
+            )
+            expect(() =>
+                decodeTokenURI(
+                    toDataURI(
+                        'application/json',
+                        JSON.stringify({ image: toDataURI('image/svg+xml', '<svg>') }),
+                    ),
+                ),
+            ).to.throw(/Unclosed <svg>/)
+        })
+
+        it('should check that exactly the pick is circled', () => {
+            const tokenURI = renderTicketTokenURI('Lotto', 1n, 10n, [2n, 3n])
+            expect(validateTicketTokenURI(tokenURI, [2n, 3n], 10n).metadata.name).to.eq(
+                'Lotto Ticket #1',
+            )
+            expect(() => validateTicketTokenURI(tokenURI, [2n], 10n)).to.throw(
+                /Expected 3 to be circled 0 time/,
+            )
+            expect(() => validateTicketTokenURI(tokenURI, [2n, 3n, 4n], 10n)).to.throw(
+                /Expected 4 to be circled 1 time/,
+            )
+            expect(() => validateTicketTokenURI(tokenURI, [2n, 3n], 11n)).to.throw(
+                /Expected numbers 1..11/,
+            )
+        })
+
+        it('should flag lottery names that break the SVG', () => {
+            // The renderer doesn't escape the name
+            const tokenURI = renderTicketTokenURI('Fish & Chips', 1n, 10n, [2n])
+            expect(() => validateTicketTokenURI(tokenURI, [2n], 10n)).to.throw(/Unescaped &/)
+        })
+    })
+
+    describe('Lootery#tokenURI', () => {
+        let factory: LooteryFactory
+        let deployer: SignerWithAddress
+        let testERC20: MockERC20
+        beforeEach(async () => {
+            ;[deployer] = await ethers.getSigners()
+            const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+            testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+            const looteryImpl = await new Lootery__factory(deployer).deploy()
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            factory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await looteryImpl.getAddress(),
+                    await mockRandomiser.getAddress(),
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+        })
+
+        // [pickLength, maxBallValue]; multiples of 5 fill their last row, which
+        // the renderer's `cols` calculation treats specially
+        const edgeCases: [bigint, bigint][] = [
+            [1n, 5n],
+            [2n, 4n],
+            [5n, 5n],
+            [5n, 10n],
+            [3n, 11n],
+            [6n, 25n],
+            [5n, 50n],
+            [5n, 69n],
+        ]
+        const randomCases = Array.from({ length: 6 }, (): [bigint, bigint] => {
+            const pickLength = 1 + Math.floor(Math.random() * 8)
+            const maxBallValue = pickLength + 1 + Math.floor(Math.random() * (80 - pickLength))
+            return [BigInt(pickLength), BigInt(maxBallValue)]
+        })
+
+        for (const [pickLength, maxBallValue] of [...edgeCases, ...randomCases]) {
+            it(`should render valid metadata for pickLength=${pickLength}, maxBallValue=${maxBallValue}`, async () => {
+                const { lotto } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: testERC20,
+                    pickLength,
+                    maxBallValue,
+                })
+                await testERC20.mint(deployer, parseEther('10'))
+                await testERC20.approve(lotto, parseEther('10'))
+                const picks = [
+                    slikpik(pickLength, maxBallValue),
+                    slikpik(pickLength, maxBallValue),
+                    // First & last numbers
+                    [
+                        ...Array.from({ length: Number(pickLength) - 1 }, (_, i) => BigInt(i + 1)),
+                        maxBallValue,
+                    ],
+                ]
+                await lotto.purchase(
+                    picks.map((pick) => ({ whomst: deployer.address, pick })),
+                    ZeroAddress,
+                )
+
+                const totalSupply = await lotto.totalSupply()
+                for (let tokenId = 1n; tokenId <= totalSupply; tokenId++) {
+                    const { pickId } = await lotto.purchasedTickets(tokenId)
+                    const pick = computePick(pickId)
+                    expect(pick).to.deep.eq(picks[Number(tokenId) - 1])
+                    const { metadata } = validateTicketTokenURI(
+                        await lotto.tokenURI(tokenId),
+                        pick,
+                        maxBallValue,
+                    )
+                    expect(metadata.name).to.eq(`Lotto Ticket #${tokenId}`)
+                }
+            })
+        }
+    })
+})
@@ -0,0 +1,172 @@
+import { ethers } from 'hardhat'
+import * as hre from 'hardhat'
+import {
+    LooteryFactory,
+    LooteryFactory__factory,
+    Lootery__factory,
+    MockRandomiser__factory,
+    MockERC20__factory,
+    type MockERC20,
+    TicketSVGRenderer__factory,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { getRandomValues } from 'node:crypto'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto, purchaseTicket, slikpik } from './helpers/lotto'
+import { auditWinningPick, computeWinningPick, feistelShuffle } from '../sdk'
+import { parseEther } from 'ethers'
+
+const isCoverage = Boolean((hre as any).__SOLIDITY_COVERAGE_RUNNING)
+const runs = isCoverage ? 10 : 100
+
+function randomBigInt(bytes: number) {
+    return BigInt(`0x${Buffer.from(getRandomValues(new Uint8Array(bytes))).toString('hex')}`)
+}
+
+describe('WinningPick', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    beforeEach(async () => {
+        ;[deployer, bob] = await ethers.getSigners()
+        const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+        const looteryImpl = await new Lootery__factory(deployer).deploy()
+        const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+        factory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryImpl.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+    })
+
+    describe('feistelShuffle', () => {
+        it('should be a permutation of the domain', () => {
+            for (const domain of [1n, 2n, 36n, 69n, 255n]) {
+                const seed = randomBigInt(32)
+                const outputs = new Set<bigint>()
+                for (let x = 0n; x < domain; x++) {
+                    const y = feistelShuffle(x, domain, seed, 12n)
+                    expect(y < domain).to.eq(true)
+                    outputs.add(y)
+                }
+                expect(outputs.size).to.eq(Number(domain))
+            }
+        })
+
+        it('should reject out-of-domain inputs', () => {
+            expect(() => feistelShuffle(69n, 69n, 1n, 12n)).to.throw()
+        })
+    })
+
+    describe('computeWinningPick', () => {
+        const edgeCases: [pickLength: number, maxBallValue: number][] = [
+            [1, 1],
+            [1, 255],
+            [5, 5],
+            [6, 36], // perfect square domain
+            [8, 64],
+            [32, 32],
+            [32, 255],
+        ]
+        for (const [pickLength, maxBallValue] of edgeCases) {
+            it(`should match on-chain result for ${pickLength}/${maxBallValue}`, async () => {
+                const { lotto } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: testERC20,
+                    pickLength: BigInt(pickLength),
+                    maxBallValue: BigInt(maxBallValue),
+                    shouldSkipSeedJackpot: true,
+                })
+                for (let i = 0; i < 10; i++) {
+                    const seed = randomBigInt(32)
+                    expect(computeWinningPick(pickLength, maxBallValue, seed)).to.deep.eq(
+                        Array.from(await lotto.computeWinningPick(seed)),
+                    )
+                }
+            })
+        }
+
+        for (let i = 0; i < runs; i++) {
+            it(`should match on-chain result for random configs (${i + 1}/${runs})`, async () => {
+                const pickLength = 1 + Math.floor(Math.random() * 32)
+                // maxBallValue in [pickLength, 256)
+                let maxBallValue: number
+                do {
+                    maxBallValue = Number(randomBigInt(1))
+                } while (maxBallValue < pickLength)
+                const { lotto } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: testERC20,
+                    pickLength: BigInt(pickLength),
+                    maxBallValue: BigInt(maxBallValue),
+                    shouldSkipSeedJackpot: true,
+                })
+                const seed = randomBigInt(32)
+                expect(computeWinningPick(pickLength, maxBallValue, seed)).to.deep.eq(
+                    Array.from(await lotto.computeWinningPick(seed)),
+                )
+            })
+        }
+    })
+
+    describe('auditWinningPick', () => {
+        it('should re-derive the winning pick of finalised games', async () => {
+            const { lotto, fastForwardAndDraw } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            })
+            for (let gameId = 0n; gameId < 3n; gameId++) {
+                await testERC20.mint(bob, parseEther('0.1'))
+                await testERC20.connect(bob).approve(lotto, parseEther('0.1'))
+                await purchaseTicket(lotto.connect(bob), bob.address, slikpik(5n, 69n))
+                const randomWord = randomBigInt(32)
+                const winningPick = await fastForwardAndDraw(randomWord)
+
+                const audit = await auditWinningPick(lotto, gameId)
+                expect(audit.isMatch).to.eq(true)
+                expect(audit.randomWord).to.eq(randomWord)
+                expect(audit.requestIds).to.deep.eq([audit.requestId])
+                expect(audit.derivedPick).to.deep.eq(Array.from(winningPick))
+            }
+        })
+
+        it('should detect a mismatching random word', async () => {
+            const { lotto, fastForwardAndDraw } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            })
+            await testERC20.mint(bob, parseEther('0.1'))
+            await testERC20.connect(bob).approve(lotto, parseEther('0.1'))
+            await purchaseTicket(lotto.connect(bob), bob.address, [31, 35, 37, 56, 61])
+            await fastForwardAndDraw(6942069420n)
+
+            const audit = await auditWinningPick(lotto, 0n, { randomWord: 6942069421n })
+            expect(audit.isMatch).to.eq(false)
+        })
+
+        it('should reject games that have not been finalised', async () => {
+            const { lotto } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+            })
+            await expect(auditWinningPick(lotto, 0n)).to.be.rejectedWith(/not been finalised/)
+        })
+    })
+})
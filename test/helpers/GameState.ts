@@ -1,6 +1 @@
-export enum GameState {
-    Uninitialised,
-    Purchase,
-    DrawPending,
-    Dead,
-}
+export { GameState } from '../../sdk/GameState'
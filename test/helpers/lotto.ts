@@ -11,29 +11,16 @@ import { encrypt } from '@kevincharm/gfc-fpe'
 import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
 import {
     parseEther,
-    hexlify,
     ethers,
     ZeroAddress,
     LogDescription,
     BigNumberish,
     TransactionResponse,
 } from 'ethers'
-import crypto from 'node:crypto'
+import { quickPick } from '../../sdk/quickPick'
+import { countMatches } from '../../sdk/pick'
 
-export function computePick(pickId: bigint): bigint[] {
-    if (pickId & 1n) throw new Error('0 is not a valid ball value')
-    const pick: bigint[] = []
-    for (let i = 1n; i < 256n; i++) {
-        if ((pickId >> i) & 1n) {
-            pick.push(i)
-        }
-    }
-    return pick
-}
-
-export function computePickId(picks: bigint[]) {
-    return picks.reduce((id, pick) => id | (1n << pick), 0n)
-}
+export { computePick, computePickId, countMatches } from '../../sdk/pick'
 
 export async function deployLotto({
     deployer,
@@ -128,15 +115,7 @@ export function shuffle(i: bigint, domain: bigint, seed: bigint, rounds: bigint)
 }
 
 export function slikpik(pickLength: bigint, domain: bigint) {
-    const seed = BigInt(hexlify(crypto.getRandomValues(new Uint8Array(32))))
-
-    const picks: bigint[] = []
-    for (let i = 0; i < pickLength; i++) {
-        const pick = 1n + shuffle(BigInt(i), domain, seed, 12n)
-        picks.push(pick)
-    }
-    picks.sort((a, b) => Number(a - b))
-    return picks
+    return quickPick({ pickLength, maxBallValue: domain }).pick.map(BigInt)
 }
 
 /**
@@ -236,3 +215,44 @@ export async function getLottoEvent<TArgs>({
           })
         | undefined
 }
+
+/**
+ * Count the tickets that won each prize tier, i.e. that matched exactly the
+ * tier's number of winning balls (see {Lootery-_countPrizeTierWinners})
+ * @param pickIds Pick identities of all tickets in the game
+ * @param winningPickId Winning pick identity
+ * @param tiers Prize tiers of the game
+ * @returns Number of winners of each tier
+ */
+export function countPrizeTierWinners(
+    pickIds: bigint[],
+    winningPickId: bigint,
+    tiers: { matches: BigNumberish }[],
+): bigint[] {
+    return tiers.map(({ matches }) =>
+        BigInt(
+            pickIds.filter(
+                (pickId) => BigInt(countMatches(pickId, winningPickId)) === BigInt(matches),
+            ).length,
+        ),
+    )
+}
+
+/**
+ * Compute the payouts reserved for each prize tier when a game is finalised
+ * (see {Lootery-_reservePrizeTierPayouts}). Tiers without winners reserve
+ * nothing, so their share stays in the pot.
+ * @param pot Jackpot plus unclaimed payouts of the last game
+ * @param tiers Prize tiers of the game
+ * @param numWinners Number of winners of each tier
+ * @returns Payouts of each tier
+ */
+export function computePrizeTierPayouts(
+    pot: bigint,
+    tiers: { shareBps: BigNumberish }[],
+    numWinners: bigint[],
+): bigint[] {
+    return tiers.map(({ shareBps }, t) =>
+        numWinners[t] > 0n ? (pot * BigInt(shareBps)) / 10_000n : 0n,
+    )
+}
@@ -0,0 +1,26 @@
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+export const SNAPSHOTS_DIR = path.resolve(__dirname, '../snapshots')
+
+/**
+ * Compare against a snapshot file committed under `test/snapshots`. Run the
+ * tests with UPDATE_SNAPSHOTS=1 to (re)write snapshots instead, then review
+ * the diff before committing.
+ * @param actual Rendered output
+ * @param name Path of the snapshot, relative to `test/snapshots`
+ */
+export async function expectToMatchSnapshot(actual: string, name: string) {
+    const file = path.join(SNAPSHOTS_DIR, name)
+    if (process.env.UPDATE_SNAPSHOTS) {
+        await fs.mkdir(path.dirname(file), { recursive: true })
+        await fs.writeFile(file, actual, { encoding: 'utf-8' })
+        return
+    }
+    const expected = await fs.readFile(file, { encoding: 'utf-8' }).catch((err) => {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        throw new Error(`Missing snapshot ${name}; run the tests with UPDATE_SNAPSHOTS=1`)
+    })
+    expect(actual, `Snapshot ${name} is out of date`).to.eq(expected)
+}